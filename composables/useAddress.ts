@@ -57,7 +57,7 @@ export function useAddress() {
    */
   function isValidAddress(
     address: string,
-    network?: 'livenet' | 'testnet',
+    network?: NetworkType,
   ): boolean {
     if (!address || typeof address !== 'string') return false
 
@@ -141,7 +141,7 @@ export function useAddress() {
    */
   function publicKeyToAddress(
     publicKeyHex: string,
-    networkName: 'livenet' | 'testnet' = 'livenet',
+    networkName: NetworkType = 'livenet',
   ): string | null {
     if (!publicKeyHex) return null
 
@@ -163,7 +163,7 @@ export function useAddress() {
    */
   function hashToAddress(
     hash: string,
-    networkName: 'livenet' | 'testnet' = 'livenet',
+    networkName: NetworkType = 'livenet',
   ): string | null {
     if (!hash) return null
 
@@ -185,10 +185,10 @@ export function useAddress() {
    */
   function getNetworkFromAddress(
     address: string,
-  ): 'livenet' | 'testnet' | null {
+  ): NetworkType | null {
     const info = parseAddress(address)
     if (!info) return null
-    return info.network as 'livenet' | 'testnet'
+    return info.network
   }
 
   /**
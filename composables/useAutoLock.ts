@@ -0,0 +1,37 @@
+/**
+ * useAutoLock Composable
+ *
+ * Locks the wallet after the configured period of user inactivity.
+ * Mount once from the default layout. Lock-on-background is handled by
+ * the wallet store's visibility handler.
+ */
+import { useWalletStore } from '~/stores/wallet'
+import { useSettingsStore } from '~/stores/settings'
+
+/** How often the idle timer is checked */
+const IDLE_CHECK_INTERVAL_MS = 15_000
+
+export function useAutoLock() {
+  const walletStore = useWalletStore()
+  const settingsStore = useSettingsStore()
+
+  // Tracks mouse, keyboard, touch and scroll activity
+  const { lastActive } = useIdle()
+
+  function checkIdle() {
+    const timeoutMs = settingsStore.lockTimeoutMs
+    if (!timeoutMs || walletStore.vaultStatus !== 'unlocked') return
+
+    if (Date.now() - lastActive.value >= timeoutMs) {
+      walletStore.lock()
+    }
+  }
+
+  const { pause, resume } = useIntervalFn(checkIdle, IDLE_CHECK_INTERVAL_MS)
+
+  return {
+    lastActive: readonly(lastActive),
+    pause,
+    resume,
+  }
+}
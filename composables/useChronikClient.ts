@@ -45,6 +45,12 @@ export function useChronikClient() {
   /** Active subscriptions */
   const activeSubscriptions = computed(() => $chronik.getActiveSubscriptions())
 
+  /** Latest health of each Chronik endpoint of the network */
+  const endpointHealth = computed(() => $chronik.getEndpointHealth())
+
+  /** Chronik endpoint currently in use */
+  const activeEndpoint = computed(() => $chronik.getActiveEndpoint())
+
   // ============================================================================
   // Methods (delegated to plugin)
   // ============================================================================
@@ -177,6 +183,13 @@ export function useChronikClient() {
     return $chronik.convertChronikUtxos(chronikUtxos)
   }
 
+  /**
+   * Check every Chronik endpoint now, failing over if needed
+   */
+  async function checkEndpointHealth(): Promise<void> {
+    return $chronik.checkEndpointHealth()
+  }
+
   // ============================================================================
   // Return
   // ============================================================================
@@ -187,6 +200,8 @@ export function useChronikClient() {
     isConnected,
     connectionOptions,
     activeSubscriptions,
+    endpointHealth,
+    activeEndpoint,
 
     // Methods
     initialize,
@@ -205,5 +220,6 @@ export function useChronikClient() {
     updateScriptOptions,
     getAccountIdForScript,
     convertChronikUtxos,
+    checkEndpointHealth,
   }
 }
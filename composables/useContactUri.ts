@@ -7,11 +7,16 @@
  *
  * URI Format:
  *   lotus-contact://<PRIMARY_ADDRESS>?name=<URL_ENCODED_NAME>&pubkey=<HEX_PUBKEY>
+ *     &ts=<UNIX_SECONDS>&sig=<BASE64_SIGNATURE>
  *
  * Examples:
  *   lotus-contact://lotus_16PSJKLMN...
  *   lotus-contact://lotus_16PSJKLMN...?name=Alice
  *   lotus-contact://lotus_16PSJKLMN...?name=Alice&pubkey=02abc123...
+ *
+ * A signed card carries a message signature by `pubkey` over the address,
+ * name, key and timestamp (see contactCardMessage), proving the key's owner
+ * handed it out. Parsing rejects a card whose signature does not verify.
  */
 import { useAddress } from './useAddress'
 
@@ -29,6 +34,14 @@ export interface ContactUriData {
   name?: string
   /** Compressed public key hex (optional) - enables MuSig2 capability */
   publicKeyHex?: string
+  /** Unix timestamp (seconds) the card was signed at */
+  timestamp?: number
+  /** Message signature by the public key over the card (base64) */
+  signature?: string
+  /** Set when parsed: signed by its key, and the key derives the address */
+  verified?: boolean
+  /** Set when parsed: the public key does not derive the address */
+  addressMismatch?: boolean
 }
 
 /**
@@ -47,6 +60,26 @@ export interface ContactUriParseResult {
 export const CONTACT_URI_SCHEME = 'lotus-contact'
 export const CONTACT_URI_PREFIX = `${CONTACT_URI_SCHEME}://`
 
+/** Domain tag of the signed card message, bumped if its fields change */
+const CONTACT_CARD_MESSAGE_TAG = 'lotus-contact-card-v1'
+
+/**
+ * Canonical message a contact card's signature covers
+ */
+export function contactCardMessage(
+  data: Pick<ContactUriData, 'address' | 'name' | 'publicKeyHex'> & {
+    timestamp: number
+  },
+): string {
+  return JSON.stringify([
+    CONTACT_CARD_MESSAGE_TAG,
+    data.address,
+    data.name ?? '',
+    data.publicKeyHex ?? '',
+    data.timestamp,
+  ])
+}
+
 // ============================================================================
 // Composable
 // ============================================================================
@@ -117,6 +150,29 @@ export function useContactUri() {
             data.publicKeyHex = pubkey.toLowerCase()
           }
         }
+
+        const ts = params.get('ts')
+        if (ts && /^\d+$/.test(ts)) {
+          data.timestamp = Number(ts)
+        }
+
+        const sig = params.get('sig')
+        if (sig) {
+          data.signature = sig
+        }
+      }
+
+      if (data.publicKeyHex) {
+        data.addressMismatch = !publicKeyDerivesAddress(
+          data.publicKeyHex,
+          address,
+        )
+      }
+
+      if (data.signature) {
+        const error = _verifyCardSignature(data)
+        if (error) return { success: false, error }
+        data.verified = !data.addressMismatch
       }
 
       return { success: true, data }
@@ -130,6 +186,37 @@ export function useContactUri() {
     }
   }
 
+  /**
+   * Check a card's signature against its public key
+   * @returns An error message, or null if the signature is valid
+   */
+  function _verifyCardSignature(data: ContactUriData): string | null {
+    if (!data.publicKeyHex || data.timestamp === undefined) {
+      return 'Signed contact card is missing its public key or timestamp'
+    }
+    const network = getNetworkFromAddress(data.address)
+    const keyAddress = network
+      ? deriveAddressFromPublicKey(data.publicKeyHex, network)
+      : null
+    if (!keyAddress) {
+      return 'Invalid public key in contact card'
+    }
+    try {
+      const message = contactCardMessage({
+        ...data,
+        timestamp: data.timestamp,
+      })
+      if (
+        useWalletStore().verifyMessage(message, keyAddress, data.signature!)
+      ) {
+        return null
+      }
+    } catch {
+      // Malformed signature
+    }
+    return 'Contact card signature is invalid'
+  }
+
   /**
    * Generate a Contact URI from contact data
    * @param data - Contact data to encode
@@ -152,6 +239,11 @@ export function useContactUri() {
       params.set('pubkey', data.publicKeyHex)
     }
 
+    if (data.signature && data.timestamp !== undefined) {
+      params.set('ts', String(data.timestamp))
+      params.set('sig', data.signature)
+    }
+
     const queryString = params.toString()
     if (queryString) {
       uri += `?${queryString}`
@@ -181,6 +273,31 @@ export function useContactUri() {
     })
   }
 
+  /**
+   * Generate a Contact URI for the current user, signed with the PRIMARY
+   * key so others can verify it came from this wallet
+   * @param name - Optional display name to include
+   * @returns Signed Contact URI, or null if the wallet is not initialized
+   */
+  async function generateMySignedContactUri(
+    name?: string,
+  ): Promise<string | null> {
+    const walletStore = useWalletStore()
+
+    const address = walletStore.getAccountAddress(AccountPurpose.PRIMARY)
+    const publicKeyHex = walletStore.getPublicKeyHex(AccountPurpose.PRIMARY)
+    if (!address || !publicKeyHex) return null
+
+    const card = {
+      address,
+      name,
+      publicKeyHex,
+      timestamp: Math.floor(Date.now() / 1000),
+    }
+    const signature = await walletStore.signMessage(contactCardMessage(card))
+    return generateContactUri({ ...card, signature })
+  }
+
   /**
    * Generate a Contact URI for an existing contact/person
    * @param person - Person object to generate URI for
@@ -212,6 +329,7 @@ export function useContactUri() {
     // Generation
     generateContactUri,
     generateMyContactUri,
+    generateMySignedContactUri,
     generateContactUriForPerson,
   }
 }
@@ -147,6 +147,14 @@ export const useExplorerApi = () => {
           bgClass: 'bg-muted/50',
           textClass: 'text-muted',
         }
+      case 'internal':
+        return {
+          label: 'Moved',
+          icon: 'i-lucide-arrow-left-right',
+          color: 'neutral' as const,
+          bgClass: 'bg-muted/50',
+          textClass: 'text-muted',
+        }
       default:
         return {
           label: 'Transaction',
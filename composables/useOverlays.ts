@@ -61,10 +61,17 @@ import {
   LazyPeopleAddContactModal,
   LazyPeopleShareContactModal,
   LazyPeopleShareMyContactModal,
+  LazyPeopleAddressBookModal,
+  LazyPeopleGroupsModal,
   LazySettingsBackupModal,
   LazySettingsRestoreWalletModal,
   LazySettingsViewPhraseModal,
+  LazySettingsChangePasswordModal,
+  LazySettingsWatchOnlyModal,
+  LazySettingsNetworkProfilesModal,
+  LazyActivityExportModal,
   LazyUiKeyboardShortcutsModal,
+  LazyWalletsSigningRequestModal,
 } from '#components'
 
 // ============================================================================
@@ -98,6 +105,8 @@ export interface AddContactModalProps {
   initialName?: string
   initialPublicKey?: string
   editPerson?: Person
+  /** Scanned contact card, to show its verification and verify the contact */
+  contactCard?: ContactUriData
 }
 
 export interface ShareContactModalProps {
@@ -106,6 +115,11 @@ export interface ShareContactModalProps {
 
 export type ActionSheetAction = 'send' | 'receive' | 'scan'
 
+export interface SigningRequestModalProps {
+  /** MuSig2 session awaiting our approval */
+  sessionId: string
+}
+
 export interface VoteSlideoverProps {
   sentiment: 'positive' | 'negative'
   platform: string
@@ -274,10 +288,17 @@ type ModalMap = {
   addContactModal: typeof LazyPeopleAddContactModal
   shareContactModal: typeof LazyPeopleShareContactModal
   shareMyContactModal: typeof LazyPeopleShareMyContactModal
+  addressBookModal: typeof LazyPeopleAddressBookModal
+  groupsModal: typeof LazyPeopleGroupsModal
   backupModal: typeof LazySettingsBackupModal
   restoreWalletModal: typeof LazySettingsRestoreWalletModal
   viewPhraseModal: typeof LazySettingsViewPhraseModal
+  changePasswordModal: typeof LazySettingsChangePasswordModal
+  watchOnlyModal: typeof LazySettingsWatchOnlyModal
+  networkProfilesModal: typeof LazySettingsNetworkProfilesModal
+  historyExportModal: typeof LazyActivityExportModal
   keyboardShortcutsModal: typeof LazyUiKeyboardShortcutsModal
+  signingRequestModal: typeof LazyWalletsSigningRequestModal
 }
 
 type ModalKey = keyof ModalMap
@@ -356,10 +377,17 @@ export async function prewarmOverlays(): Promise<void> {
       import('~/components/people/AddContactModal.vue'),
       import('~/components/people/ShareContactModal.vue'),
       import('~/components/people/ShareMyContactModal.vue'),
+      import('~/components/people/AddressBookModal.vue'),
+      import('~/components/people/GroupsModal.vue'),
       import('~/components/settings/BackupModal.vue'),
       import('~/components/settings/RestoreWalletModal.vue'),
       import('~/components/settings/ViewPhraseModal.vue'),
+      import('~/components/settings/ChangePasswordModal.vue'),
+      import('~/components/settings/WatchOnlyModal.vue'),
+      import('~/components/settings/NetworkProfilesModal.vue'),
+      import('~/components/activity/ExportModal.vue'),
       import('~/components/ui/KeyboardShortcutsModal.vue'),
+      import('~/components/wallets/SigningRequestModal.vue'),
     ])
     console.log('[Overlays] Modal components preloaded')
   } catch (error) {
@@ -380,10 +408,17 @@ export async function prewarmOverlays(): Promise<void> {
   getModal('addContactModal', LazyPeopleAddContactModal)
   getModal('shareContactModal', LazyPeopleShareContactModal)
   getModal('shareMyContactModal', LazyPeopleShareMyContactModal)
+  getModal('addressBookModal', LazyPeopleAddressBookModal)
+  getModal('groupsModal', LazyPeopleGroupsModal)
   getModal('backupModal', LazySettingsBackupModal)
   getModal('restoreWalletModal', LazySettingsRestoreWalletModal)
   getModal('viewPhraseModal', LazySettingsViewPhraseModal)
+  getModal('changePasswordModal', LazySettingsChangePasswordModal)
+  getModal('watchOnlyModal', LazySettingsWatchOnlyModal)
+  getModal('networkProfilesModal', LazySettingsNetworkProfilesModal)
+  getModal('historyExportModal', LazyActivityExportModal)
   getModal('keyboardShortcutsModal', LazyUiKeyboardShortcutsModal)
+  getModal('signingRequestModal', LazyWalletsSigningRequestModal)
   console.log('[Overlays] Overlay instances created')
 
   // Set to prewarmed after component preloading and instance creation
@@ -590,6 +625,20 @@ export function useOverlays() {
     await cleanupHistoryAfterClose('shareMyContactModal')
   }
 
+  async function openAddressBookModal(): Promise<void> {
+    const modal = getModal('addressBookModal', LazyPeopleAddressBookModal)
+    pushHistoryState('addressBookModal', modal.id, () => modal.close())
+    await modal.open()
+    await cleanupHistoryAfterClose('addressBookModal')
+  }
+
+  async function openGroupsModal(): Promise<void> {
+    const modal = getModal('groupsModal', LazyPeopleGroupsModal)
+    pushHistoryState('groupsModal', modal.id, () => modal.close())
+    await modal.open()
+    await cleanupHistoryAfterClose('groupsModal')
+  }
+
   // --------------------------------------------------------------------------
   // Settings Modals
   // --------------------------------------------------------------------------
@@ -617,6 +666,60 @@ export function useOverlays() {
     await cleanupHistoryAfterClose('viewPhraseModal')
   }
 
+  async function openChangePasswordModal(): Promise<void> {
+    const modal = getModal(
+      'changePasswordModal',
+      LazySettingsChangePasswordModal,
+    )
+    pushHistoryState('changePasswordModal', modal.id, () => modal.close())
+    await modal.open()
+    await cleanupHistoryAfterClose('changePasswordModal')
+  }
+
+  async function openWatchOnlyModal(): Promise<void> {
+    const modal = getModal('watchOnlyModal', LazySettingsWatchOnlyModal)
+    pushHistoryState('watchOnlyModal', modal.id, () => modal.close())
+    await modal.open()
+    await cleanupHistoryAfterClose('watchOnlyModal')
+  }
+
+  async function openNetworkProfilesModal(): Promise<void> {
+    const modal = getModal(
+      'networkProfilesModal',
+      LazySettingsNetworkProfilesModal,
+    )
+    pushHistoryState('networkProfilesModal', modal.id, () => modal.close())
+    await modal.open()
+    await cleanupHistoryAfterClose('networkProfilesModal')
+  }
+
+  // --------------------------------------------------------------------------
+  // Activity Modals
+  // --------------------------------------------------------------------------
+
+  async function openHistoryExportModal(): Promise<void> {
+    const modal = getModal('historyExportModal', LazyActivityExportModal)
+    pushHistoryState('historyExportModal', modal.id, () => modal.close())
+    await modal.open()
+    await cleanupHistoryAfterClose('historyExportModal')
+  }
+
+  // --------------------------------------------------------------------------
+  // Shared Wallet Modals
+  // --------------------------------------------------------------------------
+
+  async function openSigningRequestModal(
+    props: SigningRequestModalProps,
+  ): Promise<void> {
+    const modal = getModal(
+      'signingRequestModal',
+      LazyWalletsSigningRequestModal,
+    )
+    pushHistoryState('signingRequestModal', modal.id, () => modal.close())
+    await modal.open(props)
+    await cleanupHistoryAfterClose('signingRequestModal')
+  }
+
   // --------------------------------------------------------------------------
   // UI Modals
   // --------------------------------------------------------------------------
@@ -652,11 +755,22 @@ export function useOverlays() {
     openAddContactModal,
     openShareContactModal,
     openShareMyContactModal,
+    openAddressBookModal,
+    openGroupsModal,
 
     // Settings modals
     openBackupModal,
     openRestoreWalletModal,
     openViewPhraseModal,
+    openChangePasswordModal,
+    openWatchOnlyModal,
+    openNetworkProfilesModal,
+
+    // Activity modals
+    openHistoryExportModal,
+
+    // Shared wallet modals
+    openSigningRequestModal,
 
     // UI modals
     openKeyboardShortcutsModal,
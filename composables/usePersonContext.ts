@@ -42,6 +42,8 @@ export interface PersonContext {
   onlineStatus: ComputedRef<OnlineStatus>
   /** Number of transactions with this person */
   transactionCount: ComputedRef<number>
+  /** On-chain transactions with this person, once reconciled */
+  ledger: ComputedRef<PersonLedger | undefined>
   /** Whether the person is currently online */
   isOnline: ComputedRef<boolean>
   /** Whether the person is a favorite */
@@ -76,6 +78,10 @@ export interface PersonContext {
   toggleFavorite: () => boolean | undefined
   /** Assign to a group */
   assignToGroup: (groupId: string | null) => void
+  /** Add a tag, reporting why it was refused */
+  addTag: (tag: string) => ValidationResult
+  /** Remove a tag */
+  removeTag: (tag: string) => void
   /** Update the person */
   update: (updates: Partial<Person>) => Promise<Person | undefined>
 }
@@ -125,6 +131,8 @@ export function usePersonContext(
 
   const transactionCount = computed(() => person.value?.transactionCount ?? 0)
 
+  const ledger = computed(() => peopleStore.getLedger(id.value))
+
   const isFavorite = computed(() => person.value?.isFavorite ?? false)
 
   const displayName = computed(() => person.value?.name ?? 'Unknown')
@@ -191,10 +199,20 @@ export function usePersonContext(
   }
 
   function assignToGroup(groupId: string | null): void {
-    if (!person.value || !groupId) return
+    if (!person.value) return
     peopleStore.assignToGroup(person.value.id, groupId)
   }
 
+  function addTag(tag: string): ValidationResult {
+    if (!person.value) return { valid: false, error: 'Person not found' }
+    return peopleStore.addTag(person.value.id, tag)
+  }
+
+  function removeTag(tag: string): void {
+    if (!person.value) return
+    peopleStore.removeTag(person.value.id, tag)
+  }
+
   async function update(updates: Partial<Person>): Promise<Person | undefined> {
     if (!person.value) return undefined
     return peopleStore.updatePerson(person.value.id, updates)
@@ -208,6 +226,7 @@ export function usePersonContext(
     identity,
     onlineStatus,
     transactionCount,
+    ledger,
     isOnline,
     isFavorite,
     displayName,
@@ -226,6 +245,8 @@ export function usePersonContext(
     copyPublicKey,
     toggleFavorite,
     assignToGroup,
+    addTag,
+    removeTag,
     update,
   }
 }
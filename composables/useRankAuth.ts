@@ -208,7 +208,7 @@ export const useRankAuth = () => {
 
     // Sign the payload using the wallet's private key
     try {
-      const signature = walletStore.signMessage(payloadStr)
+      const signature = await walletStore.signMessage(payloadStr)
       const header = toBase64(payloadStr + AUTH_HEADER_DELIMITER + signature)
 
       // Cache the new header
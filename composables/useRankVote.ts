@@ -16,6 +16,8 @@ import {
   type ScriptChunkPlatformUTF8,
 } from 'xpi-ts/lib/rank'
 import { useWalletStore } from '~/stores/wallet'
+import { useFeeStore } from '~/stores/fees'
+import { usePendingTxStore } from '~/stores/pendingTxs'
 
 // ============================================================================
 // Types
@@ -76,9 +78,11 @@ export const BURN_PRESETS = [
 
 export function useRankVote() {
   // Bitcore and crypto WebWorker plugin instance
-  const { $bitcore, $cryptoWorker, $chronik } = useNuxtApp()
+  const { $bitcore, $chronik } = useNuxtApp()
   const walletStore = useWalletStore()
-  const { addInputsToTransaction } = useTransactionBuilder()
+  const feeStore = useFeeStore()
+  const { addInputsToTransaction, selectUtxosForOutputs } =
+    useTransactionBuilder()
   const { Script, Transaction } = $bitcore
 
   const status = ref<VoteStatus>('idle')
@@ -133,29 +137,29 @@ export function useRankVote() {
         throw new Error('Could not get transaction build context')
       }
 
-      // --- Select UTXOs ---
-      const spendableUtxos = walletStore.getSpendableUtxos()
-      const sortedUtxos = [...spendableUtxos].sort((a, b) =>
-        Number(BigInt(b.value) - BigInt(a.value)),
+      // This is a PAID OP_RETURN output - the satoshis are burned
+      const rankOutput = new $bitcore.Output({
+        satoshis: burnAmountSats,
+        script: rankScript,
+      })
+
+      // --- Select UTXOs to cover burn + mining fee ---
+      await feeStore.refresh()
+      const feeRate = feeStore.rateFor('normal')
+      const selection = selectUtxosForOutputs(
+        walletStore.getSpendableUtxos(),
+        tx => tx.addOutput(rankOutput),
+        txContext,
+        feeRate,
       )
-
-      const selectedUtxos: UtxoEntry[] = []
-      let inputTotal = 0n
-
-      // Select enough UTXOs to cover burn + estimated mining fee (~500 sats buffer)
-      for (const utxo of sortedUtxos) {
-        selectedUtxos.push(utxo)
-        inputTotal += BigInt(utxo.value)
-        if (inputTotal >= burnAmountSats + 500n) break
-      }
-
-      if (inputTotal < burnAmountSats + 300n) {
+      if (!selection) {
         throw new Error('Insufficient balance for this vote')
       }
+      const selectedUtxos = selection.utxos
 
       // --- Construct transaction ---
       const tx = new Transaction()
-      tx.feePerByte(DEFAULT_FEE_RATE)
+      tx.feePerByte(feeRate)
 
       // Add inputs from selected UTXOs
       addInputsToTransaction(
@@ -168,13 +172,7 @@ export function useRankVote() {
       )
 
       // Add RANK output with burn amount
-      // This is a PAID OP_RETURN output - the satoshis are burned
-      tx.addOutput(
-        new $bitcore.Output({
-          satoshis: burnAmountSats,
-          script: rankScript,
-        }),
-      )
+      tx.addOutput(rankOutput)
 
       // Set change address for remaining sats
       tx.change(txContext.changeAddress)
@@ -183,31 +181,11 @@ export function useRankVote() {
       status.value = 'signing'
       const unsignedHex = tx.toString()
 
-      // Prepare UTXO data for crypto worker
-      const scriptHex = walletStore.getScriptHex()
-      if (!scriptHex) {
-        throw new Error('Script hex not available')
-      }
-
-      const utxosForSigning = selectedUtxos.map(utxo => ({
-        outpoint: utxo.outpoint,
-        satoshis: Number(utxo.value),
-        scriptHex,
-      }))
-
-      // Get private key from wallet
-      const privateKey = walletStore.getPrivateKeyHex()
-      if (!privateKey) {
-        throw new Error('Private key not available')
-      }
-
-      const { signedTxHex } = await $cryptoWorker.signTransaction(
+      // Sign in the crypto worker (prompts for unlock if auto-locked)
+      await walletStore.requireUnlocked()
+      const { signedTxHex } = await walletStore.signTransactionInWorker(
         unsignedHex,
-        utxosForSigning,
-        privateKey,
-        txContext.addressType,
-        txContext.internalPubKey?.toString(),
-        txContext.merkleRoot?.toString('hex'),
+        selectedUtxos,
       )
 
       // --- Broadcast ---
@@ -218,6 +196,11 @@ export function useRankVote() {
       if (!txid) {
         throw new Error('Broadcast succeeded but no txid returned')
       }
+      usePendingTxStore().track(
+        txid,
+        signedTxHex,
+        selectedUtxos.map(utxo => utxo.outpoint),
+      )
 
       // --- Success ---
       status.value = 'success'
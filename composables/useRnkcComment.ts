@@ -18,6 +18,8 @@
 import { toScriptRNKC, type ScriptChunkPlatformUTF8 } from 'xpi-ts/lib/rank'
 import { RNKC_MIN_FEE_RATE, MAX_OP_RETURN_DATA } from 'xpi-ts/utils/constants'
 import { useWalletStore } from '~/stores/wallet'
+import { useFeeStore } from '~/stores/fees'
+import { usePendingTxStore } from '~/stores/pendingTxs'
 
 // ============================================================================
 // Types
@@ -73,9 +75,11 @@ export const COMMENT_MIN_FEE_RATE = MIN_FEE_RATE_PER_BYTE
 // ============================================================================
 
 export function useRnkcComment() {
-  const { $bitcore, $cryptoWorker, $chronik } = useNuxtApp()
+  const { $bitcore, $chronik } = useNuxtApp()
   const walletStore = useWalletStore()
-  const { addInputsToTransaction } = useTransactionBuilder()
+  const feeStore = useFeeStore()
+  const { addInputsToTransaction, selectUtxosForOutputs } =
+    useTransactionBuilder()
   const { Script, Transaction } = $bitcore
 
   const status = ref<CommentStatus>('idle')
@@ -168,34 +172,33 @@ export function useRnkcComment() {
         throw new Error('Could not get transaction build context')
       }
 
-      // --- Select UTXOs ---
-      const spendableUtxos = walletStore.getSpendableUtxos()
-      const sortedUtxos = [...spendableUtxos].sort((a, b) =>
-        Number(BigInt(b.value) - BigInt(a.value)),
+      // Output 0: RNKC header with burn amount (PAID OP_RETURN)
+      // Output 1+: Comment data outputs (ZERO-VALUE OP_RETURN)
+      const rnkcOutputs = rnkcScripts.map(
+        (script, i) =>
+          new $bitcore.Output({
+            satoshis: i === 0 ? Number(burnAmountSats) : 0,
+            script: Script.fromBuffer(script),
+          }),
       )
 
-      const selectedUtxos: Array<{
-        outpoint: string
-        value: string
-        blockHeight: number
-        isCoinbase: boolean
-      }> = []
-      let inputTotal = 0n
-
-      // Select enough UTXOs to cover burn + estimated mining fee (~1000 sats buffer for multi-output tx)
-      for (const utxo of sortedUtxos) {
-        selectedUtxos.push(utxo)
-        inputTotal += BigInt(utxo.value)
-        if (inputTotal >= burnAmountSats + 1000n) break
-      }
-
-      if (inputTotal < burnAmountSats + 500n) {
+      // --- Select UTXOs to cover burn + mining fee ---
+      await feeStore.refresh()
+      const feeRate = feeStore.rateFor('normal')
+      const selection = selectUtxosForOutputs(
+        walletStore.getSpendableUtxos(),
+        tx => rnkcOutputs.forEach(output => tx.addOutput(output)),
+        txContext,
+        feeRate,
+      )
+      if (!selection) {
         throw new Error('Insufficient balance for this comment')
       }
+      const selectedUtxos = selection.utxos
 
       // --- Construct transaction ---
       const tx = new Transaction()
-      tx.feePerByte(DEFAULT_FEE_RATE)
+      tx.feePerByte(feeRate)
 
       // Add inputs from selected UTXOs
       addInputsToTransaction(
@@ -207,25 +210,9 @@ export function useRnkcComment() {
         txContext.merkleRoot,
       )
 
-      // Add RNKC outputs:
-      // Output 0: RNKC header with burn amount (PAID OP_RETURN)
-      const rnkcHeaderScript = Script.fromBuffer(rnkcScripts[0])
-      tx.addOutput(
-        new $bitcore.Output({
-          satoshis: Number(burnAmountSats),
-          script: rnkcHeaderScript,
-        }),
-      )
-
-      // Output 1+: Comment data outputs (ZERO-VALUE OP_RETURN)
-      for (let i = 1; i < rnkcScripts.length; i++) {
-        const commentScript = Script.fromBuffer(rnkcScripts[i])
-        tx.addOutput(
-          new $bitcore.Output({
-            satoshis: 0,
-            script: commentScript,
-          }),
-        )
+      // Add RNKC outputs
+      for (const output of rnkcOutputs) {
+        tx.addOutput(output)
       }
 
       // Set change address for remaining sats
@@ -235,25 +222,11 @@ export function useRnkcComment() {
       status.value = 'signing'
       const unsignedHex = tx.toString()
 
-      const utxosForSigning = selectedUtxos.map(utxo => ({
-        outpoint: utxo.outpoint,
-        satoshis: Number(utxo.value),
-        scriptHex: txContext.script.toHex(),
-      }))
-
-      // Get private key from wallet
-      const privateKey = walletStore.getPrivateKeyHex()
-      if (!privateKey) {
-        throw new Error('Private key not available')
-      }
-
-      const signResult = await $cryptoWorker.signTransaction(
+      // Sign in the crypto worker (prompts for unlock if auto-locked)
+      await walletStore.requireUnlocked()
+      const signResult = await walletStore.signTransactionInWorker(
         unsignedHex,
-        utxosForSigning,
-        privateKey,
-        txContext.addressType,
-        txContext.internalPubKey?.toString(),
-        txContext.merkleRoot?.toString('hex'),
+        selectedUtxos,
       )
 
       // --- Broadcast ---
@@ -264,6 +237,11 @@ export function useRnkcComment() {
       if (!txid) {
         throw new Error('Broadcast succeeded but no txid returned')
       }
+      usePendingTxStore().track(
+        txid,
+        signResult.signedTxHex,
+        selectedUtxos.map(utxo => utxo.outpoint),
+      )
 
       // --- Success ---
       status.value = 'success'
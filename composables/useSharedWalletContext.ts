@@ -25,14 +25,13 @@ import { useMuSig2Store } from '~/stores/musig2'
 import { useIdentityStore } from '~/stores/identity'
 import { useContactsStore, type Contact } from '~/stores/contacts'
 import { useWalletStore } from '~/stores/wallet'
-import type { Identity } from '~/types/identity'
+import type { Identity } from '~/utils/types/identity'
 import type { OnlineStatus } from '~/types/contact'
 import type { WalletSigningSession } from '~/plugins/05.musig2.client'
 import type {
   SharedWallet,
   SharedWalletParticipant,
-  Person,
-} from '~/types/people'
+} from '~/utils/types/people'
 
 // ============================================================================
 // Types
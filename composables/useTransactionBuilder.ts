@@ -2,7 +2,7 @@
  * useTransactionBuilder - Transaction building composable
  *
  * Extracts transaction building logic from the draft store to provide:
- * - UTXO selection (largest-first algorithm)
+ * - UTXO selection (strategies in utils/coinSelection.ts)
  * - Fee estimation using Bitcore's actual transaction building
  * - Transaction construction with proper Taproot/P2PKH support
  * - OP_RETURN data handling
@@ -57,6 +57,8 @@ export interface TransactionBuildContext {
   locktime?: LocktimeConfig | null
   /** Manually selected UTXOs for coin control (optional) */
   selectedUtxoOutpoints?: string[]
+  /** Coin selection strategy (optional, defaults to branch-and-bound) */
+  coinSelection?: CoinSelectionStrategy
 }
 
 export interface UtxoSelectionResult {
@@ -164,135 +166,78 @@ export function useTransactionBuilder() {
   }
 
   /**
-   * Select UTXOs to meet a target amount using largest-first selection.
-   * Uses Bitcore's built-in fee calculation by building actual transactions.
+   * Select UTXOs to pay for the outputs that `addOutputs` puts on a
+   * transaction. Byte sizes are measured once from a template transaction
+   * and the chosen strategy works from those.
+   */
+  function selectUtxosForOutputs(
+    utxos: UtxoEntry[],
+    addOutputs: (tx: InstanceType<typeof BitcoreTypes.Transaction>) => void,
+    txContext: Pick<
+      TransactionBuildContext,
+      'script' | 'addressType' | 'internalPubKey' | 'merkleRoot'
+    >,
+    feeRate: number,
+    strategy: CoinSelectionStrategy = DEFAULT_COIN_SELECTION_STRATEGY,
+  ): CoinSelection | null {
+    const Bitcore = getBitcoreSDK()
+    if (!Bitcore || !txContext.script || utxos.length === 0) return null
+
+    const template = new Bitcore.Transaction()
+    addOutputs(template)
+    const baseSize = template.toBuffer().length
+
+    addInputsToTransaction(
+      template,
+      [utxos[0]],
+      txContext.script,
+      txContext.addressType,
+      txContext.internalPubKey,
+      txContext.merkleRoot,
+    )
+    // Outpoint, sequence and script length, plus the estimated signature
+    const inputSize = 41 + template.inputs[0]._estimateSize()
+
+    return selectCoins(strategy, {
+      utxos,
+      target: BigInt(template.outputAmount),
+      feeRate: Math.max(1, Math.floor(feeRate)),
+      baseSize,
+      inputSize,
+      changeSize: Bitcore.Transaction.CHANGE_OUTPUT_MAX_SIZE,
+    })
+  }
+
+  /**
+   * Select UTXOs to pay the given recipients using the context's coin
+   * selection strategy.
    */
   function selectUtxosForAmount(
     ctx: TransactionBuildContext,
-    targetAmount: bigint,
     validRecipients: Array<{ address: string; amountSats: bigint }>,
     opReturnBuffer: Buffer | null,
   ): UtxoSelectionResult | null {
-    const {
-      availableUtxos,
-      feeRate,
-      changeAddress,
-      script,
-      addressType,
-      internalPubKey,
-      merkleRoot,
-    } = ctx
-
-    if (availableUtxos.length === 0) return null
-
-    const Bitcore = getBitcoreSDK()
-    if (!Bitcore || !script) return null
-
-    const Transaction = Bitcore.Transaction
-    const normalizedFeeRate = Math.max(1, Math.floor(feeRate))
-
     if (validRecipients.length + 1 > MAX_RECIPIENTS) {
       return null
     }
 
-    const sortedUtxos = [...availableUtxos].sort((a, b) =>
-      Number(BigInt(b.value) - BigInt(a.value)),
-    )
-
-    const selectedUtxos: UtxoEntry[] = []
-    let inputTotal = 0n
-
-    for (const utxo of sortedUtxos) {
-      selectedUtxos.push(utxo)
-      inputTotal += BigInt(utxo.value)
-
-      const testTx = new Transaction()
-      testTx.feePerByte(normalizedFeeRate)
-      testTx.change(changeAddress)
-
-      addInputsToTransaction(
-        testTx,
-        selectedUtxos,
-        script,
-        addressType,
-        internalPubKey,
-        merkleRoot,
-      )
-
-      for (const recipient of validRecipients) {
-        testTx.to(recipient.address, Number(recipient.amountSats))
-      }
-
-      if (opReturnBuffer) {
-        testTx.addData(opReturnBuffer)
-      }
-
-      const estimatedFee = testTx.getFee()
-
-      const txSize = testTx.toBuffer().length
-      if (txSize > MAX_TX_SIZE) {
-        if (selectedUtxos.length > 1) {
-          selectedUtxos.pop()
-          inputTotal -= BigInt(utxo.value)
-
-          const reducedTx = new Transaction()
-          reducedTx.feePerByte(normalizedFeeRate)
-          reducedTx.change(changeAddress)
-          addInputsToTransaction(
-            reducedTx,
-            selectedUtxos,
-            script,
-            addressType,
-            internalPubKey,
-            merkleRoot,
-          )
-          for (const recipient of validRecipients) {
-            reducedTx.to(recipient.address, Number(recipient.amountSats))
-          }
-          if (opReturnBuffer) {
-            reducedTx.addData(opReturnBuffer)
-          }
-
-          const reducedFee = reducedTx.getFee()
-          if (inputTotal >= targetAmount + BigInt(reducedFee)) {
-            return { selectedUtxos, fee: reducedFee }
-          }
+    const selection = selectUtxosForOutputs(
+      ctx.availableUtxos,
+      tx => {
+        for (const recipient of validRecipients) {
+          tx.to(recipient.address, Number(recipient.amountSats))
         }
-        return null
-      }
-
-      const totalNeeded = targetAmount + BigInt(estimatedFee)
-      if (inputTotal >= totalNeeded) {
-        return { selectedUtxos, fee: estimatedFee }
-      }
-    }
-
-    if (selectedUtxos.length > 0) {
-      const finalTx = new Transaction()
-      finalTx.feePerByte(normalizedFeeRate)
-      finalTx.change(changeAddress)
-      addInputsToTransaction(
-        finalTx,
-        selectedUtxos,
-        script,
-        addressType,
-        internalPubKey,
-        merkleRoot,
-      )
-      for (const recipient of validRecipients) {
-        finalTx.to(recipient.address, Number(recipient.amountSats))
-      }
-      if (opReturnBuffer) {
-        finalTx.addData(opReturnBuffer)
-      }
-
-      const finalFee = finalTx.getFee()
-      if (inputTotal >= targetAmount + BigInt(finalFee)) {
-        return { selectedUtxos, fee: finalFee }
-      }
-    }
+        if (opReturnBuffer) {
+          tx.addData(opReturnBuffer)
+        }
+      },
+      ctx,
+      ctx.feeRate,
+      ctx.coinSelection,
+    )
+    if (!selection) return null
 
-    return null
+    return { selectedUtxos: selection.utxos, fee: selection.fee }
   }
 
   /**
@@ -521,7 +466,6 @@ export function useTransactionBuilder() {
 
         const selection = selectUtxosForAmount(
           ctx,
-          regularOutputTotal,
           validRecipients,
           opReturnBuffer,
         )
@@ -735,6 +679,7 @@ export function useTransactionBuilder() {
   return {
     parseOpReturnData,
     addInputsToTransaction,
+    selectUtxosForOutputs,
     selectUtxosForAmount,
     calculateSendMaxFee,
     estimateTransaction,
@@ -132,6 +132,15 @@ export default defineNuxtConfig({
       chronikUrl: 'https://chronik.lotusia.org',
       rankApiUrl: 'https://rank.lotusia.org/api/v1',
       explorerUrl: 'https://lotusia.org/explorer',
+      // MuSig2 relay WebSocket URL; empty uses /api/musig2-relay on this origin
+      musig2RelayUrl: '',
+    },
+  },
+
+  // Nitro server: the MuSig2 relay is a WebSocket route
+  nitro: {
+    experimental: {
+      websocket: true,
     },
   },
 
@@ -0,0 +1,1145 @@
+/**
+ * MuSig2 Plugin
+ *
+ * Session engine for n-of-n MuSig2 spends from shared wallets. Every
+ * participant runs an engine; engines talk to each other over a pluggable
+ * transport and walk each session through the MuSig2SessionState machine:
+ *
+ *   CREATED → KEY_AGGREGATION → KEYS_AGGREGATED   proposal checked against
+ *                                                  the wallet's signer set
+ *   NONCE_EXCHANGE → NONCES_EXCHANGED              nonce commit, then reveal
+ *   SIGNING                                        partial signatures
+ *   COMPLETED | FAILED | CANCELLED                 aggregated and broadcast
+ *
+ * Secret nonces and keys never leave the crypto worker; the engine only
+ * sees public nonces, partial signatures and the transaction.
+ *
+ * Shared wallet setup (WALLET_SETUP / WALLET_CONFIRM) travels over the same
+ * transport and is handled by the MuSig2 store, not the engine.
+ *
+ * By default messages travel through the app's WebSocket relay
+ * (server/api/musig2-relay.ts), addressed by participant public key. Each
+ * endpoint proves it holds its key when joining, and signs every message
+ * it sends; messages whose signature does not verify against their
+ * sender's key are dropped.
+ *
+ * Access Patterns:
+ * - Components: useSharedWalletContext() composable
+ * - Stores: Import MuSig2SessionEngine from this plugin, transport via $musig2
+ * - Workers: Not available (signing is delegated to the crypto worker)
+ *
+ * Dependencies:
+ * - bitcore (sighash computation and signature aggregation)
+ *
+ * The `.client.ts` suffix ensures this only runs in the browser (SPA mode).
+ */
+import type * as BitcoreTypes from 'xpi-ts/lib/bitcore'
+import type { NetworkName } from 'xpi-ts/lib/bitcore/networks'
+import {
+  protocolMessageText,
+  relayJoinText,
+  verifyKeySignature,
+} from '~/utils/musig2'
+import { opReturnDataHex } from '~/utils/script'
+import { getBitcore } from './bitcore.client'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Shared wallet output being spent */
+export interface MuSig2SpendInput {
+  /** txid_vout format */
+  outpoint: string
+  /** Satoshi value */
+  satoshis: number
+  /** Output script (hex) */
+  scriptHex: string
+}
+
+interface MuSig2MessageBase {
+  sessionId: string
+  /** Sender's public key (hex) */
+  from: string
+}
+
+export interface SessionProposeMessage extends MuSig2MessageBase {
+  type: 'SESSION_PROPOSE'
+  walletId: string
+  purpose?: string
+  /** Signer public keys in key aggregation order */
+  signers: string[]
+  inputs: MuSig2SpendInput[]
+  /** Unsigned transaction; only its outputs and locktime are used */
+  txHex: string
+  createdAt: number
+  expiresAt: number
+}
+
+export interface NonceCommitMessage extends MuSig2MessageBase {
+  type: 'NONCE_COMMIT'
+  /** SHA-256 of the sender's public nonces (hex) */
+  commitment: string
+}
+
+export interface NonceRevealMessage extends MuSig2MessageBase {
+  type: 'NONCE_REVEAL'
+  /** One public nonce per input */
+  publicNonces: MuSig2PublicNonce[]
+}
+
+export interface PartialSigMessage extends MuSig2MessageBase {
+  type: 'PARTIAL_SIG'
+  /** One partial signature per input (hex) */
+  partialSigs: string[]
+}
+
+export interface SessionCompleteMessage extends MuSig2MessageBase {
+  type: 'SESSION_COMPLETE'
+  txid: string
+}
+
+export interface SessionAbortMessage extends MuSig2MessageBase {
+  type: 'SESSION_ABORT'
+  reason: string
+  /** True when a participant declined, false when the protocol failed */
+  cancelled: boolean
+}
+
+export type MuSig2SessionMessage =
+  | SessionProposeMessage
+  | NonceCommitMessage
+  | NonceRevealMessage
+  | PartialSigMessage
+  | SessionCompleteMessage
+  | SessionAbortMessage
+
+/**
+ * Announces a new shared wallet to its participants. Receivers derive the
+ * address from `signers` themselves and answer with WALLET_CONFIRM.
+ */
+export interface WalletSetupMessage {
+  type: 'WALLET_SETUP'
+  walletId: string
+  /** Sender's public key (hex) */
+  from: string
+  name: string
+  description?: string
+  /** Sorted participant public keys */
+  signers: string[]
+  /** Address computed by the sender */
+  address: string
+  /** Sender's signature over walletAddressText(walletId, address) */
+  addressSignature: string
+}
+
+export interface WalletConfirmMessage {
+  type: 'WALLET_CONFIRM'
+  walletId: string
+  /** Sender's public key (hex) */
+  from: string
+  /** Address computed by the sender */
+  address: string
+  /** Sender's signature over walletAddressText(walletId, address) */
+  addressSignature: string
+}
+
+export type SharedWalletMessage = WalletSetupMessage | WalletConfirmMessage
+
+export type MuSig2ProtocolMessage = MuSig2SessionMessage | SharedWalletMessage
+
+/**
+ * Message channel between the participants of a session.
+ * Messages from one sender must be delivered in the order they were sent.
+ */
+export interface MuSig2Transport {
+  /**
+   * Deliver a message to the participants with the given public keys (hex).
+   * Transports without addressing may deliver it to every other endpoint.
+   */
+  send(message: MuSig2ProtocolMessage, recipients: string[]): Promise<void>
+  /** Receive messages sent by other endpoints. Returns an unsubscribe function. */
+  subscribe(handler: (message: MuSig2ProtocolMessage) => void): () => void
+}
+
+/**
+ * In-memory relay connecting several transports in the same JS context
+ */
+export interface LocalRelay {
+  /** Create a new endpoint on the relay */
+  connect(): MuSig2Transport
+}
+
+/**
+ * Signs relay joins and outgoing messages with our MuSig2 key
+ */
+export interface MuSig2MessageSigner {
+  /** Our compressed public key (hex) */
+  publicKeyHex: string
+  /** Sign text with our key, as a compact message signature (base64) */
+  signMessage(text: string): Promise<string>
+}
+
+/**
+ * Signing operations for the local participant, backed by the crypto worker
+ */
+export interface MuSig2SessionSigner extends MuSig2MessageSigner {
+  generateNonces(
+    sessionId: string,
+    signers: string[],
+    messages: string[],
+  ): Promise<MuSig2PublicNonce[]>
+  partialSign(
+    sessionId: string,
+    signers: string[],
+    messages: string[],
+    publicNonces: MuSig2PublicNonce[][],
+  ): Promise<string[]>
+  discardNonces(sessionId: string): Promise<void>
+}
+
+export interface MuSig2EngineOptions {
+  transport: MuSig2Transport
+  signer: MuSig2SessionSigner
+  /** Broadcast a fully signed transaction, returning its txid */
+  broadcast: (txHex: string) => Promise<string>
+  /** Signer public keys of a known shared wallet, or null if unknown */
+  getWalletSigners: (walletId: string) => string[] | null
+  /** Network used to display recipient addresses */
+  network: NetworkName
+}
+
+export interface ProposeSessionParams {
+  walletId: string
+  purpose?: string
+  signers: string[]
+  inputs: MuSig2SpendInput[]
+  /** Unsigned transaction spending `inputs` */
+  txHex: string
+}
+
+/**
+ * A MuSig2 session spending from a shared wallet
+ */
+export interface WalletSigningSession extends MuSig2Session {
+  metadata?: {
+    walletId: string
+    purpose?: string
+  }
+  /** Whether we proposed the spend (the initiator broadcasts it) */
+  isInitiator: boolean
+  /** Whether we agreed to sign */
+  approved: boolean
+  /** Broadcast transaction ID once completed */
+  txid?: string
+}
+
+/** Sessions are abandoned if not completed within this window */
+export const MUSIG2_SESSION_TTL_MS = 10 * 60 * 1000
+
+const TERMINAL_STATES = new Set([
+  MuSig2SessionState.COMPLETED,
+  MuSig2SessionState.FAILED,
+  MuSig2SessionState.CANCELLED,
+])
+
+/**
+ * Whether a session can no longer change state
+ */
+export function isTerminalSessionState(state: MuSig2SessionState): boolean {
+  return TERMINAL_STATES.has(state)
+}
+
+// ============================================================================
+// Local Relay
+// ============================================================================
+
+/**
+ * Create an in-memory relay. Each connected transport receives the messages
+ * of all other transports, asynchronously and in send order, ignoring the
+ * recipients. Stands in for the relay transport when all participants run
+ * in one context, e.g. in tests.
+ */
+export function createLocalRelay(): LocalRelay {
+  const endpoints = new Set<Set<(message: MuSig2ProtocolMessage) => void>>()
+
+  return {
+    connect() {
+      const handlers = new Set<(message: MuSig2ProtocolMessage) => void>()
+      endpoints.add(handlers)
+
+      return {
+        async send(message) {
+          for (const peer of endpoints) {
+            if (peer === handlers) continue
+            for (const handler of peer) {
+              const copy = structuredClone(message)
+              setTimeout(() => handler(copy), 0)
+            }
+          }
+        },
+        subscribe(handler) {
+          handlers.add(handler)
+          return () => handlers.delete(handler)
+        },
+      }
+    },
+  }
+}
+
+// ============================================================================
+// Relay Transport
+// ============================================================================
+
+/** Delays before reconnecting to the relay, by consecutive failure */
+const RELAY_RECONNECT_DELAYS_MS = [1_000, 2_000, 5_000, 10_000, 30_000]
+
+/** Protocol message as sent over the relay, signed by its sender */
+type SignedProtocolMessage = MuSig2ProtocolMessage & { signature: string }
+
+/**
+ * Connect to a WebSocket relay that routes messages by public key (see
+ * server/api/musig2-relay.ts). The endpoint joins under the signer's key
+ * by signing the relay's challenge, and receives the messages addressed to
+ * it. Outgoing messages are signed; incoming ones are delivered only if
+ * their signature verifies against `from`. Messages sent while the relay
+ * is unreachable are queued and sent in order once it reconnects.
+ *
+ * @param url - Relay URL (ws:// or wss://)
+ * @param signer - Our key; every message we send is from it
+ */
+export function createRelayTransport(
+  url: string,
+  signer: MuSig2MessageSigner,
+): MuSig2Transport {
+  const handlers = new Set<(message: MuSig2ProtocolMessage) => void>()
+  /** Frames waiting for a joined connection */
+  const outbox: string[] = []
+  let socket: WebSocket | null = null
+  let joined = false
+  let failures = 0
+  /** Signing of the last outgoing message, so frames keep send order */
+  let signing: Promise<unknown> = Promise.resolve()
+
+  async function join(ws: WebSocket, challenge: string) {
+    try {
+      const signature = await signer.signMessage(relayJoinText(challenge))
+      if (ws !== socket || ws.readyState !== WebSocket.OPEN) return
+      ws.send(
+        JSON.stringify({ type: 'join', key: signer.publicKeyHex, signature }),
+      )
+    } catch (error) {
+      console.warn('[MuSig2] Could not join the relay:', error)
+      ws.close()
+    }
+  }
+
+  function receive(ws: WebSocket, data: unknown) {
+    let frame:
+      | SignedProtocolMessage
+      | { type: 'challenge'; challenge: string }
+      | { type: 'joined' }
+    try {
+      frame = JSON.parse(String(data))
+    } catch {
+      return
+    }
+    if (frame?.type === 'challenge') {
+      if (!joined && typeof frame.challenge === 'string') {
+        join(ws, frame.challenge)
+      }
+      return
+    }
+    if (frame?.type === 'joined') {
+      joined = true
+      failures = 0
+      while (outbox.length > 0) ws.send(outbox.shift()!)
+      return
+    }
+
+    const { signature, ...message } = frame as SignedProtocolMessage
+    if (typeof message?.type !== 'string') return
+    if (typeof message.from !== 'string') return
+    if (typeof signature !== 'string') return
+    const text = protocolMessageText(message)
+    if (!verifyKeySignature(text, message.from, signature)) {
+      console.warn(`[MuSig2] Dropped ${message.type} with a bad signature`)
+      return
+    }
+    for (const handler of handlers) handler(message as MuSig2ProtocolMessage)
+  }
+
+  function connect() {
+    const ws = new WebSocket(url)
+    socket = ws
+    joined = false
+
+    ws.onmessage = event => receive(ws, event.data)
+
+    ws.onclose = () => {
+      socket = null
+      joined = false
+      const delay =
+        RELAY_RECONNECT_DELAYS_MS[
+          Math.min(failures, RELAY_RECONNECT_DELAYS_MS.length - 1)
+        ]
+      failures++
+      setTimeout(connect, delay)
+    }
+  }
+
+  connect()
+
+  return {
+    async send(message, recipients) {
+      if (recipients.length === 0) return
+      const signed = signing.then(async () => ({
+        ...message,
+        signature: await signer.signMessage(protocolMessageText(message)),
+      }))
+      signing = signed.catch(() => {})
+      const frame = JSON.stringify({
+        type: 'send',
+        to: recipients,
+        message: await signed,
+      })
+      if (joined && socket?.readyState === WebSocket.OPEN) {
+        socket.send(frame)
+      } else {
+        outbox.push(frame)
+      }
+    },
+    subscribe(handler) {
+      handlers.add(handler)
+      return () => handlers.delete(handler)
+    },
+  }
+}
+
+/**
+ * Relay URL from the runtime config, defaulting to the relay served by this
+ * app's own origin
+ */
+function defaultRelayUrl(): string {
+  const configured = useRuntimeConfig().public.musig2RelayUrl
+  if (configured) return configured
+  const origin = new URL(window.location.origin)
+  origin.protocol = origin.protocol === 'https:' ? 'wss:' : 'ws:'
+  origin.pathname = '/api/musig2-relay'
+  return origin.toString()
+}
+
+// ============================================================================
+// Session Engine
+// ============================================================================
+
+interface SessionRecord {
+  session: WalletSigningSession
+  signers: string[]
+  inputs: MuSig2SpendInput[]
+  tx: BitcoreTypes.Transaction
+  sighashes: string[]
+  taproot: BitcoreTypes.MuSig2TaprootKeyResult
+  commitments: Map<string, string>
+  reveals: Map<string, MuSig2PublicNonce[]>
+  partialSigs: Map<string, string[]>
+  ownNonces: MuSig2PublicNonce[] | null
+  revealed: boolean
+  signed: boolean
+  aggregated: boolean
+  /** Serializes protocol steps for this session */
+  queue: Promise<void>
+}
+
+/**
+ * Runs MuSig2 signing sessions for the local participant
+ */
+export class MuSig2SessionEngine {
+  private readonly records = new Map<string, SessionRecord>()
+  private readonly listeners = new Set<
+    (session: WalletSigningSession) => void
+  >()
+  private unsubscribe: (() => void) | null = null
+
+  constructor(private readonly options: MuSig2EngineOptions) {}
+
+  private get me(): string {
+    return this.options.signer.publicKeyHex
+  }
+
+  // === Lifecycle ===
+
+  start(): void {
+    if (this.unsubscribe) return
+    this.unsubscribe = this.options.transport.subscribe(message =>
+      this.handleMessage(message),
+    )
+  }
+
+  stop(): void {
+    this.unsubscribe?.()
+    this.unsubscribe = null
+  }
+
+  /** Listen for session updates. Returns an unsubscribe function. */
+  onChange(listener: (session: WalletSigningSession) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  getSession(sessionId: string): WalletSigningSession | undefined {
+    return this.records.get(sessionId)?.session
+  }
+
+  getSessions(): WalletSigningSession[] {
+    return Array.from(this.records.values(), record => record.session)
+  }
+
+  // === Actions ===
+
+  /**
+   * Propose a spend to the other signers and start signing it ourselves
+   */
+  async propose(params: ProposeSessionParams): Promise<WalletSigningSession> {
+    const signers = [...params.signers].sort()
+    if (!signers.includes(this.me)) {
+      throw new Error('We are not a signer of this wallet')
+    }
+
+    const createdAt = Date.now()
+    const proposal: SessionProposeMessage = {
+      type: 'SESSION_PROPOSE',
+      sessionId: randomSessionId(),
+      from: this.me,
+      walletId: params.walletId,
+      purpose: params.purpose,
+      signers,
+      inputs: params.inputs,
+      txHex: params.txHex,
+      createdAt,
+      expiresAt: createdAt + MUSIG2_SESSION_TTL_MS,
+    }
+
+    const record = this.createRecord(proposal)
+    record.session.approved = true
+    this.emit(record)
+
+    await this.send(record, proposal)
+    this.enqueue(record, () => this.commitNonces(record))
+    return record.session
+  }
+
+  /**
+   * Agree to sign a session proposed by another participant
+   */
+  approve(sessionId: string): void {
+    const record = this.requireRecord(sessionId)
+    if (record.session.approved) return
+    if (record.session.state !== MuSig2SessionState.KEYS_AGGREGATED) {
+      throw new Error('Session is not awaiting approval')
+    }
+
+    record.session.approved = true
+    this.emit(record)
+    this.enqueue(record, () => this.commitNonces(record))
+  }
+
+  /**
+   * Decline or abandon a session
+   */
+  async cancel(sessionId: string, reason = 'Cancelled'): Promise<void> {
+    const record = this.requireRecord(sessionId)
+    if (isTerminalSessionState(record.session.state)) return
+
+    this.setState(record, MuSig2SessionState.CANCELLED, reason)
+    await this.options.signer.discardNonces(sessionId).catch(() => {})
+    await this.send(record, {
+      type: 'SESSION_ABORT',
+      sessionId,
+      from: this.me,
+      reason,
+      cancelled: true,
+    })
+  }
+
+  // === Message Handling ===
+
+  private handleMessage(message: MuSig2ProtocolMessage): void {
+    if (message.from === this.me) return
+    // Wallet setup is handled by the MuSig2 store
+    if (message.type === 'WALLET_SETUP' || message.type === 'WALLET_CONFIRM') {
+      return
+    }
+
+    if (message.type === 'SESSION_PROPOSE') {
+      this.receiveProposal(message)
+      return
+    }
+
+    const record = this.records.get(message.sessionId)
+    if (!record || !record.signers.includes(message.from)) return
+
+    this.enqueue(record, async () => {
+      if (isTerminalSessionState(record.session.state)) return
+      if (Date.now() > record.session.expiresAt) {
+        throw new Error('Session expired')
+      }
+
+      switch (message.type) {
+        case 'NONCE_COMMIT':
+          this.receiveCommitment(record, message)
+          break
+        case 'NONCE_REVEAL':
+          this.receiveReveal(record, message)
+          break
+        case 'PARTIAL_SIG':
+          this.receivePartialSigs(record, message)
+          break
+        case 'SESSION_COMPLETE':
+          this.receiveComplete(record, message)
+          return
+        case 'SESSION_ABORT':
+          this.setState(
+            record,
+            message.cancelled
+              ? MuSig2SessionState.CANCELLED
+              : MuSig2SessionState.FAILED,
+            message.reason,
+          )
+          await this.options.signer.discardNonces(record.session.id)
+          return
+      }
+
+      await this.advance(record)
+    })
+  }
+
+  private receiveProposal(message: SessionProposeMessage): void {
+    if (this.records.has(message.sessionId)) return
+    if (!message.signers.includes(this.me)) return
+
+    let record: SessionRecord
+    try {
+      record = this.createRecord(message)
+    } catch (error) {
+      console.warn('[MuSig2] Rejected malformed proposal:', error)
+      return
+    }
+
+    this.emit(record)
+    this.enqueue(record, async () => {
+      const walletSigners = this.options.getWalletSigners(message.walletId)
+      if (
+        !walletSigners ||
+        [...walletSigners].sort().join() !== record.signers.join()
+      ) {
+        throw new Error('Proposal does not match a known shared wallet')
+      }
+    })
+  }
+
+  private receiveCommitment(
+    record: SessionRecord,
+    message: NonceCommitMessage,
+  ): void {
+    const existing = record.commitments.get(message.from)
+    if (existing && existing !== message.commitment) {
+      throw new Error('Participant changed its nonce commitment')
+    }
+    record.commitments.set(message.from, message.commitment)
+    this.updateParticipant(record, message.from, { hasNonceCommitment: true })
+  }
+
+  private receiveReveal(
+    record: SessionRecord,
+    message: NonceRevealMessage,
+  ): void {
+    const commitment = record.commitments.get(message.from)
+    if (!commitment) {
+      throw new Error('Nonce revealed before it was committed')
+    }
+    if (message.publicNonces.length !== record.inputs.length) {
+      throw new Error('Nonce reveal has the wrong number of inputs')
+    }
+    if (commitNonces(message.publicNonces) !== commitment) {
+      throw new Error('Nonce reveal does not match its commitment')
+    }
+    record.reveals.set(message.from, message.publicNonces)
+    this.updateParticipant(record, message.from, { hasNonce: true })
+  }
+
+  private receivePartialSigs(
+    record: SessionRecord,
+    message: PartialSigMessage,
+  ): void {
+    if (!record.reveals.has(message.from)) {
+      throw new Error('Partial signature received before nonce reveal')
+    }
+    if (message.partialSigs.length !== record.inputs.length) {
+      throw new Error('Partial signatures have the wrong number of inputs')
+    }
+    record.partialSigs.set(message.from, message.partialSigs)
+    this.updateParticipant(record, message.from, { hasPartialSig: true })
+  }
+
+  private receiveComplete(
+    record: SessionRecord,
+    message: SessionCompleteMessage,
+  ): void {
+    if (message.from !== record.session.initiatorPeerId) return
+    if (record.session.state !== MuSig2SessionState.SIGNING) return
+    // Once aggregated we know what the txid must be
+    if (record.aggregated) {
+      if (record.tx.id !== message.txid) {
+        throw new Error('Initiator broadcast a different transaction')
+      }
+    }
+    record.session.txid = message.txid
+    this.setState(record, MuSig2SessionState.COMPLETED)
+  }
+
+  // === Protocol Steps ===
+
+  /**
+   * Generate our nonces in the worker and publish a commitment to them
+   */
+  private async commitNonces(record: SessionRecord): Promise<void> {
+    if (record.ownNonces || isTerminalSessionState(record.session.state)) {
+      return
+    }
+    this.setState(record, MuSig2SessionState.NONCE_EXCHANGE)
+
+    record.ownNonces = await this.options.signer.generateNonces(
+      record.session.id,
+      record.signers,
+      record.sighashes,
+    )
+    const commitment = commitNonces(record.ownNonces)
+    record.commitments.set(this.me, commitment)
+    this.updateParticipant(record, this.me, { hasNonceCommitment: true })
+
+    await this.send(record, {
+      type: 'NONCE_COMMIT',
+      sessionId: record.session.id,
+      from: this.me,
+      commitment,
+    })
+    await this.advance(record)
+  }
+
+  /**
+   * Move the session forward once the data for the next step is complete
+   */
+  private async advance(record: SessionRecord): Promise<void> {
+    const { session, signers } = record
+    if (isTerminalSessionState(session.state)) return
+    const everyone = signers.length
+
+    // Reveal only after all commitments are in, so no signer can choose
+    // its nonce after seeing the others
+    if (
+      record.ownNonces &&
+      !record.revealed &&
+      record.commitments.size === everyone
+    ) {
+      record.revealed = true
+      record.reveals.set(this.me, record.ownNonces)
+      this.updateParticipant(record, this.me, { hasNonce: true })
+      await this.send(record, {
+        type: 'NONCE_REVEAL',
+        sessionId: session.id,
+        from: this.me,
+        publicNonces: record.ownNonces,
+      })
+    }
+
+    if (record.revealed && !record.signed && record.reveals.size === everyone) {
+      this.setState(record, MuSig2SessionState.NONCES_EXCHANGED)
+      this.setState(record, MuSig2SessionState.SIGNING)
+      record.signed = true
+
+      const partialSigs = await this.options.signer.partialSign(
+        session.id,
+        signers,
+        record.sighashes,
+        record.inputs.map((_, i) =>
+          signers.map(signer => record.reveals.get(signer)![i]),
+        ),
+      )
+      record.partialSigs.set(this.me, partialSigs)
+      this.updateParticipant(record, this.me, { hasPartialSig: true })
+      await this.send(record, {
+        type: 'PARTIAL_SIG',
+        sessionId: session.id,
+        from: this.me,
+        partialSigs,
+      })
+    }
+
+    if (
+      record.signed &&
+      !record.aggregated &&
+      record.partialSigs.size === everyone
+    ) {
+      this.aggregate(record)
+      record.aggregated = true
+      // Other participants wait for the initiator's SESSION_COMPLETE
+      if (session.isInitiator) {
+        session.txid = await this.options.broadcast(record.tx.toString())
+        this.setState(record, MuSig2SessionState.COMPLETED)
+        await this.send(record, {
+          type: 'SESSION_COMPLETE',
+          sessionId: session.id,
+          from: this.me,
+          txid: session.txid,
+        })
+      }
+    }
+  }
+
+  /**
+   * Verify every partial signature and write the aggregated Schnorr
+   * signature into each input
+   */
+  private aggregate(record: SessionRecord): void {
+    const Bitcore = getBitcore()
+    const { taproot, signers } = record
+    const sighashType =
+      Bitcore.Signature.SIGHASH_ALL | Bitcore.Signature.SIGHASH_LOTUS
+
+    record.inputs.forEach((_, i) => {
+      const message = Bitcore.BufferUtil.from(record.sighashes[i], 'hex')
+      const nonces = signers.map(signer =>
+        toNoncePoints(record.reveals.get(signer)![i]),
+      )
+      const aggregatedNonce = Bitcore.muSig2NonceAgg(nonces)
+
+      const partialSigs = signers.map((signer, j) => {
+        const partialSig = Bitcore.BN.fromBuffer(
+          Bitcore.BufferUtil.from(record.partialSigs.get(signer)![i], 'hex'),
+        )
+        const valid = Bitcore.verifyTaprootKeyPathMuSigPartial(
+          partialSig,
+          nonces[j],
+          new Bitcore.PublicKey(signer),
+          taproot.keyAggContext,
+          j,
+          aggregatedNonce,
+          message,
+          taproot.tweak,
+        )
+        if (!valid) {
+          throw new Error(
+            `Invalid partial signature from ${signer.slice(0, 8)}... on input ${i}`,
+          )
+        }
+        return partialSig
+      })
+
+      const signature = Bitcore.muSig2SigAgg(
+        partialSigs,
+        aggregatedNonce,
+        message,
+        taproot.commitment,
+        sighashType,
+      )
+      const script = new Bitcore.Script()
+      script.add(signature.toTxFormat('schnorr'))
+      record.tx.inputs[i].setScript(script)
+    })
+  }
+
+  // === Helpers ===
+
+  /**
+   * Build the session from a proposal and run key aggregation. Throws if
+   * the inputs are not outputs of the aggregated key.
+   */
+  private createRecord(proposal: SessionProposeMessage): SessionRecord {
+    const signers = [...proposal.signers].sort()
+    if (new Set(signers).size !== signers.length || signers.length < 2) {
+      throw new Error('A shared wallet needs at least two distinct signers')
+    }
+    if (proposal.inputs.length === 0) {
+      throw new Error('Proposal spends no inputs')
+    }
+
+    const session: WalletSigningSession = {
+      id: proposal.sessionId,
+      state: MuSig2SessionState.CREATED,
+      initiatorPeerId: proposal.from,
+      participants: signers.map(publicKey => ({
+        peerId: publicKey,
+        publicKey,
+        hasNonceCommitment: false,
+        hasNonce: false,
+        hasPartialSig: false,
+      })),
+      createdAt: proposal.createdAt,
+      updatedAt: Date.now(),
+      expiresAt: proposal.expiresAt,
+      metadata: { walletId: proposal.walletId, purpose: proposal.purpose },
+      isInitiator: proposal.from === this.me,
+      approved: false,
+    }
+
+    const Bitcore = getBitcore()
+    session.state = MuSig2SessionState.KEY_AGGREGATION
+    const taproot = Bitcore.buildMuSig2TaprootKey(
+      signers.map(hex => new Bitcore.PublicKey(hex)),
+    )
+    const walletScriptHex = taproot.script.toBuffer().toString('hex')
+    if (proposal.inputs.some(input => input.scriptHex !== walletScriptHex)) {
+      throw new Error('Proposal spends outputs not owned by the shared wallet')
+    }
+    session.aggregatedPubKey = taproot.aggregatedPubKey.toString()
+
+    // Rebuild from the inputs so the sighash commits to the real outputs
+    const unsigned = new Bitcore.Transaction(proposal.txHex)
+    const tx = new Bitcore.Transaction()
+    tx.version = unsigned.version
+    tx.nLockTime = unsigned.nLockTime
+    for (const input of proposal.inputs) {
+      const [txid, vout] = input.outpoint.split('_')
+      tx.from({
+        txid,
+        outputIndex: parseInt(vout, 10),
+        script: taproot.script,
+        satoshis: input.satoshis,
+        internalPubKey: taproot.aggregatedPubKey,
+        merkleRoot: taproot.merkleRoot,
+      })
+    }
+    for (const output of unsigned.outputs) {
+      tx.addOutput(output)
+    }
+
+    const sighashType =
+      Bitcore.Signature.SIGHASH_ALL | Bitcore.Signature.SIGHASH_LOTUS
+    const sighashes = proposal.inputs.map((input, i) =>
+      Bitcore.sighash(
+        tx,
+        sighashType,
+        i,
+        taproot.script,
+        new Bitcore.BN(input.satoshis),
+      ).toString('hex'),
+    )
+
+    session.transactionHex = tx.uncheckedSerialize()
+    session.transactionPreview = buildPreview(
+      tx,
+      proposal.inputs,
+      taproot,
+      this.options.network,
+    )
+    session.state = MuSig2SessionState.KEYS_AGGREGATED
+
+    const record: SessionRecord = {
+      session,
+      signers,
+      inputs: proposal.inputs,
+      tx,
+      sighashes,
+      taproot,
+      commitments: new Map(),
+      reveals: new Map(),
+      partialSigs: new Map(),
+      ownNonces: null,
+      revealed: false,
+      signed: false,
+      aggregated: false,
+      queue: Promise.resolve(),
+    }
+    this.records.set(session.id, record)
+    return record
+  }
+
+  private requireRecord(sessionId: string): SessionRecord {
+    const record = this.records.get(sessionId)
+    if (!record) {
+      throw new Error(`Unknown signing session ${sessionId}`)
+    }
+    return record
+  }
+
+  /**
+   * Run a protocol step after the previous ones for the same session.
+   * A failing step fails the session and tells the other participants.
+   */
+  private enqueue(record: SessionRecord, step: () => Promise<void>): void {
+    record.queue = record.queue.then(step).catch(error => this.fail(record, error))
+  }
+
+  private async fail(record: SessionRecord, error: unknown): Promise<void> {
+    if (isTerminalSessionState(record.session.state)) return
+    const reason = error instanceof Error ? error.message : String(error)
+    console.error(`[MuSig2] Session ${record.session.id} failed:`, reason)
+
+    this.setState(record, MuSig2SessionState.FAILED, reason)
+    await this.options.signer.discardNonces(record.session.id).catch(() => {})
+    await this.send(record, {
+      type: 'SESSION_ABORT',
+      sessionId: record.session.id,
+      from: this.me,
+      reason,
+      cancelled: false,
+    }).catch(() => {})
+  }
+
+  /** Send a message to the session's other signers */
+  private send(
+    record: SessionRecord,
+    message: MuSig2SessionMessage,
+  ): Promise<void> {
+    const others = record.signers.filter(signer => signer !== this.me)
+    return this.options.transport.send(message, others)
+  }
+
+  private setState(
+    record: SessionRecord,
+    state: MuSig2SessionState,
+    error?: string,
+  ): void {
+    record.session.state = state
+    if (error) record.session.error = error
+    this.emit(record)
+  }
+
+  private updateParticipant(
+    record: SessionRecord,
+    publicKey: string,
+    update: Partial<MuSig2Participant>,
+  ): void {
+    const participant = record.session.participants.find(
+      p => p.publicKey === publicKey,
+    )
+    if (participant) Object.assign(participant, update)
+    this.emit(record)
+  }
+
+  private emit(record: SessionRecord): void {
+    record.session.updatedAt = Date.now()
+    for (const listener of this.listeners) {
+      listener(record.session)
+    }
+  }
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function randomSessionId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * SHA-256 commitment over a participant's public nonces, in input order
+ */
+function commitNonces(publicNonces: MuSig2PublicNonce[]): string {
+  const Bitcore = getBitcore()
+  const data = Bitcore.BufferUtil.from(publicNonces.flat().join(''), 'hex')
+  return Bitcore.Hash.sha256(data).toString('hex')
+}
+
+function toNoncePoints(
+  nonce: MuSig2PublicNonce,
+): [BitcoreTypes.Point, BitcoreTypes.Point] {
+  const Bitcore = getBitcore()
+  return [
+    new Bitcore.PublicKey(nonce[0]).point,
+    new Bitcore.PublicKey(nonce[1]).point,
+  ]
+}
+
+/**
+ * Summarize what a session's transaction does, from the transaction itself
+ * rather than from anything the proposer claims
+ */
+function buildPreview(
+  tx: BitcoreTypes.Transaction,
+  inputs: MuSig2SpendInput[],
+  taproot: BitcoreTypes.MuSig2TaprootKeyResult,
+  network: NetworkName,
+): TransactionPreview {
+  const walletScriptHex = taproot.script.toBuffer().toString('hex')
+  const inputAmount = inputs.reduce(
+    (sum, input) => sum + BigInt(input.satoshis),
+    0n,
+  )
+
+  let outputAmount = 0n
+  let opReturnData: string | undefined
+  const recipients: TransactionPreview['recipients'] = []
+  for (const output of tx.outputs) {
+    const amount = BigInt(output.satoshis)
+    outputAmount += amount
+    if (output.script.isDataOut()) {
+      opReturnData = opReturnDataHex(output.script)
+    } else if (output.script.toBuffer().toString('hex') !== walletScriptHex) {
+      recipients.push({
+        address: output.script.toAddress(network)?.toXAddress(network) ?? '',
+        amount,
+      })
+    }
+  }
+
+  return {
+    inputAmount,
+    outputAmount,
+    fee: inputAmount - outputAmount,
+    recipients,
+    hasOpReturn: opReturnData !== undefined,
+    opReturnData,
+  }
+}
+
+// ============================================================================
+// Nuxt Plugin Definition
+// ============================================================================
+
+export default defineNuxtPlugin({
+  name: 'musig2',
+  dependsOn: ['bitcore'],
+  setup() {
+    /** Transport set in place of the relay, e.g. a local relay in tests */
+    let override: MuSig2Transport | null = null
+    const relayTransports = new Map<string, MuSig2Transport>()
+
+    /**
+     * Get the transport new engines for the signer's key should use. Unless
+     * overridden, this is the network relay joined under that key.
+     */
+    function getTransport(signer: MuSig2MessageSigner): MuSig2Transport {
+      if (override) return override
+      let transport = relayTransports.get(signer.publicKeyHex)
+      if (!transport) {
+        transport = createRelayTransport(defaultRelayUrl(), signer)
+        relayTransports.set(signer.publicKeyHex, transport)
+      }
+      return transport
+    }
+
+    /**
+     * Replace the transport used by engines created afterwards
+     */
+    function setTransport(next: MuSig2Transport): void {
+      override = next
+    }
+
+    console.log('[MuSig2 Plugin] Ready (relay transport)')
+
+    return {
+      provide: {
+        musig2: {
+          getTransport,
+          setTransport,
+          createLocalRelay,
+          createRelayTransport,
+        },
+      },
+    }
+  },
+})
@@ -5,6 +5,14 @@
  * This plugin initializes lazily - the client is created when first needed
  * with a specific network configuration.
  *
+ * Failover:
+ * A network can list several Chronik endpoints. Their latency and tip height
+ * are checked periodically; REST requests move on to the next endpoint when
+ * one cannot be reached, and when the endpoint in use goes down or lags
+ * behind the best known tip, the client and WebSocket switch to the
+ * healthiest one, resubscribe every active script and call `onFailover` so
+ * the wallet can catch up on what it missed.
+ *
  * Access Patterns:
  * - Components: useChronikClient() composable
  * - Stores: Import getter functions directly from this plugin
@@ -50,6 +58,8 @@ export interface ChronikConnectionOptions {
   onConfirmed?: (txid: string) => void
   /** Callback for transaction removed from mempool */
   onRemovedFromMempool?: (txid: string) => void
+  /** Callback after switching endpoints and resubscribing every script */
+  onFailover?: () => void
 }
 
 /**
@@ -62,6 +72,9 @@ export interface ChronikSubscription {
   accountId?: string
 }
 
+/** Chronik's error for a transaction it does not know */
+const TX_NOT_FOUND_PATTERN = /not[ -]found/i
+
 export type BroadcastTxResult = ReturnType<ChronikClient['broadcastTx']>
 export type BlockchainInfoResult = ReturnType<ChronikClient['blockchainInfo']>
 
@@ -78,6 +91,16 @@ export default defineNuxtPlugin({
     // ============================================================================
     // Connect to the Chronik API endpoint for the current network
     let client: ChronikClient | null = null
+    /** Chronik endpoints of the current network, as configured */
+    let endpointUrls: string[] = []
+    /** Endpoint the client and WebSocket try first */
+    const activeEndpoint = ref<string | null>(null)
+    /** Latest health of each endpoint */
+    const endpointHealth = shallowRef<ChronikEndpointHealth[]>([])
+    /** Highest block seen over the WebSocket */
+    let knownTipHeight = 0
+    let healthTimer: ReturnType<typeof setInterval> | null = null
+    let healthCheck: Promise<void> | null = null
     let wsEndpoint: WsEndpoint | null = null
     let currentOptions: ChronikConnectionOptions | null = null
     let activeSubscriptions: ChronikSubscription[] = []
@@ -87,7 +110,11 @@ export default defineNuxtPlugin({
     // ============================================================================
 
     function setNetwork(config: NetworkConfig): void {
-      client = new ChronikClient(config.chronikUrl)
+      endpointUrls = chronikEndpointUrls(config)
+      endpointHealth.value = endpointUrls.map(uncheckedEndpoint)
+      knownTipHeight = 0
+      useEndpoints(endpointUrls)
+      startHealthChecks()
     }
 
     /**
@@ -103,6 +130,11 @@ export default defineNuxtPlugin({
      */
     function initialize(options: ChronikConnectionOptions): void {
       currentOptions = options
+      // A different network profile points at different nodes
+      const urls = chronikEndpointUrls(options.network)
+      if (!client || urls.join(' ') !== endpointUrls.join(' ')) {
+        setNetwork(options.network)
+      }
 
       console.log(
         `[Chronik Plugin] Initialized client for ${options.network.displayName}`,
@@ -140,12 +172,13 @@ export default defineNuxtPlugin({
             currentOptions.onRemovedFromMempool(msg.txid)
           } else if (msg.type === 'Confirmed' && currentOptions?.onConfirmed) {
             currentOptions.onConfirmed(msg.txid)
-          } else if (msg.type === 'BlockConnected' && onBlock) {
+          } else if (msg.type === 'BlockConnected') {
             const blockMsg = msg as unknown as {
               blockHash: string
               blockHeight: number
             }
-            onBlock(blockMsg.blockHeight, blockMsg.blockHash)
+            knownTipHeight = Math.max(knownTipHeight, blockMsg.blockHeight)
+            onBlock?.(blockMsg.blockHeight, blockMsg.blockHash)
           }
         },
         onConnect: () => {
@@ -154,6 +187,8 @@ export default defineNuxtPlugin({
         },
         onReconnect: () => {
           console.log('[Chronik Plugin] WebSocket reconnecting...')
+          // The endpoint may be down, so look for a healthy one
+          checkEndpointHealth().catch(console.error)
         },
         onEnd: () => {
           console.log('[Chronik Plugin] WebSocket disconnected')
@@ -172,6 +207,98 @@ export default defineNuxtPlugin({
       // function defined below
     }
 
+    // ============================================================================
+    // Endpoint Failover
+    // ============================================================================
+
+    /**
+     * Point the client at endpoints in order of preference. Chronik moves a
+     * REST request on to the next endpoint when one cannot be reached.
+     */
+    function useEndpoints(urls: string[]): void {
+      client = new ChronikClient(urls)
+      activeEndpoint.value = urls[0]
+    }
+
+    function startHealthChecks(): void {
+      if (healthTimer) {
+        clearInterval(healthTimer)
+        healthTimer = null
+      }
+      checkEndpointHealth().catch(console.error)
+      // With one endpoint there is nowhere to fail over to
+      if (endpointUrls.length > 1) {
+        healthTimer = setInterval(
+          () => checkEndpointHealth().catch(console.error),
+          CHRONIK_HEALTH_INTERVAL_MS,
+        )
+      }
+    }
+
+    /**
+     * Check every endpoint, and fail over if the one in use is unreachable
+     * or lagging. A slower but healthy endpoint is kept, so the connection
+     * does not flap between endpoints of similar latency.
+     */
+    function checkEndpointHealth(): Promise<void> {
+      healthCheck ??= (async () => {
+        const urls = endpointUrls
+        const results = await Promise.all(
+          endpointHealth.value.map(checkChronikEndpoint),
+        )
+        // The network changed during the check
+        if (urls !== endpointUrls) return
+
+        endpointHealth.value = markLaggingEndpoints(results, knownTipHeight)
+        const active = endpointHealth.value.find(
+          endpoint => endpoint.url === activeEndpoint.value,
+        )
+        if (active && (active.reachable === false || active.lagging)) {
+          const ranked = rankChronikEndpoints(endpointHealth.value)
+          if (ranked[0] !== activeEndpoint.value) {
+            await failover(ranked)
+          }
+        }
+      })().finally(() => {
+        healthCheck = null
+      })
+      return healthCheck
+    }
+
+    /**
+     * Switch to endpoints in a new order, reconnecting the WebSocket and
+     * resubscribing every active script if it was connected. Updates sent
+     * while the old endpoint was failing are lost, so the wallet resyncs.
+     */
+    async function failover(urls: string[]): Promise<void> {
+      console.warn(
+        `[Chronik Plugin] Failing over from ${activeEndpoint.value} to ${urls[0]}`,
+      )
+      const reconnect = wsEndpoint !== null
+      useEndpoints(urls)
+      if (!reconnect || !currentOptions) return
+
+      await connectWebSocket()
+      for (const sub of activeSubscriptions) {
+        wsEndpoint?.subscribe(sub.scriptType, sub.scriptPayload)
+      }
+      currentOptions.onFailover?.()
+    }
+
+    /**
+     * Get the latest health of each endpoint of the current network
+     */
+    function getEndpointHealth(): ChronikEndpointHealth[] {
+      return endpointHealth.value
+    }
+
+    /**
+     * Get the endpoint currently tried first
+     */
+    function getActiveEndpoint(): string | null {
+      return activeEndpoint.value
+    }
+
     /**
      * Disconnect from Chronik WebSocket
      */
@@ -279,6 +406,23 @@ export default defineNuxtPlugin({
       return await endpoint.history(page, pageSize)
     }
 
+    /**
+     * Fetch transaction history for an arbitrary script
+     */
+    async function fetchHistoryForScript(
+      scriptType: ScriptType,
+      scriptPayload: string,
+      page: number = 0,
+      pageSize: number = 25,
+    ): Promise<TxHistoryPage> {
+      if (!client) {
+        throw new Error('Chronik client not initialized')
+      }
+
+      const endpoint = client.script(scriptType, scriptPayload)
+      return await endpoint.history(page, pageSize)
+    }
+
     /**
      * Fetch a specific transaction by txid
      */
@@ -302,6 +446,23 @@ export default defineNuxtPlugin({
       }
     }
 
+    /**
+     * Fetch a transaction, telling one Chronik does not know (null) apart
+     * from Chronik being unreachable, which throws
+     */
+    async function lookupTransaction(txid: string): Promise<ChronikTx | null> {
+      if (!client) {
+        throw new Error('Chronik client not initialized')
+      }
+      try {
+        return await client.tx(txid)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : ''
+        if (TX_NOT_FOUND_PATTERN.test(message)) return null
+        throw error
+      }
+    }
+
     /**
      * Broadcast a raw transaction
      */
@@ -485,7 +646,9 @@ export default defineNuxtPlugin({
           fetchUtxos,
           fetchUtxosForScript,
           fetchTransactionHistory,
+          fetchHistoryForScript,
           fetchTransaction,
+          lookupTransaction,
           broadcastTransaction,
           fetchBlockchainInfo,
           fetchBlock,
@@ -497,6 +660,9 @@ export default defineNuxtPlugin({
           getActiveSubscriptions,
           convertChronikUtxos,
           setNetwork,
+          checkEndpointHealth,
+          getEndpointHealth,
+          getActiveEndpoint,
         },
       },
     }
@@ -241,6 +241,29 @@ export default defineNuxtPlugin({
       return result.valid
     }
 
+    /**
+     * Hand the seed to the worker so it can sign with key handles
+     */
+    async function unlock(mnemonic: string): Promise<void> {
+      await sendRequest('UNLOCK_WALLET', { mnemonic })
+    }
+
+    /**
+     * Make the worker forget the seed
+     */
+    async function lock(): Promise<void> {
+      await sendRequest('LOCK_WALLET', {})
+    }
+
+    /**
+     * Read back the unlocked seed phrase, for backups. Requires a prior
+     * unlock().
+     */
+    async function exportMnemonic(): Promise<string> {
+      const result = await sendRequest('EXPORT_MNEMONIC', {})
+      return result.mnemonic
+    }
+
     /**
      * Derive a P2TR commitment for Taproot addresses
      */
@@ -255,10 +278,10 @@ export default defineNuxtPlugin({
     }
 
     /**
-     * Derive keys from mnemonic for specific address type and network
+     * Derive keys of the unlocked wallet for specific address type and
+     * network. Requires a prior unlock().
      */
     async function deriveKeys(
-      mnemonic: string,
       addressType: AddressType,
       network: NetworkName,
       accountIndex = 0,
@@ -266,7 +289,6 @@ export default defineNuxtPlugin({
       isChange = false,
     ) {
       return await sendRequest('DERIVE_KEYS', {
-        mnemonic,
         addressType,
         network,
         accountIndex,
@@ -276,35 +298,77 @@ export default defineNuxtPlugin({
     }
 
     /**
-     * Sign a transaction with the provided private key
+     * Sign a transaction with the worker-held key referenced by each
+     * UTXO's key handle. Requires a prior unlock().
      */
-    async function signTransaction(
+    async function signTransactionWithKeys(
       txHex: string,
-      utxos: Array<{ outpoint: string; satoshis: number; scriptHex: string }>,
-      privateKey: string,
+      utxos: UtxoForSigning[],
       addressType: AddressType,
-      internalPubKeyHex?: string,
-      merkleRootHex?: string,
     ) {
       return await sendRequest('SIGN_TRANSACTION', {
         txHex,
         utxos,
-        privateKey,
         addressType,
-        internalPubKeyHex,
-        merkleRootHex,
       })
     }
 
     /**
-     * Sign a message with a private key
+     * Sign a message with a worker-held key. Requires a prior unlock().
      */
-    async function signMessage(messageText: string, privateKey: string) {
+    async function signMessageWithKey(messageText: string, key: KeyHandle) {
       const result = await sendRequest('SIGN_MESSAGE', {
         message: messageText,
-        privateKey,
+        key,
       })
-      return (result as any).signature
+      return result.signature
+    }
+
+    /**
+     * Generate MuSig2 nonces for a signing session. The secret nonces stay
+     * in the worker until musig2PartialSign() or musig2DiscardNonces().
+     */
+    async function musig2GenerateNonces(
+      sessionId: string,
+      key: KeyHandle,
+      signers: string[],
+      messages: string[],
+    ) {
+      const result = await sendRequest('MUSIG2_NONCE_GEN', {
+        sessionId,
+        key,
+        signers,
+        messages,
+      })
+      return result.publicNonces
+    }
+
+    /**
+     * Create partial signatures for a session from all signers' nonces
+     */
+    async function musig2PartialSign(
+      sessionId: string,
+      key: KeyHandle,
+      signers: string[],
+      messages: string[],
+      publicNonces: MuSig2PublicNonce[][],
+    ) {
+      const result = await sendRequest('MUSIG2_PARTIAL_SIGN', {
+        sessionId,
+        key,
+        signers,
+        messages,
+        publicNonces,
+      })
+      return result.partialSigs
+    }
+
+    /**
+     * Drop a session's secret nonces without signing
+     */
+    async function musig2DiscardNonces(sessionId: string) {
+      const result = await sendRequest('MUSIG2_DISCARD_NONCES', { sessionId })
+      return result.discarded
     }
 
     /**
@@ -354,11 +418,17 @@ export default defineNuxtPlugin({
           // Crypto operations
           generateMnemonic,
           validateMnemonic,
+          unlock,
+          lock,
+          exportMnemonic,
           deriveP2TRCommitment,
           deriveKeys,
-          signTransaction,
-          signMessage,
+          signTransactionWithKeys,
+          signMessageWithKey,
           verifyMessage,
+          musig2GenerateNonces,
+          musig2PartialSign,
+          musig2DiscardNonces,
           hashData,
         },
       },
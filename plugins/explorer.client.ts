@@ -25,21 +25,24 @@ export default defineNuxtPlugin({
      * Parse a transaction to determine its type and extract relevant data
      * for UI display
      * @param tx - The raw explorer transaction to parse
-     * @param filterAddress - Optional address to calculate relative amounts (e.g., user's wallet address)
+     * @param wallet - Optional wallet to calculate relative amounts against:
+     * a single address, or a lookup of the account owning each wallet script
+     * (see `classifyTransaction`)
      * @returns A ParsedTransaction with classified type and extracted metadata
      *
      * Transaction types are classified in the following priority:
      * 1. coinbase - Block reward transactions
      * 2. rank - RANK protocol transactions (social media sentiment burns)
      * 3. burn - Non-RANK OP_RETURN burns
-     * 4. self - Self-sends (consolidation or fee-only transactions)
-     * 5. give - Outgoing transfers (user sent more than received)
-     * 6. receive - Incoming transfers (user received more than sent)
-     * 7. unknown - Unclassified transactions
+     * 4. self - Self-sends within one account (consolidation or fee-only)
+     * 5. internal - Transfers between the wallet's accounts
+     * 6. give - Outgoing transfers (wallet sent more than received)
+     * 7. receive - Incoming transfers (wallet received more than sent)
+     * 8. unknown - Unclassified transactions
      */
     function parseExplorerTx(
       tx: ExplorerTx,
-      filterAddress?: string,
+      wallet?: string | TxOwnerLookup,
     ): ParsedTransaction {
       // Use block timestamp if confirmed, otherwise use first-seen time
       const timestamp = tx.block?.timestamp
@@ -58,14 +61,28 @@ export default defineNuxtPlugin({
         raw: tx,
       }
 
+      // A single address owns the scripts it appears with in this tx
+      let ownerOf: TxOwnerLookup = () => undefined
+      if (typeof wallet === 'string') {
+        const walletScripts = new Set(
+          [...tx.inputs, ...tx.outputs]
+            .filter(io => io.address === wallet && io.outputScript)
+            .map(io => io.outputScript!),
+        )
+        ownerOf = scriptHex =>
+          walletScripts.has(scriptHex) ? wallet : undefined
+      } else if (wallet) {
+        ownerOf = wallet
+      }
+      const classification = classifyTransaction(tx, ownerOf)
+      const { netFlow } = classification
+
       // Coinbase transactions (block rewards) have no inputs
       if (tx.isCoinbase) {
         parsed.type = 'coinbase'
-        // Calculate received amount: filter to user's outputs if address provided
-        const received = filterAddress
-          ? tx.outputs
-              .filter(o => o.address === filterAddress)
-              .reduce((sum, o) => sum + BigInt(o.value), 0n)
+        // Received amount: the wallet's outputs if a wallet is given
+        const received = wallet
+          ? netFlow
           : tx.outputs.reduce((sum, o) => sum + BigInt(o.value), 0n)
         parsed.amount = received.toString()
         return parsed
@@ -85,59 +102,44 @@ export default defineNuxtPlugin({
         return parsed
       }
 
-      // Generic burn: OP_RETURN with value but not a RANK transaction
-      const burnedSats = BigInt(tx.sumBurnedSats)
-      if (burnedSats > 0n && !rankOutput) {
-        parsed.type = 'burn'
-        parsed.burnedAmount = tx.sumBurnedSats
+      // Burns found from the output scripts, whether or not a wallet is given
+      const burnedSats = totalBurned(classification)
+      if (classification.burns.some(burn => burn.protocol === 'RANK')) {
+        parsed.type = 'rank'
+        parsed.burnedAmount = burnedSats.toString()
         return parsed
       }
-
-      // Calculate net flow relative to the filter address
-      let inputFromUser = 0n
-      let outputToUser = 0n
-      let counterpartyAddress = ''
-
-      // Sum all inputs belonging to the user
-      for (const input of tx.inputs) {
-        if (input.address === filterAddress) {
-          inputFromUser += BigInt(input.value)
-        }
-      }
-
-      // Sum outputs to user and capture first non-user address as counterparty
-      for (const output of tx.outputs) {
-        if (output.address === filterAddress) {
-          outputToUser += BigInt(output.value)
-        } else if (output.address && !counterpartyAddress) {
-          counterpartyAddress = output.address
-        }
-      }
-
-      // Self-send: user's inputs equal outputs plus fees (consolidation tx)
-      if (
-        inputFromUser > 0n &&
-        outputToUser > 0n &&
-        inputFromUser === outputToUser + burnedSats
-      ) {
-        parsed.type = 'self'
-        parsed.amount = burnedSats.toString() // Amount represents fee paid
+      if (burnedSats > 0n) {
+        parsed.type = 'burn'
+        parsed.burnedAmount = burnedSats.toString()
         return parsed
       }
 
-      // Give: user sent more than received (outgoing transfer)
-      if (inputFromUser > outputToUser) {
-        parsed.type = 'give'
-        parsed.amount = (inputFromUser - outputToUser).toString()
-        parsed.counterpartyAddress = counterpartyAddress
-      } else if (outputToUser > inputFromUser) {
-        // Receive: user received more than sent (incoming transfer)
-        parsed.type = 'receive'
-        parsed.amount = (outputToUser - inputFromUser).toString()
-        // For incoming transfers, counterparty is the sender (first input)
-        if (tx.inputs[0]?.address) {
-          parsed.counterpartyAddress = tx.inputs[0].address
-        }
+      if (classification.feePaidByWallet) {
+        parsed.fee = classification.fee.toString()
+      }
+      parsed.counterparties = classification.counterparties
+        .map(c => c.address)
+        .filter((address): address is string => !!address)
+      parsed.counterpartyAddress = parsed.counterparties[0]
+
+      switch (classification.kind) {
+        case 'self':
+        case 'internal':
+          parsed.type = classification.kind
+          parsed.amount = classification.fee.toString() // Amount represents fee paid
+          parsed.internalTransfers = classification.internalTransfers.map(
+            transfer => ({ ...transfer, amount: transfer.amount.toString() }),
+          )
+          break
+        case 'send':
+          parsed.type = 'give'
+          parsed.amount = (-netFlow).toString()
+          break
+        case 'receive':
+          parsed.type = 'receive'
+          parsed.amount = netFlow.toString()
+          break
       }
 
       return parsed
@@ -381,17 +383,17 @@ export default defineNuxtPlugin({
      * Fetch and parse a batch of transactions by their txids
      * @param params - The parameters for the batch fetch
      * @param params.txids - Array of transaction IDs to fetch
-     * @param params.filterAddress - Optional address to filter/classify transactions against
+     * @param params.wallet - Optional address or wallet script lookup to classify transactions against
      * @param params.batchSize - Number of transactions to fetch in parallel (default: 5)
      * @returns Array of parsed transactions
      */
     async function fetchTransactionBatch({
       txids,
-      filterAddress,
+      wallet,
       batchSize = 5,
     }: {
       txids: string[]
-      filterAddress?: string
+      wallet?: string | TxOwnerLookup
       batchSize?: number
     }): Promise<ParsedTransaction[]> {
       const parsed: ParsedTransaction[] = []
@@ -405,7 +407,7 @@ export default defineNuxtPlugin({
         // Parse each successfully fetched transaction
         for (const tx of results) {
           if (tx) {
-            parsed.push(parseExplorerTx(tx, filterAddress))
+            parsed.push(parseExplorerTx(tx, wallet))
           }
         }
       }
@@ -0,0 +1,106 @@
+/**
+ * Nitro WebSocket relay for MuSig2 protocol messages.
+ *
+ * Shared wallet participants cannot reach each other directly from the
+ * browser, so each one connects here, joins under its MuSig2 public key and
+ * receives the messages other participants address to that key. A peer
+ * joins by signing the challenge it is sent on connect with that key. The
+ * relay only routes; it never sees secret nonces or keys. Messages carry
+ * their sender's signature, which recipients verify.
+ *
+ * Frames (JSON), relay to peer:
+ *   { "type": "challenge", "challenge": "<hex>" }
+ *   { "type": "joined" }
+ * Peer to relay:
+ *   { "type": "join", "key": "<pubkey hex>", "signature": "<base64>" }
+ *   { "type": "send", "to": ["<pubkey hex>", ...], "message": { ... } }
+ *
+ * Usage: ws(s)://<host>/api/musig2-relay
+ */
+import { randomBytes } from 'node:crypto'
+import { Address, Message, PublicKey } from 'xpi-ts/lib/bitcore'
+
+/** Compressed secp256k1 public key (hex) */
+const PUBLIC_KEY_PATTERN = /^0[23][0-9a-f]{64}$/
+
+/** Upper bound on recipients per message */
+const MAX_RECIPIENTS = 32
+
+/** Upper bound on a frame, well above the largest session proposal */
+const MAX_FRAME_BYTES = 256 * 1024
+
+/**
+ * Whether `signature` signs the join text for `challenge` with `key`.
+ * The text must match relayJoinText() in utils/musig2.ts.
+ */
+function verifyJoin(challenge: string, key: string, signature: string) {
+  try {
+    const address = Address.fromPublicKey(new PublicKey(key))
+    return new Message(`MuSig2 relay join: ${challenge}`).verify(
+      address,
+      signature,
+    )
+  } catch {
+    return false
+  }
+}
+
+export default defineWebSocketHandler({
+  open(peer) {
+    const challenge = randomBytes(32).toString('hex')
+    peer.context.challenge = challenge
+    peer.send(JSON.stringify({ type: 'challenge', challenge }))
+  },
+
+  message(peer, frame) {
+    const text = frame.text()
+    if (text.length > MAX_FRAME_BYTES) return
+
+    let data: {
+      type?: unknown
+      key?: unknown
+      signature?: unknown
+      to?: unknown
+      message?: { from?: unknown }
+    }
+    try {
+      data = JSON.parse(text)
+    } catch {
+      return
+    }
+
+    if (data.type === 'join') {
+      const challenge = peer.context.challenge
+      if (typeof challenge !== 'string' || peer.context.key) return
+      if (typeof data.key !== 'string' || typeof data.signature !== 'string') {
+        return
+      }
+      if (
+        !PUBLIC_KEY_PATTERN.test(data.key) ||
+        !verifyJoin(challenge, data.key, data.signature)
+      ) {
+        peer.close(4001, 'Join signature does not match the key')
+        return
+      }
+      delete peer.context.challenge
+      peer.context.key = data.key
+      peer.subscribe(data.key)
+      peer.send(JSON.stringify({ type: 'joined' }))
+      return
+    }
+
+    if (data.type === 'send') {
+      // Peers may only send as the key they joined under
+      const key = peer.context.key
+      if (!key || data.message?.from !== key) return
+      if (!Array.isArray(data.to) || data.to.length > MAX_RECIPIENTS) return
+
+      const payload = JSON.stringify(data.message)
+      for (const recipient of new Set(data.to)) {
+        if (typeof recipient !== 'string' || recipient === key) continue
+        if (!PUBLIC_KEY_PATTERN.test(recipient)) continue
+        peer.publish(recipient, payload)
+      }
+    }
+  },
+})
@@ -61,7 +61,10 @@ export class NetworkMonitor {
   private chronik: ChronikClient | null = null
   /** Current configuration for the network monitor */
   private config: NetworkMonitorConfig | null = null
-  /** Cache of known UTXOs per script payload, used to detect changes */
+  /**
+   * Cache of known UTXOs per Chronik URL and script payload, used to detect
+   * changes. The same script has different UTXOs on different networks.
+   */
   private lastKnownUtxos: Map<string, Set<string>> = new Map()
   /** Timer handle for the polling interval */
   private pollingTimer: ReturnType<typeof setInterval> | null = null
@@ -217,8 +220,8 @@ export class NetworkMonitor {
     try {
       const utxos = await this.fetchUtxos()
       const currentUtxoIds = new Set(utxos.map(u => `${u.txid}_${u.outIdx}`))
-      const previousUtxoIds =
-        this.lastKnownUtxos.get(this.config.scriptPayload) || new Set()
+      const cacheKey = this.cacheKey(this.config.scriptPayload)
+      const previousUtxoIds = this.lastKnownUtxos.get(cacheKey) || new Set()
 
       // Detect new UTXOs (incoming transactions)
       const newUtxoIds = [...currentUtxoIds].filter(
@@ -267,7 +270,7 @@ export class NetworkMonitor {
         }
 
         // Update cached state
-        this.lastKnownUtxos.set(this.config.scriptPayload, currentUtxoIds)
+        this.lastKnownUtxos.set(cacheKey, currentUtxoIds)
       }
     } catch (error) {
       console.error('[NetworkMonitor] Error checking for changes:', error)
@@ -359,11 +362,26 @@ export class NetworkMonitor {
     })
   }
 
+  /**
+   * Key of a script's entry in the UTXO cache, for the configured Chronik
+   * URL unless another is given
+   */
+  private cacheKey(scriptPayload: string, chronikUrl?: string): string {
+    return `${chronikUrl ?? this.config?.chronikUrl ?? ''}|${scriptPayload}`
+  }
+
   /**
    * Initialize from stored state (if any)
    */
-  initializeFromCache(scriptPayload: string, utxoIds: string[]): void {
-    this.lastKnownUtxos.set(scriptPayload, new Set(utxoIds))
+  initializeFromCache(
+    scriptPayload: string,
+    utxoIds: string[],
+    chronikUrl?: string,
+  ): void {
+    this.lastKnownUtxos.set(
+      this.cacheKey(scriptPayload, chronikUrl),
+      new Set(utxoIds),
+    )
     console.log(
       `[NetworkMonitor] Initialized cache with ${utxoIds.length} UTXOs`,
     )
@@ -373,7 +391,7 @@ export class NetworkMonitor {
    * Get current cached UTXO IDs for a script
    */
   getCachedUtxoIds(scriptPayload: string): string[] {
-    const cached = this.lastKnownUtxos.get(scriptPayload)
+    const cached = this.lastKnownUtxos.get(this.cacheKey(scriptPayload))
     return cached ? [...cached] : []
   }
 
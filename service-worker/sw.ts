@@ -79,7 +79,11 @@ self.addEventListener('message', async function (this, ev) {
       break
 
     case 'INIT_UTXO_CACHE':
-      networkMonitor.initializeFromCache(payload.scriptPayload, payload.utxoIds)
+      networkMonitor.initializeFromCache(
+        payload.scriptPayload,
+        payload.utxoIds,
+        payload.chronikUrl,
+      )
       break
 
     // Session Monitor Messages
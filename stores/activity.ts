@@ -5,6 +5,7 @@
  * Provides a single view of all user activity across features.
  */
 import { defineStore } from 'pinia'
+import { useLabelsStore } from './labels'
 import { useWalletStore } from './wallet'
 //import { useP2PStore } from './p2p'
 //import { useMuSig2Store } from './musig2'
@@ -326,6 +327,36 @@ export const useActivityStore = defineStore('activity', () => {
     }
   }
 
+  /**
+   * Set the status and actions of a transaction's activity item, persisting
+   * it first if it only exists in the wallet history
+   */
+  function setTransactionStatus(
+    txid: string,
+    status: ActivityStatus,
+    actions?: ActivityAction[],
+  ) {
+    const item = findByTxid(txid)
+    if (!item) return
+    item.status = status
+    item.actions = actions
+    items.value.set(item.id, item)
+    persist()
+  }
+
+  /**
+   * Set the status of a signing request's activity item. Only new requests
+   * keep their approve/reject actions.
+   */
+  function setSigningRequestStatus(sessionId: string, status: ActivityStatus) {
+    const item = findBySessionId(sessionId)
+    if (!item || item.status === 'complete') return
+    item.status = status
+    if (status !== 'new') item.actions = undefined
+    items.value.set(item.id, item)
+    persist()
+  }
+
   function removeActivity(id: string) {
     items.value.delete(id)
     persist()
@@ -652,7 +683,10 @@ export const useActivityStore = defineStore('activity', () => {
       case 'transaction':
         return (
           String(item.data.txid || '').includes(query) ||
-          String(item.data.address || '').includes(query)
+          String(item.data.address || '').includes(query) ||
+          useLabelsStore().matchesLabel(query, item.data.txid, [
+            item.data.address,
+          ])
         )
       case 'signing_request':
       case 'signing_complete':
@@ -711,6 +745,8 @@ export const useActivityStore = defineStore('activity', () => {
     markAsRead,
     markAllAsRead,
     updateStatus,
+    setTransactionStatus,
+    setSigningRequestStatus,
     removeActivity,
     clearAll,
 
@@ -1,692 +1,325 @@
 /**
  * Contacts Store
- * Manages contact list with CRUD operations and search functionality
  *
- * Phase 4: Contact System Refactor
- * - Contacts now link to unified identities via identityId
- * - Address derivation from public key
- * - Multi-signal online status detection
+ * Compatibility facade over the People store. Contacts are people: every
+ * getter reads `usePeopleStore` and every action writes to it, so callers
+ * still on the legacy `Contact` shape see the same records as the rest of
+ * the app. Data saved by the old contacts store is migrated into people
+ * when the People store initializes.
+ *
+ * New code should use `usePeopleStore` or `usePersonContext` directly.
  */
-import { computed, ref } from 'vue'
+import { computed } from 'vue'
 import { defineStore } from 'pinia'
-import { getItem, setItem, STORAGE_KEYS } from '~/utils/storage'
-import { useIdentityStore } from './identity'
-import { useP2PStore } from './p2p'
+import { usePeopleStore } from './people'
 import { useNetworkStore } from './network'
-import type { OnlineStatus, ContactWithIdentity } from '~/types/contact'
-import {
-  isValidPublicKey,
-  deriveAddressFromPublicKey,
-  getIdentityLevel,
-} from '~/utils/identity'
-
-// Types
-export interface ContactAddresses {
-  /** Mainnet address */
-  livenet?: string
-  /** Testnet address */
-  testnet?: string
-  /** Regtest address */
-  regtest?: string
+import type {
+  Contact,
+  ContactGroup,
+  ContactInput,
+  ContactUpdate,
+  SignerCapabilities,
+} from '~/types/contact'
+
+export type {
+  Contact,
+  ContactAddresses,
+  ContactGroup,
+  SignerCapabilities,
+} from '~/types/contact'
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+function personToContact(person: Person): Contact {
+  return {
+    id: person.id,
+    name: person.name,
+    identityId: person.publicKeyHex,
+    address: person.address,
+    notes: person.notes,
+    avatar: person.avatarUrl,
+    tags: person.tags,
+    isFavorite: person.isFavorite,
+    groupId: person.groupId,
+    peerId: person.peerId,
+    publicKey: person.publicKeyHex,
+    signerCapabilities: person.signerCapabilities
+      ? { musig2: person.signerCapabilities.available }
+      : undefined,
+    lastSeenOnline: person.lastSeenAt,
+    lastTransactionAt: person.lastActivityAt,
+    totalSent: person.totalSent,
+    totalReceived: person.totalReceived,
+    transactionCount: person.transactionCount,
+    createdAt: person.createdAt,
+    updatedAt: person.updatedAt,
+  }
 }
 
 /**
- * Signer capabilities for MuSig2
+ * Person fields for the contact fields set in `data`. Unset fields are left
+ * out so an update does not clear them.
  */
-export interface SignerCapabilities {
-  /** Supports MuSig2 signing */
-  musig2: boolean
-  /** Threshold for multi-sig (optional) */
-  threshold?: number
-}
-
-export interface Contact {
-  // === IDENTIFICATION ===
-  id: string
-  name: string
-
-  // === IDENTITY LINK ===
-  /**
-   * Reference to unified identity (publicKeyHex).
-   * When set, identity properties come from the Identity store.
-   */
-  identityId?: string
-
-  // === ADDRESS ===
-  /**
-   * Lotus address for this contact.
-   * - If identityId is set: derived from identity's publicKey
-   * - If identityId is not set: stored directly (legacy contact)
-   */
-  address: string
-  /** Network-specific addresses */
-  addresses?: ContactAddresses
-
-  // === RELATIONSHIP METADATA ===
-  notes?: string
-  avatar?: string
-  tags?: string[]
-  isFavorite?: boolean
-  groupId?: string
-
-  // === P2P CONNECTIVITY (legacy - prefer identityId) ===
-  /** @deprecated Use identityId to link to Identity with peerId */
-  peerId?: string
-  serviceType?: string
-  /** @deprecated Use identityId to link to Identity with publicKeyHex */
-  publicKey?: string
-  /** @deprecated Use identityId to link to Identity with signerCapabilities */
-  signerCapabilities?: SignerCapabilities
-  /** @deprecated Use identityId to link to Identity with lastSeenAt */
-  lastSeenOnline?: number
-
-  // === ACTIVITY TRACKING ===
-  lastTransactionAt?: number
-  totalSent?: bigint
-  totalReceived?: bigint
-  transactionCount?: number
-
-  // === TIMESTAMPS ===
-  createdAt: number
-  updatedAt: number
-}
-
-export interface ContactGroup {
-  id: string
-  name: string
-  icon: string
-  color: string
-  createdAt: number
+function contactToPersonUpdate(data: ContactUpdate): PersonUpdate {
+  const publicKeyHex = data.publicKey ?? data.identityId
+  const update: PersonUpdate = {
+    name: data.name,
+    address: data.address,
+    notes: data.notes,
+    avatarUrl: data.avatar,
+    tags: data.tags,
+    isFavorite: data.isFavorite,
+    groupId: data.groupId,
+    peerId: data.peerId,
+    publicKeyHex,
+    canSign: publicKeyHex === undefined ? undefined : !!publicKeyHex,
+    signerCapabilities: data.signerCapabilities
+      ? toIdentityCapabilities(data.signerCapabilities)
+      : undefined,
+    lastSeenAt: data.lastSeenOnline,
+    lastActivityAt: data.lastTransactionAt,
+    transactionCount: data.transactionCount,
+    totalSent: data.totalSent,
+    totalReceived: data.totalReceived,
+  }
+  return Object.fromEntries(
+    Object.entries(update).filter(([, value]) => value !== undefined),
+  ) as PersonUpdate
 }
 
-export interface ContactsState {
-  contacts: Contact[]
-  groups: ContactGroup[]
-  initialized: boolean
+function toIdentityCapabilities(
+  capabilities: SignerCapabilities,
+): IdentitySignerCapabilities {
+  return { transactionTypes: ['any'], available: capabilities.musig2 }
 }
 
-// Generate unique ID
-const generateId = (prefix: string = 'contact') =>
-  `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
+const byName = (a: Contact, b: Contact) =>
+  a.name.toLowerCase().localeCompare(b.name.toLowerCase())
 
-/**
- * Get online status for a contact.
- * Phase 2: Delegates to identity store as the canonical source.
- *
- * @param contact - The contact to check
- * @param identity - Resolved identity (if any)
- * @param _p2pStore - P2P store instance (kept for backwards compatibility)
- * @returns OnlineStatus
- */
-function getOnlineStatusForContact(
-  contact: Contact,
-  identity: Identity | undefined,
-  _p2pStore: ReturnType<typeof useP2PStore>,
-): OnlineStatus {
-  const identityStore = useIdentityStore()
-
-  // If contact has identity reference, use identity store's canonical method
-  if (contact.identityId) {
-    return identityStore.getOnlineStatus(contact.identityId)
-  }
-
-  // Legacy: Try to find identity by public key
-  if (contact.publicKey) {
-    return identityStore.getOnlineStatus(contact.publicKey)
-  }
-
-  // Legacy fallback: Check identity if resolved
-  if (identity) {
-    return identityStore.getOnlineStatus(identity.publicKeyHex)
-  }
+// ============================================================================
+// Store Definition
+// ============================================================================
 
-  return 'unknown'
-}
-
-/**
- * Get the address for a contact on the specified network
- * Falls back to the legacy address field if no network-specific address exists
- */
-export const getContactAddress = (
-  contact: Contact,
-  network: NetworkType,
-): string | undefined => {
-  // First check network-specific addresses
-  if (contact.addresses?.[network]) {
-    return contact.addresses[network]
-  }
-  // Fall back to legacy address field if it matches the requested network
-  // (determined by the address prefix)
-  if (contact.address) {
-    const addressNetwork = getNetworkFromAddress(contact.address)
-    if (addressNetwork === network) {
-      return contact.address
-    }
-  }
-  return undefined
-}
+export const useContactsStore = defineStore('contacts', () => {
+  const peopleStore = usePeopleStore()
 
-/**
- * Determine network from address string
- */
-const getNetworkFromAddress = (address: string): NetworkType | null => {
-  if (!address || !address.startsWith('lotus')) return null
-  const networkChar = address.charAt(5)
-  switch (networkChar) {
-    case '_':
-      return 'livenet'
-    case 'T':
-      return 'testnet'
-    /* case 'R':
-      return 'regtest' */
-    default:
-      return null
-  }
-}
+  // === STATE ===
+  /** Every person, in the legacy contact shape */
+  const contacts = computed(() =>
+    Array.from(peopleStore.people.values()).map(personToContact),
+  )
 
-/**
- * Check if contact has an address for the specified network
- */
-export const hasAddressForNetwork = (
-  contact: Contact,
-  network: NetworkType,
-): boolean => {
-  return !!getContactAddress(contact, network)
-}
+  /** Every group, with the IDs of its members */
+  const groups = computed((): ContactGroup[] =>
+    Array.from(peopleStore.groups.values()).map(group => ({
+      ...group,
+      contactIds: contacts.value
+        .filter(c => c.groupId === group.id)
+        .map(c => c.id),
+      updatedAt: group.createdAt,
+    })),
+  )
 
-export const useContactsStore = defineStore('contacts', () => {
-  // === STATE ===
-  const contacts = ref<Contact[]>([])
-  const groups = ref<ContactGroup[]>([])
-  const initialized = ref(false)
+  const initialized = computed(() => peopleStore.initialized)
 
   // === GETTERS ===
-  /**
-   * Get all contacts sorted alphabetically by name
-   */
-  const sortedContacts = computed(() => {
-    return [...contacts.value].sort((a, b) =>
-      a.name.toLowerCase().localeCompare(b.name.toLowerCase()),
-    )
-  })
+  const sortedContacts = computed(() => [...contacts.value].sort(byName))
 
-  /**
-   * Get contact count
-   */
   const contactCount = computed(() => contacts.value.length)
 
-  /**
-   * Get contacts with P2P peer IDs
-   */
-  const p2pContacts = computed(() => {
-    return contacts.value.filter(c => c.peerId)
-  })
+  const p2pContacts = computed(() => contacts.value.filter(c => c.peerId))
 
-  /**
-   * Get all unique tags
-   */
   const allTags = computed(() => {
     const tags = new Set<string>()
     contacts.value.forEach(c => c.tags?.forEach(t => tags.add(t)))
     return Array.from(tags).sort()
   })
 
-  /**
-   * Get favorite contacts
-   */
-  const favoriteContacts = computed(() => {
-    return contacts.value
-      .filter(c => c.isFavorite)
-      .sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()))
-  })
-
-  /**
-   * Get favorite count
-   */
-  const favoriteCount = computed(
-    () => contacts.value.filter(c => c.isFavorite).length,
+  const favoriteContacts = computed(() =>
+    contacts.value.filter(c => c.isFavorite).sort(byName),
   )
 
-  /**
-   * Get contacts with public keys (for MuSig2)
-   * Checks both identityId and legacy publicKey field
-   */
-  const contactsWithPublicKeys = computed(() => {
-    return contacts.value.filter(c => c.identityId || c.publicKey)
-  })
-
-  /**
-   * Get contacts sorted with favorites first
-   */
-  const contactsWithFavoritesFirst = computed(() => {
-    return [...contacts.value].sort((a, b) => {
-      // Favorites first
-      if (a.isFavorite && !b.isFavorite) return -1
-      if (!a.isFavorite && b.isFavorite) return 1
-      // Then alphabetically
-      return a.name.toLowerCase().localeCompare(b.name.toLowerCase())
-    })
-  })
-
-  /**
-   * Get all groups sorted by name
-   */
-  const sortedGroups = computed(() => {
-    return [...groups.value].sort((a, b) =>
-      a.name.toLowerCase().localeCompare(b.name.toLowerCase()),
-    )
-  })
-
-  /**
-   * Get contacts without a group
-   */
-  const ungroupedContacts = computed(() => {
-    return contacts.value.filter(c => !c.groupId)
-  })
+  const favoriteCount = computed(() => favoriteContacts.value.length)
 
-  /**
-   * Get contacts with resolved identity information
-   */
-  const contactsWithIdentity = computed((): ContactWithIdentity[] => {
-    const identityStore = useIdentityStore()
-    const p2pStore = useP2PStore()
-
-    return contacts.value.map(contact => {
-      const identity = contact.identityId
-        ? identityStore.get(contact.identityId)
-        : undefined
-
-      const onlineStatus = getOnlineStatusForContact(
-        contact,
-        identity,
-        p2pStore,
-      )
+  const contactsWithPublicKeys = computed(() =>
+    contacts.value.filter(c => c.publicKey),
+  )
 
-      return {
-        ...contact,
-        identity,
-        onlineStatus,
-        isOnline: onlineStatus === 'online',
-        canMuSig2: !!(identity?.publicKeyHex || contact.publicKey),
-        level: identity
-          ? getIdentityLevel(identity)
-          : IdentityLevel.ADDRESS_ONLY,
-      }
-    })
-  })
+  const contactsWithFavoritesFirst = computed(() => [
+    ...favoriteContacts.value,
+    ...sortedContacts.value.filter(c => !c.isFavorite),
+  ])
 
-  /**
-   * Get contacts with MuSig2 capabilities (can participate in shared wallets)
-   */
-  const signerContacts = computed((): ContactWithIdentity[] => {
-    return contactsWithIdentity.value.filter(c => c.canMuSig2)
-  })
+  const sortedGroups = computed(() =>
+    [...groups.value].sort((a, b) =>
+      a.name.toLowerCase().localeCompare(b.name.toLowerCase()),
+    ),
+  )
 
-  /**
-   * Get online contacts
-   */
-  const onlineContacts = computed((): ContactWithIdentity[] => {
-    return contactsWithIdentity.value.filter(c => c.isOnline)
-  })
+  const ungroupedContacts = computed(() =>
+    contacts.value.filter(c => !c.groupId),
+  )
 
   // === PARAMETERIZED GETTERS (as functions) ===
   /**
-   * Search contacts by name or address (favorites prioritized)
+   * Search contacts by name, address or tag (favorites first)
    */
   function searchContacts(query: string): Contact[] {
     if (!query.trim()) return []
     const lowerQuery = query.toLowerCase()
-    return contacts.value
-      .filter(
-        c =>
-          c.name.toLowerCase().includes(lowerQuery) ||
-          c.address.toLowerCase().includes(lowerQuery) ||
-          c.tags?.some(t => t.toLowerCase().includes(lowerQuery)),
-      )
-      .sort((a, b) => {
-        // Favorites first
-        if (a.isFavorite && !b.isFavorite) return -1
-        if (!a.isFavorite && b.isFavorite) return 1
-        // Then prioritize name matches over address matches
-        const aNameMatch = a.name.toLowerCase().includes(lowerQuery)
-        const bNameMatch = b.name.toLowerCase().includes(lowerQuery)
-        if (aNameMatch && !bNameMatch) return -1
-        if (!aNameMatch && bNameMatch) return 1
-        return a.name.toLowerCase().localeCompare(b.name.toLowerCase())
-      })
+    return contactsWithFavoritesFirst.value.filter(
+      c =>
+        c.name.toLowerCase().includes(lowerQuery) ||
+        c.address.toLowerCase().includes(lowerQuery) ||
+        c.tags?.some(t => t.toLowerCase().includes(lowerQuery)),
+    )
   }
 
-  /**
-   * Get contact by ID
-   */
   function getContactById(id: string): Contact | undefined {
-    return contacts.value.find(c => c.id === id)
+    const person = peopleStore.getById(id)
+    return person && personToContact(person)
   }
 
-  /**
-   * Get contact by address
-   */
   function getContactByAddress(address: string): Contact | undefined {
     return contacts.value.find(
       c => c.address.toLowerCase() === address.toLowerCase(),
     )
   }
 
-  /**
-   * Get contact by peer ID (for P2P integration)
-   */
   function getContactByPeerId(peerId: string): Contact | undefined {
-    return contacts.value.find(c => c.peerId === peerId)
+    const person = peopleStore.getByPeerId(peerId)
+    return person && personToContact(person)
   }
 
-  /**
-   * Get contacts by tag
-   */
   function getContactsByTag(tag: string): Contact[] {
     return contacts.value.filter(c =>
       c.tags?.some(t => t.toLowerCase() === tag.toLowerCase()),
     )
   }
 
-  /**
-   * Find contact by public key (checks both identityId and legacy publicKey)
-   */
   function findByPublicKey(publicKey: string): Contact | undefined {
     const normalized = publicKey.toLowerCase()
-    return contacts.value.find(
-      c =>
-        c.identityId?.toLowerCase() === normalized ||
-        c.publicKey?.toLowerCase() === normalized,
-    )
+    return contacts.value.find(c => c.publicKey?.toLowerCase() === normalized)
   }
 
-  /**
-   * Find contact by address
-   */
-  function findByAddress(address: string): Contact | undefined {
-    return contacts.value.find(
-      c => c.address.toLowerCase() === address.toLowerCase(),
-    )
-  }
-
-  /**
-   * Find contact by peer ID (checks identity and legacy peerId)
-   */
-  function findByPeerId(peerId: string): Contact | undefined {
-    // Check legacy field first
-    const legacy = contacts.value.find(c => c.peerId === peerId)
-    if (legacy) return legacy
-
-    // Check via identity store
-    const identityStore = useIdentityStore()
-    const identity = identityStore.findByPeerId(peerId)
-    if (identity) {
-      return contacts.value.find(c => c.identityId === identity.publicKeyHex)
-    }
-
-    return undefined
-  }
-
-  /**
-   * Get contacts by group ID
-   */
   function getContactsByGroup(groupId: string): Contact[] {
     return contacts.value.filter(c => c.groupId === groupId)
   }
 
-  /**
-   * Get group by ID
-   */
   function getGroupById(id: string): ContactGroup | undefined {
     return groups.value.find(g => g.id === id)
   }
 
-  // === ACTIONS ===
-  /**
-   * Initialize contacts and groups from storage service
-   */
-  function initialize() {
-    if (initialized.value) return
-
-    const saved = getItem<{ contacts: Contact[]; groups: ContactGroup[] }>(
-      STORAGE_KEYS.CONTACTS,
-      { contacts: [], groups: [] },
-    )
-    contacts.value = saved.contacts || []
-    groups.value = saved.groups || []
-    initialized.value = true
-
-    // Phase 2: Migrate legacy contacts to identity system
-    _migrateContactsToIdentity()
+  function hasAddress(address: string): boolean {
+    return !!getContactByAddress(address)
   }
 
-  /**
-   * Save contacts and groups to storage service
-   */
-  function saveContacts() {
-    setItem(STORAGE_KEYS.CONTACTS, {
-      contacts: contacts.value,
-      groups: groups.value,
-    })
+  // === ACTIONS ===
+  function initialize() {
+    return peopleStore.initialize()
   }
 
   /**
-   * Add a new contact.
-   * If publicKey is provided, creates/links to an Identity and derives address.
-   *
-   * @param data - Contact data (without auto-generated fields)
-   * @returns The created contact
+   * Add a contact, deriving its address from its public key when it has
+   * none. An existing contact with the same address is returned instead.
    */
-  function addContact(
-    data: Omit<Contact, 'id' | 'createdAt' | 'updatedAt'>,
-  ): Contact {
-    const identityStore = useIdentityStore()
-    const networkStore = useNetworkStore()
-
-    let identityId: string | undefined
-    let derivedAddress = data.address
-
-    // If public key provided, create/link identity and derive address
-    if (data.publicKey && isValidPublicKey(data.publicKey)) {
-      const network = networkStore.currentNetwork as 'livenet' | 'testnet'
-      const identity = identityStore.findOrCreate(data.publicKey, network)
-      identityId = identity.publicKeyHex
-      derivedAddress = identity.address
-
-      // Copy P2P info to identity if present
-      if (data.peerId) {
-        identityStore.update(identity.publicKeyHex, {
-          peerId: data.peerId,
-        })
-      }
-
-      // Copy signer capabilities to identity if present
-      if (data.signerCapabilities) {
-        identityStore.update(identity.publicKeyHex, {
-          signerCapabilities: {
-            transactionTypes: ['any'],
-            available: data.signerCapabilities.musig2,
-          },
-        })
-      }
-
-      console.log('[Contacts] Created identity for contact:', {
-        publicKey: data.publicKey.slice(0, 16) + '...',
-        address: derivedAddress?.slice(0, 20) + '...',
-      })
-    }
-
-    // Check for duplicate address
-    if (derivedAddress) {
-      const existing = contacts.value.find(
-        c => c.address.toLowerCase() === derivedAddress.toLowerCase(),
-      )
-      if (existing) {
-        console.warn(
-          '[Contacts] Contact already exists with address:',
-          existing.name,
-        )
-        // Return existing contact instead of throwing
-        return existing
-      }
-    }
-
-    const now = Date.now()
-    const newContact: Contact = {
-      ...data,
-      id: generateId(),
-      identityId,
-      address: derivedAddress || '',
-      tags: data.tags || [],
-      isFavorite: data.isFavorite || false,
-      createdAt: now,
-      updatedAt: now,
-    }
+  function addContact(data: ContactInput): Contact {
+    const publicKey = data.publicKey ?? data.identityId
+    const address =
+      data.address ||
+      (publicKey && isValidPublicKey(publicKey)
+        ? deriveAddressFromPublicKey(
+            publicKey,
+            useNetworkStore().currentNetwork,
+          )
+        : null) ||
+      ''
 
-    contacts.value.push(newContact)
-    saveContacts()
+    const existing = address ? getContactByAddress(address) : undefined
+    if (existing) return existing
 
-    console.log('[Contacts] Added contact:', {
-      name: newContact.name,
-      hasIdentity: !!identityId,
-      address: newContact.address?.slice(0, 20) + '...',
+    const person = peopleStore.addPerson({
+      isOnline: false,
+      canSign: false,
+      level: data.peerId ? 2 : publicKey ? 1 : 0,
+      isFavorite: false,
+      tags: [],
+      transactionCount: 0,
+      totalSent: 0n,
+      totalReceived: 0n,
+      sharedWalletIds: [],
+      ...contactToPersonUpdate(data),
+      name: data.name,
+      address,
     })
-
-    return newContact
+    return personToContact(person)
   }
 
   /**
-   * Create a contact from a discovered signer.
-   * Automatically derives address from signer's public key.
-   *
-   * @param signer - Discovered signer data
-   * @returns The created or existing contact
+   * Add a discovered signer as a contact, or return the existing one
    */
   function addFromSigner(signer: {
     publicKeyHex: string
     peerId?: string
     nickname?: string
-    transactionTypes?: string[]
-    amountRange?: { min?: number; max?: number }
-    fee?: number
-    expiresAt?: number
   }): Contact {
-    // Check if contact already exists by public key
-    const existingByPubKey = contacts.value.find(
-      c =>
-        c.identityId === signer.publicKeyHex ||
-        c.publicKey === signer.publicKeyHex,
-    )
-    if (existingByPubKey) {
-      console.log(
-        '[Contacts] Contact already exists for signer:',
-        existingByPubKey.name,
-      )
-      return existingByPubKey
-    }
+    const existing = findByPublicKey(signer.publicKeyHex)
+    if (existing) return existing
 
     return addContact({
       name: signer.nickname || `Signer ${signer.publicKeyHex.slice(0, 8)}`,
-      address: '', // Will be derived from publicKey
+      address: '',
       publicKey: signer.publicKeyHex,
       peerId: signer.peerId,
-      signerCapabilities: {
-        musig2: true,
-      },
+      signerCapabilities: { musig2: true },
       tags: ['signer'],
       isFavorite: false,
     })
   }
 
-  /**
-   * Update an existing contact
-   */
-  function updateContact(
-    id: string,
-    updates: Partial<Omit<Contact, 'id' | 'createdAt'>>,
-  ): Contact | null {
-    const index = contacts.value.findIndex(c => c.id === id)
-    if (index === -1) return null
-
-    const updated: Contact = {
-      ...contacts.value[index],
-      ...updates,
-      updatedAt: Date.now(),
-    }
-
-    contacts.value[index] = updated
-    saveContacts()
-
-    return updated
+  function updateContact(id: string, updates: ContactUpdate): Contact | null {
+    const person = peopleStore.updatePerson(id, contactToPersonUpdate(updates))
+    return person ? personToContact(person) : null
   }
 
-  /**
-   * Delete a contact
-   */
   function deleteContact(id: string): boolean {
-    const index = contacts.value.findIndex(c => c.id === id)
-    if (index === -1) return false
-
-    contacts.value.splice(index, 1)
-    saveContacts()
-
-    return true
+    return peopleStore.removePerson(id)
   }
 
   /**
-   * Check if an address exists in contacts
+   * Add contacts from exported JSON data
+   *
+   * @param merge - Keep existing contacts, skipping imported addresses that
+   *   are already known; otherwise replace them
+   * @returns Number of contacts added
    */
-  function hasAddress(address: string): boolean {
-    return contacts.value.some(
-      c => c.address.toLowerCase() === address.toLowerCase(),
-    )
-  }
+  function importContacts(contactsData: ContactInput[], merge = true): number {
+    if (!merge) clearAllContacts()
 
-  /**
-   * Import contacts from JSON
-   */
-  function importContacts(
-    contactsData: Array<Omit<Contact, 'id' | 'createdAt' | 'updatedAt'>>,
-    merge: boolean = true,
-  ): number {
     let imported = 0
-    const now = Date.now()
-
-    if (!merge) {
-      contacts.value = []
-    }
-
     for (const data of contactsData) {
-      // Skip if address already exists (when merging)
-      if (merge && hasAddress(data.address)) {
-        continue
-      }
-
-      contacts.value.push({
-        ...data,
-        id: generateId(),
-        createdAt: now,
-        updatedAt: now,
-      })
+      if (hasAddress(data.address)) continue
+      addContact(data)
       imported++
     }
-
-    saveContacts()
     return imported
   }
 
-  /**
-   * Export contacts as JSON
-   */
   function exportContacts(): string {
     const exportData = contacts.value.map(
       ({ id, createdAt, updatedAt, ...rest }) => rest,
     )
-    return JSON.stringify(exportData, null, 2)
+    return JSON.stringify(
+      exportData,
+      (_, value) => (typeof value === 'bigint' ? value.toString() : value),
+      2,
+    )
   }
 
   /**
-   * Add or update contact from P2P service discovery
+   * Add or update a contact from P2P service discovery
    */
   function upsertFromP2P(
     peerId: string,
@@ -695,140 +328,55 @@ export const useContactsStore = defineStore('contacts', () => {
     serviceType?: string,
   ): Contact {
     const existing = getContactByPeerId(peerId)
-
     if (existing) {
-      return updateContact(existing.id, {
-        name,
-        address,
-        serviceType,
-      })!
+      return updateContact(existing.id, { name, address })!
     }
 
     return addContact({
       name,
       address,
       peerId,
-      serviceType,
-      tags: ['p2p'],
+      tags: serviceType ? ['p2p', serviceType] : ['p2p'],
     })
   }
 
-  /**
-   * Clear all contacts
-   */
   function clearAllContacts() {
-    contacts.value = []
-    saveContacts()
+    for (const id of Array.from(peopleStore.people.keys())) {
+      peopleStore.removePerson(id)
+    }
   }
 
-  /**
-   * Toggle favorite status for a contact
-   */
   function toggleFavorite(id: string): boolean {
-    const contact = contacts.value.find(c => c.id === id)
-    if (!contact) return false
-
-    contact.isFavorite = !contact.isFavorite
-    contact.updatedAt = Date.now()
-    saveContacts()
-
-    return contact.isFavorite
+    return peopleStore.toggleFavorite(id) ?? false
   }
 
-  /**
-   * Set favorite status for a contact
-   */
   function setFavorite(id: string, isFavorite: boolean): boolean {
-    const contact = contacts.value.find(c => c.id === id)
-    if (!contact) return false
-
-    contact.isFavorite = isFavorite
-    contact.updatedAt = Date.now()
-    saveContacts()
-
-    return true
+    return !!peopleStore.updatePerson(id, { isFavorite })
   }
 
-  // =========================================================================
-  // Group Management
-  // =========================================================================
-
-  /**
-   * Create a new contact group
-   */
-  function createGroup(
-    name: string,
-    icon: string,
-    color: string,
-  ): ContactGroup {
-    const group: ContactGroup = {
-      id: `group_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
-      name,
-      icon,
-      color,
-      createdAt: Date.now(),
-    }
-
-    groups.value.push(group)
-    saveContacts()
-
-    return group
+  function createGroup(name: string, icon: string, color: string) {
+    const group = peopleStore.createGroup(name, icon, color)
+    return getGroupById(group.id)!
   }
 
-  /**
-   * Update a group
-   */
   function updateGroup(
     id: string,
-    updates: Partial<Omit<ContactGroup, 'id' | 'createdAt'>>,
+    updates: Partial<Pick<ContactGroup, 'name' | 'icon' | 'color'>>,
   ): ContactGroup | null {
-    const group = groups.value.find(g => g.id === id)
-    if (!group) return null
-
-    Object.assign(group, updates)
-    saveContacts()
-
-    return group
+    if (!peopleStore.updateGroup(id, updates)) return null
+    return getGroupById(id) ?? null
   }
 
-  /**
-   * Delete a group (contacts in the group become ungrouped)
-   */
   function deleteGroup(id: string): boolean {
-    const index = groups.value.findIndex(g => g.id === id)
-    if (index === -1) return false
-
-    // Remove group from all contacts
-    contacts.value.forEach(c => {
-      if (c.groupId === id) {
-        c.groupId = undefined
-        c.updatedAt = Date.now()
-      }
-    })
-
-    groups.value.splice(index, 1)
-    saveContacts()
-
-    return true
+    return peopleStore.removeGroup(id)
   }
 
-  /**
-   * Assign a contact to a group
-   */
   function assignToGroup(contactId: string, groupId: string | null): boolean {
-    const contact = contacts.value.find(c => c.id === contactId)
-    if (!contact) return false
-
-    contact.groupId = groupId || undefined
-    contact.updatedAt = Date.now()
-    saveContacts()
-
+    if (!peopleStore.getById(contactId)) return false
+    peopleStore.assignToGroup(contactId, groupId)
     return true
   }
 
-  /**
-   * Update contact's P2P info (public key, peer ID, capabilities, last seen)
-   */
   function updateP2PInfo(
     id: string,
     info: {
@@ -838,176 +386,27 @@ export const useContactsStore = defineStore('contacts', () => {
       lastSeenOnline?: number
     },
   ): Contact | null {
-    const contact = contacts.value.find(c => c.id === id)
-    if (!contact) return null
-
-    if (info.publicKey !== undefined) contact.publicKey = info.publicKey
-    if (info.peerId !== undefined) contact.peerId = info.peerId
-    if (info.signerCapabilities !== undefined)
-      contact.signerCapabilities = info.signerCapabilities
-    if (info.lastSeenOnline !== undefined)
-      contact.lastSeenOnline = info.lastSeenOnline
-
-    contact.updatedAt = Date.now()
-    saveContacts()
-
-    return contact
+    return updateContact(id, info)
   }
 
   /**
-   * Update contact's last seen online timestamp by peer ID
-   * Called when peer activity is detected
+   * Record activity from a peer: it is online now
    */
   function updateLastSeen(peerId: string): void {
-    // Update legacy contact field
-    const contact = contacts.value.find(c => c.peerId === peerId)
-    if (contact) {
-      contact.lastSeenOnline = Date.now()
-      saveContacts()
-    }
-
-    // Also update identity store if identity exists for this peer
-    const identityStore = useIdentityStore()
-    const identity = identityStore.findByPeerId(peerId)
-    if (identity) {
-      identityStore.updatePresence(identity.publicKeyHex, {
+    const person = peopleStore.getByPeerId(peerId)
+    if (person) {
+      peopleStore.updatePerson(person.id, {
         isOnline: true,
         lastSeenAt: Date.now(),
       })
     }
   }
 
-  /**
-   * Update contact's signer capabilities
-   */
   function updateSignerCapabilities(
     contactId: string,
     capabilities: SignerCapabilities,
   ): Contact | null {
-    const contact = contacts.value.find(c => c.id === contactId)
-    if (!contact) return null
-
-    contact.signerCapabilities = capabilities
-    contact.updatedAt = Date.now()
-    saveContacts()
-
-    return contact
-  }
-
-  /**
-   * Get a single contact with resolved identity information
-   *
-   * @param id - Contact ID
-   * @returns ContactWithIdentity or undefined if not found
-   */
-  function getContactWithIdentity(id: string): ContactWithIdentity | undefined {
-    const contact = contacts.value.find(c => c.id === id)
-    if (!contact) return undefined
-
-    const identityStore = useIdentityStore()
-    const p2pStore = useP2PStore()
-
-    const identity = contact.identityId
-      ? identityStore.get(contact.identityId)
-      : undefined
-
-    const onlineStatus = getOnlineStatusForContact(contact, identity, p2pStore)
-
-    return {
-      ...contact,
-      identity,
-      onlineStatus,
-      isOnline: onlineStatus === 'online',
-      canMuSig2: !!(identity?.publicKeyHex || contact.publicKey),
-      level: identity ? getIdentityLevel(identity) : IdentityLevel.ADDRESS_ONLY,
-    }
-  }
-
-  /**
-   * Get online status for a contact
-   *
-   * @param contact - Contact to check
-   * @returns OnlineStatus
-   */
-  function getOnlineStatus(contact: Contact): OnlineStatus {
-    const identityStore = useIdentityStore()
-    const p2pStore = useP2PStore()
-
-    const identity = contact.identityId
-      ? identityStore.get(contact.identityId)
-      : undefined
-
-    return getOnlineStatusForContact(contact, identity, p2pStore)
-  }
-
-  /**
-   * Check if a contact is currently online
-   *
-   * @param contact - Contact to check
-   * @returns true if online
-   */
-  function isContactOnline(contact: Contact): boolean {
-    return getOnlineStatus(contact) === 'online'
-  }
-
-  // =========================================================================
-  // Phase 2: Identity Migration
-  // =========================================================================
-
-  /**
-   * Migrate legacy contacts to use identityId.
-   * Copies legacy P2P data to identity store.
-   */
-  function _migrateContactsToIdentity() {
-    const identityStore = useIdentityStore()
-    const networkStore = useNetworkStore()
-    const network = networkStore.currentNetwork as 'livenet' | 'testnet'
-
-    let migrated = 0
-
-    for (const contact of contacts.value) {
-      // Skip if already has identityId
-      if (contact.identityId) continue
-
-      // Migrate contacts with public key
-      if (contact.publicKey) {
-        try {
-          const identity = identityStore.findOrCreate(
-            contact.publicKey,
-            network,
-          )
-
-          // Copy legacy data to identity
-          if (contact.peerId && !identity.peerId) {
-            identity.peerId = contact.peerId
-          }
-          if (contact.lastSeenOnline && !identity.lastSeenAt) {
-            identity.lastSeenAt = contact.lastSeenOnline
-          }
-          if (contact.signerCapabilities && !identity.signerCapabilities) {
-            identity.signerCapabilities = {
-              transactionTypes: ['any'],
-              available: contact.signerCapabilities.musig2,
-            }
-          }
-
-          // Set identity reference
-          contact.identityId = identity.publicKeyHex
-          migrated++
-        } catch (error) {
-          console.warn(
-            `[Contacts] Failed to migrate contact ${contact.name}:`,
-            error,
-          )
-        }
-      }
-    }
-
-    if (migrated > 0) {
-      console.log(`[Contacts] Migrated ${migrated} contacts to identity system`)
-      identityStore.save()
-      saveContacts()
-    }
+    return updateContact(contactId, { signerCapabilities: capabilities })
   }
 
   // === RETURN ===
@@ -1027,9 +426,6 @@ export const useContactsStore = defineStore('contacts', () => {
     contactsWithFavoritesFirst,
     sortedGroups,
     ungroupedContacts,
-    contactsWithIdentity,
-    signerContacts,
-    onlineContacts,
     // Parameterized getters (functions)
     searchContacts,
     getContactById,
@@ -1037,18 +433,17 @@ export const useContactsStore = defineStore('contacts', () => {
     getContactByPeerId,
     getContactsByTag,
     findByPublicKey,
-    findByAddress,
-    findByPeerId,
+    findByAddress: getContactByAddress,
+    findByPeerId: getContactByPeerId,
     getContactsByGroup,
     getGroupById,
+    hasAddress,
     // Actions
     initialize,
-    saveContacts,
     addContact,
     addFromSigner,
     updateContact,
     deleteContact,
-    hasAddress,
     importContacts,
     exportContacts,
     upsertFromP2P,
@@ -1062,8 +457,5 @@ export const useContactsStore = defineStore('contacts', () => {
     updateP2PInfo,
     updateLastSeen,
     updateSignerCapabilities,
-    getContactWithIdentity,
-    getOnlineStatus,
-    isContactOnline,
   }
 })
@@ -2,17 +2,32 @@
  * Draft Transaction Store
  *
  * Simplified store for managing draft transactions in the new SendModal flow.
- * Designed for single-recipient transactions with optional advanced features.
+ * Designed for single-recipient transactions with optional advanced features,
+ * plus a batch mode that pays many recipients in one transaction.
  *
  * Primary API (for SendModal):
  * - setAddress(address) - Set recipient address
  * - setAmount(sats) - Set amount in satoshis
  * - setSendMax(enabled) - Enable/disable send max
+ * - setMemo(text) - Local label for the transaction once sent
  * - send() - Build, sign, and broadcast transaction
  * - reset() - Clear draft state
  *
+ * Batch API:
+ * - setBatchMode(enabled) - Switch to a list of recipients
+ * - addRecipient() / updateRecipient() / removeRecipient() - Edit rows
+ * - importRecipients(text) - Append rows from pasted text or a CSV file
+ *
+ * Offline signing API:
+ * - setSourceAccount(id) - Spend a watch-only xpub account instead
+ * - exportOfflineBundle() - Build the unsigned transaction as a bundle
+ * - signOfflineBundle(bundle) - Sign an imported bundle (offline instance)
+ * - broadcastOfflineBundle(bundle) - Broadcast an imported signed bundle
+ *
  * Advanced API (for power users):
+ * - setFeePreset(preset) - Slow, normal or fast estimated fee rate
  * - setFeeRate(rate) - Custom fee rate
+ * - setCoinSelection(strategy) - How inputs are chosen
  * - setSelectedUtxos(outpoints) - Coin control
  * - setOpReturn(config) - OP_RETURN data
  * - setLocktime(config) - Locktime
@@ -23,14 +38,36 @@ import { defineStore } from 'pinia'
 // Types
 // ============================================================================
 
+/**
+ * One recipient row of a batch payment
+ */
+export interface DraftRecipient {
+  /** Row identifier, stable while the row is edited */
+  id: string
+  address: string
+  amountSats: bigint
+}
+
 export interface DraftState {
   // Core transaction data
   address: string
   amountSats: bigint
   sendMax: boolean
+  /** Private note saved as the transaction's label, never broadcast */
+  memo: string
+
+  // Batch payment
+  batchMode: boolean
+  recipients: DraftRecipient[]
+
+  /** Watch-only account spent from, or null for the wallet's own funds */
+  sourceAccountId: string | null
 
   // Advanced options
+  /** Estimated rate the fee rate follows, or custom when typed in */
+  feePreset: FeePreset | 'custom'
   feeRate: number
+  coinSelection: CoinSelectionStrategy
   selectedUtxos: string[]
   opReturn: OpReturnConfig | null
   locktime: LocktimeConfig | null
@@ -57,7 +94,13 @@ function createInitialState(): DraftState {
     address: '',
     amountSats: 0n,
     sendMax: false,
+    memo: '',
+    batchMode: false,
+    recipients: [],
+    sourceAccountId: null,
+    feePreset: 'normal',
     feeRate: DEFAULT_FEE_RATE,
+    coinSelection: DEFAULT_COIN_SELECTION_STRATEGY,
     selectedUtxos: [],
     opReturn: null,
     locktime: null,
@@ -82,7 +125,15 @@ export const useDraftStore = defineStore('draft', () => {
   const address = ref('')
   const amountSats = ref(0n)
   const sendMax = ref(false)
+  const memo = ref('')
+  const batchMode = ref(false)
+  const recipients = ref<DraftRecipient[]>([])
+  const sourceAccountId = ref<string | null>(null)
+  const feePreset = ref<FeePreset | 'custom'>('normal')
   const feeRate = ref(DEFAULT_FEE_RATE)
+  const coinSelection = ref<CoinSelectionStrategy>(
+    DEFAULT_COIN_SELECTION_STRATEGY,
+  )
   const selectedUtxos = ref<string[]>([])
   const opReturn = ref<OpReturnConfig | null>(null)
   const locktime = ref<LocktimeConfig | null>(null)
@@ -99,11 +150,17 @@ export const useDraftStore = defineStore('draft', () => {
   const canSend = computed(() => isValid.value && !sending.value)
   const hasAddress = computed(() => address.value.length > 0)
   const hasAmount = computed(() => amountSats.value > 0n || sendMax.value)
+  /** Sum of all batch recipient amounts */
+  const batchTotal = computed(() =>
+    recipients.value.reduce((sum, row) => sum + row.amountSats, 0n),
+  )
 
   // === INTERNAL HELPERS ===
   function _getAvailableUtxos(): UtxoEntry[] {
     const walletStore = useWalletStore()
-    const spendable = walletStore.getSpendableUtxos()
+    const spendable = sourceAccountId.value
+      ? walletStore.getWatchOnlySpendableUtxos(sourceAccountId.value)
+      : walletStore.getSpendableUtxos()
 
     if (selectedUtxos.value.length > 0) {
       return spendable.filter(utxo =>
@@ -117,24 +174,32 @@ export const useDraftStore = defineStore('draft', () => {
   function _buildContext(): TransactionBuildContext | null {
     const walletStore = useWalletStore()
 
-    const txContext = walletStore.getTransactionBuildContext()
+    const txContext = sourceAccountId.value
+      ? walletStore.getWatchOnlyBuildContext(sourceAccountId.value)
+      : walletStore.getTransactionBuildContext()
     if (!$bitcore || !txContext) return null
 
     const availableUtxosList = _getAvailableUtxos()
 
-    // Build single recipient for transaction builder
-    const recipients = [
-      {
-        address: address.value,
-        amountSats: amountSats.value,
-        sendMax: sendMax.value,
-      },
-    ]
+    const txRecipients: RecipientData[] = batchMode.value
+      ? recipients.value.map(row => ({
+          address: row.address,
+          amountSats: row.amountSats,
+          sendMax: false,
+        }))
+      : [
+          {
+            address: address.value,
+            amountSats: amountSats.value,
+            sendMax: sendMax.value,
+          },
+        ]
 
     return {
       availableUtxos: availableUtxosList,
-      recipients,
+      recipients: txRecipients,
       feeRate: feeRate.value,
+      coinSelection: coinSelection.value,
       changeAddress: txContext.changeAddress,
       script: txContext.script,
       addressType: txContext.addressType,
@@ -180,6 +245,15 @@ export const useDraftStore = defineStore('draft', () => {
       return
     }
 
+    if (batchMode.value) {
+      const countCheck = validateRecipientCount(recipients.value.length)
+      if (!countCheck.valid) {
+        validationError.value = countCheck.error!
+        estimatedFee.value = 0
+        return
+      }
+    }
+
     // Estimate transaction
     const estimate = builder.estimateTransaction(
       ctx,
@@ -228,6 +302,14 @@ export const useDraftStore = defineStore('draft', () => {
     _recalculate()
   }
 
+  /**
+   * Set the memo saved as a label on the sent transaction.
+   * It is stored on this device only and does not affect the transaction.
+   */
+  function setMemo(text: string) {
+    memo.value = text
+  }
+
   /**
    * Reset the draft to initial state.
    */
@@ -235,7 +317,13 @@ export const useDraftStore = defineStore('draft', () => {
     address.value = ''
     amountSats.value = 0n
     sendMax.value = false
-    feeRate.value = DEFAULT_FEE_RATE
+    memo.value = ''
+    batchMode.value = false
+    recipients.value = []
+    sourceAccountId.value = null
+    feePreset.value = 'normal'
+    feeRate.value = useFeeStore().rateFor('normal')
+    coinSelection.value = DEFAULT_COIN_SELECTION_STRATEGY
     selectedUtxos.value = []
     opReturn.value = null
     locktime.value = null
@@ -253,14 +341,33 @@ export const useDraftStore = defineStore('draft', () => {
   // Advanced API
   // ========================================================================
 
+  /**
+   * Use the estimated fee rate of a preset, following new estimates
+   */
+  function setFeePreset(preset: FeePreset) {
+    feePreset.value = preset
+    feeRate.value = useFeeStore().rateFor(preset)
+    _recalculate()
+  }
+
   /**
    * Set custom fee rate (sat/byte).
    */
   function setFeeRate(rate: number) {
+    feePreset.value = 'custom'
     feeRate.value = Math.max(1, Math.floor(rate))
     _recalculate()
   }
 
+  /**
+   * Set the coin selection strategy used when no UTXOs are selected
+   * manually.
+   */
+  function setCoinSelection(strategy: CoinSelectionStrategy) {
+    coinSelection.value = strategy
+    _recalculate()
+  }
+
   /**
    * Set selected UTXOs for coin control.
    * Pass empty array to disable coin control (auto-select).
@@ -286,103 +393,255 @@ export const useDraftStore = defineStore('draft', () => {
     _recalculate()
   }
 
+  // ========================================================================
+  // Batch API
+  // ========================================================================
+
+  /**
+   * Switch between a single recipient and a batch of recipients. Entering
+   * batch mode carries the single recipient over as the first row.
+   * Send max is not available for batches.
+   */
+  function setBatchMode(enabled: boolean) {
+    batchMode.value = enabled
+    if (enabled) {
+      if (recipients.value.length === 0) {
+        recipients.value = [
+          {
+            id: generateId('recipient'),
+            address: address.value,
+            amountSats: sendMax.value ? 0n : amountSats.value,
+          },
+        ]
+      }
+      sendMax.value = false
+    }
+    _recalculate()
+  }
+
+  /**
+   * Append a recipient row.
+   * Throws if the batch is already at the recipient limit.
+   */
+  function addRecipient(
+    newAddress: string = '',
+    newAmountSats: bigint = 0n,
+  ): DraftRecipient {
+    const countCheck = validateRecipientCount(recipients.value.length + 1)
+    if (!countCheck.valid) {
+      throw new Error(countCheck.error)
+    }
+    const row: DraftRecipient = {
+      id: generateId('recipient'),
+      address: newAddress,
+      amountSats: newAmountSats,
+    }
+    recipients.value.push(row)
+    _recalculate()
+    return row
+  }
+
+  /**
+   * Change the address and/or amount of a recipient row
+   */
+  function updateRecipient(
+    id: string,
+    changes: Partial<Pick<DraftRecipient, 'address' | 'amountSats'>>,
+  ) {
+    const row = recipients.value.find(r => r.id === id)
+    if (!row) return
+    Object.assign(row, changes)
+    _recalculate()
+  }
+
+  /**
+   * Remove a recipient row
+   */
+  function removeRecipient(id: string) {
+    recipients.value = recipients.value.filter(r => r.id !== id)
+    _recalculate()
+  }
+
+  /**
+   * Append recipients from `address,amount` lines (amounts in XPI).
+   * Empty rows are replaced. Lines that fail to parse are returned as
+   * errors and nothing is added if the batch would exceed the limit.
+   */
+  function importRecipients(text: string): RecipientListParseResult {
+    const networkStore = useNetworkStore()
+    const result = parseRecipientList(text, networkStore.currentNetwork)
+
+    const kept = recipients.value.filter(
+      row => row.address || row.amountSats > 0n,
+    )
+    const countCheck = validateRecipientCount(
+      kept.length + result.rows.length,
+    )
+    if (!countCheck.valid) {
+      return {
+        rows: [],
+        errors: [...result.errors, { line: 0, message: countCheck.error! }],
+      }
+    }
+
+    recipients.value = [
+      ...kept,
+      ...result.rows.map(row => ({
+        id: generateId('recipient'),
+        address: row.address,
+        amountSats: row.amountSats,
+      })),
+    ]
+    _recalculate()
+    return result
+  }
+
   // ========================================================================
   // Send
   // ========================================================================
 
-  async function send(): Promise<string> {
-    const walletStore = useWalletStore()
+  /**
+   * Build the unsigned transaction for the current draft
+   */
+  function _prepareTransaction(): {
+    tx: InstanceType<typeof $bitcore.Transaction>
+    utxosToUse: UtxoEntry[]
+    totalOutputAmount: bigint
+  } {
     const networkStore = useNetworkStore()
     const builder = useTransactionBuilder()
 
-    if (!$chronik.isInitialized() || !walletStore.isReadyForSigning()) {
-      throw new Error('Wallet not initialized')
+    const ctx = _buildContext()
+    if (!ctx) {
+      throw new Error('Failed to build transaction context')
     }
 
-    if (!isValid.value) {
-      throw new Error(validationError.value || 'Transaction is not valid')
+    // Estimate to get selected UTXOs
+    const estimate = builder.estimateTransaction(
+      ctx,
+      networkStore.currentNetwork,
+    )
+
+    if (!estimate.valid) {
+      throw new Error(estimate.error || 'Transaction estimation failed')
     }
 
-    sending.value = true
-    sendError.value = null
+    // Get UTXOs for this transaction
+    const byOutpoint = new Map(
+      ctx.availableUtxos.map(utxo => [utxo.outpoint, utxo]),
+    )
+    const utxosToUse: UtxoEntry[] = estimate.selectedUtxos
+      .map(utxo => byOutpoint.get(utxo.outpoint))
+      .filter((entry): entry is UtxoEntry => entry !== undefined)
 
-    try {
-      const ctx = _buildContext()
-      if (!ctx) {
-        throw new Error('Failed to build transaction context')
-      }
+    if (utxosToUse.length === 0) {
+      throw new Error('No UTXOs selected for transaction')
+    }
+
+    // Build transaction
+    const tx = builder.buildTransaction(ctx, utxosToUse, estimate.maxSendable)
+    if (!tx) {
+      throw new Error('Failed to build transaction')
+    }
+
+    // Apply locktime if configured
+    if (locktime.value) {
+      builder.applyLocktime(tx, locktime.value)
+    }
+
+    const totalOutputAmount = batchMode.value
+      ? batchTotal.value
+      : sendMax.value
+        ? estimate.maxSendable
+        : amountSats.value
+
+    return { tx, utxosToUse, totalOutputAmount }
+  }
+
+  /**
+   * Update wallet state after one of our transactions was broadcast
+   *
+   * @param payments - What each recipient was paid, in output order
+   */
+  async function _recordBroadcast(
+    txid: string,
+    spentOutpoints: string[],
+    amount: bigint,
+    payments: { address: string; amount: bigint }[],
+  ) {
+    const walletStore = useWalletStore()
+
+    // Update wallet state - remove spent UTXOs
+    for (const outpoint of spentOutpoints) {
+      walletStore.utxos.delete(outpoint)
+    }
 
-      // Estimate to get selected UTXOs
-      const estimate = builder.estimateTransaction(
-        ctx,
-        networkStore.currentNetwork,
+    // A recipient paid by several outputs is listed once
+    const paidTo = new Map<string, bigint>()
+    for (const payment of payments) {
+      paidTo.set(
+        payment.address,
+        (paidTo.get(payment.address) ?? 0n) + payment.amount,
       )
+    }
 
-      if (!estimate.valid) {
-        throw new Error(estimate.error || 'Transaction estimation failed')
-      }
+    // Add to transaction history
+    const newHistoryItem = {
+      txid,
+      timestamp: Math.floor(Date.now() / 1000).toString(),
+      blockHeight: -1,
+      isSend: true,
+      amount: amount.toString(),
+      address: payments[0]?.address ?? '',
+      confirmations: 0,
+      counterparties: [...paidTo.keys()],
+      counterpartyAmounts: Object.fromEntries(
+        [...paidTo].map(([address, paid]) => [address, paid.toString()]),
+      ),
+    }
+    await walletStore.addHistoryItem(newHistoryItem)
 
-      // Get UTXOs for this transaction
-      const utxosToUse: UtxoEntry[] = estimate.selectedUtxos
-        .map(utxo => {
-          const walletUtxo = walletStore.utxos.get(utxo.outpoint)
-          return walletUtxo
-            ? {
-                outpoint: utxo.outpoint,
-                value: walletUtxo.value,
-                blockHeight: walletUtxo.blockHeight,
-                isCoinbase: walletUtxo.isCoinbase,
-              }
-            : null
-        })
-        .filter((entry): entry is UtxoEntry => entry !== null)
-
-      if (utxosToUse.length === 0) {
-        throw new Error('No UTXOs selected for transaction')
-      }
+    if (memo.value.trim()) {
+      useLabelsStore().setTxLabel(txid, memo.value)
+    }
 
-      // Build transaction
-      const tx = builder.buildTransaction(ctx, utxosToUse, estimate.maxSendable)
-      if (!tx) {
-        throw new Error('Failed to build transaction')
-      }
+    walletStore.recalculateBalance()
+    await walletStore.saveWalletState()
 
-      // Apply locktime if configured
-      if (locktime.value) {
-        builder.applyLocktime(tx, locktime.value)
-      }
+    lastTxid.value = txid
+  }
 
-      // Capture details for history
-      const totalOutputAmount = sendMax.value
-        ? estimate.maxSendable
-        : amountSats.value
+  async function send(): Promise<string> {
+    const walletStore = useWalletStore()
 
-      // Sign the transaction
+    if (!$chronik.isInitialized() || !walletStore.isReadyForSigning()) {
+      throw new Error('Wallet not initialized')
+    }
+
+    if (sourceAccountId.value) {
+      throw new Error('Watch-only funds can only be signed offline')
+    }
+
+    if (!isValid.value) {
+      throw new Error(validationError.value || 'Transaction is not valid')
+    }
+
+    sending.value = true
+    sendError.value = null
+
+    try {
+      const { tx, utxosToUse, totalOutputAmount } = _prepareTransaction()
+
+      // Sign the transaction (prompts for unlock if auto-locked)
+      await walletStore.requireUnlocked()
       let signedTxHex: string
 
       // If enabled, crypto worker is initialized in app.vue before wallet store
       if (USE_CRYPTO_WORKER) {
-        const { $cryptoWorker } = useNuxtApp()
         console.log('Signing transaction via crypto worker')
-        const privateKeyHex = walletStore.getPrivateKeyHex()
-        if (!privateKeyHex) throw new Error('Private key not available')
-
-        const scriptHex = walletStore.getScriptHex()
-        if (!scriptHex) throw new Error('Script not available')
-
-        const utxosForSigning = utxosToUse.map(utxo => ({
-          outpoint: utxo.outpoint,
-          satoshis: Number(utxo.value),
-          scriptHex,
-        }))
-
-        const signResult = await $cryptoWorker.signTransaction(
+        const signResult = await walletStore.signTransactionInWorker(
           tx.toBuffer().toString('hex'),
-          utxosForSigning,
-          privateKeyHex,
-          walletStore.addressType,
-          walletStore.getInternalPubKeyString() ?? undefined,
-          walletStore.getMerkleRootHex() ?? undefined,
+          utxosToUse,
         )
         signedTxHex = signResult.signedTxHex
       } else {
@@ -391,37 +650,174 @@ export const useDraftStore = defineStore('draft', () => {
 
       // Broadcast
       const result = await $chronik.broadcastTransaction(signedTxHex)
+      const spentOutpoints = tx.inputs.map(
+        input => `${input.prevTxId.toString('hex')}_${input.outputIndex}`,
+      )
+      usePendingTxStore().track(result.txid, signedTxHex, spentOutpoints)
+
+      await _recordBroadcast(
+        result.txid,
+        spentOutpoints,
+        totalOutputAmount,
+        batchMode.value
+          ? recipients.value.map(row => ({
+              address: row.address,
+              amount: row.amountSats,
+            }))
+          : [{ address: address.value, amount: totalOutputAmount }],
+      )
 
-      // Update wallet state - remove spent UTXOs
-      for (const input of tx.inputs) {
-        const outpoint = `${input.prevTxId.toString('hex')}_${
-          input.outputIndex
-        }`
-        walletStore.utxos.delete(outpoint)
-      }
+      return result.txid
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'Transaction failed'
+      sendError.value = message
+      throw error
+    } finally {
+      sending.value = false
+    }
+  }
 
-      // Add to transaction history
-      const newHistoryItem = {
-        txid: result.txid,
-        timestamp: Math.floor(Date.now() / 1000).toString(),
-        blockHeight: -1,
-        isSend: true,
-        amount: totalOutputAmount.toString(),
-        address: address.value,
-        confirmations: 0,
+  // ========================================================================
+  // Offline Signing
+  // ========================================================================
+
+  /**
+   * Spend from a watch-only xpub account, or the wallet's own funds when
+   * null. Such drafts can only be exported for offline signing.
+   */
+  function setSourceAccount(accountId: string | null) {
+    sourceAccountId.value = accountId
+    // Coin control picks outpoints of the previous source
+    selectedUtxos.value = []
+    _recalculate()
+  }
+
+  /**
+   * Build the draft transaction without signing it, for signing on an
+   * offline instance.
+   */
+  function exportOfflineBundle(): OfflineTransactionBundle {
+    const walletStore = useWalletStore()
+    const networkStore = useNetworkStore()
+
+    if (!isValid.value) {
+      throw new Error(validationError.value || 'Transaction is not valid')
+    }
+
+    const { tx, utxosToUse } = _prepareTransaction()
+    // Bundle inputs must follow the transaction's input order
+    const byOutpoint = new Map(
+      walletStore
+        .getOfflineBundleInputs(utxosToUse)
+        .map(input => [input.outpoint, input]),
+    )
+    const inputs = tx.inputs.map(input => {
+      const outpoint = `${input.prevTxId.toString('hex')}_${input.outputIndex}`
+      const bundleInput = byOutpoint.get(outpoint)
+      if (!bundleInput) {
+        throw new Error(`Missing input data for ${outpoint}`)
       }
-      walletStore.transactionHistory.unshift(newHistoryItem)
+      return bundleInput
+    })
+
+    return createOfflineBundle(
+      tx.uncheckedSerialize(),
+      inputs,
+      networkStore.currentNetwork,
+    )
+  }
+
+  /**
+   * Sign an imported unsigned bundle with this wallet's keys
+   */
+  async function signOfflineBundle(
+    bundle: OfflineTransactionBundle,
+  ): Promise<OfflineTransactionBundle> {
+    const walletStore = useWalletStore()
+
+    if (bundle.status !== 'unsigned') {
+      throw new Error('Transaction is already signed')
+    }
+
+    sending.value = true
+    sendError.value = null
+
+    try {
+      // Prompts for unlock if auto-locked
+      return await walletStore.signOfflineBundle(bundle)
+    } catch (error) {
+      sendError.value =
+        error instanceof Error ? error.message : 'Signing failed'
+      throw error
+    } finally {
+      sending.value = false
+    }
+  }
+
+  /**
+   * Verify and broadcast an imported signed bundle
+   */
+  async function broadcastOfflineBundle(
+    bundle: OfflineTransactionBundle,
+  ): Promise<string> {
+    const walletStore = useWalletStore()
+    const networkStore = useNetworkStore()
+
+    if (!$chronik.isInitialized()) {
+      throw new Error('Not connected to the network')
+    }
+    if (bundle.status !== 'signed') {
+      throw new Error('Transaction has not been signed')
+    }
+    if (bundle.network !== networkStore.currentNetwork) {
+      throw new Error(`Transaction is for ${bundle.network}`)
+    }
+    const verifyError = verifySignedOfflineBundle(bundle)
+    if (verifyError) {
+      throw new Error(`Invalid signed transaction: ${verifyError}`)
+    }
 
-      walletStore.recalculateBalance()
-      await walletStore.saveWalletState()
+    sending.value = true
+    sendError.value = null
 
-      lastTxid.value = result.txid
+    try {
+      const result = await $chronik.broadcastTransaction(bundle.txHex)
+      usePendingTxStore().track(
+        result.txid,
+        bundle.txHex,
+        bundle.inputs.map(input => input.outpoint),
+      )
+
+      // Everything not paid back to our own addresses was sent
+      const tx = new $bitcore.Transaction(bundle.txHex)
+      const external = tx.outputs.filter(
+        output => !walletStore.isOwnScript(output.script.toHex()),
+      )
+      const payments = external.flatMap(output => {
+        const recipient = output.script.toAddress(bundle.network)
+        return recipient
+          ? [
+              {
+                address: recipient.toXAddress(bundle.network),
+                amount: BigInt(output.satoshis),
+              },
+            ]
+          : []
+      })
+      await _recordBroadcast(
+        result.txid,
+        bundle.inputs
+          .filter(input => walletStore.utxos.has(input.outpoint))
+          .map(input => input.outpoint),
+        external.reduce((sum, output) => sum + BigInt(output.satoshis), 0n),
+        payments,
+      )
 
       return result.txid
     } catch (error) {
-      const message =
-        error instanceof Error ? error.message : 'Transaction failed'
-      sendError.value = message
+      sendError.value =
+        error instanceof Error ? error.message : 'Broadcast failed'
       throw error
     } finally {
       sending.value = false
@@ -434,7 +830,13 @@ export const useDraftStore = defineStore('draft', () => {
     address,
     amountSats,
     sendMax,
+    memo,
+    batchMode,
+    recipients,
+    sourceAccountId,
+    feePreset,
     feeRate,
+    coinSelection,
     selectedUtxos,
     opReturn,
     locktime,
@@ -450,15 +852,28 @@ export const useDraftStore = defineStore('draft', () => {
     canSend,
     hasAddress,
     hasAmount,
+    batchTotal,
     // Actions
     setAddress,
     setAmount,
     setSendMax,
+    setMemo,
     reset,
+    setBatchMode,
+    addRecipient,
+    updateRecipient,
+    removeRecipient,
+    importRecipients,
+    setFeePreset,
     setFeeRate,
+    setCoinSelection,
     setSelectedUtxos,
     setOpReturn,
     setLocktime,
     send,
+    setSourceAccount,
+    exportOfflineBundle,
+    signOfflineBundle,
+    broadcastOfflineBundle,
   }
 })
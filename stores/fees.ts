@@ -0,0 +1,152 @@
+/**
+ * Fee Store
+ *
+ * Fee-rate estimates for the slow, normal and fast presets, from the fee
+ * rates paid in the last few blocks and in the mempool. Chronik cannot list
+ * the whole mempool, so the mempool sample is the unconfirmed transactions it
+ * reports for the wallet's scripts that the wallet did not pay for.
+ *
+ * Key API:
+ * - refresh() - Sample recent blocks again if the estimates are stale
+ * - estimateFor(preset) / rateFor(preset) - A preset's rate and expected
+ *   confirmation time, the default rate until sampled
+ * - recordMempoolTx(tx) / forgetMempoolTx(txid) - Maintain the mempool sample
+ */
+import { defineStore } from 'pinia'
+import type { Tx as ChronikTx } from 'chronik-client'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Recent blocks sampled for an estimate */
+const SAMPLE_BLOCKS = 6
+
+/** Estimates older than this are refreshed */
+const ESTIMATE_TTL_MS = 2 * 60 * 1000
+
+/** Unconfirmed transactions seen longer ago than this leave the sample */
+const MEMPOOL_SAMPLE_TTL_MS = 30 * 60 * 1000
+
+// ============================================================================
+// Store Definition
+// ============================================================================
+
+export const useFeeStore = defineStore('fees', () => {
+  const { $chronik } = useNuxtApp()
+
+  // === STATE ===
+  const estimates = ref<FeeEstimates | null>(null)
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  /** Fee rate and time seen of unconfirmed transactions, by txid */
+  const _mempool = new Map<string, { feeRate: number; seenAt: number }>()
+  let _refreshing: Promise<void> | null = null
+
+  // === GETTERS ===
+  /**
+   * Estimate of a preset, at the default rate until blocks have been sampled
+   */
+  function estimateFor(preset: FeePreset): FeePresetEstimate {
+    return (
+      estimates.value?.[preset] ?? feePresetEstimate(DEFAULT_FEE_RATE, preset)
+    )
+  }
+
+  /**
+   * Fee rate of a preset
+   */
+  function rateFor(preset: FeePreset): number {
+    return estimateFor(preset).feeRate
+  }
+
+  // === ACTIONS ===
+  /**
+   * Add an unconfirmed transaction to the mempool sample
+   */
+  function recordMempoolTx(tx: ChronikTx) {
+    if (tx.block) return
+    const feeRate = txFeeRate(tx)
+    if (feeRate !== null) {
+      _mempool.set(tx.txid, { feeRate, seenAt: Date.now() })
+    }
+  }
+
+  /**
+   * Drop a transaction that confirmed or left the mempool
+   */
+  function forgetMempoolTx(txid: string) {
+    _mempool.delete(txid)
+  }
+
+  /**
+   * Sample recent blocks and estimate fee rates again, unless the estimates
+   * are recent. Concurrent calls share one refresh.
+   */
+  function refresh(force = false): Promise<void> {
+    const fresh =
+      estimates.value &&
+      Date.now() - estimates.value.updatedAt < ESTIMATE_TTL_MS
+    if (fresh && !force) return Promise.resolve()
+
+    _refreshing ??= _sample().finally(() => {
+      _refreshing = null
+    })
+    return _refreshing
+  }
+
+  async function _sample() {
+    if (!$chronik.isInitialized()) return
+
+    loading.value = true
+    error.value = null
+    try {
+      const info = await $chronik.fetchBlockchainInfo()
+      if (!info) throw new Error('Could not reach Chronik')
+
+      const heights = Array.from(
+        { length: Math.min(SAMPLE_BLOCKS, info.tipHeight + 1) },
+        (_, i) => info.tipHeight - i,
+      )
+      const blocks = await Promise.all(
+        heights.map(height => $chronik.fetchBlock(height)),
+      )
+      const blockRates = blocks
+        .filter(block => block !== null)
+        .map(block =>
+          block.txs
+            .map(txFeeRate)
+            .filter((rate): rate is number => rate !== null),
+        )
+
+      const cutoff = Date.now() - MEMPOOL_SAMPLE_TTL_MS
+      for (const [txid, sample] of _mempool) {
+        if (sample.seenAt < cutoff) _mempool.delete(txid)
+      }
+      const mempoolRates = [..._mempool.values()].map(sample => sample.feeRate)
+
+      estimates.value = estimateFeeRates(blockRates, mempoolRates)
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : String(err)
+      console.warn('[Fees] Failed to estimate fee rates:', err)
+    } finally {
+      loading.value = false
+    }
+  }
+
+  // === RETURN ===
+  return {
+    // State
+    estimates,
+    loading,
+    error,
+    // Getters
+    estimateFor,
+    rateFor,
+    // Actions
+    recordMempoolTx,
+    forgetMempoolTx,
+    refresh,
+  }
+})
@@ -78,7 +78,7 @@ export const useIdentityStore = defineStore('identity', () => {
    */
   function findOrCreate(
     publicKeyHex: string,
-    network: 'livenet' | 'testnet' = 'livenet',
+    network: NetworkType = 'livenet',
   ): Identity {
     if (!isValidPublicKey(publicKeyHex)) {
       throw new Error('Invalid public key format')
@@ -154,7 +154,7 @@ export const useIdentityStore = defineStore('identity', () => {
     signerCapabilities?: IdentitySignerCapabilities
   }): Identity {
     const networkStore = useNetworkStore()
-    const network = networkStore.currentNetwork as 'livenet' | 'testnet'
+    const network = networkStore.currentNetwork
     const identity = findOrCreate(signer.publicKeyHex, network)
 
     if (signer.peerId) {
@@ -287,7 +287,7 @@ export const useIdentityStore = defineStore('identity', () => {
     reputation?: number
   }): Identity {
     const networkStore = useNetworkStore()
-    const network = networkStore.currentNetwork as 'livenet' | 'testnet'
+    const network = networkStore.currentNetwork
     const identity = findOrCreate(signer.publicKeyHex, network)
 
     if (signer.peerId) identity.peerId = signer.peerId
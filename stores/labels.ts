@@ -0,0 +1,168 @@
+/**
+ * Labels Store
+ *
+ * Local labels and memos for transactions and addresses. Labels stay on
+ * this device; they can be moved between wallets in BIP-329 format.
+ *
+ * Key actions:
+ * - setLabel(type, ref, label) - Set or clear (empty label) a label
+ * - labelFor(txid, addresses) - Transaction label, else an address label
+ * - importBip329(text) / exportBip329() - BIP-329 JSON Lines
+ */
+import { defineStore } from 'pinia'
+
+// ============================================================================
+// Store Definition
+// ============================================================================
+
+export const useLabelsStore = defineStore('labels', () => {
+  // === STATE ===
+  /** Labels by `type:ref` key */
+  const labels = ref<Map<string, WalletLabel>>(new Map())
+  const initialized = ref(false)
+
+  // === GETTERS ===
+  /** All labels, most recently edited first */
+  const allLabels = computed(() =>
+    [...labels.value.values()].sort((a, b) => b.updatedAt - a.updatedAt),
+  )
+
+  const count = computed(() => labels.value.size)
+
+  // === INITIALIZATION ===
+  function initialize() {
+    if (initialized.value) return
+
+    const saved = getItem<WalletLabel[]>(STORAGE_KEYS.LABELS, [])
+    labels.value = new Map(
+      saved.map(entry => [labelKey(entry.type, entry.ref), entry]),
+    )
+    initialized.value = true
+  }
+
+  function _persist() {
+    setItem(STORAGE_KEYS.LABELS, [...labels.value.values()])
+  }
+
+  /**
+   * Store a label without persisting. Returns true if anything changed.
+   */
+  function _apply(type: LabelType, ref: string, label: string): boolean {
+    const key = labelKey(type, ref)
+    const text = normalizeLabel(label)
+    if (!text) {
+      return labels.value.delete(key)
+    }
+    if (labels.value.get(key)?.label === text) return false
+    labels.value.set(key, { type, ref, label: text, updatedAt: Date.now() })
+    return true
+  }
+
+  // === LOOKUPS ===
+  function getLabel(type: LabelType, ref: string): string | undefined {
+    return labels.value.get(labelKey(type, ref))?.label
+  }
+
+  function getTxLabel(txid: string): string | undefined {
+    return getLabel('tx', txid)
+  }
+
+  function getAddressLabel(address: string): string | undefined {
+    return getLabel('addr', address)
+  }
+
+  /**
+   * Label to show for a transaction: its own label, otherwise the label of
+   * the first counterparty address that has one
+   */
+  function labelFor(
+    txid: string,
+    addresses: (string | null | undefined)[] = [],
+  ): string | undefined {
+    const txLabel = getTxLabel(txid)
+    if (txLabel) return txLabel
+    for (const address of addresses) {
+      const label = address ? getAddressLabel(address) : undefined
+      if (label) return label
+    }
+    return undefined
+  }
+
+  /**
+   * Whether a transaction's label or a counterparty's address label
+   * contains the (lowercase) query
+   */
+  function matchesLabel(
+    query: string,
+    txid: string,
+    addresses: (string | null | undefined)[] = [],
+  ): boolean {
+    const candidates = [
+      getTxLabel(txid),
+      ...addresses.map(address =>
+        address ? getAddressLabel(address) : undefined,
+      ),
+    ]
+    return candidates.some(label => label?.toLowerCase().includes(query))
+  }
+
+  // === ACTIONS ===
+  /**
+   * Set a label, or remove it when `label` is empty
+   */
+  function setLabel(type: LabelType, ref: string, label: string) {
+    if (_apply(type, ref, label)) _persist()
+  }
+
+  function setTxLabel(txid: string, label: string) {
+    setLabel('tx', txid, label)
+  }
+
+  function setAddressLabel(address: string, label: string) {
+    setLabel('addr', address, label)
+  }
+
+  /**
+   * Merge labels from a BIP-329 file. Imported labels replace existing
+   * labels for the same transaction or address.
+   */
+  function importBip329(text: string): LabelImportResult {
+    const parsed = parseBip329(text)
+    let imported = 0
+    for (const entry of parsed.labels) {
+      if (_apply(entry.type, entry.ref, entry.label)) imported++
+    }
+    if (imported > 0) _persist()
+    return { imported, skipped: parsed.skipped, errors: parsed.errors }
+  }
+
+  function exportBip329(): string {
+    return serializeBip329(allLabels.value)
+  }
+
+  // === RETURN ===
+  return {
+    // State
+    labels,
+    initialized,
+
+    // Getters
+    allLabels,
+    count,
+
+    // Lookups
+    getLabel,
+    getTxLabel,
+    getAddressLabel,
+    labelFor,
+    matchesLabel,
+
+    // Actions
+    initialize,
+    setLabel,
+    setTxLabel,
+    setAddressLabel,
+    importBip329,
+    exportBip329,
+  }
+})
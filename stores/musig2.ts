@@ -0,0 +1,805 @@
+/**
+ * MuSig2 Store
+ *
+ * Shared wallets with MuSig2. Shared wallet records are persisted by the
+ * people store; this store creates them, confirms their address with the
+ * other participants, tracks their on-chain funds, builds spends and runs
+ * the signing sessions through the session engine from the MuSig2 plugin.
+ */
+import { defineStore } from 'pinia'
+import type { Utxo as ChronikUtxo } from 'chronik-client'
+import {
+  MuSig2SessionEngine,
+  isTerminalSessionState,
+  type MuSig2ProtocolMessage,
+  type MuSig2SessionSigner,
+  type MuSig2SpendInput,
+  type MuSig2Transport,
+  type WalletConfirmMessage,
+  type WalletSetupMessage,
+  type WalletSigningSession,
+} from '~/plugins/05.musig2.client'
+import { useActivityStore } from './activity'
+import { useFeeStore } from './fees'
+import { useLabelsStore } from './labels'
+import { useNotificationStore } from './notifications'
+import { usePeopleStore } from './people'
+import { useWalletStore } from './wallet'
+
+/**
+ * New shared wallet with the current user as one of the participants
+ */
+export interface CreateSharedWalletParams {
+  name: string
+  description?: string
+  /** Public keys of the other participants */
+  participantPublicKeys: string[]
+}
+
+/**
+ * Spend request for a shared wallet
+ */
+export interface SharedWalletSpend {
+  walletId: string
+  /** Recipient address */
+  recipient: string
+  /** Amount in satoshis */
+  amount: bigint
+  /** Fee in satoshis */
+  fee: bigint
+  /** Optional purpose/memo */
+  purpose?: string
+}
+
+export const useMuSig2Store = defineStore('musig2', () => {
+  const { $bitcore, $chronik, $cryptoWorker, $musig2 } = useNuxtApp()
+
+  // === STATE ===
+  const initialized = ref(false)
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+  /** Snapshots of engine sessions, replaced on every engine update */
+  const sessions = ref<WalletSigningSession[]>([])
+
+  let _engine: MuSig2SessionEngine | null = null
+  let _transport: MuSig2Transport | null = null
+  let _signer: MuSig2SessionSigner | null = null
+  /** Our MUSIG2 account public key */
+  let _publicKeyHex: string | null = null
+  /** Confirmations that arrived before the wallet setup they refer to */
+  const _earlyConfirms = new Map<string, WalletConfirmMessage[]>()
+  /** Last fetched UTXOs per shared wallet */
+  const _walletUtxos = new Map<string, ChronikUtxo[]>()
+
+  // === GETTERS ===
+
+  /** All shared wallets */
+  const sharedWallets = computed((): SharedWallet[] => {
+    return usePeopleStore().allWallets
+  })
+
+  /** Sessions we are signing that have not finished */
+  const activeSessions = computed((): WalletSigningSession[] => {
+    return sessions.value.filter(
+      s => s.approved && !isTerminalSessionState(s.state),
+    )
+  })
+
+  /** Proposals from other participants awaiting our approval */
+  const pendingSessions = computed((): WalletSigningSession[] => {
+    return sessions.value.filter(
+      s =>
+        !s.approved &&
+        s.state === MuSig2SessionState.KEYS_AGGREGATED &&
+        s.expiresAt > Date.now(),
+    )
+  })
+
+  // === INITIALIZATION ===
+
+  /**
+   * Start the session engine for our MuSig2 key. Requires an initialized
+   * wallet; failures are reported through `error`.
+   */
+  async function initialize() {
+    if (initialized.value) return
+
+    try {
+      if (!USE_CRYPTO_WORKER) {
+        throw new Error('MuSig2 signing requires the crypto worker')
+      }
+
+      const walletStore = useWalletStore()
+      const publicKeyHex = walletStore.getPublicKeyHex(AccountPurpose.MUSIG2)
+      if (!publicKeyHex) {
+        throw new Error('MuSig2 account not initialized')
+      }
+
+      await usePeopleStore().initialize()
+
+      _publicKeyHex = publicKeyHex
+      _signer = _createSigner(publicKeyHex)
+      _transport = $musig2.getTransport(_signer)
+      _engine = new MuSig2SessionEngine({
+        transport: _transport,
+        signer: _signer,
+        broadcast: async txHex => {
+          const result = await $chronik.broadcastTransaction(txHex)
+          return result.txid
+        },
+        getWalletSigners: _getWalletSigners,
+        network: walletStore.getCurrentNetwork(),
+      })
+      _engine.onChange(_syncSession)
+      _engine.start()
+      _transport.subscribe(_handleWalletMessage)
+      _announcePendingWallets()
+
+      initialized.value = true
+      error.value = null
+      console.log('[MuSig2] Session engine started')
+    } catch (err) {
+      error.value =
+        err instanceof Error ? err.message : 'Failed to initialize MuSig2'
+      console.error('[MuSig2] Initialization failed:', err)
+    }
+  }
+
+  /**
+   * Signing backed by the crypto worker's MUSIG2 account key
+   */
+  function _createSigner(publicKeyHex: string): MuSig2SessionSigner {
+    const walletStore = useWalletStore()
+
+    return {
+      publicKeyHex,
+      async signMessage(text) {
+        await walletStore.requireUnlocked()
+        return await $cryptoWorker.signMessageWithKey(
+          text,
+          walletStore.getKeyHandle(AccountPurpose.MUSIG2),
+        )
+      },
+      async generateNonces(sessionId, signers, messages) {
+        await walletStore.requireUnlocked()
+        return await $cryptoWorker.musig2GenerateNonces(
+          sessionId,
+          walletStore.getKeyHandle(AccountPurpose.MUSIG2),
+          signers,
+          messages,
+        )
+      },
+      async partialSign(sessionId, signers, messages, publicNonces) {
+        await walletStore.requireUnlocked()
+        return await $cryptoWorker.musig2PartialSign(
+          sessionId,
+          walletStore.getKeyHandle(AccountPurpose.MUSIG2),
+          signers,
+          messages,
+          publicNonces,
+        )
+      },
+      async discardNonces(sessionId) {
+        await $cryptoWorker.musig2DiscardNonces(sessionId)
+      },
+    }
+  }
+
+  function _getWalletSigners(walletId: string): string[] | null {
+    const wallet = usePeopleStore().getWallet(walletId)
+    if (!wallet || wallet.status !== 'active') return null
+    return wallet.participants.map(p => p.publicKeyHex)
+  }
+
+  /**
+   * Copy an engine session into reactive state
+   */
+  function _syncSession(session: WalletSigningSession) {
+    const snapshot: WalletSigningSession = {
+      ...session,
+      participants: session.participants.map(p => ({ ...p })),
+    }
+    const index = sessions.value.findIndex(s => s.id === session.id)
+    const previous = index === -1 ? undefined : sessions.value[index]
+    if (index === -1) {
+      sessions.value.unshift(snapshot)
+    } else {
+      sessions.value.splice(index, 1, snapshot)
+    }
+
+    if (!previous && !session.isInitiator && !session.approved) {
+      _announceRequest(session)
+    } else if (previous && previous.state !== session.state) {
+      _trackRequest(session)
+    } else if (previous && !previous.approved && session.approved) {
+      useActivityStore().setSigningRequestStatus(session.id, 'pending')
+    }
+
+    if (
+      session.state === MuSig2SessionState.COMPLETED &&
+      session.metadata?.walletId
+    ) {
+      refreshSharedWalletBalances().catch(console.error)
+      _labelSpend(session)
+    }
+  }
+
+  /**
+   * Ask for our approval of a proposal from another participant, through
+   * the activity feed and a notification
+   */
+  function _announceRequest(session: WalletSigningSession) {
+    const walletId = session.metadata?.walletId
+    const wallet = walletId ? usePeopleStore().getWallet(walletId) : undefined
+    if (!wallet) return
+
+    const initiator = wallet.participants.find(
+      p => p.publicKeyHex === session.initiatorPeerId,
+    )
+    useActivityStore().onSigningRequest({
+      sessionId: session.id,
+      walletId: wallet.id,
+      walletName: wallet.name,
+      amountSats: _spendAmount(session),
+      initiatorId: initiator?.personId ?? '',
+      expiresAt: session.expiresAt,
+    })
+    useNotificationStore().addSigningRequestNotification(
+      session.id,
+      _participantName(session.initiatorPeerId),
+    )
+  }
+
+  /**
+   * Reflect the outcome of a session in its activity item
+   */
+  function _trackRequest(session: WalletSigningSession) {
+    const activityStore = useActivityStore()
+    if (session.state === MuSig2SessionState.COMPLETED && session.txid) {
+      const wallet = usePeopleStore().getWallet(
+        session.metadata?.walletId ?? '',
+      )
+      activityStore.onSigningComplete({
+        sessionId: session.id,
+        walletId: wallet?.id ?? session.metadata?.walletId ?? '',
+        walletName: wallet?.name ?? 'Shared Wallet',
+        txid: session.txid,
+        amountSats: _spendAmount(session),
+      })
+    } else if (
+      session.state === MuSig2SessionState.FAILED ||
+      session.state === MuSig2SessionState.CANCELLED
+    ) {
+      activityStore.setSigningRequestStatus(session.id, 'failed')
+    }
+  }
+
+  /** Satoshis a session's transaction pays out of the shared wallet */
+  function _spendAmount(session: WalletSigningSession): bigint {
+    const recipients = session.transactionPreview?.recipients ?? []
+    return recipients.reduce((sum, r) => sum + r.amount, 0n)
+  }
+
+  /**
+   * Display name of a participant: their person's name, else a short key
+   */
+  function _participantName(publicKeyHex: string): string {
+    const person = usePeopleStore().getByPublicKey(publicKeyHex)
+    return person?.name ?? `${publicKeyHex.slice(0, 8)}...`
+  }
+
+  /**
+   * Keep a completed spend's purpose as the transaction's label, unless the
+   * transaction has already been labelled
+   */
+  function _labelSpend(session: WalletSigningSession) {
+    const purpose = session.metadata?.purpose
+    if (!session.txid || !purpose) return
+    const labelsStore = useLabelsStore()
+    if (!labelsStore.getTxLabel(session.txid)) {
+      labelsStore.setTxLabel(session.txid, purpose)
+    }
+  }
+
+  // === SHARED WALLET SETUP ===
+
+  function _buildParticipants(
+    publicKeys: string[],
+    confirmed: string[],
+  ): SharedWalletParticipant[] {
+    const peopleStore = usePeopleStore()
+    return publicKeys.map(publicKeyHex => {
+      const isMe = publicKeyHex === _publicKeyHex
+      return {
+        personId: isMe
+          ? 'self'
+          : (peopleStore.getByPublicKey(publicKeyHex)?.id ?? ''),
+        publicKeyHex,
+        isMe,
+        addressConfirmed: confirmed.includes(publicKeyHex),
+      }
+    })
+  }
+
+  /**
+   * Create a shared wallet from our MUSIG2 key and the other participants'
+   * keys. The wallet stays pending until every participant has derived the
+   * same address.
+   */
+  async function createSharedWallet(
+    params: CreateSharedWalletParams,
+  ): Promise<SharedWallet> {
+    await initialize()
+    if (!_transport || !_publicKeyHex) {
+      throw new Error(error.value ?? 'MuSig2 is not available')
+    }
+
+    const name = params.name.trim()
+    if (!name) {
+      throw new Error('Wallet name is required')
+    }
+    const others = sortPublicKeys(params.participantPublicKeys)
+    if (others.includes(_publicKeyHex)) {
+      throw new Error('Participants must not include your own key')
+    }
+
+    const key = deriveSharedWalletKey(
+      [_publicKeyHex, ...others],
+      useWalletStore().getCurrentNetwork(),
+    )
+
+    const peopleStore = usePeopleStore()
+    const existing = peopleStore.allWallets.find(w => w.address === key.address)
+    if (existing) {
+      throw new Error(
+        `Shared wallet "${existing.name}" already has these participants`,
+      )
+    }
+
+    const wallet = peopleStore.addSharedWallet({
+      name,
+      description: params.description,
+      address: key.address,
+      aggregatedPublicKeyHex: key.aggregatedPublicKeyHex,
+      participants: _buildParticipants(key.publicKeys, [_publicKeyHex]),
+      threshold: key.publicKeys.length,
+      balanceSats: 0n,
+      transactionCount: 0,
+      status: 'pending',
+    })
+
+    await _sendWalletSetup(wallet)
+    return wallet
+  }
+
+  async function _sendWalletSetup(wallet: SharedWallet) {
+    if (!_transport || !_signer || !_publicKeyHex) return
+    const message: WalletSetupMessage = {
+      type: 'WALLET_SETUP',
+      walletId: wallet.id,
+      from: _publicKeyHex,
+      name: wallet.name,
+      description: wallet.description,
+      signers: wallet.participants.map(p => p.publicKeyHex),
+      address: wallet.address,
+      addressSignature: await _signer.signMessage(
+        walletAddressText(wallet.id, wallet.address),
+      ),
+    }
+    await _transport.send(message, _otherSigners(message.signers))
+  }
+
+  /**
+   * Ask participants of our pending wallets to confirm again, e.g. after a
+   * reload or when they were offline at creation
+   */
+  function _announcePendingWallets() {
+    for (const wallet of sharedWallets.value) {
+      if (wallet.status !== 'pending') continue
+      if (!wallet.participants.some(p => p.isMe)) continue
+      _sendWalletSetup(wallet).catch(console.error)
+    }
+  }
+
+  /** Participants of a signer set other than us */
+  function _otherSigners(signers: string[]): string[] {
+    return signers.filter(signer => signer !== _publicKeyHex)
+  }
+
+  function _handleWalletMessage(message: MuSig2ProtocolMessage) {
+    if (message.from === _publicKeyHex) return
+
+    if (message.type === 'WALLET_SETUP') {
+      _receiveWalletSetup(message).catch(console.error)
+    } else if (message.type === 'WALLET_CONFIRM') {
+      _receiveWalletConfirm(message)
+    }
+  }
+
+  /**
+   * Whether the sender signed the wallet address it reports with its own
+   * key, so nobody can confirm an address for another participant
+   */
+  function _hasValidAddressSignature(
+    message: WalletSetupMessage | WalletConfirmMessage,
+  ): boolean {
+    if (typeof message.addressSignature !== 'string') return false
+    return verifyKeySignature(
+      walletAddressText(message.walletId, message.address),
+      message.from,
+      message.addressSignature,
+    )
+  }
+
+  /**
+   * Derive the announced wallet ourselves, join it if the address matches
+   * and report our address back
+   */
+  async function _receiveWalletSetup(message: WalletSetupMessage) {
+    const me = _publicKeyHex
+    const transport = _transport
+    if (!me || !transport || !_signer) return
+    if (!message.signers.includes(me) || !message.signers.includes(message.from)) {
+      return
+    }
+    if (!_hasValidAddressSignature(message)) {
+      console.warn(
+        `[MuSig2] Ignoring wallet setup ${message.walletId} without a valid address signature`,
+      )
+      return
+    }
+
+    let key: SharedWalletKey
+    try {
+      key = deriveSharedWalletKey(
+        message.signers,
+        useWalletStore().getCurrentNetwork(),
+      )
+    } catch (err) {
+      console.warn('[MuSig2] Ignoring invalid wallet setup:', err)
+      return
+    }
+
+    const peopleStore = usePeopleStore()
+    if (key.address !== message.address) {
+      console.warn(
+        `[MuSig2] Wallet ${message.walletId}: announced address ${message.address} does not match ours (${key.address})`,
+      )
+    } else if (peopleStore.getWallet(message.walletId)) {
+      _confirmParticipant(message.walletId, message.from, message.address)
+    } else if (!peopleStore.allWallets.some(w => w.address === key.address)) {
+      peopleStore.addSharedWallet(
+        {
+          name: message.name,
+          description: message.description,
+          address: key.address,
+          aggregatedPublicKeyHex: key.aggregatedPublicKeyHex,
+          participants: _buildParticipants(key.publicKeys, [me, message.from]),
+          threshold: key.publicKeys.length,
+          balanceSats: 0n,
+          transactionCount: 0,
+          status: 'pending',
+        },
+        message.walletId,
+      )
+      for (const confirm of _earlyConfirms.get(message.walletId) ?? []) {
+        _receiveWalletConfirm(confirm)
+      }
+    }
+    _earlyConfirms.delete(message.walletId)
+
+    // Reply even on a mismatch so the sender sees which address we derived
+    const reply: WalletConfirmMessage = {
+      type: 'WALLET_CONFIRM',
+      walletId: message.walletId,
+      from: me,
+      address: key.address,
+      addressSignature: await _signer.signMessage(
+        walletAddressText(message.walletId, key.address),
+      ),
+    }
+    await transport.send(reply, _otherSigners(message.signers))
+  }
+
+  function _receiveWalletConfirm(message: WalletConfirmMessage) {
+    if (!_hasValidAddressSignature(message)) {
+      console.warn(
+        `[MuSig2] Ignoring confirmation for wallet ${message.walletId} without a valid address signature`,
+      )
+      return
+    }
+    if (!usePeopleStore().getWallet(message.walletId)) {
+      const early = _earlyConfirms.get(message.walletId) ?? []
+      if (!early.some(m => m.from === message.from)) {
+        _earlyConfirms.set(message.walletId, [...early, message])
+      }
+      return
+    }
+    _confirmParticipant(message.walletId, message.from, message.address)
+  }
+
+  /**
+   * Record that a participant derived `address`, activating the wallet once
+   * all participants agree
+   */
+  function _confirmParticipant(
+    walletId: string,
+    publicKeyHex: string,
+    address: string,
+  ) {
+    const peopleStore = usePeopleStore()
+    const wallet = peopleStore.getWallet(walletId)
+    if (!wallet || wallet.status !== 'pending') return
+
+    const participant = wallet.participants.find(
+      p => p.publicKeyHex === publicKeyHex,
+    )
+    if (!participant || participant.addressConfirmed) return
+    if (address !== wallet.address) {
+      console.warn(
+        `[MuSig2] Participant ${publicKeyHex.slice(0, 16)}... derived ${address} for wallet "${wallet.name}", expected ${wallet.address}`,
+      )
+      return
+    }
+
+    const participants = wallet.participants.map(p =>
+      p.publicKeyHex === publicKeyHex ? { ...p, addressConfirmed: true } : p,
+    )
+    const status = participants.every(p => p.addressConfirmed)
+      ? 'active'
+      : 'pending'
+    peopleStore.updateSharedWallet(walletId, { participants, status })
+
+    if (status === 'active') {
+      console.log(`[MuSig2] Shared wallet "${wallet.name}" is active`)
+    }
+  }
+
+  // === SHARED WALLET FUNDS ===
+
+  function _getWalletScript(wallet: SharedWallet) {
+    const script = $bitcore.Script.fromAddress(wallet.address)
+    return {
+      scriptHex: script.toBuffer().toString('hex'),
+      scriptPayload: script.getData().toString('hex'),
+    }
+  }
+
+  /**
+   * Fetch UTXOs and update balances for all shared wallets
+   */
+  async function refreshSharedWalletBalances() {
+    if (!$chronik.isInitialized()) return
+    const peopleStore = usePeopleStore()
+
+    loading.value = true
+    try {
+      for (const wallet of sharedWallets.value) {
+        if (!wallet.address || wallet.status === 'archived') continue
+
+        try {
+          const { scriptPayload } = _getWalletScript(wallet)
+          const utxos = await $chronik.fetchUtxosForScript(
+            'p2tr-commitment',
+            scriptPayload,
+          )
+          _walletUtxos.set(wallet.id, utxos)
+
+          const balanceSats = utxos.reduce(
+            (sum, utxo) => sum + BigInt(utxo.value),
+            0n,
+          )
+          if (balanceSats !== wallet.balanceSats) {
+            peopleStore.updateSharedWallet(wallet.id, { balanceSats })
+          }
+        } catch (err) {
+          console.warn(`[MuSig2] Failed to refresh wallet ${wallet.id}:`, err)
+        }
+      }
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Choose the UTXOs paying `amount` to `recipient` at the normal fee rate,
+   * with inputs sized as key-path spends of the wallet's aggregated key
+   */
+  function _selectInputs(
+    wallet: SharedWallet,
+    utxos: ChronikUtxo[],
+    amount: bigint,
+    recipient: string,
+  ): CoinSelection {
+    const taproot = $bitcore.buildMuSig2TaprootKey(
+      wallet.participants.map(p => new $bitcore.PublicKey(p.publicKeyHex)),
+    )
+    const entries: UtxoEntry[] = utxos.map(utxo => ({
+      outpoint: `${utxo.outpoint.txid}_${utxo.outpoint.outIdx}`,
+      blockHeight: utxo.blockHeight,
+      isCoinbase: utxo.isCoinbase,
+      value: utxo.value,
+    }))
+
+    const selection = useTransactionBuilder().selectUtxosForOutputs(
+      entries,
+      tx => tx.to(recipient, Number(amount)),
+      {
+        script: taproot.script,
+        addressType: 'p2tr-commitment',
+        internalPubKey: taproot.aggregatedPubKey,
+        merkleRoot: taproot.merkleRoot,
+      },
+      useFeeStore().rateFor('normal'),
+    )
+    if (!selection) {
+      throw new Error('Insufficient shared wallet funds')
+    }
+    return selection
+  }
+
+  /**
+   * Estimate the fee for spending `amount` from a shared wallet, using the
+   * UTXOs from the last balance refresh. Without a recipient, the output is
+   * sized as a payment back to the wallet.
+   */
+  function estimateSpendFee(
+    walletId: string,
+    amount: bigint,
+    recipient?: string,
+  ): bigint | null {
+    const wallet = usePeopleStore().getWallet(walletId)
+    const utxos = _walletUtxos.get(walletId)
+    if (!wallet || !utxos) return null
+    try {
+      const selection = _selectInputs(
+        wallet,
+        utxos,
+        amount,
+        recipient ?? wallet.address,
+      )
+      return BigInt(selection.fee)
+    } catch {
+      return null
+    }
+  }
+
+  // === SIGNING SESSIONS ===
+
+  /**
+   * Build a spend from the shared wallet's UTXOs and start a signing
+   * session with the other participants
+   */
+  async function proposeSpend(
+    spend: SharedWalletSpend,
+  ): Promise<{ sessionId: string }> {
+    await initialize()
+    if (!_engine) {
+      throw new Error(error.value ?? 'MuSig2 is not available')
+    }
+
+    const wallet = usePeopleStore().getWallet(spend.walletId)
+    if (!wallet) {
+      throw new Error('Shared wallet not found')
+    }
+    if (wallet.status !== 'active') {
+      throw new Error('Shared wallet is not active')
+    }
+    if (!isValidAddress(spend.recipient)) {
+      throw new Error('Invalid recipient address')
+    }
+    if (spend.amount < DUST_THRESHOLD) {
+      throw new Error('Amount is below the dust threshold')
+    }
+
+    const { scriptHex, scriptPayload } = _getWalletScript(wallet)
+    const utxos = await $chronik.fetchUtxosForScript(
+      'p2tr-commitment',
+      scriptPayload,
+    )
+    _walletUtxos.set(wallet.id, utxos)
+
+    const selection = _selectInputs(
+      wallet,
+      utxos,
+      spend.amount,
+      spend.recipient,
+    )
+    const total = selection.utxos.reduce(
+      (sum, utxo) => sum + BigInt(utxo.value),
+      0n,
+    )
+    if (spend.fee < BigInt(selection.fee)) {
+      throw new Error(`Fee too low: at least ${selection.fee} sats required`)
+    }
+    if (total < spend.amount + spend.fee) {
+      throw new Error('Insufficient shared wallet funds')
+    }
+
+    // Only outputs are taken from this transaction; the session engine
+    // attaches the inputs
+    const tx = new $bitcore.Transaction()
+    tx.to(spend.recipient, Number(spend.amount))
+    const change = total - spend.amount - spend.fee
+    if (change >= DUST_THRESHOLD) {
+      tx.to(wallet.address, Number(change))
+    }
+
+    const inputs: MuSig2SpendInput[] = selection.utxos.map(utxo => ({
+      outpoint: utxo.outpoint,
+      satoshis: Number(utxo.value),
+      scriptHex,
+    }))
+
+    const session = await _engine.propose({
+      walletId: wallet.id,
+      purpose: spend.purpose,
+      signers: wallet.participants.map(p => p.publicKeyHex),
+      inputs,
+      txHex: tx.uncheckedSerialize(),
+    })
+    return { sessionId: session.id }
+  }
+
+  /**
+   * Agree to sign a spend proposed by another participant
+   */
+  function approveSession(sessionId: string) {
+    if (!_engine) throw new Error('MuSig2 is not initialized')
+    _engine.approve(sessionId)
+  }
+
+  /**
+   * Decline a proposal or abandon a session in progress
+   */
+  async function cancelSession(sessionId: string, reason?: string) {
+    if (!_engine) throw new Error('MuSig2 is not initialized')
+    await _engine.cancel(sessionId, reason)
+  }
+
+  function getSession(sessionId: string): WalletSigningSession | undefined {
+    return sessions.value.find(s => s.id === sessionId)
+  }
+
+  /**
+   * Remove a shared wallet and abandon its unfinished sessions
+   */
+  function deleteSharedWallet(walletId: string) {
+    for (const session of sessions.value) {
+      if (
+        session.metadata?.walletId === walletId &&
+        !isTerminalSessionState(session.state)
+      ) {
+        cancelSession(session.id, 'Shared wallet deleted').catch(
+          console.error,
+        )
+      }
+    }
+    _walletUtxos.delete(walletId)
+    usePeopleStore().removeSharedWallet(walletId)
+  }
+
+  return {
+    // State
+    initialized,
+    loading,
+    error,
+    sessions,
+
+    // Getters
+    sharedWallets,
+    activeSessions,
+    pendingSessions,
+
+    // Actions
+    initialize,
+    createSharedWallet,
+    refreshSharedWalletBalances,
+    estimateSpendFee,
+    proposeSpend,
+    approveSession,
+    cancelSession,
+    getSession,
+    deleteSharedWallet,
+  }
+})
@@ -1,6 +1,7 @@
 /**
  * Network Store
  * Manages network configuration and selection (mainnet, testnet, regtest)
+ * between the built-in networks and user-defined profiles
  */
 import { defineStore } from 'pinia'
 import type { Address, NetworkName } from 'xpi-ts/lib/bitcore'
@@ -10,50 +11,81 @@ export const useNetworkStore = defineStore('network', () => {
   const { $bitcore } = useNuxtApp()
 
   // === STATE ===
-  const currentNetwork = ref<NetworkType>('livenet')
+  /** Selected profile: a built-in network name or a custom profile id */
+  const profileId = ref<string>('livenet')
+  /** User-defined profiles, e.g. a local regtest node */
+  const customProfiles = ref<NetworkConfig[]>([])
+  /** Fallback Chronik URLs the user added to built-in networks, by id */
+  const builtinFallbacks = ref<Record<string, string[]>>({})
   const initialized = ref(false)
 
   // === GETTERS ===
+  /**
+   * Get all available networks: the built-in ones, then custom profiles
+   */
+  const availableNetworks = computed((): NetworkConfig[] => {
+    const builtins = Object.values(NETWORK_CONFIGS).map(profile => {
+      const added = builtinFallbacks.value[profile.id] ?? []
+      if (added.length === 0) return profile
+      return {
+        ...profile,
+        fallbackChronikUrls: [...(profile.fallbackChronikUrls ?? []), ...added],
+      }
+    })
+    return [...builtins, ...customProfiles.value]
+  })
+
   /**
    * Get the current network configuration
    */
   const config = computed((): NetworkConfig => {
-    return NETWORK_CONFIGS[currentNetwork.value]
+    return (
+      availableNetworks.value.find(
+        profile => profile.id === profileId.value,
+      ) ?? NETWORK_CONFIGS.livenet
+    )
+  })
+
+  /**
+   * Get the Bitcore network of the current profile
+   */
+  const currentNetwork = computed((): NetworkType => {
+    return config.value.name
   })
 
   /**
    * Get the Chronik URL for current network
    */
   const chronikUrl = computed((): string => {
-    return NETWORK_CONFIGS[currentNetwork.value].chronikUrl
+    return config.value.chronikUrl
   })
 
   /**
    * Get the Explorer URL for current network
    */
   const explorerUrl = computed((): string => {
-    return NETWORK_CONFIGS[currentNetwork.value].explorerUrl
+    return config.value.explorerUrl
   })
 
   /**
    * Get the Explorer API URL for current network
    */
   const explorerApiUrl = computed((): string => {
-    return NETWORK_CONFIGS[currentNetwork.value].explorerApiUrl
+    return config.value.explorerApiUrl
   })
 
   /**
    * Get the Rank API URL for current network
    */
   const rankApiUrl = computed((): string => {
-    return NETWORK_CONFIGS[currentNetwork.value].rankApiUrl
+    return config.value.rankApiUrl
   })
 
   /**
    * Check if current network is production (mainnet)
    */
   const isProduction = computed((): boolean => {
-    return NETWORK_CONFIGS[currentNetwork.value].isProduction
+    return config.value.isProduction
   })
 
   /**
@@ -67,21 +99,14 @@ export const useNetworkStore = defineStore('network', () => {
    * Get display name for current network
    */
   const displayName = computed((): string => {
-    return NETWORK_CONFIGS[currentNetwork.value].displayName
+    return config.value.displayName
   })
 
   /**
    * Get UI color for current network
    */
   const color = computed((): 'primary' | 'warning' | 'info' => {
-    return NETWORK_CONFIGS[currentNetwork.value].color
-  })
-
-  /**
-   * Get all available networks
-   */
-  const availableNetworks = computed((): NetworkConfig[] => {
-    return Object.values(NETWORK_CONFIGS)
+    return config.value.color
   })
 
   // === ACTIONS ===
@@ -91,11 +116,22 @@ export const useNetworkStore = defineStore('network', () => {
   function initialize() {
     if (initialized.value) return
 
-    const saved = getItem<{ network: NetworkType }>(STORAGE_KEYS.NETWORK, {
-      network: 'livenet',
-    })
-    if (saved.network && NETWORK_CONFIGS[saved.network]) {
-      currentNetwork.value = saved.network
+    customProfiles.value = getItem<NetworkConfig[]>(
+      STORAGE_KEYS.NETWORK_PROFILES,
+      [],
+    )
+    builtinFallbacks.value = getItem<Record<string, string[]>>(
+      STORAGE_KEYS.NETWORK_FALLBACKS,
+      {},
+    )
+    const saved = getItem<{ network: NetworkType; profileId?: string }>(
+      STORAGE_KEYS.NETWORK,
+      { network: 'livenet' },
+    )
+    // Preferences saved before profiles only name the network
+    const savedId = saved.profileId ?? saved.network
+    if (availableNetworks.value.some(profile => profile.id === savedId)) {
+      profileId.value = savedId
     }
     initialized.value = true
   }
@@ -104,11 +140,33 @@ export const useNetworkStore = defineStore('network', () => {
    * Save network preference to storage service
    */
   function savePreference() {
-    setItem(STORAGE_KEYS.NETWORK, { network: currentNetwork.value })
+    setItem(STORAGE_KEYS.NETWORK, {
+      network: currentNetwork.value,
+      profileId: profileId.value,
+    })
   }
 
   /**
-   * Switch to a different network
+   * Switch to a network profile
+   * Returns true if the profile was changed, false if already selected
+   */
+  async function switchProfile(id: string): Promise<boolean> {
+    if (profileId.value === id) {
+      return false
+    }
+
+    if (!availableNetworks.value.some(profile => profile.id === id)) {
+      throw new Error(`Invalid network profile: ${id}`)
+    }
+
+    profileId.value = id
+    savePreference()
+
+    return true
+  }
+
+  /**
+   * Switch to a different network, using the first profile for it
    * Returns true if network was changed, false if already on that network
    */
   async function switchNetwork(network: NetworkType): Promise<boolean> {
@@ -116,16 +174,87 @@ export const useNetworkStore = defineStore('network', () => {
       return false
     }
 
-    if (!NETWORK_CONFIGS[network]) {
+    const profile = availableNetworks.value.find(
+      profile => profile.name === network,
+    )
+    if (!profile) {
       throw new Error(`Invalid network: ${network}`)
     }
 
-    currentNetwork.value = network
-    savePreference()
+    return switchProfile(profile.id)
+  }
+
+  /**
+   * Create a custom network profile, or update the one with `id`
+   * Throws if the profile is invalid
+   */
+  function saveProfile(input: NetworkProfileInput, id?: string): NetworkConfig {
+    const values = normalizeNetworkProfileInput(input)
+    const error = validateNetworkProfileInput(values)
+    if (error) {
+      throw new Error(error)
+    }
 
+    const name = networkForChar(values.networkChar)!
+    const profile: NetworkConfig = {
+      ...values,
+      id: id ?? `custom_${Date.now().toString(36)}`,
+      name,
+      color: 'info',
+      isProduction: name === 'livenet',
+      isCustom: true,
+    }
+
+    const index = customProfiles.value.findIndex(p => p.id === profile.id)
+    if (index === -1) {
+      customProfiles.value = [...customProfiles.value, profile]
+    } else {
+      customProfiles.value = customProfiles.value.map((p, i) =>
+        i === index ? profile : p,
+      )
+    }
+    setItem(STORAGE_KEYS.NETWORK_PROFILES, customProfiles.value)
+    return profile
+  }
+
+  /**
+   * Delete a custom network profile
+   * Returns true if it was the selected profile, which falls back to mainnet
+   */
+  function removeProfile(id: string): boolean {
+    customProfiles.value = customProfiles.value.filter(p => p.id !== id)
+    setItem(STORAGE_KEYS.NETWORK_PROFILES, customProfiles.value)
+
+    if (profileId.value !== id) {
+      return false
+    }
+    profileId.value = 'livenet'
+    savePreference()
     return true
   }
 
+  /**
+   * Set the fallback Chronik URLs added to a built-in network
+   * Throws if the network is not built in or a URL is invalid
+   */
+  function setBuiltinFallbacks(id: string, urls: string[]) {
+    const profile = Object.values(NETWORK_CONFIGS).find(p => p.id === id)
+    if (!profile) {
+      throw new Error(`Not a built-in network: ${id}`)
+    }
+    const cleaned = [
+      ...new Set(
+        urls.map(url => url.trim().replace(/\/+$/, '')).filter(Boolean),
+      ),
+    ].filter(url => url !== profile.chronikUrl)
+    if (!cleaned.every(isHttpUrl)) {
+      throw new Error('Fallback Chronik URLs must be http(s) URLs')
+    }
+
+    builtinFallbacks.value = { ...builtinFallbacks.value, [id]: cleaned }
+    setItem(STORAGE_KEYS.NETWORK_FALLBACKS, builtinFallbacks.value)
+  }
+
   /**
    * Get network type from an address string
    * Returns null if address format is not recognized
@@ -151,19 +280,22 @@ export const useNetworkStore = defineStore('network', () => {
   }
 
   /**
-   * Get network config by type
+   * Get network config by type, from the first profile for it
    */
-  function getNetworkConfig(network: NetworkType): NetworkConfig {
-    return NETWORK_CONFIGS[network]
+  function getNetworkConfig(network: NetworkType): NetworkConfig | undefined {
+    return availableNetworks.value.find(profile => profile.name === network)
   }
 
   // === RETURN ===
   return {
     // State
-    currentNetwork,
+    profileId,
+    customProfiles,
+    builtinFallbacks,
     initialized,
     // Getters
     config,
+    currentNetwork,
     chronikUrl,
     explorerUrl,
     explorerApiUrl,
@@ -176,7 +308,11 @@ export const useNetworkStore = defineStore('network', () => {
     // Actions
     initialize,
     savePreference,
+    switchProfile,
     switchNetwork,
+    saveProfile,
+    removeProfile,
+    setBuiltinFallbacks,
     getNetworkFromAddress,
     isAddressForCurrentNetwork,
     getNetworkConfig,
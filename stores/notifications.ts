@@ -228,6 +228,41 @@ export const useNotificationStore = defineStore('notifications', () => {
     })
   }
 
+  /**
+   * Add a notification that one of our transactions was double-spent
+   */
+  function addDoubleSpendNotification(txid: string, conflictTxid: string) {
+    return addNotification({
+      type: 'transaction',
+      title: 'Transaction Double-Spent',
+      message:
+        `Transaction ${truncateTxid(txid)} will not confirm: ` +
+        'another transaction spent its coins',
+      actionUrl: `/explore/tx/${conflictTxid}`,
+      actionLabel: 'View Conflicting Transaction',
+      data: { txid, conflictTxid, isSend: true },
+      persistent: true,
+    })
+  }
+
+  /**
+   * Add a notification that one of our transactions left the mempool and
+   * could not be rebroadcast
+   */
+  function addDroppedTransactionNotification(txid: string, reason: string) {
+    return addNotification({
+      type: 'transaction',
+      title: 'Transaction Dropped',
+      message:
+        `Transaction ${truncateTxid(txid)} was dropped from the mempool: ` +
+        reason,
+      actionUrl: '/activity',
+      actionLabel: 'Rebroadcast',
+      data: { txid, reason, isSend: true },
+      persistent: true,
+    })
+  }
+
   /**
    * Add a signing request notification
    */
@@ -236,7 +271,7 @@ export const useNotificationStore = defineStore('notifications', () => {
       type: 'signing_request',
       title: 'Signing Request',
       message: `${fromPeer} is requesting your signature`,
-      actionUrl: '/people/p2p',
+      actionUrl: '/activity',
       actionLabel: 'View Request',
       data: { requestId, fromPeer },
       persistent: true,
@@ -455,6 +490,8 @@ export const useNotificationStore = defineStore('notifications', () => {
     save,
     addNotification,
     addTransactionNotification,
+    addDoubleSpendNotification,
+    addDroppedTransactionNotification,
     addSigningRequestNotification,
     addSystemNotification,
     addVoteReceivedNotification,
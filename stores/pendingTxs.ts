@@ -0,0 +1,336 @@
+/**
+ * Pending Transactions Store
+ *
+ * Keeps the wallet's own outgoing transactions until they confirm. A
+ * transaction that leaves the mempool is rebroadcast; one whose inputs were
+ * spent by a different transaction is a double spend. Either way, a
+ * transaction that cannot confirm marks its activity item failed and raises
+ * a notification the user can act on.
+ *
+ * Key API:
+ * - track(txid, rawTx, inputs) - Watch a transaction after broadcasting it
+ * - checkSpends(tx) - Settle or detect conflicts from a transaction seen
+ * - recheck(txid) / recheckAll() - Rebroadcast or fail dropped transactions
+ * - rebroadcast(txid) / dismiss(txid) - The user's actions on a failed one
+ */
+import { defineStore } from 'pinia'
+import type { Tx as ChronikTx } from 'chronik-client'
+import { useActivityStore } from './activity'
+import { useNetworkStore } from './network'
+import { useNotificationStore } from './notifications'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Automatic rebroadcasts before a dropped transaction needs the user */
+const MAX_AUTO_REBROADCASTS = 3
+
+/** Failed transactions are forgotten after this long */
+const FAILED_TX_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+/** Broadcast errors for a transaction the node already has */
+const ALREADY_KNOWN_PATTERN = /already[ -](known|in[ -]mempool|have)/i
+
+/** Broadcast error when no Chronik server could be reached */
+const UNREACHABLE_PATTERN = /error connecting/i
+
+const DROPPED_ACTIONS: ActivityAction[] = [
+  {
+    id: 'rebroadcast',
+    label: 'Rebroadcast',
+    icon: 'i-lucide-refresh-cw',
+    primary: true,
+  },
+  { id: 'dismiss', label: 'Dismiss', icon: 'i-lucide-x' },
+]
+
+const CONFLICTED_ACTIONS: ActivityAction[] = [
+  {
+    id: 'view_conflict',
+    label: 'View Conflict',
+    icon: 'i-lucide-git-compare',
+    primary: true,
+  },
+  { id: 'dismiss', label: 'Dismiss', icon: 'i-lucide-x' },
+]
+
+// ============================================================================
+// Store Definition
+// ============================================================================
+
+export const usePendingTxStore = defineStore('pendingTxs', () => {
+  const { $chronik } = useNuxtApp()
+
+  // === STATE ===
+  const transactions = ref<Map<string, PendingTransaction>>(new Map())
+  const initialized = ref(false)
+
+  // === GETTERS ===
+  /** Tracked transactions on the current network */
+  const active = computed(() => {
+    const network = useNetworkStore().currentNetwork
+    return [...transactions.value.values()].filter(
+      entry => entry.network === network,
+    )
+  })
+
+  /** Tracked transactions that cannot confirm as they are */
+  const failed = computed(() =>
+    active.value.filter(entry => entry.status !== 'pending'),
+  )
+
+  function get(txid: string): PendingTransaction | undefined {
+    return transactions.value.get(txid)
+  }
+
+  // === INITIALIZATION ===
+  function initialize() {
+    if (initialized.value) return
+
+    const cutoff = Date.now() - FAILED_TX_RETENTION_MS
+    const saved = getItem<PendingTransaction[]>(STORAGE_KEYS.PENDING_TXS, [])
+    transactions.value = new Map(
+      saved
+        .filter(
+          entry => entry.status === 'pending' || entry.broadcastAt > cutoff,
+        )
+        .map(entry => [entry.txid, entry]),
+    )
+    initialized.value = true
+  }
+
+  function _persist() {
+    setItem(STORAGE_KEYS.PENDING_TXS, [...transactions.value.values()])
+  }
+
+  // === ACTIONS ===
+  /**
+   * Watch a transaction the wallet broadcast until it confirms
+   *
+   * @param inputs - Outpoints it spends, as `txid_outIdx`
+   */
+  function track(txid: string, rawTx: string, inputs: string[]) {
+    transactions.value.set(txid, {
+      txid,
+      rawTx,
+      inputs,
+      network: useNetworkStore().currentNetwork,
+      status: 'pending',
+      broadcastAt: Date.now(),
+      rebroadcasts: 0,
+    })
+    _persist()
+  }
+
+  /**
+   * Settle a tracked transaction that confirmed or reappeared, or mark the
+   * tracked transactions it double-spends as conflicted
+   *
+   * @returns Whether a tracked transaction was found conflicted
+   */
+  function checkSpends(tx: ChronikTx): boolean {
+    const own = transactions.value.get(tx.txid)
+    if (own) {
+      if (tx.block) {
+        _settle(own)
+      } else if (own.status === 'dropped') {
+        _setStatus(own, 'pending')
+      }
+      return false
+    }
+
+    const spent = new Set(
+      tx.inputs.map(input => `${input.prevOut.txid}_${input.prevOut.outIdx}`),
+    )
+    let conflicted = false
+    for (const entry of active.value) {
+      if (entry.status === 'conflicted') continue
+      if (entry.inputs.some(outpoint => spent.has(outpoint))) {
+        _markConflicted(entry, tx.txid)
+        conflicted = true
+      }
+    }
+    return conflicted
+  }
+
+  /**
+   * Check a tracked transaction that may have left the mempool. It is
+   * rebroadcast unless another transaction spent its inputs or it was
+   * rebroadcast too often already.
+   *
+   * @returns Whether it failed, so the coins it spent are available again
+   *   or gone
+   */
+  async function recheck(txid: string): Promise<boolean> {
+    const entry = transactions.value.get(txid)
+    if (!entry || entry.status !== 'pending') return false
+    if (!$chronik.isInitialized()) return false
+
+    let conflictTxid: string | null
+    try {
+      const tx = await $chronik.lookupTransaction(txid)
+      if (tx) {
+        if (tx.block) _settle(entry)
+        return false
+      }
+      conflictTxid = await _findConflict(entry)
+    } catch (error) {
+      // Chronik is unreachable, not missing the transaction; check later
+      console.warn(`[PendingTxs] Could not check ${txid}:`, error)
+      return false
+    }
+    if (conflictTxid) {
+      _markConflicted(entry, conflictTxid)
+      return true
+    }
+
+    if (entry.rebroadcasts >= MAX_AUTO_REBROADCASTS) {
+      _markDropped(entry, 'it was rebroadcast too many times')
+      return true
+    }
+
+    try {
+      await $chronik.broadcastTransaction(entry.rawTx)
+      entry.rebroadcasts++
+      entry.error = undefined
+      _persist()
+      return false
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'rebroadcast failed'
+      // The lookup missed it, but the node still has it
+      if (ALREADY_KNOWN_PATTERN.test(message)) return false
+      if (UNREACHABLE_PATTERN.test(message)) return false
+      _markDropped(entry, message)
+      return true
+    }
+  }
+
+  /**
+   * Check every pending transaction on the current network, e.g. after a
+   * block or when the wallet starts
+   *
+   * @returns Whether any of them failed
+   */
+  async function recheckAll(): Promise<boolean> {
+    let anyFailed = false
+    for (const entry of active.value) {
+      if (await recheck(entry.txid)) anyFailed = true
+    }
+    return anyFailed
+  }
+
+  /**
+   * Broadcast a dropped transaction again at the user's request
+   */
+  async function rebroadcast(txid: string): Promise<void> {
+    const entry = transactions.value.get(txid)
+    if (!entry) throw new Error('Transaction is not tracked')
+    if (entry.status === 'conflicted') {
+      throw new Error('Its coins were spent by another transaction')
+    }
+
+    const conflictTxid = await _findConflict(entry)
+    if (conflictTxid) {
+      _markConflicted(entry, conflictTxid)
+      throw new Error('Its coins were spent by another transaction')
+    }
+
+    await $chronik.broadcastTransaction(entry.rawTx)
+    entry.rebroadcasts = 0
+    entry.error = undefined
+    _setStatus(entry, 'pending')
+  }
+
+  /**
+   * Stop tracking a transaction. A failed one stays failed in the activity
+   * feed without its actions.
+   */
+  function dismiss(txid: string) {
+    const entry = transactions.value.get(txid)
+    if (!entry) return
+    if (entry.status !== 'pending') {
+      useActivityStore().setTransactionStatus(txid, 'failed')
+    }
+    transactions.value.delete(txid)
+    _persist()
+  }
+
+  // === HELPERS ===
+  /**
+   * Transaction other than `entry` that spent one of its inputs, if any
+   *
+   * @throws If Chronik cannot be reached
+   */
+  async function _findConflict(
+    entry: PendingTransaction,
+  ): Promise<string | null> {
+    const parents = new Map<string, ChronikTx | null>()
+    for (const outpoint of entry.inputs) {
+      const [prevTxid, outIdx] = outpoint.split('_')
+      if (!parents.has(prevTxid)) {
+        parents.set(prevTxid, await $chronik.lookupTransaction(prevTxid))
+      }
+      const spentBy = parents.get(prevTxid)?.outputs[Number(outIdx)]?.spentBy
+      if (spentBy && spentBy.txid !== entry.txid) return spentBy.txid
+    }
+    return null
+  }
+
+  function _settle(entry: PendingTransaction) {
+    if (entry.status !== 'pending') {
+      useActivityStore().setTransactionStatus(entry.txid, 'complete')
+    }
+    transactions.value.delete(entry.txid)
+    _persist()
+  }
+
+  function _setStatus(entry: PendingTransaction, status: PendingTxStatus) {
+    entry.status = status
+    _persist()
+    useActivityStore().setTransactionStatus(
+      entry.txid,
+      status === 'pending' ? 'pending' : 'failed',
+      status === 'dropped'
+        ? DROPPED_ACTIONS
+        : status === 'conflicted'
+          ? CONFLICTED_ACTIONS
+          : undefined,
+    )
+  }
+
+  function _markDropped(entry: PendingTransaction, reason: string) {
+    entry.error = reason
+    _setStatus(entry, 'dropped')
+    useNotificationStore().addDroppedTransactionNotification(
+      entry.txid,
+      reason,
+    )
+  }
+
+  function _markConflicted(entry: PendingTransaction, conflictTxid: string) {
+    entry.conflictTxid = conflictTxid
+    _setStatus(entry, 'conflicted')
+    useNotificationStore().addDoubleSpendNotification(entry.txid, conflictTxid)
+  }
+
+  // === RETURN ===
+  return {
+    // State
+    transactions,
+    initialized,
+    // Getters
+    active,
+    failed,
+    get,
+    // Actions
+    initialize,
+    track,
+    checkSpends,
+    recheck,
+    recheckAll,
+    rebroadcast,
+    dismiss,
+  }
+})
@@ -3,8 +3,117 @@
  *
  * Unified people management with persistence, presence tracking, and shared wallets.
  * Provides a relationship-centric view of all contacts.
+ *
+ * The single source of truth for contacts: records of the deprecated contacts
+ * store are migrated in once, and `useContactsStore` reads from here.
  */
 import { defineStore } from 'pinia'
+import type {
+  Contact as LegacyContact,
+  ContactGroup as LegacyContactGroup,
+} from '~/types/contact'
+import { useNetworkStore } from './network'
+import { useWalletStore } from './wallet'
+
+/** `groupFilter` value selecting people in no group */
+export const UNGROUPED_FILTER = 'ungrouped'
+
+// ============================================================================
+// Migration
+// ============================================================================
+
+/**
+ * Value of STORAGE_KEYS.MIGRATION_VERSION once legacy contacts have been
+ * moved into people
+ */
+const CONTACTS_MIGRATION_VERSION = 1
+
+/**
+ * Convert a legacy contact to a person, keeping its ID so links to it still
+ * resolve. The address for the current network is preferred, then the one
+ * derived from its public key.
+ *
+ * @returns null when the contact has no usable address
+ */
+function legacyContactToPerson(
+  contact: LegacyContact,
+  network: NetworkType,
+  groupId: string | undefined,
+): Person | null {
+  const publicKeyHex = [contact.publicKey, contact.identityId].find(
+    key => key && isValidPublicKey(key),
+  )
+  // The single legacy address may be another network's
+  const legacyAddress =
+    contact.address && getNetworkFromAddress(contact.address) === network
+      ? contact.address
+      : undefined
+  const address =
+    contact.addresses?.[network] ||
+    legacyAddress ||
+    (publicKeyHex && deriveAddressFromPublicKey(publicKeyHex, network))
+  if (!address) return null
+
+  const tags = [...(contact.tags ?? [])]
+  if (contact.serviceType && !tags.includes(contact.serviceType)) {
+    tags.push(contact.serviceType)
+  }
+
+  return {
+    id: contact.id,
+    name: contact.name,
+    address,
+    publicKeyHex,
+    peerId: contact.peerId,
+    isOnline: false,
+    lastSeenAt: contact.lastSeenOnline,
+    canSign: !!publicKeyHex,
+    signerCapabilities: contact.signerCapabilities
+      ? {
+          transactionTypes: ['any'],
+          available: contact.signerCapabilities.musig2,
+        }
+      : undefined,
+    level: contact.peerId ? 2 : publicKeyHex ? 1 : 0,
+    isFavorite: !!contact.isFavorite,
+    tags,
+    groupId,
+    notes: contact.notes,
+    lastActivityAt: contact.lastTransactionAt,
+    transactionCount: contact.transactionCount ?? 0,
+    totalSent: BigInt(contact.totalSent || 0),
+    totalReceived: BigInt(contact.totalReceived || 0),
+    sharedWalletIds: [],
+    avatarUrl: contact.avatar,
+    createdAt: contact.createdAt,
+    updatedAt: contact.updatedAt,
+  }
+}
+
+/**
+ * Fill in what a person is missing from the legacy contact for the same
+ * address or key. The person's own activity wins when it has any.
+ */
+function mergeLegacyPerson(person: Person, legacy: Person) {
+  person.publicKeyHex ??= legacy.publicKeyHex
+  person.peerId ??= legacy.peerId
+  person.lastSeenAt ??= legacy.lastSeenAt
+  person.signerCapabilities ??= legacy.signerCapabilities
+  person.groupId ??= legacy.groupId
+  person.notes ??= legacy.notes
+  person.avatarUrl ??= legacy.avatarUrl
+  person.tags = [...new Set([...person.tags, ...legacy.tags])]
+  person.isFavorite ||= legacy.isFavorite
+  person.canSign = !!person.publicKeyHex
+  person.level = Math.max(person.level, legacy.level) as RelationshipLevel
+
+  if (!person.transactionCount) {
+    person.lastActivityAt ??= legacy.lastActivityAt
+    person.transactionCount = legacy.transactionCount
+    person.totalSent = legacy.totalSent
+    person.totalReceived = legacy.totalReceived
+  }
+}
 
 // ============================================================================
 // Store Definition (Composition API)
@@ -14,8 +123,16 @@ export const usePeopleStore = defineStore('people', () => {
   // === STATE ===
   const people = ref<Map<string, Person>>(new Map())
   const sharedWallets = ref<Map<string, SharedWallet>>(new Map())
+  const groups = ref<Map<string, PersonGroup>>(new Map())
   const searchQuery = ref('')
-  const sortBy = ref<'recent' | 'name' | 'favorite'>('recent')
+  const sortBy = ref<PeopleSortBy>('recent')
+  /** Tag people must have to be listed, null for any */
+  const tagFilter = ref<string | null>(null)
+  /** Group ID people must be in to be listed, null for any */
+  const groupFilter = ref<string | null>(null)
+  /** On-chain ledgers by person ID, built by `reconcileActivity` */
+  const ledgers = ref<Map<string, PersonLedger>>(new Map())
+  const reconciling = ref(false)
   const initialized = ref(false)
 
   // === INITIALIZATION ===
@@ -64,9 +181,89 @@ export const usePeopleStore = defineStore('people', () => {
       }
     }
 
+    // Load groups
+    groups.value = new Map(
+      getItem<PersonGroup[]>(STORAGE_KEYS.PERSON_GROUPS, []).map(group => [
+        group.id,
+        group,
+      ]),
+    )
+
+    if (
+      getItem(STORAGE_KEYS.MIGRATION_VERSION, 0) < CONTACTS_MIGRATION_VERSION
+    ) {
+      migrateLegacyContacts()
+      setItem(STORAGE_KEYS.MIGRATION_VERSION, CONTACTS_MIGRATION_VERSION)
+    }
+
     initialized.value = true
   }
 
+  /**
+   * Move the contacts, groups, tags and P2P details of the deprecated
+   * contacts store into people, merging contacts that match an existing
+   * person by public key or address. The legacy record is kept, so contacts
+   * without a usable address are not lost.
+   */
+  function migrateLegacyContacts() {
+    const legacy = getItem<{
+      contacts?: LegacyContact[]
+      groups?: LegacyContactGroup[]
+    }>(STORAGE_KEYS.CONTACTS, {})
+    const contacts = legacy.contacts ?? []
+    const legacyGroups = legacy.groups ?? []
+    if (contacts.length === 0 && legacyGroups.length === 0) return
+
+    for (const group of legacyGroups) {
+      if (groups.value.has(group.id)) continue
+      groups.value.set(group.id, {
+        id: group.id,
+        name: group.name,
+        icon: group.icon || 'i-lucide-users',
+        color: group.color || 'primary',
+        createdAt: group.createdAt,
+      })
+    }
+
+    // Addresses are picked for the saved network, which may not be loaded yet
+    const networkStore = useNetworkStore()
+    networkStore.initialize()
+    const network = networkStore.currentNetwork
+    let migrated = 0
+    for (const contact of contacts) {
+      const groupId =
+        contact.groupId ??
+        legacyGroups.find(group => group.contactIds?.includes(contact.id))?.id
+      const person = legacyContactToPerson(contact, network, groupId)
+      if (!person) {
+        console.warn(
+          '[People] Skipped contact without an address on this network:',
+          contact.name,
+        )
+        continue
+      }
+
+      const existing =
+        people.value.get(person.id) ??
+        (person.publicKeyHex
+          ? getByPublicKey(person.publicKeyHex)
+          : undefined) ??
+        getByAddress(person.address)
+      if (existing) {
+        mergeLegacyPerson(existing, person)
+      } else {
+        people.value.set(person.id, person)
+      }
+      migrated++
+    }
+
+    persistPeople()
+    persistGroups()
+    console.log(
+      `[People] Migrated ${migrated} of ${contacts.length} legacy contacts`,
+    )
+  }
+
   function persistPeople() {
     const data = Array.from(people.value.entries()).map(([id, person]) => {
       return [
@@ -96,6 +293,10 @@ export const usePeopleStore = defineStore('people', () => {
     localStorage.setItem(STORAGE_KEYS.SHARED_WALLETS, JSON.stringify(data))
   }
 
+  function persistGroups() {
+    setItem(STORAGE_KEYS.PERSON_GROUPS, Array.from(groups.value.values()))
+  }
+
   // === GETTERS ===
 
   /** All people sorted by current sort preference */
@@ -104,19 +305,33 @@ export const usePeopleStore = defineStore('people', () => {
     return sortPeople(list)
   })
 
-  /** People filtered by search query */
+  /** People filtered by search query, tag and group */
   const filteredPeople = computed(() => {
-    if (!searchQuery.value.trim()) return allPeople.value
+    const query = searchQuery.value.trim().toLowerCase()
+    const tag = tagFilter.value
+    const groupId = groupFilter.value
 
-    const query = searchQuery.value.toLowerCase()
     return allPeople.value.filter(
       person =>
-        person.name.toLowerCase().includes(query) ||
-        person.address.toLowerCase().includes(query) ||
-        person.tags.some(tag => tag.toLowerCase().includes(query)),
+        (!tag || person.tags.includes(tag)) &&
+        (!groupId ||
+          (groupId === UNGROUPED_FILTER
+            ? !person.groupId
+            : person.groupId === groupId)) &&
+        (!query ||
+          person.name.toLowerCase().includes(query) ||
+          person.address.toLowerCase().includes(query) ||
+          person.tags.some(t => t.toLowerCase().includes(query))),
     )
   })
 
+  /** Every tag in use, sorted */
+  const allTags = computed(() => {
+    const tags = new Set<string>()
+    people.value.forEach(person => person.tags.forEach(tag => tags.add(tag)))
+    return Array.from(tags).sort((a, b) => a.localeCompare(b))
+  })
+
   /** Favorite people */
   const favorites = computed(() =>
     allPeople.value.filter(person => person.isFavorite),
@@ -139,11 +354,23 @@ export const usePeopleStore = defineStore('people', () => {
     ),
   )
 
+  /** All groups sorted by name */
+  const allGroups = computed(() =>
+    Array.from(groups.value.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    ),
+  )
+
   /** Get person by ID */
   function getById(id: string): Person | undefined {
     return people.value.get(id)
   }
 
+  /** Get a person's on-chain ledger, once reconciled */
+  function getLedger(personId: string): PersonLedger | undefined {
+    return ledgers.value.get(personId)
+  }
+
   /** Get person by address */
   function getByAddress(address: string): Person | undefined {
     return allPeople.value.find(p => p.address === address)
@@ -172,6 +399,16 @@ export const usePeopleStore = defineStore('people', () => {
     )
   }
 
+  /** Get people in a group */
+  function getByGroup(groupId: string): Person[] {
+    return allPeople.value.filter(p => p.groupId === groupId)
+  }
+
+  /** Get group by ID */
+  function getGroup(id: string): PersonGroup | undefined {
+    return groups.value.get(id)
+  }
+
   /** Get shared wallet by ID */
   function getWallet(id: string): SharedWallet | undefined {
     return sharedWallets.value.get(id)
@@ -203,12 +440,39 @@ export const usePeopleStore = defineStore('people', () => {
       ...update,
       updatedAt: Date.now(),
     }
+    // Verification vouched for the old address and key only
+    if (
+      updated.address !== person.address ||
+      updated.publicKeyHex !== person.publicKeyHex
+    ) {
+      updated.verifiedAt = undefined
+    }
 
     people.value.set(id, updated)
     persistPeople()
     return updated
   }
 
+  /**
+   * Mark a person verified by a signed contact card, if the card verified
+   * and still matches their address and key
+   * @returns Whether the person is now verified
+   */
+  function markVerified(id: string, card: ContactUriData): boolean {
+    const person = people.value.get(id)
+    if (
+      !person ||
+      !card.verified ||
+      person.address !== card.address ||
+      person.publicKeyHex !== card.publicKeyHex
+    ) {
+      return false
+    }
+    person.verifiedAt = Date.now()
+    persistPeople()
+    return true
+  }
+
   function removePerson(id: string): boolean {
     const deleted = people.value.delete(id)
     if (deleted) {
@@ -217,8 +481,10 @@ export const usePeopleStore = defineStore('people', () => {
     return deleted
   }
 
-  function addSharedWallet(input: SharedWalletInput): SharedWallet {
-    const id = generateId('wallet')
+  function addSharedWallet(
+    input: SharedWalletInput,
+    id: string = generateId('wallet'),
+  ): SharedWallet {
     const now = Date.now()
     const wallet: SharedWallet = {
       ...input,
@@ -328,6 +594,63 @@ export const usePeopleStore = defineStore('people', () => {
     persistPeople()
   }
 
+  let _reconcile: Promise<void> | null = null
+
+  /**
+   * Recompute everyone's transaction totals from the wallet's on-chain
+   * history, replacing the counts `recordActivity` kept, and rebuild their
+   * ledgers. Syncs the history first.
+   */
+  function reconcileActivity(): Promise<void> {
+    // Concurrent callers share the reconciliation in progress
+    if (!_reconcile) {
+      _reconcile = _reconcileActivity().finally(() => {
+        _reconcile = null
+      })
+    }
+    return _reconcile
+  }
+
+  async function _reconcileActivity() {
+    await initialize()
+    const walletStore = useWalletStore()
+    // Without a loaded wallet the history is empty, not settled
+    if (!walletStore.initialized) return
+
+    reconciling.value = true
+    try {
+      await walletStore.syncTransactionHistory()
+      const history = await walletStore.getHistoryRange()
+      // The history is the current network's; people saved on another
+      // network keep the totals reconciled there
+      const networkStore = useNetworkStore()
+      const local = allPeople.value.filter(person =>
+        networkStore.isAddressForCurrentNetwork(person.address),
+      )
+      ledgers.value = buildPersonLedgers(
+        history,
+        local,
+        networkStore.currentNetwork,
+      )
+
+      local.forEach(person => {
+        const ledger = ledgers.value.get(person.id)
+        person.transactionCount = ledger?.entries.length ?? 0
+        person.totalSent = ledger?.totalSent ?? 0n
+        person.totalReceived = ledger?.totalReceived ?? 0n
+        if (ledger?.lastActivityAt) {
+          person.lastActivityAt = Math.max(
+            person.lastActivityAt ?? 0,
+            ledger.lastActivityAt,
+          )
+        }
+      })
+      persistPeople()
+    } finally {
+      reconciling.value = false
+    }
+  }
+
   // === FAVORITES AND GROUPS ===
 
   function toggleFavorite(personId: string) {
@@ -341,21 +664,295 @@ export const usePeopleStore = defineStore('people', () => {
     return person.isFavorite
   }
 
-  function assignToGroup(personId: string, groupId: string) {
+  /** Move a person into a group, or out of any group with null */
+  function assignToGroup(personId: string, groupId: string | null) {
     const person = people.value.get(personId)
     if (!person) return
+    if (groupId && !groups.value.has(groupId)) return
 
-    // Add groupId to tags if not already present
-    if (!person.tags.includes(groupId)) {
-      person.tags.push(groupId)
-      person.updatedAt = Date.now()
-      persistPeople()
+    person.groupId = groupId ?? undefined
+    person.updatedAt = Date.now()
+    persistPeople()
+  }
+
+  function createGroup(name: string, icon: string, color: string): PersonGroup {
+    const group: PersonGroup = {
+      id: generateId('group'),
+      name,
+      icon,
+      color,
+      createdAt: Date.now(),
+    }
+
+    groups.value.set(group.id, group)
+    persistGroups()
+    return group
+  }
+
+  function updateGroup(
+    id: string,
+    update: Partial<Omit<PersonGroup, 'id' | 'createdAt'>>,
+  ): PersonGroup | undefined {
+    const group = groups.value.get(id)
+    if (!group) return undefined
+
+    const updated: PersonGroup = { ...group, ...update }
+    groups.value.set(id, updated)
+    persistGroups()
+    return updated
+  }
+
+  /** Delete a group; its members become ungrouped */
+  function removeGroup(id: string): boolean {
+    if (!groups.value.delete(id)) return false
+    if (groupFilter.value === id) groupFilter.value = null
+
+    people.value.forEach(person => {
+      if (person.groupId === id) {
+        person.groupId = undefined
+        person.updatedAt = Date.now()
+      }
+    })
+    persistPeople()
+    persistGroups()
+    return true
+  }
+
+  // === TAGS ===
+
+  /**
+   * Tag a person. A tag differing only in case from one in use is written
+   * the same way.
+   */
+  function addTag(personId: string, tag: string): ValidationResult {
+    const person = people.value.get(personId)
+    if (!person) return { valid: false, error: 'Person not found' }
+
+    const validation = validateTag(tag)
+    if (!validation.valid) return validation
+
+    const normalized = normalizeTag(tag)
+    if (person.tags.includes(normalized)) return { valid: true }
+    if (person.tags.length >= MAX_TAGS_PER_CONTACT) {
+      return {
+        valid: false,
+        error: `A contact can have at most ${MAX_TAGS_PER_CONTACT} tags`,
+      }
+    }
+
+    person.tags = [...person.tags, normalized]
+    person.updatedAt = Date.now()
+    persistPeople()
+    return { valid: true }
+  }
+
+  function removeTag(personId: string, tag: string) {
+    const person = people.value.get(personId)
+    if (!person || !person.tags.includes(tag)) return
+
+    person.tags = person.tags.filter(t => t !== tag)
+    person.updatedAt = Date.now()
+    persistPeople()
+  }
+
+  function normalizeTag(tag: string): string {
+    const trimmed = tag.trim()
+    return (
+      allTags.value.find(t => t.toLowerCase() === trimmed.toLowerCase()) ??
+      trimmed
+    )
+  }
+
+  // === BULK ACTIONS ===
+
+  /**
+   * Tag several people, skipping those at the tag limit
+   *
+   * @returns Number of people newly tagged
+   */
+  function bulkAddTag(personIds: string[], tag: string): number {
+    if (!validateTag(tag).valid) return 0
+
+    const normalized = normalizeTag(tag)
+    const now = Date.now()
+    let tagged = 0
+    for (const id of personIds) {
+      const person = people.value.get(id)
+      if (
+        !person ||
+        person.tags.includes(normalized) ||
+        person.tags.length >= MAX_TAGS_PER_CONTACT
+      ) {
+        continue
+      }
+      person.tags = [...person.tags, normalized]
+      person.updatedAt = now
+      tagged++
     }
+    if (tagged > 0) persistPeople()
+    return tagged
+  }
+
+  function bulkSetFavorite(personIds: string[], isFavorite: boolean) {
+    const now = Date.now()
+    for (const id of personIds) {
+      const person = people.value.get(id)
+      if (person && person.isFavorite !== isFavorite) {
+        person.isFavorite = isFavorite
+        person.updatedAt = now
+      }
+    }
+    persistPeople()
+  }
+
+  /**
+   * Delete several people
+   *
+   * @returns Number deleted
+   */
+  function bulkRemove(personIds: string[]): number {
+    const deleted = personIds.filter(id => people.value.delete(id)).length
+    if (deleted > 0) persistPeople()
+    return deleted
+  }
+
+  // === IMPORT/EXPORT ===
+
+  /** Every person as a JSON or vCard address book */
+  function exportAddressBook(format: AddressBookFormat): string {
+    return serializeAddressBook(allPeople.value, allGroups.value, format)
+  }
+
+  /**
+   * Parse an address book file and classify its entries against the current
+   * people, for the user to review before importing
+   *
+   * @throws If the file is not a JSON or vCard address book
+   */
+  function previewImport(text: string): AddressBookImportPreview {
+    return previewAddressBookImport(parseAddressBook(text), allPeople.value)
+  }
+
+  /**
+   * Import previewed entries. New entries are added and duplicates fill in
+   * what their person is missing; each conflict is resolved by its choice,
+   * keeping the existing person when there is none.
+   *
+   * @param choices - Choice per conflict, by index in `preview.entries`
+   */
+  function importAddressBook(
+    preview: AddressBookImportPreview,
+    choices: Record<number, AddressBookConflictChoice> = {},
+  ): AddressBookImportResult {
+    const result: AddressBookImportResult = { added: 0, updated: 0, skipped: 0 }
+
+    preview.entries.forEach((item, i) => {
+      if (item.status === 'new') {
+        addEntry(item.entry)
+        result.added++
+        return
+      }
+
+      const person = item.personId ? people.value.get(item.personId) : undefined
+      const choice =
+        item.status === 'conflict' ? (choices[i] ?? 'keep') : 'merge'
+      if (
+        person &&
+        choice !== 'keep' &&
+        applyEntry(person, item.entry, choice === 'replace')
+      ) {
+        result.updated++
+      } else {
+        result.skipped++
+      }
+    })
+    return result
+  }
+
+  function addEntry(entry: AddressBookEntry) {
+    addPerson({
+      name: entry.name,
+      address: entry.address,
+      publicKeyHex: entry.publicKeyHex,
+      notes: entry.notes,
+      isOnline: false,
+      canSign: !!entry.publicKeyHex,
+      level: entry.publicKeyHex ? 1 : 0,
+      isFavorite: !!entry.isFavorite,
+      tags: entry.tags,
+      groupId: entry.groupName ? groupIdFor(entry.groupName) : undefined,
+      transactionCount: 0,
+      totalSent: 0n,
+      totalReceived: 0n,
+      sharedWalletIds: [],
+    })
+  }
+
+  /**
+   * Update a person from an imported entry
+   *
+   * @param overwrite - Replace differing values, not only missing ones
+   * @returns Whether anything changed
+   */
+  function applyEntry(
+    person: Person,
+    entry: AddressBookEntry,
+    overwrite: boolean,
+  ): boolean {
+    const update: PersonUpdate = {}
+    for (const field of ADDRESS_BOOK_FIELDS) {
+      const value = entry[field]
+      if (value === undefined || value === person[field]) continue
+      if (overwrite || person[field] === undefined) update[field] = value
+    }
+
+    const tags = [...new Set([...person.tags, ...entry.tags])]
+    if (tags.length > person.tags.length) update.tags = tags
+    if (entry.isFavorite && !person.isFavorite) update.isFavorite = true
+    if (entry.groupName && (overwrite || !person.groupId)) {
+      const groupId = groupIdFor(entry.groupName)
+      if (groupId !== person.groupId) update.groupId = groupId
+    }
+    if (update.publicKeyHex) {
+      update.canSign = true
+      update.level = Math.max(person.level, 1) as RelationshipLevel
+    }
+
+    if (Object.keys(update).length === 0) return false
+    updatePerson(person.id, update)
+    return true
+  }
+
+  /** ID of the group with this name, created if there is none */
+  function groupIdFor(name: string): string {
+    const existing = allGroups.value.find(
+      group => group.name.toLowerCase() === name.toLowerCase(),
+    )
+    return existing?.id ?? createGroup(name, 'i-lucide-users', 'primary').id
   }
 
   // === HELPERS ===
 
   function sortPeople(list: Person[]): Person[] {
+    // Group and tag order keep their people together, then go by name
+    if (sortBy.value === 'group' || sortBy.value === 'tag') {
+      const key =
+        sortBy.value === 'group'
+          ? (p: Person) => (p.groupId && groups.value.get(p.groupId)?.name)
+          : (p: Person) => [...p.tags].sort((a, b) => a.localeCompare(b))[0]
+      return [...list].sort((a, b) => {
+        const keyA = key(a)
+        const keyB = key(b)
+        // People without one go last
+        if (keyA !== keyB) {
+          if (!keyA) return 1
+          if (!keyB) return -1
+          return keyA.localeCompare(keyB)
+        }
+        return a.name.localeCompare(b.name)
+      })
+    }
+
     // Favorites first, then by sort preference
     const favorites = list.filter(p => p.isFavorite)
     const others = list.filter(p => !p.isFavorite)
@@ -386,8 +983,13 @@ export const usePeopleStore = defineStore('people', () => {
     // State
     people,
     sharedWallets,
+    groups,
     searchQuery,
     sortBy,
+    tagFilter,
+    groupFilter,
+    ledgers,
+    reconciling,
     initialized,
 
     // Getters
@@ -397,6 +999,8 @@ export const usePeopleStore = defineStore('people', () => {
     onlinePeople,
     signers,
     allWallets,
+    allGroups,
+    allTags,
 
     // Lookups
     getById,
@@ -405,12 +1009,16 @@ export const usePeopleStore = defineStore('people', () => {
     getByPublicKey,
     getByName,
     findByName,
+    getByGroup,
+    getGroup,
     getWallet,
+    getLedger,
 
     // Actions
     initialize,
     addPerson,
     updatePerson,
+    markVerified,
     removePerson,
     addSharedWallet,
     updateSharedWallet,
@@ -422,9 +1030,27 @@ export const usePeopleStore = defineStore('people', () => {
 
     // Activity
     recordActivity,
+    reconcileActivity,
 
     // Favorites and Groups
     toggleFavorite,
     assignToGroup,
+    createGroup,
+    updateGroup,
+    removeGroup,
+
+    // Tags
+    addTag,
+    removeTag,
+
+    // Bulk actions
+    bulkAddTag,
+    bulkSetFavorite,
+    bulkRemove,
+
+    // Import/Export
+    exportAddressBook,
+    previewImport,
+    importAddressBook,
   }
 })
@@ -0,0 +1,442 @@
+/**
+ * Price Store
+ *
+ * XPI prices in the user's chosen fiat currency. Spot prices are refreshed
+ * periodically; daily prices for valuing past transactions are fetched on
+ * demand, batched into date ranges, and cached on this device. After a
+ * failed fetch the source is left alone for a growing delay.
+ *
+ * Key API:
+ * - toFiat(sats) / formatFiatAmount(sats) - Value at the spot price
+ * - fiatAt(sats, timestamp) - Value on the day of a transaction, if loaded
+ * - loadDailyPrices(timestamps) - Fetch missing daily prices
+ * - setCurrency(currency) - Choose a currency, or null to turn fiat off
+ * - setCustomUrls(urls) - Use the user's own price API
+ */
+import { defineStore } from 'pinia'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface PriceSettings {
+  currency: FiatCurrency | null
+  source: PriceSourceId
+  customUrls: CustomPriceUrls | null
+}
+
+interface PriceCache {
+  spot: SpotPrice[]
+  /** Price by `source:currency:day` */
+  daily: Record<string, number>
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Most daily prices kept in the cache */
+const MAX_CACHED_DAYS = 5000
+
+/** Daily prices asked for within this window share one range request */
+const DAILY_BATCH_DELAY_MS = 50
+
+/** Most days one range request covers */
+const MAX_RANGE_DAYS = 365
+
+/** Delay before retrying after a failed fetch, doubled on every failure */
+const DAILY_RETRY_BASE_MS = 60 * 1000
+const DAILY_RETRY_MAX_MS = 60 * 60 * 1000
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+// ============================================================================
+// Store Definition
+// ============================================================================
+
+export const usePriceStore = defineStore('price', () => {
+  // === STATE ===
+  const currency = ref<FiatCurrency | null>(DEFAULT_FIAT_CURRENCY)
+  const sourceId = ref<PriceSourceId>(DEFAULT_PRICE_SOURCE)
+  const customUrls = ref<CustomPriceUrls | null>(null)
+  const spot = ref<Map<FiatCurrency, SpotPrice>>(new Map())
+  const daily = ref<Map<string, number>>(new Map())
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+  const initialized = ref(false)
+
+  let _source: PriceSource = createPriceSource(DEFAULT_PRICE_SOURCE)
+  /** Range fetches run one after another to stay within API rate limits */
+  let _dailyQueue: Promise<unknown> = Promise.resolve()
+  const _dailyInFlight = new Map<string, Promise<number | null>>()
+  /** Days waiting for the next range request, by cache key */
+  let _dailyBatch = new Map<string, string>()
+  /** Callers waiting for a day's range request, by cache key */
+  const _dailyWaiting = new Map<string, ((price: number | null) => void)[]>()
+  let _dailyBatchTimer: ReturnType<typeof setTimeout> | null = null
+  /**
+   * Days not to ask for again until a time (ms): forever when the source
+   * has no price, until the retry time when fetching failed
+   */
+  const _dailyMissing = new Map<string, number>()
+  let _dailyFailures = 0
+  let _dailyRetryAt = 0
+
+  // === GETTERS ===
+  const enabled = computed(() => currency.value !== null)
+
+  /** Spot price in the chosen currency, null if off or not loaded */
+  const spotPrice = computed((): number | null => {
+    if (!currency.value) return null
+    return spot.value.get(currency.value)?.price ?? null
+  })
+
+  // === INITIALIZATION ===
+  function initialize() {
+    if (initialized.value) return
+
+    const settings = getItem<Partial<PriceSettings>>(
+      STORAGE_KEYS.PRICE_SETTINGS,
+      {},
+    )
+    if (settings.currency !== undefined) currency.value = settings.currency
+    if (settings.source) sourceId.value = settings.source
+    if (settings.customUrls) customUrls.value = settings.customUrls
+    _source = createPriceSource(sourceId.value, customUrls.value)
+
+    const cache = getItem<PriceCache>(STORAGE_KEYS.PRICE_CACHE, {
+      spot: [],
+      daily: {},
+    })
+    spot.value = new Map(cache.spot.map(entry => [entry.currency, entry]))
+    daily.value = new Map(Object.entries(cache.daily))
+
+    initialized.value = true
+
+    refreshSpot()
+    setInterval(() => refreshSpot(), SPOT_PRICE_TTL_MS)
+  }
+
+  function _saveSettings() {
+    setItem(STORAGE_KEYS.PRICE_SETTINGS, {
+      currency: currency.value,
+      source: sourceId.value,
+      customUrls: customUrls.value,
+    })
+  }
+
+  function _saveCache() {
+    const entries = [...daily.value]
+    setItem(STORAGE_KEYS.PRICE_CACHE, {
+      spot: [...spot.value.values()],
+      daily: Object.fromEntries(entries.slice(-MAX_CACHED_DAYS)),
+    })
+  }
+
+  function _dailyKey(
+    day: string,
+    source: PriceSourceId = sourceId.value,
+    target: FiatCurrency | null = currency.value,
+  ): string {
+    return `${source}:${target}:${day}`
+  }
+
+  // === SPOT PRICES ===
+  /**
+   * Fetch the spot price unless the cached one is recent enough
+   */
+  async function refreshSpot(force = false) {
+    const target = currency.value
+    if (!target) return
+
+    const cached = spot.value.get(target)
+    if (
+      !force &&
+      cached &&
+      Date.now() - cached.fetchedAt < SPOT_PRICE_TTL_MS
+    ) {
+      return
+    }
+
+    loading.value = true
+    try {
+      const prices = await _source.fetchSpot([target])
+      const price = prices[target]
+      if (price === undefined) {
+        throw new Error(`No ${target} price from ${_source.name}`)
+      }
+      spot.value.set(target, {
+        currency: target,
+        price,
+        fetchedAt: Date.now(),
+      })
+      error.value = null
+      _saveCache()
+    } catch (err) {
+      error.value =
+        err instanceof Error ? err.message : 'Failed to fetch price'
+      console.warn('[Price] Spot price unavailable:', err)
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Value of an amount at the spot price
+   */
+  function toFiat(sats: string | number | bigint): number | null {
+    return spotPrice.value === null ? null : satsToFiat(sats, spotPrice.value)
+  }
+
+  /**
+   * Formatted value at the spot price, null if unavailable
+   */
+  function formatFiatAmount(sats: string | number | bigint): string | null {
+    const value = toFiat(sats)
+    return value === null || !currency.value
+      ? null
+      : formatFiat(value, currency.value)
+  }
+
+  /**
+   * Satoshis worth a fiat amount at the spot price
+   */
+  function satsForFiat(amount: number): bigint | null {
+    return spotPrice.value === null ? null : fiatToSats(amount, spotPrice.value)
+  }
+
+  // === DAILY PRICES ===
+  /**
+   * Price on the day of a timestamp (seconds), if loaded. Today's value is
+   * the spot price.
+   */
+  function dailyPrice(timestamp: number | string): number | undefined {
+    if (!currency.value) return undefined
+    const day = priceDay(timestamp)
+    if (day === priceDay(Date.now() / 1000)) {
+      return spotPrice.value ?? undefined
+    }
+    return daily.value.get(_dailyKey(day))
+  }
+
+  /**
+   * Value of an amount on the day of a timestamp (seconds), if loaded
+   */
+  function fiatAt(
+    sats: string | number | bigint,
+    timestamp: number | string,
+  ): number | null {
+    const price = dailyPrice(timestamp)
+    return price === undefined ? null : satsToFiat(sats, price)
+  }
+
+  /**
+   * Fetch the price on the day of a timestamp (seconds) if not cached
+   */
+  function loadDailyPrice(timestamp: number | string): Promise<number | null> {
+    const known = dailyPrice(timestamp)
+    if (known !== undefined) return Promise.resolve(known)
+    const target = currency.value
+    if (!target) return Promise.resolve(null)
+
+    const day = priceDay(timestamp)
+    if (day === priceDay(Date.now() / 1000)) {
+      return refreshSpot().then(() => spotPrice.value)
+    }
+    const key = _dailyKey(day)
+    const now = Date.now()
+    if ((_dailyMissing.get(key) ?? 0) > now || _dailyRetryAt > now) {
+      return Promise.resolve(null)
+    }
+
+    const pending = _dailyInFlight.get(key)
+    if (pending) return pending
+
+    _dailyBatch.set(key, day)
+    if (!_dailyBatchTimer) {
+      _dailyBatchTimer = setTimeout(_flushDailyBatch, DAILY_BATCH_DELAY_MS)
+    }
+    const request = _batchSettled(key)
+    _dailyInFlight.set(key, request)
+    return request
+  }
+
+  function _batchSettled(key: string): Promise<number | null> {
+    return new Promise(resolve => {
+      const waiting = _dailyWaiting.get(key) ?? []
+      waiting.push(resolve)
+      _dailyWaiting.set(key, waiting)
+    })
+  }
+
+  /**
+   * Fetch the batched days, one range request per span of nearby days
+   */
+  function _flushDailyBatch() {
+    _dailyBatchTimer = null
+    const batch = _dailyBatch
+    _dailyBatch = new Map()
+    const target = currency.value
+    const source = _source
+
+    const days = [...new Set(batch.values())].sort()
+    const spans: string[][] = []
+    for (const day of days) {
+      const span = spans[spans.length - 1]
+      const spanDays = span
+        ? (Date.parse(day) - Date.parse(span[0])) / MS_PER_DAY
+        : Infinity
+      if (span && spanDays < MAX_RANGE_DAYS) {
+        span.push(day)
+      } else {
+        spans.push([day])
+      }
+    }
+
+    for (const span of spans) {
+      _dailyQueue = _dailyQueue
+        .then(() => (target ? _fetchDailySpan(source, target, span) : null))
+        .finally(() => {
+          for (const day of span) {
+            const key = _dailyKey(day, source.id, target)
+            const price = daily.value.get(key) ?? null
+            _dailyWaiting.get(key)?.forEach(resolve => resolve(price))
+            _dailyWaiting.delete(key)
+            _dailyInFlight.delete(key)
+          }
+        })
+    }
+  }
+
+  async function _fetchDailySpan(
+    source: PriceSource,
+    target: FiatCurrency,
+    days: string[],
+  ) {
+    // A failure while this span waited in the queue
+    if (_dailyRetryAt > Date.now()) return
+
+    try {
+      const prices = await source.fetchDailyRange(
+        target,
+        days[0],
+        days[days.length - 1],
+      )
+      _dailyFailures = 0
+      for (const [day, price] of Object.entries(prices)) {
+        daily.value.set(_dailyKey(day, source.id, target), price)
+      }
+      for (const day of days) {
+        if (!(day in prices)) {
+          _dailyMissing.set(_dailyKey(day, source.id, target), Infinity)
+        }
+      }
+      _saveCache()
+    } catch (err) {
+      _dailyFailures++
+      _dailyRetryAt =
+        Date.now() +
+        Math.min(
+          DAILY_RETRY_BASE_MS * 2 ** (_dailyFailures - 1),
+          DAILY_RETRY_MAX_MS,
+        )
+      for (const day of days) {
+        _dailyMissing.set(_dailyKey(day, source.id, target), _dailyRetryAt)
+      }
+      console.warn(
+        `[Price] Daily prices for ${days[0]} to ${days[days.length - 1]}` +
+          ' unavailable:',
+        err,
+      )
+    }
+  }
+
+  /**
+   * Fetch missing daily prices for several timestamps (seconds)
+   */
+  async function loadDailyPrices(timestamps: (number | string)[]) {
+    const days = new Map<string, number | string>()
+    for (const timestamp of timestamps) {
+      days.set(priceDay(timestamp), timestamp)
+    }
+    await Promise.all([...days.values()].map(loadDailyPrice))
+  }
+
+  // === SETTINGS ===
+  /**
+   * Choose the fiat currency, or null to hide fiat values
+   */
+  function setCurrency(value: FiatCurrency | null) {
+    currency.value = value
+    error.value = null
+    _saveSettings()
+    refreshSpot()
+  }
+
+  function setSource(id: PriceSourceId) {
+    sourceId.value = id
+    _source = createPriceSource(id, customUrls.value)
+    spot.value = new Map()
+    error.value = null
+    _dailyMissing.clear()
+    _dailyFailures = 0
+    _dailyRetryAt = 0
+    _saveSettings()
+    refreshSpot(true)
+  }
+
+  /**
+   * Fetch prices from the user's own API, which answers like CoinGecko
+   *
+   * @throws If the URLs are not valid
+   */
+  function setCustomUrls(urls: CustomPriceUrls) {
+    const normalized = {
+      spotUrl: urls.spotUrl.trim(),
+      rangeUrl: urls.rangeUrl.trim(),
+    }
+    const invalid = validateCustomPriceUrls(normalized)
+    if (invalid) throw new Error(invalid)
+
+    customUrls.value = normalized
+    // Cached prices are keyed by source, so the new API's are kept apart
+    daily.value = new Map(
+      [...daily.value].filter(([key]) => !key.startsWith('custom:')),
+    )
+    _saveCache()
+    setSource('custom')
+  }
+
+  // === RETURN ===
+  return {
+    // State
+    currency,
+    sourceId,
+    customUrls,
+    loading,
+    error,
+    initialized,
+
+    // Getters
+    enabled,
+    spotPrice,
+
+    // Spot
+    refreshSpot,
+    toFiat,
+    formatFiatAmount,
+    satsForFiat,
+
+    // Daily
+    dailyPrice,
+    fiatAt,
+    loadDailyPrice,
+    loadDailyPrices,
+
+    // Actions
+    initialize,
+    setCurrency,
+    setSource,
+    setCustomUrls,
+  }
+})
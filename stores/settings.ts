@@ -13,6 +13,10 @@ import { defineStore } from 'pinia'
 export interface UISettings {
   /** Hide balance by default until user taps to reveal */
   hideBalance: boolean
+  /** Minutes of inactivity before the wallet auto-locks (0 = never) */
+  lockTimeoutMinutes: number
+  /** Lock the wallet as soon as the app is hidden/backgrounded */
+  lockOnBackground: boolean
   /** Whether settings have been loaded from storage */
   initialized: boolean
 }
@@ -23,8 +27,13 @@ export interface UISettings {
 
 const DEFAULT_UI_SETTINGS: Omit<UISettings, 'initialized'> = {
   hideBalance: false,
+  lockTimeoutMinutes: 5,
+  lockOnBackground: false,
 }
 
+/** Selectable auto-lock timeouts in minutes (0 = never) */
+export const LOCK_TIMEOUT_OPTIONS: number[] = [1, 5, 15, 30, 60, 0]
+
 // ============================================================================
 // Store Definition
 // ============================================================================
@@ -32,6 +41,8 @@ const DEFAULT_UI_SETTINGS: Omit<UISettings, 'initialized'> = {
 export const useSettingsStore = defineStore('settings', () => {
   // === STATE ===
   const hideBalance = ref(false)
+  const lockTimeoutMinutes = ref(DEFAULT_UI_SETTINGS.lockTimeoutMinutes)
+  const lockOnBackground = ref(DEFAULT_UI_SETTINGS.lockOnBackground)
   const initialized = ref(false)
 
   // === GETTERS ===
@@ -40,6 +51,13 @@ export const useSettingsStore = defineStore('settings', () => {
    */
   const shouldHideBalance = computed(() => hideBalance.value)
 
+  /**
+   * Auto-lock idle timeout in milliseconds, or null when disabled
+   */
+  const lockTimeoutMs = computed(() =>
+    lockTimeoutMinutes.value > 0 ? lockTimeoutMinutes.value * 60_000 : null,
+  )
+
   // === ACTIONS ===
   /**
    * Initialize settings from storage
@@ -50,10 +68,16 @@ export const useSettingsStore = defineStore('settings', () => {
     const saved = getItem<Partial<UISettings>>(STORAGE_KEYS.UI_SETTINGS, {})
 
     hideBalance.value = saved.hideBalance ?? DEFAULT_UI_SETTINGS.hideBalance
+    lockTimeoutMinutes.value =
+      saved.lockTimeoutMinutes ?? DEFAULT_UI_SETTINGS.lockTimeoutMinutes
+    lockOnBackground.value =
+      saved.lockOnBackground ?? DEFAULT_UI_SETTINGS.lockOnBackground
     initialized.value = true
 
     console.log('[Settings Store] Initialized:', {
       hideBalance: hideBalance.value,
+      lockTimeoutMinutes: lockTimeoutMinutes.value,
+      lockOnBackground: lockOnBackground.value,
     })
   }
 
@@ -63,6 +87,8 @@ export const useSettingsStore = defineStore('settings', () => {
   function _saveSettings() {
     setItem(STORAGE_KEYS.UI_SETTINGS, {
       hideBalance: hideBalance.value,
+      lockTimeoutMinutes: lockTimeoutMinutes.value,
+      lockOnBackground: lockOnBackground.value,
     })
   }
 
@@ -82,11 +108,29 @@ export const useSettingsStore = defineStore('settings', () => {
     _saveSettings()
   }
 
+  /**
+   * Set auto-lock idle timeout in minutes (0 = never)
+   */
+  function setLockTimeout(minutes: number) {
+    lockTimeoutMinutes.value = Math.max(0, minutes)
+    _saveSettings()
+  }
+
+  /**
+   * Set lock-on-background preference
+   */
+  function setLockOnBackground(value: boolean) {
+    lockOnBackground.value = value
+    _saveSettings()
+  }
+
   /**
    * Reset all settings to defaults
    */
   function resetSettings() {
     hideBalance.value = DEFAULT_UI_SETTINGS.hideBalance
+    lockTimeoutMinutes.value = DEFAULT_UI_SETTINGS.lockTimeoutMinutes
+    lockOnBackground.value = DEFAULT_UI_SETTINGS.lockOnBackground
     _saveSettings()
   }
 
@@ -94,13 +138,18 @@ export const useSettingsStore = defineStore('settings', () => {
   return {
     // State
     hideBalance,
+    lockTimeoutMinutes,
+    lockOnBackground,
     initialized,
     // Getters
     shouldHideBalance,
+    lockTimeoutMs,
     // Actions
     initialize,
     setHideBalance,
     toggleHideBalance,
+    setLockTimeout,
+    setLockOnBackground,
     resetSettings,
   }
 })
@@ -3,16 +3,22 @@
  * Manages wallet state, UTXO cache, and blockchain interactions
  */
 import { defineStore } from 'pinia'
+import { useFeeStore } from './fees'
 import { useNetworkStore } from './network'
 import { useNotificationStore } from './notifications'
+import { usePendingTxStore } from './pendingTxs'
+import { useSettingsStore } from './settings'
 import type { ChronikSubscription } from '~/plugins/chronik.client'
 import type * as Bitcore from 'xpi-ts/lib/bitcore'
 import type { Buffer } from 'buffer/'
+import type { Tx as ChronikTx } from 'chronik-client'
 
 // Note: ParsedTransaction type is available from ~/composables/useExplorerApi
 
 /**
- * Runtime key data for an account (not persisted)
+ * Runtime key data for an account (not persisted).
+ * With the crypto worker enabled, privateKey is null: the key stays in the
+ * worker and is referenced through a KeyHandle.
  */
 export interface RuntimeKeyData {
   privateKey: any
@@ -35,6 +41,20 @@ function shouldNotify(txid: string): boolean {
   return true
 }
 
+/**
+ * Parameters for adding a watch-only account. Exactly one of `xpub` or
+ * `addresses` is used.
+ */
+export interface AddWatchOnlyAccountParams {
+  label: string
+  /** Account-level extended public key */
+  xpub?: string
+  /** Address type of the xpub's addresses (defaults to the wallet's) */
+  addressType?: AddressType
+  /** Plain addresses to watch */
+  addresses?: string[]
+}
+
 // Utility functions
 export const toLotusUnits = (sats: string | number) => Number(sats) / 1_000_000
 export const toSatoshiUnits = (xpi: string | number) =>
@@ -54,12 +74,39 @@ export const useWalletStore = defineStore('wallet', () => {
   // =========================================================================
   // Private runtime state (not serializable, not exposed)
   // =========================================================================
+  // HD root of the main-thread fallback; with the crypto worker the seed
+  // only ever lives in the worker
   let _hdPrivkey: any = null
+  let _fallbackPhrase: string | null = null
   const _accountKeys = new Map<AccountPurpose, RuntimeKeyData>()
   let _signingKey: any = null
   let _script: any = null
   let _internalPubKey: Bitcore.PublicKey | undefined = undefined
   let _merkleRoot: Buffer | undefined = undefined
+  // Vault key derived from the user's password (non-extractable CryptoKey)
+  let _vaultKey: CryptoKey | null = null
+  let _vaultSalt: Uint8Array | null = null
+  let _vaultIterations = VAULT_KDF_ITERATIONS
+  // Seed sealed under the current vault key, written by every save
+  let _sealedVault: EncryptedVault | null = null
+  // Account-level extended public keys; not secret, so they survive lock()
+  const _accountXpubs = new Map<AccountPurpose, Bitcore.HDPublicKey>()
+  // Output script hex -> owning derived address, for every tracked address
+  const _scriptIndex = new Map<
+    string,
+    { purpose: AccountPurpose; address: DerivedAddress }
+  >()
+  // Rejects each requireUnlocked() caller still waiting on the prompt
+  const _unlockCancels = new Set<() => void>()
+  // Set when address usage is unknown and the chain must be scanned
+  let _needsDiscovery = false
+  // Watch-only xpubs by account id, and output script hex -> watched address
+  // for every tracked watch-only address on the current network
+  const _watchOnlyXpubs = new Map<string, Bitcore.HDPublicKey>()
+  const _watchOnlyIndex = new Map<
+    string,
+    { accountId: string; address: WatchOnlyAddress }
+  >()
 
   // =========================================================================
   // Reactive State
@@ -67,13 +114,20 @@ export const useWalletStore = defineStore('wallet', () => {
   const initialized = ref(false)
   const loading = ref(false)
   const loadingMessage = ref('')
-  const seedPhrase = ref('')
+  const vaultStatus = ref<VaultStatus>('setup')
+  /** True when the stored wallet predates the vault and still holds a plaintext seed */
+  const hasPlaintextSeed = ref(false)
+  /** True while a signing operation is waiting for the user to unlock */
+  const unlockRequested = ref(false)
   const addressType = ref<AddressType>('p2tr-commitment')
   const tipHeight = ref(0)
   const tipHash = ref('')
   const connected = ref(false)
+  /** Newest history entries, loaded from the local cache page by page */
   const transactionHistory = ref<TransactionHistoryItem[]>([])
   const historyLoading = ref(false)
+  /** Whether the local cache holds older entries than those loaded */
+  const hasMoreHistory = ref(false)
 
   // Multi-account state
   const accounts = ref(new Map<AccountPurpose, AccountState>())
@@ -93,6 +147,11 @@ export const useWalletStore = defineStore('wallet', () => {
   /** @deprecated Use getAccountUtxos(AccountPurpose.PRIMARY) instead */
   const utxos = ref(new Map<string, UtxoData>())
 
+  // Watch-only accounts on every network; only the current one is tracked
+  const watchOnlyAccounts = ref<WatchOnlyAccount[]>([])
+  const watchOnlyUtxos = ref(new Map<string, AccountUtxoState>())
+  const watchOnlyHistory = ref(new Map<string, TransactionHistoryItem[]>())
+
   // =========================================================================
   // Getters
   // =========================================================================
@@ -106,35 +165,56 @@ export const useWalletStore = defineStore('wallet', () => {
     transactionHistory.value.slice(0, 10),
   )
 
+  /** Watch-only accounts on the current network */
+  const activeWatchOnlyAccounts = computed(() => {
+    const networkStore = useNetworkStore()
+    return watchOnlyAccounts.value.filter(
+      account => account.network === networkStore.currentNetwork,
+    )
+  })
+
+  /** Combined balance of the active watch-only accounts (not spendable) */
+  const watchOnlyBalance = computed<WalletBalance>(() => {
+    let total = 0n
+    let utxoCount = 0
+    for (const account of activeWatchOnlyAccounts.value) {
+      const state = watchOnlyUtxos.value.get(account.id)
+      if (!state) continue
+      total += BigInt(state.balance.total)
+      utxoCount += state.balance.utxoCount
+    }
+    return { total: total.toString(), spendable: '0', utxoCount }
+  })
+
   /**
    * Get spendable UTXOs (excluding immature coinbase)
    */
-  function getSpendableUtxos(): Array<{
-    outpoint: string
-    value: string
-    blockHeight: number
-    isCoinbase: boolean
-  }> {
-    const result: Array<{
-      outpoint: string
-      value: string
-      blockHeight: number
-      isCoinbase: boolean
-    }> = []
+  function getSpendableUtxos(): UtxoEntry[] {
+    const result: UtxoEntry[] = []
+    // The main-thread fallback signs with the primary key only
+    const primaryPath = accounts.value.get(AccountPurpose.PRIMARY)
+      ?.primaryAddress?.path
     for (const [outpoint, utxo] of utxos.value) {
-      if (utxo.isCoinbase) {
-        const confirmations =
-          utxo.blockHeight > 0 ? tipHeight.value - utxo.blockHeight + 1 : 0
-        if (confirmations >= 100) {
-          result.push({ ...utxo, outpoint })
-        }
-      } else {
+      if (!USE_CRYPTO_WORKER && utxo.path && utxo.path !== primaryPath) {
+        continue
+      }
+      if (_isMature(utxo)) {
         result.push({ ...utxo, outpoint })
       }
     }
     return result
   }
 
+  /**
+   * Whether an output can be spent: coinbase outputs need 100 confirmations
+   */
+  function _isMature(utxo: UtxoData): boolean {
+    if (!utxo.isCoinbase) return true
+    const confirmations =
+      utxo.blockHeight > 0 ? tipHeight.value - utxo.blockHeight + 1 : 0
+    return confirmations >= 100
+  }
+
   /**
    * Get transactions involving a specific contact address
    */
@@ -168,29 +248,28 @@ export const useWalletStore = defineStore('wallet', () => {
       // Check for existing wallet in storage
       const savedState = getRawItem(STORAGE_KEYS.WALLET_STATE)
 
-      console.log('[Wallet] Saved state:', savedState)
-
       if (savedState) {
-        await loadWallet(JSON.parse(savedState))
+        const parsed = JSON.parse(savedState)
+        if (isEncryptedVault(parsed.vault)) {
+          // Encrypted wallet - wait for unlock() with the user's password
+          vaultStatus.value = 'locked'
+          loading.value = false
+          loadingMessage.value = ''
+          return
+        }
+
+        // Legacy plaintext wallet - load it, then require a password so the
+        // seed can be migrated into the vault
+        await loadWallet(parsed)
+        hasPlaintextSeed.value = true
+        vaultStatus.value = 'setup'
       } else {
-        // Generate new wallet
+        // Generate new wallet. Nothing is persisted until a password is set.
         await createNewWallet()
+        vaultStatus.value = 'setup'
       }
 
-      // Wallet keys are ready - mark as initialized for API calls
-      // Chronik connection happens in background and is only needed for
-      // blockchain operations (WebSocket, broadcasting), not RANK API auth
-      initialized.value = true
-      loading.value = false
-      loadingMessage.value = ''
-      console.log('[Wallet] Wallet initialized successfully')
-
-      // Initialize Chronik connection in background (non-blocking)
-      // This is for real-time UTXO updates and transaction broadcasting
-      initializeChronik().catch((err: unknown) => {
-        console.error('Failed to connect to Chronik (non-blocking):', err)
-        // Don't mark as uninitialized - wallet is still functional
-      })
+      _completeInitialization()
     } catch (err) {
       console.error('Failed to initialize wallet:', err)
       loadingMessage.value = 'Failed to initialize wallet'
@@ -198,6 +277,261 @@ export const useWalletStore = defineStore('wallet', () => {
     }
   }
 
+  /**
+   * Mark the wallet as initialized and connect to Chronik in the background
+   */
+  function _completeInitialization() {
+    // Wallet keys are ready - mark as initialized for API calls
+    // Chronik connection happens in background and is only needed for
+    // blockchain operations (WebSocket, broadcasting), not RANK API auth
+    initialized.value = true
+    loading.value = false
+    loadingMessage.value = ''
+    console.log('[Wallet] Wallet initialized successfully')
+
+    // Initialize Chronik connection in background (non-blocking)
+    // This is for real-time UTXO updates and transaction broadcasting
+    initializeChronik().catch((err: unknown) => {
+      console.error('Failed to connect to Chronik (non-blocking):', err)
+      // Don't mark as uninitialized - wallet is still functional
+    })
+  }
+
+  /**
+   * Read the persisted encrypted vault, if any
+   */
+  function _getStoredVault(): EncryptedVault | null {
+    const savedState = getRawItem(STORAGE_KEYS.WALLET_STATE)
+    if (!savedState) return null
+    const parsed = JSON.parse(savedState)
+    return isEncryptedVault(parsed.vault) ? parsed.vault : null
+  }
+
+  /**
+   * Unlock the encrypted vault with the user's password.
+   * On first unlock the wallet is loaded and Chronik is connected; after an
+   * auto-lock only the signing keys are re-derived.
+   * Throws 'Incorrect password' if decryption fails.
+   */
+  async function unlock(password: string) {
+    if (vaultStatus.value !== 'locked') return
+
+    const savedState = getRawItem(STORAGE_KEYS.WALLET_STATE)
+    if (!savedState) {
+      throw new Error('No wallet found')
+    }
+    const parsed = JSON.parse(savedState)
+
+    // Re-unlock after lock(): wallet state is still live, only keys are gone
+    if (initialized.value) {
+      const { key, salt, secret } = await unlockVault(parsed.vault, password)
+      _vaultKey = key
+      _vaultSalt = salt
+      _vaultIterations = parsed.vault.iterations
+      _sealedVault = parsed.vault
+
+      await _restoreKeys(secret)
+      vaultStatus.value = 'unlocked'
+      return
+    }
+
+    loading.value = true
+    loadingMessage.value = 'Unlocking wallet...'
+
+    try {
+      const { key, salt, secret } = await unlockVault(parsed.vault, password)
+      _vaultKey = key
+      _vaultSalt = salt
+      _vaultIterations = parsed.vault.iterations
+      _sealedVault = parsed.vault
+
+      await loadWallet({ ...parsed, seedPhrase: secret })
+      vaultStatus.value = 'unlocked'
+    } catch (err) {
+      loading.value = false
+      loadingMessage.value = ''
+      throw err
+    }
+
+    _completeInitialization()
+  }
+
+  /**
+   * Lock the wallet: wipe the seed, all private keys and the vault key from
+   * memory. Balances, history and subscriptions stay live; signing requires
+   * unlock() again.
+   */
+  function lock() {
+    // Nothing to protect until a password exists
+    if (vaultStatus.value !== 'unlocked') return
+
+    _accountKeys.clear()
+    _hdPrivkey = null
+    _fallbackPhrase = null
+    _signingKey = null
+    if (USE_CRYPTO_WORKER) {
+      $cryptoWorker.lock().catch(console.error)
+    }
+    _vaultKey = null
+    _vaultSalt = null
+    vaultStatus.value = 'locked'
+    console.log('[Wallet] Wallet locked')
+  }
+
+  /**
+   * Wait until the wallet is unlocked. While locked, the lock screen is
+   * shown with a prompt to unlock for the pending operation. Rejects if
+   * the user cancels the prompt with cancelUnlock().
+   */
+  function requireUnlocked(): Promise<void> {
+    if (vaultStatus.value !== 'locked') return Promise.resolve()
+
+    unlockRequested.value = true
+    return new Promise((resolve, reject) => {
+      const cancel = () => {
+        unwatch()
+        reject(new Error('Unlock cancelled'))
+      }
+      const unwatch = watch(vaultStatus, status => {
+        if (status !== 'locked') {
+          unwatch()
+          _unlockCancels.delete(cancel)
+          unlockRequested.value = false
+          resolve()
+        }
+      })
+      _unlockCancels.add(cancel)
+    })
+  }
+
+  /**
+   * Dismiss the unlock prompt: every pending requireUnlocked() rejects and
+   * the wallet stays locked
+   */
+  function cancelUnlock() {
+    unlockRequested.value = false
+    const cancels = [..._unlockCancels]
+    _unlockCancels.clear()
+    for (const cancel of cancels) cancel()
+  }
+
+  /**
+   * Re-derive private keys for all enabled accounts without touching
+   * account, UTXO or balance state
+   */
+  async function _restoreKeys(phrase: string) {
+    const networkStore = useNetworkStore()
+
+    await _unlockSeed(phrase)
+
+    for (const config of DEFAULT_ACCOUNTS) {
+      if (!config.enabled) continue
+      await _deriveAccountKeys(config.purpose, networkStore.currentNetwork)
+    }
+
+    const primaryKeys = _accountKeys.get(AccountPurpose.PRIMARY)
+    if (primaryKeys) {
+      _signingKey = primaryKeys.privateKey
+    }
+  }
+
+  /**
+   * Hand the seed to whatever derives and signs: the crypto worker, or the
+   * main-thread fallback
+   */
+  async function _unlockSeed(phrase: string) {
+    if (USE_CRYPTO_WORKER) {
+      await $cryptoWorker.unlock(phrase)
+      return
+    }
+    const { HDPrivateKey, Mnemonic } = $bitcore
+    _hdPrivkey = markRaw(HDPrivateKey.fromSeed(new Mnemonic(phrase).toSeed()))
+    _fallbackPhrase = phrase
+  }
+
+  /**
+   * Read the seed phrase back from wherever it was unlocked. Only backups
+   * and sealing the vault need it.
+   */
+  async function exportMnemonic(): Promise<string | null> {
+    if (!initialized.value || vaultStatus.value === 'locked') return null
+    if (USE_CRYPTO_WORKER) {
+      return await $cryptoWorker.exportMnemonic()
+    }
+    return _fallbackPhrase
+  }
+
+  /**
+   * Seal the seed under the current vault key for the next save
+   *
+   * @param phrase - Seed to seal, read back from the worker when omitted
+   */
+  async function _sealSeed(phrase?: string) {
+    if (!_vaultKey || !_vaultSalt) return
+    const secret = phrase ?? (await exportMnemonic())
+    if (!secret) {
+      throw new Error('Wallet is locked')
+    }
+    _sealedVault = await sealWithKey(
+      secret,
+      _vaultKey,
+      _vaultSalt,
+      _vaultIterations,
+    )
+  }
+
+  /**
+   * Set the vault password for a new or legacy plaintext wallet.
+   * Encrypts the seed and replaces any plaintext copy in storage.
+   */
+  async function setPassword(password: string) {
+    if (vaultStatus.value !== 'setup') {
+      throw new Error('Wallet already has a password')
+    }
+    const validation = validatePassword(password)
+    if (!validation.valid) {
+      throw new Error(validation.error)
+    }
+
+    const salt = generateVaultSalt()
+    _vaultKey = await deriveVaultKey(password, salt)
+    _vaultSalt = salt
+    _vaultIterations = VAULT_KDF_ITERATIONS
+    await _sealSeed()
+    vaultStatus.value = 'unlocked'
+    hasPlaintextSeed.value = false
+
+    await saveWalletState()
+  }
+
+  /**
+   * Change the vault password. The current password is verified against
+   * the stored vault before the seed is re-encrypted under the new one.
+   */
+  async function changePassword(currentPassword: string, newPassword: string) {
+    if (vaultStatus.value !== 'unlocked') {
+      throw new Error('Wallet is locked')
+    }
+    const vault = _getStoredVault()
+    if (!vault) {
+      throw new Error('No encrypted wallet found')
+    }
+    const validation = validatePassword(newPassword)
+    if (!validation.valid) {
+      throw new Error(validation.error)
+    }
+
+    // Throws 'Incorrect password' on mismatch
+    await unlockVault(vault, currentPassword)
+
+    const salt = generateVaultSalt()
+    _vaultKey = await deriveVaultKey(newPassword, salt)
+    _vaultSalt = salt
+    _vaultIterations = VAULT_KDF_ITERATIONS
+    await _sealSeed()
+    await saveWalletState()
+  }
+
   /**
    * Create a new wallet with fresh mnemonic
    */
@@ -246,6 +580,8 @@ export const useWalletStore = defineStore('wallet', () => {
       balance.value = { total: '0', spendable: '0', utxoCount: 0 }
 
       await buildWalletFromMnemonic(phrase)
+      // A restored seed may have history beyond the first address
+      _needsDiscovery = true
       await saveWalletState()
 
       // Reconnect Chronik with new address (uses local wrapper function)
@@ -261,9 +597,11 @@ export const useWalletStore = defineStore('wallet', () => {
    */
   async function switchAddressType(newType: AddressType) {
     if (addressType.value === newType) return
-    if (!seedPhrase.value) {
+    if (!initialized.value) {
       throw new Error('Wallet not initialized')
     }
+    // Addresses are derived from the unlocked seed
+    await requireUnlocked()
 
     loading.value = true
     loadingMessage.value = `Switching to ${
@@ -281,7 +619,8 @@ export const useWalletStore = defineStore('wallet', () => {
 
       // Update address type and rebuild wallet
       addressType.value = newType
-      await buildWalletFromMnemonic(seedPhrase.value)
+      await _buildAccounts()
+      _needsDiscovery = true
       await saveWalletState()
 
       // Reconnect Chronik WebSocket with new address (use local wrapper function)
@@ -296,19 +635,32 @@ export const useWalletStore = defineStore('wallet', () => {
    * Build wallet state from mnemonic
    */
   async function buildWalletFromMnemonic(phrase: string) {
+    // The worker keeps the seed for derivation and key-handle signing
+    await _unlockSeed(phrase)
+    // A new or restored seed replaces the sealed one
+    await _sealSeed(phrase)
+    await _buildAccounts()
+  }
+
+  /**
+   * Derive every enabled account of the unlocked seed for the current
+   * network and address type
+   */
+  async function _buildAccounts() {
     const networkStore = useNetworkStore()
 
     // Initialize multi-account state
     accounts.value = new Map()
     accountUtxos.value = new Map()
     _accountKeys.clear()
+    _accountXpubs.clear()
+    _scriptIndex.clear()
 
     // Derive keys for each enabled account
     for (const config of DEFAULT_ACCOUNTS) {
       if (!config.enabled) continue
 
       const accountState = await _deriveAccountKeys(
-        phrase,
         config.purpose,
         networkStore.currentNetwork,
       )
@@ -318,6 +670,15 @@ export const useWalletStore = defineStore('wallet', () => {
         utxos: new Map(),
         balance: { total: '0', spendable: '0', utxoCount: 0 },
       })
+
+      const keys = _accountKeys.get(config.purpose)
+      if (keys && accountState.primaryAddress) {
+        _scriptIndex.set(keys.script.toHex(), {
+          purpose: config.purpose,
+          address: accountState.primaryAddress,
+        })
+      }
+      _ensureAddressWindow(config.purpose)
     }
 
     // Update legacy compatibility fields from PRIMARY account
@@ -335,7 +696,6 @@ export const useWalletStore = defineStore('wallet', () => {
       _merkleRoot = primaryKeys.merkleRoot
     }
 
-    seedPhrase.value = phrase
     utxos.value = new Map()
     balance.value = { total: '0', spendable: '0', utxoCount: 0 }
   }
@@ -344,7 +704,6 @@ export const useWalletStore = defineStore('wallet', () => {
    * Derive keys for a specific account
    */
   async function _deriveAccountKeys(
-    phrase: string,
     accountPurpose: AccountPurpose,
     networkName: NetworkType,
   ): Promise<AccountState> {
@@ -356,19 +715,10 @@ export const useWalletStore = defineStore('wallet', () => {
       isChange,
       addressIndex,
     )
-    const {
-      HDPrivateKey,
-      PrivateKey,
-      PublicKey,
-      Mnemonic,
-      Script,
-      Address,
-      Networks,
-    } = $bitcore
+    const { HDPublicKey, PublicKey, Script, Address, Networks } = $bitcore
 
     if (USE_CRYPTO_WORKER) {
       const result = await $cryptoWorker.deriveKeys(
-        phrase,
         addressType.value,
         networkName,
         accountIndex,
@@ -378,7 +728,12 @@ export const useWalletStore = defineStore('wallet', () => {
 
       Networks.get(networkName)
 
-      const signingKey = new PrivateKey(result.privateKeyHex)
+      _accountXpubs.set(
+        accountPurpose,
+        markRaw(HDPublicKey.fromString(result.accountXpub)),
+      )
+
+      const publicKey = new PublicKey(result.publicKeyHex)
       let script: Bitcore.Script
       let internalPubKey: Bitcore.PublicKey | undefined
       let merkleRoot: Buffer | undefined
@@ -396,8 +751,9 @@ export const useWalletStore = defineStore('wallet', () => {
       }
 
       _accountKeys.set(accountPurpose, {
-        privateKey: markRaw(signingKey),
-        publicKey: markRaw(signingKey.publicKey),
+        // Private key stays in the crypto worker
+        privateKey: null,
+        publicKey: markRaw(publicKey),
         script: markRaw(script),
         internalPubKey: internalPubKey ? markRaw(internalPubKey) : undefined,
         merkleRoot,
@@ -417,7 +773,8 @@ export const useWalletStore = defineStore('wallet', () => {
         enabled: true,
         primaryAddress: derivedAddress,
         addresses: [derivedAddress],
-        lastUsedIndex: 0,
+        lastUsedIndex: -1,
+        lastUsedChangeIndex: -1,
       }
     } else {
       const network = Networks.get(networkName)
@@ -425,15 +782,16 @@ export const useWalletStore = defineStore('wallet', () => {
         throw new Error(`Unknown network: ${networkName}`)
       }
 
-      const mnemonic = new Mnemonic(phrase)
-      const hdPrivkey = HDPrivateKey.fromSeed(mnemonic.toSeed())
+      if (!_hdPrivkey) {
+        throw new Error('Wallet is locked')
+      }
       const change = isChange ? 1 : 0
-      const signingKey = hdPrivkey
+      const accountKey = _hdPrivkey
         .deriveChild(BIP44_PURPOSE, true)
         .deriveChild(BIP44_COINTYPE, true)
         .deriveChild(accountIndex, true)
-        .deriveChild(change)
-        .deriveChild(addressIndex).privateKey
+      const signingKey = accountKey.deriveChild(change).deriveChild(addressIndex)
+        .privateKey
 
       let addr: any
       let script: any
@@ -452,7 +810,7 @@ export const useWalletStore = defineStore('wallet', () => {
         script = Script.fromAddress(addr)
       }
 
-      _hdPrivkey = markRaw(hdPrivkey)
+      _accountXpubs.set(accountPurpose, markRaw(accountKey.hdPublicKey))
 
       _accountKeys.set(accountPurpose, {
         privateKey: markRaw(signingKey),
@@ -479,7 +837,8 @@ export const useWalletStore = defineStore('wallet', () => {
         enabled: true,
         primaryAddress: derivedAddress,
         addresses: [derivedAddress],
-        lastUsedIndex: 0,
+        lastUsedIndex: -1,
+        lastUsedChangeIndex: -1,
       }
     }
   }
@@ -488,7 +847,10 @@ export const useWalletStore = defineStore('wallet', () => {
    * Load wallet from saved state
    */
   async function loadWallet(
-    savedState: Partial<WalletState> & { seedPhrase: string },
+    savedState: Partial<WalletState> & {
+      seedPhrase: string
+      addressIndexes?: Record<number, AccountAddressIndexes>
+    },
   ) {
     loadingMessage.value = 'Loading wallet...'
 
@@ -498,6 +860,13 @@ export const useWalletStore = defineStore('wallet', () => {
 
     await buildWalletFromMnemonic(savedState.seedPhrase)
 
+    if (savedState.addressIndexes) {
+      _applyAddressIndexes(savedState.addressIndexes)
+    } else {
+      // Saved before address discovery existed
+      _needsDiscovery = true
+    }
+
     if (savedState.utxos) {
       utxos.value = new Map(Object.entries(savedState.utxos))
     }
@@ -513,16 +882,22 @@ export const useWalletStore = defineStore('wallet', () => {
   }
 
   /**
-   * Save wallet state to storage service
+   * Save wallet state to storage service.
+   * The seed is only ever persisted inside the encrypted vault; until a
+   * password has been set nothing is written.
    */
   async function saveWalletState() {
+    const vault = _sealedVault ?? _getStoredVault()
+    if (!vault) return
+
     const state = {
-      seedPhrase: seedPhrase.value,
+      vault,
       address: address.value,
       addressType: addressType.value,
       scriptPayload: scriptPayload.value,
       balance: balance.value,
       utxos: Object.fromEntries(utxos.value),
+      addressIndexes: _getAddressIndexes(),
       tipHeight: tipHeight.value,
       tipHash: tipHash.value,
     }
@@ -541,6 +916,9 @@ export const useWalletStore = defineStore('wallet', () => {
    */
   async function initializeChronik() {
     loadingMessage.value = 'Connecting to network...'
+    _loadWatchOnlyAccounts()
+    // Show cached history straight away, even if the network is unreachable
+    await _loadCachedHistory()
 
     const networkStore = useNetworkStore()
     const scriptTypeVal = getChronikAddressType()
@@ -559,6 +937,11 @@ export const useWalletStore = defineStore('wallet', () => {
       onBlock: (_height: number, hash: string) => handleBlockConnected(hash),
       onConfirmed: (txid: string) => handleConfirmed(txid),
       onRemovedFromMempool: (txid: string) => handleRemovedFromMempool(txid),
+      // Catch up on what the failed endpoint did not deliver
+      onFailover: () => {
+        refreshUtxos().catch(console.error)
+        syncTransactionHistory().catch(console.error)
+      },
     })
 
     const blockchainInfo = await $chronik.fetchBlockchainInfo()
@@ -567,11 +950,22 @@ export const useWalletStore = defineStore('wallet', () => {
       tipHash.value = blockchainInfo.tipHash
     }
 
+    if (_needsDiscovery) {
+      loadingMessage.value = 'Scanning addresses...'
+      await discoverAddresses()
+    }
+
     await refreshUtxos()
-    await fetchTransactionHistory()
+    await syncTransactionHistory()
+    await Promise.all(
+      activeWatchOnlyAccounts.value.map(account =>
+        fetchWatchOnlyHistory(account.id),
+      ),
+    )
     await $chronik.connectWebSocket()
     await subscribeToAllAccounts()
     initializeBackgroundMonitoring()
+    _recheckPendingTxs().catch(console.error)
 
     if (typeof document !== 'undefined') {
       document.addEventListener('visibilitychange', () => {
@@ -594,148 +988,444 @@ export const useWalletStore = defineStore('wallet', () => {
     const scriptTypeVal = getChronikAddressType()
     const subscriptions: ChronikSubscription[] = []
 
-    for (const [purpose, account] of accounts.value) {
-      if (account.primaryAddress) {
-        subscriptions.push({
-          scriptType: scriptTypeVal,
-          scriptPayload: account.primaryAddress.scriptPayload,
-          accountId: AccountPurpose[purpose],
-        })
-      }
+    for (const { purpose, address } of _scriptIndex.values()) {
+      subscriptions.push({
+        scriptType: scriptTypeVal,
+        scriptPayload: address.scriptPayload,
+        accountId: AccountPurpose[purpose],
+      })
+    }
+    for (const { accountId, address: watched } of _watchOnlyIndex.values()) {
+      subscriptions.push({
+        scriptType: watched.scriptType,
+        scriptPayload: watched.scriptPayload,
+        accountId: `WATCH_ONLY:${accountId}`,
+      })
     }
 
     if (subscriptions.length > 0) {
       await $chronik.subscribeToMultipleScripts(subscriptions)
       console.log(
-        `[Wallet] Subscribed to ${subscriptions.length} account addresses`,
+        `[Wallet] Subscribed to ${subscriptions.length} wallet addresses`,
       )
     }
   }
 
   /**
-   * Initialize background monitoring via service worker
+   * Derive an address on an account's external or change chain from its xpub
    */
-  function initializeBackgroundMonitoring() {
-    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
-      return
+  function _deriveAddress(
+    purpose: AccountPurpose,
+    isChange: boolean,
+    index: number,
+  ): { derived: DerivedAddress; scriptHex: string } {
+    const xpub = _accountXpubs.get(purpose)
+    if (!xpub) {
+      throw new Error('Account not initialized')
     }
-
     const networkStore = useNetworkStore()
+    const network = $bitcore.Networks.get(networkStore.currentNetwork)
+    if (!network) {
+      throw new Error(`Unknown network: ${networkStore.currentNetwork}`)
+    }
 
-    navigator.serviceWorker.ready.then(registration => {
-      if (!registration.active) return
-
-      const utxoIds = [...utxos.value.keys()]
-      registration.active.postMessage({
-        type: 'INIT_UTXO_CACHE',
-        payload: {
-          scriptPayload: scriptPayload.value,
-          utxoIds,
-        },
-      })
+    const { publicKey, address, script } = _deriveFromXpub(
+      xpub,
+      isChange,
+      index,
+      addressType.value,
+      network,
+    )
 
-      registration.active.postMessage({
-        type: 'START_MONITORING',
-        payload: {
-          chronikUrl: networkStore.config.chronikUrl,
-          pollingInterval: 60_000,
-          addresses: [address.value],
-          scriptType: getChronikAddressType(),
-          scriptPayload: scriptPayload.value,
-        },
-      })
-    })
+    return {
+      derived: {
+        index,
+        isChange,
+        path: buildDerivationPath(purpose, isChange, index),
+        address,
+        scriptPayload: script.getData().toString('hex'),
+        publicKeyHex: publicKey.toString(),
+      },
+      scriptHex: script.toHex(),
+    }
   }
 
   /**
-   * Sync state with service worker when tab becomes visible
+   * Derive the key, address and output script at a chain position of an
+   * account-level xpub
    */
-  function syncWithServiceWorker() {
-    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
-      return
+  function _deriveFromXpub(
+    xpub: Bitcore.HDPublicKey,
+    isChange: boolean,
+    index: number,
+    type: AddressType,
+    network: Bitcore.Network,
+  ): { publicKey: Bitcore.PublicKey; address: string; script: Bitcore.Script } {
+    const publicKey = xpub
+      .deriveChild(isChange ? 1 : 0)
+      .deriveChild(index).publicKey
+
+    let addr: Bitcore.Address
+    let script: Bitcore.Script
+    if (type === 'p2tr-commitment') {
+      const commitment = $bitcore.tweakPublicKey(
+        publicKey,
+        $bitcore.BufferUtil.alloc(32),
+      )
+      addr = $bitcore.Address.fromTaprootCommitment(commitment, network)
+      script = $bitcore.Script.buildTaprootOut(commitment)
+    } else {
+      addr = publicKey.toAddress(network)
+      script = $bitcore.Script.fromAddress(addr)
     }
 
-    navigator.serviceWorker.ready.then(registration => {
-      if (!registration.active) return
-
-      const utxoIds = [...utxos.value.keys()]
-      registration.active.postMessage({
-        type: 'INIT_UTXO_CACHE',
-        payload: {
-          scriptPayload: scriptPayload.value,
-          utxoIds,
-        },
-      })
-    })
+    return { publicKey, address: addr.toXAddress(network), script }
   }
 
   /**
-   * Notify service worker that tab is going to background
+   * Make sure every used address plus the next unused one on each chain is
+   * derived and indexed. Returns true if any new address was added.
    */
-  function notifyTabBackgrounded() {
-    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
-      return
-    }
+  function _ensureAddressWindow(purpose: AccountPurpose): boolean {
+    const config = DEFAULT_ACCOUNTS.find(c => c.purpose === purpose)
+    const account = accounts.value.get(purpose)
+    // Accounts without a gap limit only use their primary address
+    if (!config?.gapLimit || !account) return false
+
+    let added = false
+    for (const isChange of [false, true]) {
+      const lastUsed = isChange
+        ? account.lastUsedChangeIndex
+        : account.lastUsedIndex
+      for (let index = 0; index <= lastUsed + 1; index++) {
+        const exists = account.addresses.some(
+          a => a.isChange === isChange && a.index === index,
+        )
+        if (exists) continue
 
-    navigator.serviceWorker.ready.then(registration => {
-      if (!registration.active) return
-      registration.active.postMessage({ type: 'TAB_BACKGROUNDED' })
-    })
+        const { derived, scriptHex } = _deriveAddress(purpose, isChange, index)
+        account.addresses.push(derived)
+        _scriptIndex.set(scriptHex, { purpose, address: derived })
+        added = true
+      }
+    }
+    return added
   }
 
   /**
-   * Handle transaction detected by service worker background polling
+   * Record that an address has received funds, extending the window so a
+   * fresh address is available. Returns true if new addresses were derived.
    */
-  async function handleBackgroundTransaction(payload: {
-    txid: string
-    amount: string
-    isIncoming: boolean
-  }) {
-    await refreshUtxos()
+  function _markAddressUsed(
+    purpose: AccountPurpose,
+    derived: DerivedAddress,
+  ): boolean {
+    const account = accounts.value.get(purpose)
+    if (!account) return false
 
-    if (shouldNotify(payload.txid)) {
-      const notificationStore = useNotificationStore()
-      notificationStore.addTransactionNotification(
-        payload.txid,
-        toXPI(payload.amount),
-        !payload.isIncoming,
-      )
+    if (derived.isChange) {
+      if (derived.index <= account.lastUsedChangeIndex) return false
+      account.lastUsedChangeIndex = derived.index
+    } else {
+      if (derived.index <= account.lastUsedIndex) return false
+      account.lastUsedIndex = derived.index
     }
+    return _ensureAddressWindow(purpose)
   }
 
   /**
-   * Notify SW of pending transaction (increases polling frequency)
+   * Look up the PRIMARY account address owning an output script
    */
-  function notifyPendingTransaction(hasPending: boolean) {
-    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
-      return
-    }
-
-    navigator.serviceWorker.ready.then(registration => {
-      if (!registration.active) return
-      registration.active.postMessage({
-        type: 'SET_PENDING_TRANSACTIONS',
-        payload: { hasPending },
-      })
-    })
+  function _getPrimaryOwner(
+    scriptHex: string | undefined,
+  ): { purpose: AccountPurpose; address: DerivedAddress } | undefined {
+    if (!scriptHex) return undefined
+    const owner = _scriptIndex.get(scriptHex)
+    return owner?.purpose === AccountPurpose.PRIMARY ? owner : undefined
   }
 
   /**
-   * Handle transaction added to mempool
+   * All derived addresses of the PRIMARY account
    */
-  async function handleAddedToMempool(txid: string) {
-    if (!$chronik.isInitialized() || !_script) return
+  function _getPrimaryAddresses(): DerivedAddress[] {
+    return [..._scriptIndex.values()]
+      .filter(owner => owner.purpose === AccountPurpose.PRIMARY)
+      .map(owner => owner.address)
+  }
+
+  /**
+   * Sort key for transactions: block time, or first-seen time if unconfirmed
+   */
+  function _txTime(tx: ChronikTx): number {
+    return Number(tx.block?.timestamp ?? tx.timeFirstSeen ?? 0)
+  }
+
+  /**
+   * Scan one chain in batches until `gapLimit` consecutive addresses
+   * without history are found. Returns the last used index, or -1.
+   *
+   * @param payloadAt - Script payload of the chain's address at an index
+   */
+  async function _scanChain(
+    scriptType: AddressType,
+    gapLimit: number,
+    payloadAt: (index: number) => string,
+  ): Promise<number> {
+    let lastUsed = -1
+    let start = 0
+
+    while (start <= lastUsed + gapLimit) {
+      const batch = Array.from({ length: gapLimit }, (_, i) =>
+        payloadAt(start + i),
+      )
+      const used = await Promise.all(
+        batch.map(async payload => {
+          const { txs } = await $chronik.fetchHistoryForScript(
+            scriptType,
+            payload,
+            0,
+            1,
+          )
+          return txs.length > 0
+        }),
+      )
+      used.forEach((isUsed, i) => {
+        if (isUsed) lastUsed = start + i
+      })
+      start += gapLimit
+    }
+
+    return lastUsed
+  }
+
+  /**
+   * BIP44 address discovery: scan the external and change chains of every
+   * account with a gap limit and derive all addresses up to the last used one
+   */
+  async function discoverAddresses(): Promise<void> {
+    for (const config of DEFAULT_ACCOUNTS) {
+      if (!config.enabled || !config.gapLimit) continue
+      const account = accounts.value.get(config.purpose)
+      if (!account) continue
+
+      const scriptType = getChronikAddressType()
+      account.lastUsedIndex = await _scanChain(
+        scriptType,
+        config.gapLimit,
+        index =>
+          _deriveAddress(config.purpose, false, index).derived.scriptPayload,
+      )
+      account.lastUsedChangeIndex = await _scanChain(
+        scriptType,
+        config.gapLimit,
+        index =>
+          _deriveAddress(config.purpose, true, index).derived.scriptPayload,
+      )
+      _ensureAddressWindow(config.purpose)
+
+      console.log(
+        `[Wallet] Discovered ${account.addresses.length} addresses for ${
+          AccountPurpose[config.purpose]
+        }`,
+      )
+    }
+
+    _needsDiscovery = false
+    await saveWalletState()
+  }
+
+  /**
+   * Persistable snapshot of address usage per account
+   */
+  function _getAddressIndexes(): Record<number, AccountAddressIndexes> {
+    const indexes: Record<number, AccountAddressIndexes> = {}
+    for (const [purpose, account] of accounts.value) {
+      indexes[purpose] = {
+        external: account.lastUsedIndex,
+        change: account.lastUsedChangeIndex,
+      }
+    }
+    return indexes
+  }
+
+  /**
+   * Restore address usage saved by _getAddressIndexes()
+   */
+  function _applyAddressIndexes(
+    indexes: Record<number, AccountAddressIndexes>,
+  ) {
+    for (const [purpose, account] of accounts.value) {
+      const saved = indexes[purpose]
+      if (!saved) continue
+      account.lastUsedIndex = saved.external
+      account.lastUsedChangeIndex = saved.change
+      _ensureAddressWindow(purpose)
+    }
+  }
+
+  /**
+   * Get the first unused receiving address for an account.
+   * Accounts without a gap limit always receive on their primary address.
+   */
+  function getReceiveAddress(
+    purpose: AccountPurpose = AccountPurpose.PRIMARY,
+  ): string | null {
+    const account = accounts.value.get(purpose)
+    if (!account) return null
+    const next = account.addresses.find(
+      a => !a.isChange && a.index === account.lastUsedIndex + 1,
+    )
+    return next?.address ?? account.primaryAddress?.address ?? null
+  }
+
+  /**
+   * Get the first unused change address (internal chain) for an account
+   */
+  function getChangeAddress(
+    purpose: AccountPurpose = AccountPurpose.PRIMARY,
+  ): string | null {
+    const account = accounts.value.get(purpose)
+    if (!account) return null
+    const next = account.addresses.find(
+      a => a.isChange && a.index === account.lastUsedChangeIndex + 1,
+    )
+    return next?.address ?? account.primaryAddress?.address ?? null
+  }
+
+  /**
+   * Initialize background monitoring via service worker
+   */
+  function initializeBackgroundMonitoring() {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+      return
+    }
+
+    const networkStore = useNetworkStore()
+
+    navigator.serviceWorker.ready.then(registration => {
+      if (!registration.active) return
+
+      const utxoIds = [...utxos.value.keys()]
+      registration.active.postMessage({
+        type: 'INIT_UTXO_CACHE',
+        payload: {
+          scriptPayload: scriptPayload.value,
+          utxoIds,
+          chronikUrl: networkStore.config.chronikUrl,
+        },
+      })
+
+      registration.active.postMessage({
+        type: 'START_MONITORING',
+        payload: {
+          chronikUrl: networkStore.config.chronikUrl,
+          pollingInterval: 60_000,
+          addresses: [address.value],
+          scriptType: getChronikAddressType(),
+          scriptPayload: scriptPayload.value,
+        },
+      })
+    })
+  }
+
+  /**
+   * Sync state with service worker when tab becomes visible
+   */
+  function syncWithServiceWorker() {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+      return
+    }
+
+    const networkStore = useNetworkStore()
+
+    navigator.serviceWorker.ready.then(registration => {
+      if (!registration.active) return
+
+      const utxoIds = [...utxos.value.keys()]
+      registration.active.postMessage({
+        type: 'INIT_UTXO_CACHE',
+        payload: {
+          scriptPayload: scriptPayload.value,
+          utxoIds,
+          chronikUrl: networkStore.config.chronikUrl,
+        },
+      })
+    })
+  }
+
+  /**
+   * Notify service worker that tab is going to background.
+   * Also locks the wallet when the user has enabled lock-on-background.
+   */
+  function notifyTabBackgrounded() {
+    const settingsStore = useSettingsStore()
+    if (settingsStore.lockOnBackground) {
+      lock()
+    }
+
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+      return
+    }
+
+    navigator.serviceWorker.ready.then(registration => {
+      if (!registration.active) return
+      registration.active.postMessage({ type: 'TAB_BACKGROUNDED' })
+    })
+  }
+
+  /**
+   * Handle transaction detected by service worker background polling
+   */
+  async function handleBackgroundTransaction(payload: {
+    txid: string
+    amount: string
+    isIncoming: boolean
+  }) {
+    await refreshUtxos()
+
+    if (shouldNotify(payload.txid)) {
+      const notificationStore = useNotificationStore()
+      notificationStore.addTransactionNotification(
+        payload.txid,
+        toXPI(payload.amount),
+        !payload.isIncoming,
+      )
+    }
+  }
+
+  /**
+   * Notify SW of pending transaction (increases polling frequency)
+   */
+  function notifyPendingTransaction(hasPending: boolean) {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+      return
+    }
+
+    navigator.serviceWorker.ready.then(registration => {
+      if (!registration.active) return
+      registration.active.postMessage({
+        type: 'SET_PENDING_TRANSACTIONS',
+        payload: { hasPending },
+      })
+    })
+  }
+
+  /**
+   * Handle transaction added to mempool
+   */
+  async function handleAddedToMempool(txid: string) {
+    if (!$chronik.isInitialized() || _scriptIndex.size === 0) return
 
     const tx = await $chronik.fetchTransaction(txid)
     if (!tx) return
 
-    const scriptHex = _script.toHex()
     let changed = false
+    let addressesExtended = false
     let inputAmount = 0n
     let outputAmount = 0n
 
     for (const input of tx.inputs) {
-      if (input.outputScript === scriptHex) {
+      if (_getPrimaryOwner(input.outputScript)) {
         const outpoint = `${input.prevOut.txid}_${input.prevOut.outIdx}`
         if (utxos.value.has(outpoint)) {
           inputAmount += BigInt(input.value || '0')
@@ -747,7 +1437,11 @@ export const useWalletStore = defineStore('wallet', () => {
 
     for (let i = 0; i < tx.outputs.length; i++) {
       const output = tx.outputs[i]
-      if (output.outputScript === scriptHex) {
+      const owner = _getPrimaryOwner(output.outputScript)
+      if (owner) {
+        if (_markAddressUsed(owner.purpose, owner.address)) {
+          addressesExtended = true
+        }
         const outpoint = `${txid}_${i}`
         if (!utxos.value.has(outpoint)) {
           outputAmount += BigInt(output.value || '0')
@@ -755,17 +1449,44 @@ export const useWalletStore = defineStore('wallet', () => {
             value: output.value,
             blockHeight: -1,
             isCoinbase: tx.isCoinbase,
+            path: owner.address.path,
           })
           changed = true
         }
       }
     }
 
+    // A fee the wallet chose would only echo back into its own estimates
+    if (!tx.inputs.some(input => _getPrimaryOwner(input.outputScript))) {
+      useFeeStore().recordMempoolTx(tx)
+    }
+    const doubleSpent = usePendingTxStore().checkSpends(tx)
+
+    const watchOnly = _applyWatchOnlyTx(tx)
+    if (watchOnly.addressesExtended) {
+      addressesExtended = true
+      _saveWatchOnlyAccounts()
+    }
+    for (const accountId of watchOnly.touched) {
+      _recalculateWatchOnlyBalance(accountId)
+      fetchWatchOnlyHistory(accountId).catch(console.error)
+    }
+
+    if (addressesExtended) {
+      await subscribeToAllAccounts()
+    }
+
+    if (doubleSpent) {
+      // The conflicted transaction's change is gone with it
+      await refreshUtxos()
+    }
+
     if (changed) {
       recalculateBalance()
       await saveWalletState()
+      await _cacheHistoryTx(tx)
 
-      if (shouldNotify(txid)) {
+      if (shouldNotify(txid) && !doubleSpent) {
         const notificationStore = useNotificationStore()
         const isSend = inputAmount > outputAmount
         const netAmount = isSend
@@ -785,6 +1506,7 @@ export const useWalletStore = defineStore('wallet', () => {
    * Handle transaction removed from mempool
    */
   async function handleRemovedFromMempool(txid: string) {
+    useFeeStore().forgetMempoolTx(txid)
     let changed = false
     for (const [outpoint] of utxos.value) {
       if (outpoint.startsWith(txid)) {
@@ -792,21 +1514,41 @@ export const useWalletStore = defineStore('wallet', () => {
         changed = true
       }
     }
+    for (const [accountId, state] of watchOnlyUtxos.value) {
+      let accountChanged = false
+      for (const [outpoint] of state.utxos) {
+        if (outpoint.startsWith(txid)) {
+          state.utxos.delete(outpoint)
+          accountChanged = true
+        }
+      }
+      if (accountChanged) _recalculateWatchOnlyBalance(accountId)
+    }
     if (changed) {
       recalculateBalance()
       await saveWalletState()
     }
+
+    // One of ours that could not be rebroadcast no longer spends its coins
+    if (await usePendingTxStore().recheck(txid)) {
+      await refreshUtxos()
+    }
   }
 
   /**
    * Handle transaction confirmed
    */
   async function handleConfirmed(txid: string) {
+    useFeeStore().forgetMempoolTx(txid)
     if (!$chronik.isInitialized()) return
 
     const tx = await $chronik.fetchTransaction(txid)
     if (!tx) return
 
+    if (usePendingTxStore().checkSpends(tx)) {
+      await refreshUtxos()
+    }
+
     let changed = false
 
     for (const [outpoint, utxo] of utxos.value) {
@@ -815,6 +1557,20 @@ export const useWalletStore = defineStore('wallet', () => {
         changed = true
       }
     }
+    for (const [accountId, state] of watchOnlyUtxos.value) {
+      let accountChanged = false
+      for (const [outpoint, utxo] of state.utxos) {
+        if (outpoint.startsWith(txid)) {
+          utxo.blockHeight = tx.block?.height ?? -1
+          accountChanged = true
+        }
+      }
+      if (accountChanged) _recalculateWatchOnlyBalance(accountId)
+    }
+
+    if (_isOwnTx(tx)) {
+      await _cacheHistoryTx(tx)
+    }
 
     if (changed) {
       recalculateBalance()
@@ -834,254 +1590,1099 @@ export const useWalletStore = defineStore('wallet', () => {
     tipHeight.value = block.blockInfo.height
     tipHash.value = blockHash
 
+    recalculateBalance()
+    // Coinbase outputs may have matured
+    for (const accountId of watchOnlyUtxos.value.keys()) {
+      _recalculateWatchOnlyBalance(accountId)
+    }
+    await saveWalletState()
+    syncTransactionHistory().catch(console.error)
+    _recheckPendingTxs().catch(console.error)
+  }
+
+  /**
+   * Rebroadcast our transactions that left the mempool, reloading UTXOs if
+   * any of them failed
+   */
+  async function _recheckPendingTxs() {
+    if (await usePendingTxStore().recheckAll()) {
+      await refreshUtxos()
+    }
+  }
+
+  /**
+   * Refresh UTXOs from Chronik service
+   */
+  async function refreshUtxos() {
+    if (!$chronik.isInitialized()) return
+
+    const scriptType = getChronikAddressType()
+    const results = await Promise.all(
+      _getPrimaryAddresses().map(async derived => {
+        try {
+          const fetched = await $chronik.fetchUtxosForScript(
+            scriptType,
+            derived.scriptPayload,
+          )
+          return { derived, fetched }
+        } catch {
+          console.warn(`[Wallet] Failed to fetch UTXOs for ${derived.path}`)
+          return { derived, fetched: [] }
+        }
+      }),
+    )
+
+    utxos.value.clear()
+    let addressesExtended = false
+
+    for (const { derived, fetched } of results) {
+      if (
+        fetched.length > 0 &&
+        _markAddressUsed(AccountPurpose.PRIMARY, derived)
+      ) {
+        addressesExtended = true
+      }
+      for (const utxo of fetched) {
+        const outpoint = `${utxo.outpoint.txid}_${utxo.outpoint.outIdx}`
+        utxos.value.set(outpoint, {
+          value: utxo.value,
+          blockHeight: utxo.blockHeight,
+          isCoinbase: utxo.isCoinbase,
+          path: derived.path,
+        })
+      }
+    }
+
     recalculateBalance()
     await saveWalletState()
+
+    if (addressesExtended && $chronik.isConnected()) {
+      await subscribeToAllAccounts()
+    }
+    await refreshWatchOnlyUtxos()
+  }
+
+  // =========================================================================
+  // Transaction History
+  // =========================================================================
+
+  /**
+   * Cache scope of the wallet's history: the network and primary address
+   */
+  function _historyScope(): string {
+    const networkStore = useNetworkStore()
+    return `${networkStore.currentNetwork}:${address.value}`
+  }
+
+  function _toStoredTransaction(
+    item: TransactionHistoryItem,
+  ): StoredTransaction {
+    const scope = _historyScope()
+    return {
+      ...item,
+      id: `${scope}_${item.txid}`,
+      scope,
+      time: Number(item.timestamp),
+    }
+  }
+
+  function _fromStoredTransaction(
+    record: StoredTransaction,
+  ): TransactionHistoryItem {
+    return {
+      txid: record.txid,
+      timestamp: record.timestamp,
+      blockHeight: record.blockHeight,
+      isSend: record.isSend,
+      amount: record.amount,
+      address: record.address,
+      // Cached confirmation counts go stale as blocks arrive
+      confirmations:
+        record.blockHeight > 0
+          ? Math.max(1, tipHeight.value - record.blockHeight + 1)
+          : 0,
+      kind: record.kind,
+      fee: record.fee,
+      counterparties: record.counterparties,
+      counterpartyAmounts: record.counterpartyAmounts,
+      burned: record.burned,
+      burnProtocol: record.burnProtocol,
+      burnTarget: record.burnTarget,
+      accounts: record.accounts,
+    }
+  }
+
+  /**
+   * Whether a transaction spends or pays an address of any wallet account
+   */
+  function _isOwnTx(tx: ChronikTx): boolean {
+    return (
+      tx.inputs.some(input => _scriptIndex.has(input.outputScript ?? '')) ||
+      tx.outputs.some(output => _scriptIndex.has(output.outputScript))
+    )
+  }
+
+  /**
+   * Replace the loaded history with the newest `count` cached entries
+   */
+  async function _loadCachedHistory(count: number = HISTORY_PAGE_SIZE) {
+    if (!isIndexedDBAvailable() || !address.value) return
+
+    const records = await getTransactionPageFromDB(_historyScope(), 0, count)
+    transactionHistory.value = records.map(_fromStoredTransaction)
+    hasMoreHistory.value = records.length === count
+  }
+
+  /**
+   * Load the next page of older history from the local cache. Works offline.
+   */
+  async function loadMoreHistory() {
+    if (historyLoading.value || !hasMoreHistory.value) return
+
+    historyLoading.value = true
+    try {
+      const records = await getTransactionPageFromDB(
+        _historyScope(),
+        transactionHistory.value.length,
+        HISTORY_PAGE_SIZE,
+      )
+      const loaded = new Set(transactionHistory.value.map(tx => tx.txid))
+      transactionHistory.value.push(
+        ...records
+          .filter(record => !loaded.has(record.txid))
+          .map(_fromStoredTransaction),
+      )
+      hasMoreHistory.value = records.length === HISTORY_PAGE_SIZE
+    } finally {
+      historyLoading.value = false
+    }
+  }
+
+  /**
+   * All cached history between two times (in seconds), newest first. Falls
+   * back to the loaded history when there is no cache.
+   */
+  async function getHistoryRange(
+    fromTime: number = -Infinity,
+    toTime: number = Infinity,
+  ): Promise<TransactionHistoryItem[]> {
+    if (!isIndexedDBAvailable()) {
+      return transactionHistory.value.filter(tx => {
+        const time = Number(tx.timestamp)
+        return time >= fromTime && time <= toTime
+      })
+    }
+    const records = await getTransactionRangeFromDB(
+      _historyScope(),
+      fromTime,
+      toTime,
+    )
+    return records.map(_fromStoredTransaction)
+  }
+
+  /**
+   * Add or update a transaction in the loaded history and the cache
+   */
+  async function addHistoryItem(item: TransactionHistoryItem) {
+    const index = transactionHistory.value.findIndex(
+      tx => tx.txid === item.txid,
+    )
+    if (index >= 0) {
+      transactionHistory.value[index] = item
+    } else {
+      transactionHistory.value.unshift(item)
+    }
+    if (isIndexedDBAvailable()) {
+      await putTransactionsInDB([_toStoredTransaction(item)])
+    }
+  }
+
+  async function _cacheHistoryTx(tx: ChronikTx) {
+    await addHistoryItem(
+      _toHistoryItem(tx, _getScriptAccount),
+    )
+  }
+
+  let _historySync: Promise<void> | null = null
+
+  /**
+   * Fetch the wallet's transactions from Chronik into the local cache,
+   * stopping at the block height reached by the previous sync. The first
+   * sync fetches the full history.
+   */
+  function syncTransactionHistory(): Promise<void> {
+    if (!$chronik.isInitialized() || _scriptIndex.size === 0) {
+      return Promise.resolve()
+    }
+    // Concurrent callers share the sync in progress
+    if (!_historySync) {
+      _historySync = _syncTransactionHistory().finally(() => {
+        _historySync = null
+      })
+    }
+    return _historySync
+  }
+
+  async function _syncTransactionHistory() {
+    const scope = _historyScope()
+    const syncState = getItem<Record<string, number>>(
+      STORAGE_KEYS.HISTORY_SYNC,
+      {},
+    )
+    const syncedHeight = isIndexedDBAvailable() ? syncState[scope] : undefined
+    const startTip = tipHeight.value
+    const scriptType = getChronikAddressType()
+
+    historyLoading.value = true
+    try {
+      // Every account's addresses, so transfers between them are listed too
+      const owned = [..._scriptIndex.values()].map(owner => owner.address)
+      const pages = await Promise.all(
+        owned.map(async derived => {
+          const txs: ChronikTx[] = []
+          // Pages run newest first, unconfirmed transactions at the top
+          for (let page = 0; ; page++) {
+            const result = await $chronik.fetchHistoryForScript(
+              scriptType,
+              derived.scriptPayload,
+              page,
+              HISTORY_SYNC_PAGE_SIZE,
+            )
+            const fresh = result.txs.filter(
+              tx =>
+                syncedHeight === undefined ||
+                !tx.block ||
+                tx.block.height > syncedHeight,
+            )
+            txs.push(...fresh)
+            const reachedSynced = fresh.length < result.txs.length
+            if (reachedSynced || page + 1 >= result.numPages) {
+              return { txs }
+            }
+          }
+        }),
+      )
+
+      const items = _mergeHistoryPages(pages, Infinity).map(tx =>
+        _toHistoryItem(tx, _getScriptAccount),
+      )
+
+      if (!isIndexedDBAvailable()) {
+        // No cache: keep the newest entries in memory only
+        transactionHistory.value = items.slice(0, MAX_HISTORY_DISPLAY)
+        hasMoreHistory.value = false
+        return
+      }
+
+      await putTransactionsInDB(items.map(_toStoredTransaction))
+      if (startTip > 0) {
+        setItem(STORAGE_KEYS.HISTORY_SYNC, { ...syncState, [scope]: startTip })
+      }
+      await _loadCachedHistory(
+        Math.max(transactionHistory.value.length, HISTORY_PAGE_SIZE),
+      )
+    } finally {
+      historyLoading.value = false
+    }
+  }
+
+  /**
+   * Merge history pages of several addresses into one page, newest first
+   */
+  function _mergeHistoryPages(
+    pages: { txs: ChronikTx[] }[],
+    pageSize: number,
+  ): ChronikTx[] {
+    // A transaction touching several tracked addresses appears in each page
+    const txsById = new Map<string, ChronikTx>()
+    for (const { txs } of pages) {
+      for (const tx of txs) {
+        txsById.set(tx.txid, tx)
+      }
+    }
+    return [...txsById.values()]
+      .sort((a, b) => _txTime(b) - _txTime(a))
+      .slice(0, pageSize)
+  }
+
+  /**
+   * Account of any wallet address owning a script, across all accounts
+   */
+  function _getScriptAccount(scriptHex: string): AccountPurpose | undefined {
+    return _scriptIndex.get(scriptHex)?.purpose
+  }
+
+  /**
+   * Describe a transaction from the point of view of the scripts `ownerOf`
+   * assigns to an account
+   */
+  function _toHistoryItem(
+    tx: ChronikTx,
+    ownerOf: TxOwnerLookup,
+  ): TransactionHistoryItem {
+    const networkStore = useNetworkStore()
+    const classification = classifyTransaction(
+      tx,
+      ownerOf,
+      networkStore.currentNetwork,
+    )
+    const { netFlow, counterparties } = classification
+    const burned = totalBurned(classification)
+    const protocolBurn = classification.burns.find(b => b.protocol)
+
+    const blockHeight = tx.block?.height ?? -1
+    const confirmations =
+      blockHeight > 0 ? tipHeight.value - blockHeight + 1 : 0
+
+    return {
+      txid: tx.txid,
+      timestamp:
+        tx.block?.timestamp ??
+        tx.timeFirstSeen ??
+        (Date.now() / 1000).toString(),
+      blockHeight,
+      isSend: netFlow < 0n,
+      amount: (netFlow < 0n ? -netFlow : netFlow).toString(),
+      address: counterparties.find(c => c.address)?.address ?? '',
+      confirmations,
+      kind: classification.kind,
+      fee: classification.feePaidByWallet
+        ? classification.fee.toString()
+        : undefined,
+      counterparties: counterparties
+        .map(c => c.address)
+        .filter((addr): addr is string => !!addr),
+      counterpartyAmounts: Object.fromEntries(
+        counterparties.flatMap(c =>
+          c.address ? [[c.address, c.amount.toString()] as const] : [],
+        ),
+      ),
+      burned: burned > 0n ? burned.toString() : undefined,
+      burnProtocol: protocolBurn?.protocol ?? undefined,
+      burnTarget: protocolBurn?.target,
+      accounts: [...classification.accountFlows.keys()],
+    }
+  }
+
+  /**
+   * Classify a transaction against every address of every wallet account
+   */
+  function classifyWalletTransaction(tx: ClassifiableTx): TxClassification {
+    const networkStore = useNetworkStore()
+    return classifyTransaction(
+      tx,
+      _getScriptAccount,
+      networkStore.currentNetwork,
+    )
+  }
+
+  /**
+   * Total and spendable (excluding immature coinbase) value of a UTXO set
+   */
+  function _computeBalance(utxoSet: Map<string, UtxoData>): WalletBalance {
+    let total = 0n
+    let spendable = 0n
+
+    for (const [, utxo] of utxoSet) {
+      const value = BigInt(utxo.value)
+      total += value
+
+      if (utxo.isCoinbase) {
+        const confirmations =
+          utxo.blockHeight > 0 ? tipHeight.value - utxo.blockHeight + 1 : 0
+        if (confirmations >= 100) {
+          spendable += value
+        }
+      } else {
+        spendable += value
+      }
+    }
+
+    return {
+      total: total.toString(),
+      spendable: spendable.toString(),
+      utxoCount: utxoSet.size,
+    }
+  }
+
+  /**
+   * Recalculate balance from UTXOs
+   */
+  function recalculateBalance() {
+    balance.value = _computeBalance(utxos.value)
+  }
+
+  /**
+   * Sign a message with the primary account key
+   */
+  async function signMessage(text: string): Promise<string> {
+    if (USE_CRYPTO_WORKER) {
+      return await $cryptoWorker.signMessageWithKey(text, getKeyHandle())
+    }
+    if (!_signingKey) {
+      throw new Error('Wallet not initialized')
+    }
+    const message = new $bitcore.Message(text)
+    return message.sign(_signingKey)
+  }
+
+  /**
+   * Verify a signed message
+   */
+  function verifyMessage(
+    text: string,
+    addr: string,
+    signature: string,
+  ): boolean {
+    const message = new $bitcore.Message(text)
+    return message.verify(addr, signature)
+  }
+
+  /**
+   * Get a handle to an account key held by the crypto worker.
+   * Defaults to the account's primary address key.
+   */
+  function getKeyHandle(
+    accountPurpose: AccountPurpose = AccountPurpose.PRIMARY,
+    path?: string,
+  ): KeyHandle {
+    const keyPath =
+      path ?? accounts.value.get(accountPurpose)?.primaryAddress?.path
+    if (!keyPath) {
+      throw new Error('Account not initialized')
+    }
+    return { account: accountPurpose, path: keyPath }
+  }
+
+  /**
+   * Get the public key (hex encoded) for a specific account
+   */
+  function getPublicKeyHex(
+    accountPurpose: AccountPurpose = AccountPurpose.PRIMARY,
+  ): string | null {
+    const keyData = _accountKeys.get(accountPurpose)
+    if (keyData?.publicKey) return keyData.publicKey.toString()
+    // Keys are wiped while locked; the public key is kept in account state
+    const account = accounts.value.get(accountPurpose)
+    return account?.primaryAddress?.publicKeyHex ?? null
+  }
+
+  /**
+   * Get the address for a specific account
+   */
+  function getAccountAddress(
+    purpose: AccountPurpose = AccountPurpose.PRIMARY,
+  ): string | null {
+    const account = accounts.value.get(purpose)
+    return account?.primaryAddress?.address ?? null
+  }
+
+  /**
+   * Get the script payload for a specific account
+   */
+  function getAccountScriptPayload(
+    purpose: AccountPurpose = AccountPurpose.PRIMARY,
+  ): string | null {
+    const account = accounts.value.get(purpose)
+    return account?.primaryAddress?.scriptPayload ?? null
+  }
+
+  /**
+   * Get the account state for a specific purpose
+   */
+  function getAccount(purpose: AccountPurpose): AccountState | undefined {
+    return accounts.value.get(purpose)
+  }
+
+  /**
+   * Get the runtime key data for a specific account
+   */
+  function getAccountKeyData(
+    purpose: AccountPurpose,
+  ): RuntimeKeyData | undefined {
+    return _accountKeys.get(purpose)
+  }
+
+  /**
+   * Get the balance for a specific account
+   */
+  function getAccountBalance(
+    purpose: AccountPurpose = AccountPurpose.PRIMARY,
+  ): WalletBalance {
+    const utxoState = accountUtxos.value.get(purpose)
+    return utxoState?.balance ?? { total: '0', spendable: '0', utxoCount: 0 }
+  }
+
+  /**
+   * Get the total balance across all accounts
+   */
+  function getTotalBalance(): WalletBalance {
+    let total = 0n
+    let spendable = 0n
+
+    for (const utxoState of accountUtxos.value.values()) {
+      total += BigInt(utxoState.balance.total)
+      spendable += BigInt(utxoState.balance.spendable)
+    }
+
+    return {
+      total: total.toString(),
+      spendable: spendable.toString(),
+      utxoCount: accountUtxos.value
+        .values()
+        .reduce((count, utxoState) => count + utxoState.utxos.size, 0),
+    }
+  }
+
+  // =========================================================================
+  // Watch-only Accounts
+  // =========================================================================
+
+  /**
+   * Restore watch-only accounts from storage and index the ones on the
+   * current network
+   */
+  function _loadWatchOnlyAccounts() {
+    watchOnlyAccounts.value = getItem<WatchOnlyAccount[]>(
+      STORAGE_KEYS.WATCH_ONLY_ACCOUNTS,
+      [],
+    )
+    _watchOnlyXpubs.clear()
+    _watchOnlyIndex.clear()
+    watchOnlyUtxos.value = new Map()
+    watchOnlyHistory.value = new Map()
+
+    for (const account of activeWatchOnlyAccounts.value) {
+      try {
+        _indexWatchOnlyAccount(account)
+      } catch (err) {
+        console.warn(`[Wallet] Skipping watch-only account ${account.id}:`, err)
+      }
+    }
+  }
+
+  function _saveWatchOnlyAccounts() {
+    setItem(STORAGE_KEYS.WATCH_ONLY_ACCOUNTS, watchOnlyAccounts.value)
+  }
+
+  /**
+   * Start tracking a watch-only account's addresses
+   */
+  function _indexWatchOnlyAccount(account: WatchOnlyAccount) {
+    if (account.source === 'xpub' && account.xpub) {
+      _watchOnlyXpubs.set(
+        account.id,
+        markRaw($bitcore.HDPublicKey.fromString(account.xpub)),
+      )
+    }
+    for (const watched of account.addresses) {
+      const { scriptHex } = _watchAddress(watched.address, account.network)
+      _watchOnlyIndex.set(scriptHex, {
+        accountId: account.id,
+        address: watched,
+      })
+    }
+    _ensureWatchOnlyWindow(account)
+    if (!watchOnlyUtxos.value.has(account.id)) {
+      watchOnlyUtxos.value.set(account.id, {
+        utxos: new Map(),
+        balance: { total: '0', spendable: '0', utxoCount: 0 },
+      })
+    }
+  }
+
+  /**
+   * Describe a plain address for watching.
+   * Throws if it is invalid for the network or not a P2PKH/P2TR address.
+   */
+  function _watchAddress(
+    addressString: string,
+    networkName: NetworkType,
+  ): { watched: WatchOnlyAddress; scriptHex: string } {
+    if (!$bitcore.Address.isValid(addressString, networkName)) {
+      throw new Error(`Invalid address: ${addressString}`)
+    }
+    const addr = $bitcore.Address.fromString(addressString, networkName)
+    let scriptType: AddressType
+    if (addr.isPayToTaproot()) {
+      scriptType = 'p2tr-commitment'
+    } else if (addr.isPayToPublicKeyHash()) {
+      scriptType = 'p2pkh'
+    } else {
+      throw new Error(`Unsupported address type: ${addressString}`)
+    }
+
+    const script = $bitcore.Script.fromAddress(addr)
+    return {
+      watched: {
+        address: addr.toXAddress(networkName),
+        scriptPayload: script.getData().toString('hex'),
+        scriptType,
+      },
+      scriptHex: script.toHex(),
+    }
+  }
+
+  /**
+   * Derive an address of a watch-only xpub account
+   */
+  function _deriveWatchOnlyAddress(
+    account: WatchOnlyAccount,
+    isChange: boolean,
+    index: number,
+  ): { watched: WatchOnlyAddress; scriptHex: string } {
+    const xpub = _watchOnlyXpubs.get(account.id)
+    const network = $bitcore.Networks.get(account.network)
+    if (!xpub || !network) {
+      throw new Error('Watch-only account not initialized')
+    }
+    const scriptType = account.addressType ?? 'p2tr-commitment'
+    const { address, script } = _deriveFromXpub(
+      xpub,
+      isChange,
+      index,
+      scriptType,
+      network,
+    )
+    return {
+      watched: {
+        address,
+        scriptPayload: script.getData().toString('hex'),
+        scriptType,
+        isChange,
+        index,
+      },
+      scriptHex: script.toHex(),
+    }
+  }
+
+  /**
+   * Watch-only counterpart of _ensureAddressWindow() for xpub accounts
+   */
+  function _ensureWatchOnlyWindow(account: WatchOnlyAccount): boolean {
+    if (account.source !== 'xpub') return false
+
+    let added = false
+    for (const isChange of [false, true]) {
+      const lastUsed = isChange
+        ? account.lastUsedChangeIndex
+        : account.lastUsedIndex
+      for (let index = 0; index <= lastUsed + 1; index++) {
+        const exists = account.addresses.some(
+          a => a.isChange === isChange && a.index === index,
+        )
+        if (exists) continue
+
+        const { watched, scriptHex } = _deriveWatchOnlyAddress(
+          account,
+          isChange,
+          index,
+        )
+        account.addresses.push(watched)
+        _watchOnlyIndex.set(scriptHex, {
+          accountId: account.id,
+          address: watched,
+        })
+        added = true
+      }
+    }
+    return added
+  }
+
+  /**
+   * Path an offline signer derives a watched xpub address from. The xpub is
+   * taken to be the signer's primary account, the only one it signs for.
+   */
+  function _watchOnlySigningPath(
+    watched: WatchOnlyAddress,
+  ): string | undefined {
+    if (watched.index === undefined) return undefined
+    return buildDerivationPath(
+      AccountPurpose.PRIMARY,
+      watched.isChange ?? false,
+      watched.index,
+    )
+  }
+
+  /**
+   * Watch-only counterpart of _markAddressUsed()
+   */
+  function _markWatchOnlyAddressUsed(
+    account: WatchOnlyAccount,
+    watched: WatchOnlyAddress,
+  ): boolean {
+    if (watched.index === undefined) return false
+    if (watched.isChange) {
+      if (watched.index <= account.lastUsedChangeIndex) return false
+      account.lastUsedChangeIndex = watched.index
+    } else {
+      if (watched.index <= account.lastUsedIndex) return false
+      account.lastUsedIndex = watched.index
+    }
+    return _ensureWatchOnlyWindow(account)
   }
 
   /**
-   * Refresh UTXOs from Chronik service
+   * Scan both chains of a watch-only xpub account for used addresses
    */
-  async function refreshUtxos() {
-    if (!$chronik.isInitialized()) return
-
-    utxos.value.clear()
+  async function _discoverWatchOnlyAddresses(account: WatchOnlyAccount) {
+    const scriptType = account.addressType ?? 'p2tr-commitment'
+    account.lastUsedIndex = await _scanChain(
+      scriptType,
+      DEFAULT_GAP_LIMIT,
+      index =>
+        _deriveWatchOnlyAddress(account, false, index).watched.scriptPayload,
+    )
+    account.lastUsedChangeIndex = await _scanChain(
+      scriptType,
+      DEFAULT_GAP_LIMIT,
+      index =>
+        _deriveWatchOnlyAddress(account, true, index).watched.scriptPayload,
+    )
+    _ensureWatchOnlyWindow(account)
+  }
 
-    const fetchedUtxos = await $chronik.fetchUtxos()
-    for (const utxo of fetchedUtxos) {
-      const outpoint = `${utxo.outpoint.txid}_${utxo.outpoint.outIdx}`
-      utxos.value.set(outpoint, {
-        value: utxo.value,
-        blockHeight: utxo.blockHeight,
-        isCoinbase: utxo.isCoinbase,
-      })
+  function _recalculateWatchOnlyBalance(accountId: string) {
+    const state = watchOnlyUtxos.value.get(accountId)
+    if (state) {
+      state.balance = _computeBalance(state.utxos)
     }
-
-    recalculateBalance()
-    await saveWalletState()
   }
 
   /**
-   * Fetch transaction history from Chronik service
+   * Apply a mempool transaction to watch-only UTXOs
    */
-  async function fetchTransactionHistory(
-    pageSize: number = 25,
-    page: number = 0,
-  ) {
-    if (!$chronik.isInitialized() || !_script) return
-
-    historyLoading.value = true
-    try {
-      const { txs } = await $chronik.fetchTransactionHistory(page, pageSize)
-      const scriptHex = _script.toHex()
-      const history: TransactionHistoryItem[] = []
+  function _applyWatchOnlyTx(tx: ChronikTx): {
+    touched: Set<string>
+    addressesExtended: boolean
+  } {
+    const touched = new Set<string>()
+    let addressesExtended = false
 
-      for (const tx of txs) {
-        let inputAmount = 0n
-        let outputAmount = 0n
-        let counterpartyScript = ''
+    for (const input of tx.inputs) {
+      const owner = input.outputScript
+        ? _watchOnlyIndex.get(input.outputScript)
+        : undefined
+      const state = owner && watchOnlyUtxos.value.get(owner.accountId)
+      if (owner && state) {
+        state.utxos.delete(`${input.prevOut.txid}_${input.prevOut.outIdx}`)
+        touched.add(owner.accountId)
+      }
+    }
 
-        for (const input of tx.inputs) {
-          if (input.outputScript === scriptHex) {
-            inputAmount += BigInt(input.value)
-          }
-        }
+    tx.outputs.forEach((output, i) => {
+      const owner = output.outputScript
+        ? _watchOnlyIndex.get(output.outputScript)
+        : undefined
+      const state = owner && watchOnlyUtxos.value.get(owner.accountId)
+      const account = activeWatchOnlyAccounts.value.find(
+        a => a.id === owner?.accountId,
+      )
+      if (!owner || !state || !account) return
 
-        for (const output of tx.outputs) {
-          if (output.outputScript === scriptHex) {
-            outputAmount += BigInt(output.value)
-          } else if (!counterpartyScript && output.outputScript) {
-            counterpartyScript = output.outputScript
-          }
-        }
+      if (_markWatchOnlyAddressUsed(account, owner.address)) {
+        addressesExtended = true
+      }
+      state.utxos.set(`${tx.txid}_${i}`, {
+        value: output.value,
+        blockHeight: -1,
+        isCoinbase: tx.isCoinbase,
+        path: _watchOnlySigningPath(owner.address),
+        watchOnlyId: account.id,
+      })
+      touched.add(account.id)
+    })
 
-        const isSend = inputAmount > outputAmount
-        const netAmount = isSend
-          ? (inputAmount - outputAmount).toString()
-          : (outputAmount - inputAmount).toString()
+    return { touched, addressesExtended }
+  }
 
-        if (!isSend && tx.inputs.length > 0 && tx.inputs[0].outputScript) {
-          counterpartyScript = tx.inputs[0].outputScript
-        }
+  /**
+   * Refresh UTXOs and balances of the watch-only accounts on this network
+   */
+  async function refreshWatchOnlyUtxos() {
+    if (!$chronik.isInitialized()) return
 
-        let counterpartyAddress = ''
-        if (counterpartyScript) {
+    let addressesExtended = false
+    for (const account of activeWatchOnlyAccounts.value) {
+      const results = await Promise.all(
+        account.addresses.map(async watched => {
           try {
-            const scriptBuf = $bitcore.BufferUtil.from(
-              counterpartyScript,
-              'hex',
+            const fetched = await $chronik.fetchUtxosForScript(
+              watched.scriptType,
+              watched.scriptPayload,
             )
-            const script = $bitcore.Script.fromBuffer(scriptBuf)
-            const addr = script.toAddress()
-            if (addr) {
-              counterpartyAddress = addr.toXAddress()
-            }
+            return { watched, fetched }
           } catch {
-            // Non-standard script
+            console.warn(
+              `[Wallet] Failed to fetch UTXOs for ${watched.address}`,
+            )
+            return { watched, fetched: [] }
           }
-        }
+        }),
+      )
 
-        const blockHeight = tx.block?.height ?? -1
-        const confirmations =
-          blockHeight > 0 ? tipHeight.value - blockHeight + 1 : 0
-
-        history.push({
-          txid: tx.txid,
-          timestamp:
-            tx.block?.timestamp ??
-            tx.timeFirstSeen ??
-            (Date.now() / 1000).toString(),
-          blockHeight,
-          isSend,
-          amount: netAmount,
-          address: counterpartyAddress,
-          confirmations,
-        })
+      const accountUtxoSet = new Map<string, UtxoData>()
+      for (const { watched, fetched } of results) {
+        if (
+          fetched.length > 0 &&
+          _markWatchOnlyAddressUsed(account, watched)
+        ) {
+          addressesExtended = true
+        }
+        for (const utxo of fetched) {
+          accountUtxoSet.set(`${utxo.outpoint.txid}_${utxo.outpoint.outIdx}`, {
+            value: utxo.value,
+            blockHeight: utxo.blockHeight,
+            isCoinbase: utxo.isCoinbase,
+            path: _watchOnlySigningPath(watched),
+            watchOnlyId: account.id,
+          })
+        }
       }
+      watchOnlyUtxos.value.set(account.id, {
+        utxos: accountUtxoSet,
+        balance: _computeBalance(accountUtxoSet),
+      })
+    }
 
-      transactionHistory.value = history
-    } finally {
-      historyLoading.value = false
+    if (addressesExtended) {
+      _saveWatchOnlyAccounts()
+      if ($chronik.isConnected()) {
+        await subscribeToAllAccounts()
+      }
     }
   }
 
   /**
-   * Recalculate balance from UTXOs
+   * Fetch transaction history for a watch-only account
    */
-  function recalculateBalance() {
-    let total = 0n
-    let spendable = 0n
+  async function fetchWatchOnlyHistory(
+    accountId: string,
+    pageSize: number = 25,
+    page: number = 0,
+  ) {
+    const account = activeWatchOnlyAccounts.value.find(a => a.id === accountId)
+    if (!account || !$chronik.isInitialized()) return
+
+    const pages = await Promise.all(
+      account.addresses.map(watched =>
+        $chronik.fetchHistoryForScript(
+          watched.scriptType,
+          watched.scriptPayload,
+          page,
+          pageSize,
+        ),
+      ),
+    )
 
-    for (const [, utxo] of utxos.value) {
-      const value = BigInt(utxo.value)
-      total += value
+    const ownerOf = (scriptHex: string) =>
+      _watchOnlyIndex.get(scriptHex)?.accountId === accountId
+        ? accountId
+        : undefined
+    watchOnlyHistory.value.set(
+      accountId,
+      _mergeHistoryPages(pages, pageSize).map(tx =>
+        _toHistoryItem(tx, ownerOf),
+      ),
+    )
+  }
 
-      if (utxo.isCoinbase) {
-        const confirmations =
-          utxo.blockHeight > 0 ? tipHeight.value - utxo.blockHeight + 1 : 0
-        if (confirmations >= 100) {
-          spendable += value
+  /**
+   * Add a watch-only account from an account xpub or a list of addresses.
+   * An xpub is scanned for used addresses before it is tracked.
+   */
+  async function addWatchOnlyAccount(
+    params: AddWatchOnlyAccountParams,
+  ): Promise<WatchOnlyAccount> {
+    const networkStore = useNetworkStore()
+    const networkName = networkStore.currentNetwork
+    const label = params.label.trim()
+    if (!label) {
+      throw new Error('Name is required')
+    }
+
+    const account: WatchOnlyAccount = {
+      id: generateId('watch'),
+      label,
+      source: params.xpub ? 'xpub' : 'addresses',
+      network: networkName,
+      addresses: [],
+      lastUsedIndex: -1,
+      lastUsedChangeIndex: -1,
+      createdAt: Date.now(),
+    }
+
+    if (params.xpub) {
+      const xpub = params.xpub.trim()
+      if (!$bitcore.HDPublicKey.isValidSerialized(xpub, networkName)) {
+        throw new Error(
+          `Not a valid ${networkStore.displayName} extended public key`,
+        )
+      }
+      if ($bitcore.HDPublicKey.fromString(xpub).depth !== 3) {
+        throw new Error('Expected an account-level extended public key')
+      }
+      if ([..._accountXpubs.values()].some(own => own.toString() === xpub)) {
+        throw new Error('This extended public key belongs to this wallet')
+      }
+      if (activeWatchOnlyAccounts.value.some(a => a.xpub === xpub)) {
+        throw new Error('This extended public key is already watched')
+      }
+      account.xpub = xpub
+      account.addressType = params.addressType ?? addressType.value
+    } else {
+      const addresses = [
+        ...new Set((params.addresses ?? []).map(a => a.trim()).filter(Boolean)),
+      ]
+      if (addresses.length === 0) {
+        throw new Error('Enter at least one address')
+      }
+      for (const addressString of addresses) {
+        const { watched, scriptHex } = _watchAddress(addressString, networkName)
+        if (_scriptIndex.has(scriptHex)) {
+          throw new Error(`${addressString} belongs to this wallet`)
         }
-      } else {
-        spendable += value
+        account.addresses.push(watched)
       }
     }
 
-    balance.value = {
-      total: total.toString(),
-      spendable: spendable.toString(),
-      utxoCount: utxos.value.size,
-    }
-  }
+    watchOnlyAccounts.value.push(account)
+    // Work on the reactive copy so UI picks up derived addresses
+    const added = watchOnlyAccounts.value[watchOnlyAccounts.value.length - 1]
+    _indexWatchOnlyAccount(added)
+    _saveWatchOnlyAccounts()
 
-  /**
-   * Sign a message with the wallet's private key
-   */
-  function signMessage(text: string): string {
-    if (!_signingKey) {
-      throw new Error('Wallet not initialized')
+    if ($chronik.isInitialized()) {
+      if (added.source === 'xpub') {
+        await _discoverWatchOnlyAddresses(added)
+        _saveWatchOnlyAccounts()
+      }
+      await refreshWatchOnlyUtxos()
+      await fetchWatchOnlyHistory(added.id)
+      if ($chronik.isConnected()) {
+        await subscribeToAllAccounts()
+      }
     }
-    const message = new $bitcore.Message(text)
-    return message.sign(_signingKey)
-  }
 
-  /**
-   * Verify a signed message
-   */
-  function verifyMessage(
-    text: string,
-    addr: string,
-    signature: string,
-  ): boolean {
-    const message = new $bitcore.Message(text)
-    return message.verify(addr, signature)
+    return added
   }
 
   /**
-   * Get the private key (hex encoded) for a specific account
+   * Stop watching an account and drop its cached UTXOs and history
    */
-  function getPrivateKeyHex(
-    accountPurpose: AccountPurpose = AccountPurpose.PRIMARY,
-  ): string | null {
-    const keyData = _accountKeys.get(accountPurpose)
-    if (!keyData?.privateKey) return null
-    return keyData.privateKey.toString()
+  async function removeWatchOnlyAccount(accountId: string) {
+    watchOnlyAccounts.value = watchOnlyAccounts.value.filter(
+      a => a.id !== accountId,
+    )
+    watchOnlyUtxos.value.delete(accountId)
+    watchOnlyHistory.value.delete(accountId)
+    _watchOnlyXpubs.delete(accountId)
+    for (const [scriptHex, owner] of _watchOnlyIndex) {
+      if (owner.accountId === accountId) {
+        _watchOnlyIndex.delete(scriptHex)
+      }
+    }
+    _saveWatchOnlyAccounts()
+
+    if ($chronik.isConnected()) {
+      await subscribeToAllAccounts()
+    }
   }
 
   /**
-   * Get the public key (hex encoded) for a specific account
+   * Get the balance of a watch-only account
    */
-  function getPublicKeyHex(
-    accountPurpose: AccountPurpose = AccountPurpose.PRIMARY,
-  ): string | null {
-    const keyData = _accountKeys.get(accountPurpose)
-    if (!keyData?.publicKey) return null
-    return keyData.publicKey.toString()
+  function getWatchOnlyBalance(accountId: string): WalletBalance {
+    return (
+      watchOnlyUtxos.value.get(accountId)?.balance ?? {
+        total: '0',
+        spendable: '0',
+        utxoCount: 0,
+      }
+    )
   }
 
   /**
-   * Get the address for a specific account
+   * Get the latest fetched history of a watch-only account
    */
-  function getAccountAddress(
-    purpose: AccountPurpose = AccountPurpose.PRIMARY,
-  ): string | null {
-    const account = accounts.value.get(purpose)
-    return account?.primaryAddress?.address ?? null
+  function getWatchOnlyHistory(accountId: string): TransactionHistoryItem[] {
+    return watchOnlyHistory.value.get(accountId) ?? []
   }
 
   /**
-   * Get the script payload for a specific account
+   * Check if an output script belongs to a watch-only account
    */
-  function getAccountScriptPayload(
-    purpose: AccountPurpose = AccountPurpose.PRIMARY,
-  ): string | null {
-    const account = accounts.value.get(purpose)
-    return account?.primaryAddress?.scriptPayload ?? null
+  function isWatchOnlyScript(scriptHex: string): boolean {
+    return _watchOnlyIndex.has(scriptHex)
   }
 
   /**
-   * Get the account state for a specific purpose
+   * Spendable outputs of a watch-only xpub account, for transactions to be
+   * signed offline. Outputs of address lists have no path to sign with.
    */
-  function getAccount(purpose: AccountPurpose): AccountState | undefined {
-    return accounts.value.get(purpose)
+  function getWatchOnlySpendableUtxos(accountId: string): UtxoEntry[] {
+    const state = watchOnlyUtxos.value.get(accountId)
+    if (!state) return []
+    const result: UtxoEntry[] = []
+    for (const [outpoint, utxo] of state.utxos) {
+      if (utxo.path && _isMature(utxo)) {
+        result.push({ ...utxo, outpoint })
+      }
+    }
+    return result
   }
 
   /**
-   * Get the runtime key data for a specific account
+   * The xpub of an active watch-only account with what deriving from it
+   * needs, or null for address lists and other networks
    */
-  function getAccountKeyData(
-    purpose: AccountPurpose,
-  ): RuntimeKeyData | undefined {
-    return _accountKeys.get(purpose)
+  function _watchOnlyKeychain(accountId: string) {
+    const account = activeWatchOnlyAccounts.value.find(a => a.id === accountId)
+    const xpub = _watchOnlyXpubs.get(accountId)
+    const network = account && $bitcore.Networks.get(account.network)
+    if (!account || !xpub || !network) return null
+    const scriptType: AddressType = account.addressType ?? 'p2tr-commitment'
+    return { account, xpub, network, scriptType }
   }
 
   /**
-   * Get the balance for a specific account
+   * Build context for an unsigned transaction spending a watch-only xpub
+   * account. Change goes to the account's next unused change address.
    */
-  function getAccountBalance(
-    purpose: AccountPurpose = AccountPurpose.PRIMARY,
-  ): WalletBalance {
-    const utxoState = accountUtxos.value.get(purpose)
-    return utxoState?.balance ?? { total: '0', spendable: '0', utxoCount: 0 }
+  function getWatchOnlyBuildContext(
+    accountId: string,
+  ): WalletTransactionBuildContext | null {
+    const keychain = _watchOnlyKeychain(accountId)
+    if (!keychain) return null
+    const { account, xpub, network, scriptType } = keychain
+
+    const change = _deriveFromXpub(
+      xpub,
+      true,
+      account.lastUsedChangeIndex + 1,
+      scriptType,
+      network,
+    )
+    const taproot = scriptType === 'p2tr-commitment'
+    return {
+      script: change.script,
+      addressType: scriptType,
+      changeAddress: change.address,
+      internalPubKey: taproot ? change.publicKey : undefined,
+      merkleRoot: taproot ? $bitcore.BufferUtil.alloc(32) : undefined,
+    }
   }
 
   /**
-   * Get the total balance across all accounts
+   * Refuse to sign for outputs of watch-only accounts: there is no key for
+   * them, and a path-less entry would otherwise fall back to the primary key
    */
-  function getTotalBalance(): WalletBalance {
-    let total = 0n
-    let spendable = 0n
-
-    for (const utxoState of accountUtxos.value.values()) {
-      total += BigInt(utxoState.balance.total)
-      spendable += BigInt(utxoState.balance.spendable)
-    }
-
-    return {
-      total: total.toString(),
-      spendable: spendable.toString(),
-      utxoCount: accountUtxos.value
-        .values()
-        .reduce((count, utxoState) => count + utxoState.utxos.size, 0),
+  function _assertSignable(inputs: UtxoEntry[]) {
+    const watched = inputs.find(utxo => utxo.watchOnlyId)
+    if (watched) {
+      throw new Error(
+        `Input ${watched.outpoint} belongs to a watch-only account and cannot be signed`,
+      )
     }
   }
 
@@ -1101,6 +2702,8 @@ export const useWalletStore = defineStore('wallet', () => {
     const changed = await networkStore.switchNetwork(network)
 
     if (!changed) return
+    // Addresses are derived from the unlocked seed
+    await requireUnlocked()
 
     loading.value = true
     loadingMessage.value = `Switching to ${networkStore.displayName}...`
@@ -1112,7 +2715,8 @@ export const useWalletStore = defineStore('wallet', () => {
       utxos.value = new Map()
       balance.value = { total: '0', spendable: '0', utxoCount: 0 }
 
-      await buildWalletFromMnemonic(seedPhrase.value)
+      await _buildAccounts()
+      _needsDiscovery = true
       await saveWalletState()
 
       // Initialize Chronik with new network
@@ -1131,14 +2735,6 @@ export const useWalletStore = defineStore('wallet', () => {
     return networkStore.currentNetwork
   }
 
-  /**
-   * Get the mnemonic seed phrase (for backup display)
-   */
-  function getWalletMnemonic(): string | null {
-    if (!initialized.value || !seedPhrase.value) return null
-    return seedPhrase.value
-  }
-
   /**
    * Get transaction building context for the primary account
    */
@@ -1148,7 +2744,7 @@ export const useWalletStore = defineStore('wallet', () => {
     return {
       script: _script,
       addressType: addressType.value,
-      changeAddress: address.value,
+      changeAddress: getChangeAddress() ?? address.value,
       internalPubKey: _internalPubKey,
       merkleRoot: _merkleRoot,
     }
@@ -1158,6 +2754,11 @@ export const useWalletStore = defineStore('wallet', () => {
    * Check if wallet is ready for transaction signing
    */
   function isReadyForSigning(): boolean {
+    // A locked wallet can still sign once requireUnlocked() resolves, and
+    // with the crypto worker the signing key never lives on the main thread
+    if (vaultStatus.value === 'locked' || USE_CRYPTO_WORKER) {
+      return !!(_script && initialized.value)
+    }
     return !!(_signingKey && _script && initialized.value)
   }
 
@@ -1178,6 +2779,222 @@ export const useWalletStore = defineStore('wallet', () => {
     return tx.toBuffer().toString('hex')
   }
 
+  /**
+   * Sign a transaction in the crypto worker, referencing the key of the
+   * address that owns each input by handle
+   */
+  async function signTransactionInWorker(
+    txHex: string,
+    inputs: UtxoEntry[],
+  ): Promise<{ signedTxHex: string; txid: string }> {
+    if (vaultStatus.value === 'locked') {
+      throw new Error('Wallet is locked')
+    }
+    _assertSignable(inputs)
+
+    const ownersByPath = new Map<
+      string,
+      { scriptHex: string; purpose: AccountPurpose }
+    >()
+    for (const [scriptHex, owner] of _scriptIndex) {
+      ownersByPath.set(owner.address.path, {
+        scriptHex,
+        purpose: owner.purpose,
+      })
+    }
+    const primary = accounts.value.get(AccountPurpose.PRIMARY)?.primaryAddress
+    if (!primary) {
+      throw new Error('Wallet not initialized for signing')
+    }
+
+    const utxosForSigning: UtxoForSigning[] = inputs.map(utxo => {
+      // Entries cached before address discovery belong to the primary address
+      const path = utxo.path ?? primary.path
+      const owner = ownersByPath.get(path)
+      if (!owner) {
+        throw new Error(`Unknown address for input ${utxo.outpoint}`)
+      }
+      return {
+        outpoint: utxo.outpoint,
+        satoshis: Number(utxo.value),
+        scriptHex: owner.scriptHex,
+        key: getKeyHandle(owner.purpose, path),
+      }
+    })
+
+    return await $cryptoWorker.signTransactionWithKeys(
+      txHex,
+      utxosForSigning,
+      addressType.value,
+    )
+  }
+
+  /**
+   * Find the PRIMARY address for a derivation path, deriving it from the
+   * account xpub when it is outside the discovered window
+   */
+  function _resolvePrimaryPath(
+    path: string,
+  ): { scriptHex: string; address: DerivedAddress } | undefined {
+    for (const [scriptHex, owner] of _scriptIndex) {
+      if (owner.address.path === path) {
+        return owner.purpose === AccountPurpose.PRIMARY
+          ? { scriptHex, address: owner.address }
+          : undefined
+      }
+    }
+
+    const parsed = parseDerivationPath(path)
+    if (!parsed || parsed.accountIndex !== AccountPurpose.PRIMARY) {
+      return undefined
+    }
+    const { derived, scriptHex } = _deriveAddress(
+      AccountPurpose.PRIMARY,
+      parsed.isChange,
+      parsed.addressIndex,
+    )
+    return { scriptHex, address: derived }
+  }
+
+  /**
+   * Describe wallet UTXOs as offline bundle inputs, including what an
+   * offline signer needs to find the key and rebuild the previous output
+   */
+  function getOfflineBundleInputs(utxos: UtxoEntry[]): OfflineBundleInput[] {
+    const watchOnlyId = utxos[0]?.watchOnlyId
+    if (watchOnlyId) {
+      return _getWatchOnlyBundleInputs(watchOnlyId, utxos)
+    }
+
+    const primary = accounts.value.get(AccountPurpose.PRIMARY)?.primaryAddress
+    if (!primary) {
+      throw new Error('Wallet not initialized')
+    }
+    _assertSignable(utxos)
+
+    return utxos.map(utxo => {
+      // Entries cached before address discovery belong to the primary address
+      const path = utxo.path ?? primary.path
+      const owner = _resolvePrimaryPath(path)
+      if (!owner) {
+        throw new Error(`Unknown address for input ${utxo.outpoint}`)
+      }
+
+      const input: OfflineBundleInput = {
+        outpoint: utxo.outpoint,
+        satoshis: Number(utxo.value),
+        scriptHex: owner.scriptHex,
+        path,
+      }
+      if (addressType.value === 'p2tr-commitment') {
+        input.internalPubKeyHex = owner.address.publicKeyHex
+        input.merkleRootHex = '00'.repeat(32)
+      }
+      return input
+    })
+  }
+
+  /**
+   * Offline bundle inputs for outputs of a watch-only xpub account, whose
+   * keys are in the offline signer's primary account
+   */
+  function _getWatchOnlyBundleInputs(
+    accountId: string,
+    utxos: UtxoEntry[],
+  ): OfflineBundleInput[] {
+    const keychain = _watchOnlyKeychain(accountId)
+    if (!keychain) {
+      throw new Error(
+        'Only watch-only accounts with an extended key can be spent offline',
+      )
+    }
+    const { xpub, network, scriptType } = keychain
+
+    return utxos.map(utxo => {
+      const parsed =
+        utxo.watchOnlyId === accountId && utxo.path
+          ? parseDerivationPath(utxo.path)
+          : null
+      if (!parsed || !utxo.path) {
+        throw new Error(`Unknown address for input ${utxo.outpoint}`)
+      }
+      const { publicKey, script } = _deriveFromXpub(
+        xpub,
+        parsed.isChange,
+        parsed.addressIndex,
+        scriptType,
+        network,
+      )
+
+      const input: OfflineBundleInput = {
+        outpoint: utxo.outpoint,
+        satoshis: Number(utxo.value),
+        scriptHex: script.toHex(),
+        path: utxo.path,
+      }
+      if (scriptType === 'p2tr-commitment') {
+        input.internalPubKeyHex = publicKey.toString()
+        input.merkleRootHex = '00'.repeat(32)
+      }
+      return input
+    })
+  }
+
+  /**
+   * Sign an offline bundle in the crypto worker, prompting for unlock if
+   * auto-locked. Every input must re-derive to its bundled script from its
+   * bundled path, so a bundle cannot make us sign for outputs we do not own.
+   */
+  async function signOfflineBundle(
+    bundle: OfflineTransactionBundle,
+  ): Promise<OfflineTransactionBundle> {
+    if (!USE_CRYPTO_WORKER) {
+      throw new Error('Offline signing requires the crypto worker')
+    }
+    const networkStore = useNetworkStore()
+    if (bundle.network !== networkStore.currentNetwork) {
+      throw new Error(`Transaction is for ${bundle.network}, switch networks to sign it`)
+    }
+
+    const utxosForSigning: UtxoForSigning[] = bundle.inputs.map(input => {
+      if (_watchOnlyIndex.has(input.scriptHex)) {
+        throw new Error(
+          `Input ${input.outpoint} belongs to a watch-only account and cannot be signed`,
+        )
+      }
+      const owner = input.path ? _resolvePrimaryPath(input.path) : undefined
+      if (!owner || owner.scriptHex !== input.scriptHex) {
+        throw new Error(`Input ${input.outpoint} does not belong to this wallet`)
+      }
+      return {
+        outpoint: input.outpoint,
+        satoshis: input.satoshis,
+        scriptHex: input.scriptHex,
+        key: getKeyHandle(AccountPurpose.PRIMARY, owner.address.path),
+      }
+    })
+
+    await requireUnlocked()
+    const { signedTxHex } = await $cryptoWorker.signTransactionWithKeys(
+      bundle.txHex,
+      utxosForSigning,
+      addressType.value,
+    )
+    return createOfflineBundle(
+      signedTxHex,
+      bundle.inputs,
+      bundle.network,
+      'signed',
+    )
+  }
+
+  /**
+   * Check if an output script belongs to one of our derived addresses
+   */
+  function isOwnScript(scriptHex: string): boolean {
+    return _scriptIndex.has(scriptHex)
+  }
+
   /**
    * Get the script hex for the primary account
    */
@@ -1249,19 +3066,25 @@ export const useWalletStore = defineStore('wallet', () => {
     initialized,
     loading,
     loadingMessage,
-    seedPhrase,
+    vaultStatus,
+    hasPlaintextSeed,
+    unlockRequested,
     addressType,
     tipHeight,
     tipHash,
     connected,
     transactionHistory,
     historyLoading,
+    hasMoreHistory,
     accounts,
     accountUtxos,
     address,
     scriptPayload,
     balance,
     utxos,
+    watchOnlyAccounts,
+    watchOnlyUtxos,
+    watchOnlyHistory,
 
     // Getters
     balanceXPI,
@@ -1271,11 +3094,19 @@ export const useWalletStore = defineStore('wallet', () => {
     hasBalance,
     utxoCount,
     recentTransactions,
+    activeWatchOnlyAccounts,
+    watchOnlyBalance,
     getSpendableUtxos,
     getTransactionsWithContact,
 
     // Actions
     initialize,
+    unlock,
+    lock,
+    requireUnlocked,
+    cancelUnlock,
+    setPassword,
+    changePassword,
     createNewWallet,
     restoreWallet,
     switchAddressType,
@@ -1295,25 +3126,45 @@ export const useWalletStore = defineStore('wallet', () => {
     handleConfirmed,
     handleBlockConnected,
     refreshUtxos,
-    fetchTransactionHistory,
+    syncTransactionHistory,
+    loadMoreHistory,
+    getHistoryRange,
+    addHistoryItem,
+    classifyWalletTransaction,
     recalculateBalance,
     signMessage,
     verifyMessage,
-    getPrivateKeyHex,
+    getKeyHandle,
     getPublicKeyHex,
     getAccountAddress,
     getAccountScriptPayload,
+    getReceiveAddress,
+    getChangeAddress,
+    discoverAddresses,
     getAccount,
     getAccountKeyData,
     getAccountBalance,
     getTotalBalance,
+    refreshWatchOnlyUtxos,
+    fetchWatchOnlyHistory,
+    addWatchOnlyAccount,
+    removeWatchOnlyAccount,
+    getWatchOnlyBalance,
+    getWatchOnlyHistory,
+    isWatchOnlyScript,
     disconnect,
     switchNetwork,
     getCurrentNetwork,
-    getMnemonic: getWalletMnemonic,
+    exportMnemonic,
     getTransactionBuildContext,
     isReadyForSigning,
     signTransactionHex,
+    signTransactionInWorker,
+    getOfflineBundleInputs,
+    getWatchOnlySpendableUtxos,
+    getWatchOnlyBuildContext,
+    signOfflineBundle,
+    isOwnScript,
     getScriptHex,
     getInternalPubKeyString,
     getMerkleRootHex,
@@ -3,9 +3,9 @@
  *
  * Type definitions for contact management.
  *
- * TODO: Need to identify how these are used in the application. Contact system
- *       is deprecated in favor of People store, so these types need to be
- *       removed at some point.
+ * The contact system is deprecated in favor of the People store. These types
+ * remain as the shape of data saved by the old contacts store, which the People
+ * store migrates, and of the `useContactsStore` facade over people.
  */
 
 // ============================================================================
@@ -46,3 +46,32 @@ export function getAccountPath(
 ): string {
   return buildDerivationPath(purpose, isChange, addressIndex)
 }
+
+/**
+ * Parse a BIP44 derivation path produced by {@link buildDerivationPath}.
+ *
+ * @param path - Derivation path (e.g., "m/44'/10605'/0'/1/3")
+ * @returns Account index, chain and address index, or null if the path is
+ * not a Lotus BIP44 path
+ *
+ * @example
+ * parseDerivationPath("m/44'/10605'/0'/1/3")
+ * // { accountIndex: 0, isChange: true, addressIndex: 3 }
+ */
+export function parseDerivationPath(
+  path: string,
+): { accountIndex: number; isChange: boolean; addressIndex: number } | null {
+  const match = /^m\/(\d+)'\/(\d+)'\/(\d+)'\/([01])\/(\d+)$/.exec(path)
+  if (
+    !match ||
+    Number(match[1]) !== BIP44_PURPOSE ||
+    Number(match[2]) !== BIP44_COINTYPE
+  ) {
+    return null
+  }
+  return {
+    accountIndex: Number(match[3]),
+    isChange: match[4] === '1',
+    addressIndex: Number(match[5]),
+  }
+}
@@ -16,6 +16,7 @@ export function getActivityIcon(item: ActivityItem): string {
   const data = item.data
   switch (data.type) {
     case 'transaction':
+      if (item.status === 'failed') return 'i-lucide-x-circle'
       return data.direction === 'incoming'
         ? 'i-lucide-arrow-down-left'
         : 'i-lucide-arrow-up-right'
@@ -67,6 +68,7 @@ export function getActivityColor(item: ActivityItem): ActivityColorName {
   const data = item.data
   switch (data.type) {
     case 'transaction':
+      if (item.status === 'failed') return 'error'
       return data.direction === 'incoming' ? 'success' : 'warning'
     case 'signing_request':
       return 'warning'
@@ -174,6 +176,7 @@ export function getActivitySubtitle(item: ActivityItem): string {
   const data = item.data
   switch (data.type) {
     case 'transaction':
+      if (item.status === 'failed') return 'Failed, will not confirm'
       const confirmations = data.confirmations
       return confirmations > 0
         ? `${confirmations} confirmation${confirmations > 1 ? 's' : ''}`
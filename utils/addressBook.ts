@@ -0,0 +1,321 @@
+/**
+ * Address Book Import/Export
+ *
+ * Reading and writing the people list as JSON or vCard 3.0. JSON keeps
+ * everything the wallet knows about a person; vCard carries the name, notes
+ * and tags (`CATEGORIES`) plus the Lotus address and public key in the
+ * `X-LOTUS-ADDRESS` and `X-LOTUS-PUBKEY` properties, which other address
+ * books keep untouched.
+ *
+ * Imports are previewed first: each entry is matched against the existing
+ * people by public key, then address, and classified as new, duplicate or
+ * conflicting.
+ */
+import { truncateAddress } from './formatting'
+import { isValidPublicKey } from './identity'
+import { isValidAddress } from './validation'
+import type {
+  AddressBookEntry,
+  AddressBookField,
+  AddressBookFormat,
+  AddressBookImportPreview,
+  AddressBookPreviewEntry,
+  Person,
+  PersonGroup,
+} from './types/people'
+
+/** Version written to JSON exports */
+const ADDRESS_BOOK_VERSION = 1
+
+/** Fields compared to find conflicts, and overwritten when replacing */
+export const ADDRESS_BOOK_FIELDS: AddressBookField[] = [
+  'name',
+  'address',
+  'publicKeyHex',
+  'notes',
+]
+
+/** Longest vCard content line, before folding */
+const VCARD_LINE_LENGTH = 75
+
+/**
+ * Fields of an entry as found in a file, before validation
+ */
+interface RawEntry {
+  name?: unknown
+  address?: unknown
+  publicKeyHex?: unknown
+  /** Field name of legacy contact exports */
+  publicKey?: unknown
+  notes?: unknown
+  tags?: unknown
+  isFavorite?: unknown
+  groupName?: unknown
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Serialize people as an address book file
+ */
+export function serializeAddressBook(
+  people: Person[],
+  groups: PersonGroup[],
+  format: AddressBookFormat,
+): string {
+  const groupNames = new Map(groups.map(group => [group.id, group.name]))
+  const entries = [...people]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(
+      (person): AddressBookEntry => ({
+        name: person.name,
+        address: person.address,
+        publicKeyHex: person.publicKeyHex,
+        notes: person.notes,
+        tags: person.tags,
+        isFavorite: person.isFavorite,
+        groupName: person.groupId ? groupNames.get(person.groupId) : undefined,
+      }),
+    )
+
+  if (format === 'json') {
+    return JSON.stringify(
+      { version: ADDRESS_BOOK_VERSION, people: entries },
+      null,
+      2,
+    )
+  }
+  return entries.map(toVCard).join('\r\n') + '\r\n'
+}
+
+function toVCard(entry: AddressBookEntry): string {
+  const name = escapeVCardText(entry.name)
+  const lines = ['BEGIN:VCARD', 'VERSION:3.0', `FN:${name}`, `N:${name};;;;`]
+  if (entry.notes) lines.push(`NOTE:${escapeVCardText(entry.notes)}`)
+  if (entry.tags.length > 0) {
+    lines.push(`CATEGORIES:${entry.tags.map(escapeVCardText).join(',')}`)
+  }
+  lines.push(`X-LOTUS-ADDRESS:${entry.address}`)
+  if (entry.publicKeyHex) lines.push(`X-LOTUS-PUBKEY:${entry.publicKeyHex}`)
+  lines.push('END:VCARD')
+  return lines.map(foldVCardLine).join('\r\n')
+}
+
+function escapeVCardText(value: string): string {
+  return value
+    .replace(/[\\,;]/g, char => `\\${char}`)
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Split a long content line into continuation lines starting with a space,
+ * without breaking characters apart
+ */
+function foldVCardLine(line: string): string {
+  const chars = Array.from(line)
+  const parts = [chars.slice(0, VCARD_LINE_LENGTH).join('')]
+  // Continuation lines spend one character on the leading space
+  const step = VCARD_LINE_LENGTH - 1
+  for (let i = VCARD_LINE_LENGTH; i < chars.length; i += step) {
+    parts.push(' ' + chars.slice(i, i + step).join(''))
+  }
+  return parts.join('\r\n')
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Entries read from an address book file. Valid entries are returned even
+ * when other records fail.
+ */
+export interface AddressBookParseResult {
+  format: AddressBookFormat
+  entries: AddressBookEntry[]
+  errors: { record: number; message: string }[]
+}
+
+/**
+ * Parse a JSON or vCard address book. JSON may be a wallet export or an
+ * array of people or legacy contacts.
+ *
+ * @throws If the text is neither
+ */
+export function parseAddressBook(text: string): AddressBookParseResult {
+  const trimmed = text.trim()
+  if (/^BEGIN:VCARD/i.test(trimmed)) {
+    return collectEntries('vcard', parseVCards(trimmed))
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(trimmed)
+  } catch {
+    throw new Error('Not a JSON or vCard address book')
+  }
+  const records = Array.isArray(data)
+    ? data
+    : (data as { people?: unknown } | null)?.people
+  if (!Array.isArray(records)) {
+    throw new Error('No people found in the JSON file')
+  }
+  return collectEntries('json', records as RawEntry[])
+}
+
+function collectEntries(
+  format: AddressBookFormat,
+  records: RawEntry[],
+): AddressBookParseResult {
+  const result: AddressBookParseResult = { format, entries: [], errors: [] }
+  records.forEach((record, i) => {
+    const entry = normalizeEntry(record)
+    if (typeof entry === 'string') {
+      result.errors.push({ record: i + 1, message: entry })
+    } else {
+      result.entries.push(entry)
+    }
+  })
+  return result
+}
+
+/**
+ * Validate a raw entry
+ *
+ * @returns The entry, or why it is invalid
+ */
+function normalizeEntry(raw: RawEntry): AddressBookEntry | string {
+  if (!raw || typeof raw !== 'object') return 'Not a person record'
+
+  const address = asText(raw.address)
+  if (!address) return 'No Lotus address'
+  if (!isValidAddress(address)) return 'Invalid Lotus address'
+
+  const publicKeyHex = asText(raw.publicKeyHex ?? raw.publicKey)?.toLowerCase()
+  if (publicKeyHex && !isValidPublicKey(publicKeyHex)) {
+    return 'Invalid public key'
+  }
+
+  const tags = Array.isArray(raw.tags)
+    ? raw.tags.map(asText).filter((tag): tag is string => !!tag)
+    : []
+
+  return {
+    name: asText(raw.name) ?? truncateAddress(address),
+    address,
+    publicKeyHex,
+    notes: asText(raw.notes),
+    tags: [...new Set(tags)],
+    isFavorite: raw.isFavorite === true ? true : undefined,
+    groupName: asText(raw.groupName),
+  }
+}
+
+function asText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+/**
+ * Read the properties the wallet uses from each card. Property groups
+ * (`item1.X-LOTUS-ADDRESS`) and parameters are ignored.
+ */
+function parseVCards(text: string): RawEntry[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+  const cards: RawEntry[] = []
+  let card: Map<string, string> | null = null
+
+  for (const line of lines) {
+    const upper = line.trim().toUpperCase()
+    if (upper === 'BEGIN:VCARD') {
+      card = new Map()
+      continue
+    }
+    if (upper === 'END:VCARD') {
+      if (card) cards.push(vCardToEntry(card))
+      card = null
+      continue
+    }
+
+    const colon = line.indexOf(':')
+    if (!card || colon === -1) continue
+    const property = line.slice(0, colon).split(';')[0].split('.').pop()!
+    const key = property.toUpperCase()
+    if (!card.has(key)) card.set(key, line.slice(colon + 1))
+  }
+  return cards
+}
+
+function vCardToEntry(card: Map<string, string>): RawEntry {
+  const structuredName = card
+    .get('N')
+    ?.split(/(?<!\\);/)
+    .map(unescapeVCardText)
+  const name =
+    unescapeVCardText(card.get('FN') ?? '') ||
+    [structuredName?.[1], structuredName?.[0]].filter(Boolean).join(' ')
+
+  return {
+    name,
+    address: card.get('X-LOTUS-ADDRESS'),
+    publicKeyHex: card.get('X-LOTUS-PUBKEY'),
+    notes: card.has('NOTE') ? unescapeVCardText(card.get('NOTE')!) : undefined,
+    tags: card.get('CATEGORIES')?.split(/(?<!\\),/).map(unescapeVCardText),
+  }
+}
+
+function unescapeVCardText(value: string): string {
+  return value.replace(/\\([nN\\,;])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char,
+  )
+}
+
+/**
+ * Classify parsed entries against the existing people. An entry repeating
+ * the address or key of an earlier one is a duplicate matching no one, so
+ * it is skipped.
+ */
+export function previewAddressBookImport(
+  parsed: AddressBookParseResult,
+  people: Person[],
+): AddressBookImportPreview {
+  const seen = new Set<string>()
+
+  const entries = parsed.entries.map((entry): AddressBookPreviewEntry => {
+    const person =
+      (entry.publicKeyHex &&
+        people.find(
+          p => p.publicKeyHex?.toLowerCase() === entry.publicKeyHex,
+        )) ||
+      people.find(p => p.address === entry.address)
+
+    const keys = [entry.address, entry.publicKeyHex].filter(
+      (key): key is string => !!key,
+    )
+    const repeated = keys.some(key => seen.has(key))
+    keys.forEach(key => seen.add(key))
+
+    if (repeated) return { entry, status: 'duplicate', conflicts: [] }
+    if (!person) return { entry, status: 'new', conflicts: [] }
+
+    const conflicts = ADDRESS_BOOK_FIELDS.filter(field => {
+      const imported = entry[field]
+      const existing =
+        field === 'publicKeyHex' ? person[field]?.toLowerCase() : person[field]
+      return (
+        imported !== undefined &&
+        existing !== undefined &&
+        imported !== existing
+      )
+    })
+    return {
+      entry,
+      status: conflicts.length > 0 ? 'conflict' : 'duplicate',
+      personId: person.id,
+      conflicts,
+    }
+  })
+
+  return { format: parsed.format, entries, errors: parsed.errors }
+}
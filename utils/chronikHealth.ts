@@ -0,0 +1,127 @@
+/**
+ * Chronik Endpoint Health
+ *
+ * Scores the Chronik endpoints of a network by whether they answer, how fast
+ * and how far behind the best known tip they are, and orders them for
+ * failover: the fastest endpoint that is up to date comes first.
+ */
+import { ChronikClient } from 'chronik-client'
+import { withTimeout } from './helpers'
+import type { ChronikEndpointHealth, NetworkConfig } from './types/network'
+
+/** Time between health checks of a network's endpoints */
+export const CHRONIK_HEALTH_INTERVAL_MS = 60_000
+
+/** An endpoint this many blocks behind the best tip is lagging */
+export const CHRONIK_LAG_THRESHOLD_BLOCKS = 2
+
+/** Each endpoint gets this long to answer a health check */
+const HEALTH_CHECK_TIMEOUT_MS = 5_000
+
+/**
+ * Chronik endpoints of a network, the primary first
+ */
+export function chronikEndpointUrls(config: NetworkConfig): string[] {
+  return [
+    ...new Set([config.chronikUrl, ...(config.fallbackChronikUrls ?? [])]),
+  ]
+}
+
+/**
+ * Health of an endpoint that has not been checked yet
+ */
+export function uncheckedEndpoint(url: string): ChronikEndpointHealth {
+  return {
+    url,
+    reachable: null,
+    latencyMs: null,
+    tipHeight: null,
+    lagging: false,
+    failures: 0,
+    checkedAt: 0,
+  }
+}
+
+/**
+ * Ask an endpoint for its tip and time the answer
+ *
+ * @param previous - The endpoint's last health, to count failures in a row
+ */
+export async function checkChronikEndpoint(
+  previous: ChronikEndpointHealth,
+): Promise<ChronikEndpointHealth> {
+  const started = performance.now()
+  try {
+    const info = await withTimeout(
+      new ChronikClient(previous.url).blockchainInfo(),
+      HEALTH_CHECK_TIMEOUT_MS,
+    )
+    return {
+      url: previous.url,
+      reachable: true,
+      latencyMs: Math.round(performance.now() - started),
+      tipHeight: info.tipHeight,
+      lagging: false,
+      failures: 0,
+      checkedAt: Date.now(),
+    }
+  } catch (error) {
+    return {
+      ...previous,
+      reachable: false,
+      latencyMs: null,
+      failures: previous.failures + 1,
+      checkedAt: Date.now(),
+      error: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
+
+/**
+ * Mark endpoints whose tip is behind the best tip, from the endpoints
+ * themselves or from elsewhere, e.g. a block seen over the WebSocket
+ */
+export function markLaggingEndpoints(
+  endpoints: ChronikEndpointHealth[],
+  knownTipHeight = 0,
+): ChronikEndpointHealth[] {
+  const bestTip = Math.max(
+    knownTipHeight,
+    ...endpoints.map(endpoint => endpoint.tipHeight ?? 0),
+  )
+  return endpoints.map(endpoint => ({
+    ...endpoint,
+    lagging:
+      endpoint.reachable === true &&
+      endpoint.tipHeight !== null &&
+      bestTip - endpoint.tipHeight >= CHRONIK_LAG_THRESHOLD_BLOCKS,
+  }))
+}
+
+function rankOf(endpoint: ChronikEndpointHealth): number {
+  if (endpoint.reachable === false) return 3
+  if (endpoint.lagging) return 2
+  // Unchecked endpoints keep their configured place behind checked ones
+  return endpoint.reachable === null ? 1 : 0
+}
+
+/**
+ * Endpoint URLs in failover order: up-to-date endpoints by latency, then
+ * unchecked, lagging and unreachable ones. Ties keep the configured order.
+ */
+export function rankChronikEndpoints(
+  endpoints: ChronikEndpointHealth[],
+): string[] {
+  return endpoints
+    .map((endpoint, index) => ({ endpoint, index }))
+    .sort((a, b) => {
+      const byRank = rankOf(a.endpoint) - rankOf(b.endpoint)
+      if (byRank !== 0) return byRank
+      if (rankOf(a.endpoint) === 0) {
+        const byLatency = a.endpoint.latencyMs! - b.endpoint.latencyMs!
+        if (byLatency !== 0) return byLatency
+      }
+      return a.index - b.index
+    })
+    .map(({ endpoint }) => endpoint.url)
+}
@@ -0,0 +1,311 @@
+/**
+ * Coin Selection
+ *
+ * Chooses which UTXOs fund a transaction. Fees are computed from byte sizes
+ * measured once by the caller, so no transaction is built per candidate.
+ *
+ * Strategies:
+ * - branch-and-bound: search for inputs that need no change output, falling
+ *   back to smallest-sufficient
+ * - smallest-sufficient: the smallest coin that covers what is still needed,
+ *   otherwise the largest coin, repeated
+ * - privacy: spend every coin on an address together and keep to one account
+ *   when it can pay on its own
+ * - largest-first: largest coins until the amount is covered
+ */
+import { DUST_THRESHOLD, MAX_TX_SIZE } from './constants'
+import { parseDerivationPath } from './accounts'
+import type { UtxoEntry } from './types/wallet'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CoinSelectionStrategy =
+  | 'branch-and-bound'
+  | 'smallest-sufficient'
+  | 'privacy'
+  | 'largest-first'
+
+export interface CoinSelectionParams {
+  /** Coins to choose from */
+  utxos: UtxoEntry[]
+  /** Total of the transaction's outputs, excluding change */
+  target: bigint
+  /** Fee rate in sat/byte */
+  feeRate: number
+  /** Size in bytes of the transaction without inputs or change */
+  baseSize: number
+  /** Size in bytes added by each input */
+  inputSize: number
+  /** Size in bytes added by a change output */
+  changeSize: number
+}
+
+export interface CoinSelection {
+  utxos: UtxoEntry[]
+  /** Fee paid, including any excess too small for a change output */
+  fee: number
+  /** Change returned to the wallet, 0n for a changeless transaction */
+  change: bigint
+}
+
+/** Coins that are always spent together */
+interface CoinGroup {
+  utxos: UtxoEntry[]
+  value: bigint
+}
+
+export const DEFAULT_COIN_SELECTION_STRATEGY: CoinSelectionStrategy =
+  'branch-and-bound'
+
+/** Branch-and-bound gives up after this many search steps */
+const BNB_MAX_TRIES = 100_000
+
+// ============================================================================
+// Fees
+// ============================================================================
+
+function feeFor(
+  params: CoinSelectionParams,
+  inputCount: number,
+  withChange: boolean,
+): number {
+  const size =
+    params.baseSize +
+    inputCount * params.inputSize +
+    (withChange ? params.changeSize : 0)
+  return Math.ceil(size * params.feeRate)
+}
+
+/** Most inputs that fit in a transaction of the maximum size */
+function maxInputs(params: CoinSelectionParams): number {
+  return Math.floor(
+    (MAX_TX_SIZE - params.baseSize - params.changeSize) / params.inputSize,
+  )
+}
+
+/**
+ * Work out fee and change for `inputCount` coins worth `inputTotal`.
+ * Returns null if they do not cover the target and fee.
+ */
+function settle(
+  params: CoinSelectionParams,
+  inputCount: number,
+  inputTotal: bigint,
+): { fee: number; change: bigint } | null {
+  if (inputCount === 0 || inputCount > maxInputs(params)) return null
+
+  const changelessFee = feeFor(params, inputCount, false)
+  if (inputTotal < params.target + BigInt(changelessFee)) return null
+
+  const changeFee = feeFor(params, inputCount, true)
+  const change = inputTotal - params.target - BigInt(changeFee)
+  if (change >= DUST_THRESHOLD) {
+    return { fee: changeFee, change }
+  }
+  // Too little left for a change output, so the excess goes to the fee
+  return { fee: Number(inputTotal - params.target), change: 0n }
+}
+
+function finish(
+  params: CoinSelectionParams,
+  utxos: UtxoEntry[],
+): CoinSelection | null {
+  const inputTotal = utxos.reduce((sum, utxo) => sum + BigInt(utxo.value), 0n)
+  const settled = settle(params, utxos.length, inputTotal)
+  return settled ? { utxos, ...settled } : null
+}
+
+function toGroups(utxos: UtxoEntry[]): CoinGroup[] {
+  return utxos.map(utxo => ({ utxos: [utxo], value: BigInt(utxo.value) }))
+}
+
+function byValueDescending(a: CoinGroup, b: CoinGroup): number {
+  return a.value === b.value ? 0 : a.value > b.value ? -1 : 1
+}
+
+// ============================================================================
+// Strategies
+// ============================================================================
+
+function largestFirst(
+  params: CoinSelectionParams,
+  groups: CoinGroup[],
+): CoinSelection | null {
+  const selected: UtxoEntry[] = []
+  let total = 0n
+  for (const group of [...groups].sort(byValueDescending)) {
+    selected.push(...group.utxos)
+    total += group.value
+    const settled = settle(params, selected.length, total)
+    if (settled) return { utxos: selected, ...settled }
+  }
+  return null
+}
+
+function smallestSufficient(
+  params: CoinSelectionParams,
+  groups: CoinGroup[],
+): CoinSelection | null {
+  const remaining = [...groups].sort(byValueDescending)
+  const selected: UtxoEntry[] = []
+  let total = 0n
+
+  while (remaining.length > 0) {
+    // Smallest group that completes the selection, if any
+    for (let i = remaining.length - 1; i >= 0; i--) {
+      const group = remaining[i]
+      const settled = settle(
+        params,
+        selected.length + group.utxos.length,
+        total + group.value,
+      )
+      if (settled) {
+        return { utxos: [...selected, ...group.utxos], ...settled }
+      }
+    }
+    // Otherwise take the largest and look again
+    const largest = remaining.shift()!
+    selected.push(...largest.utxos)
+    total += largest.value
+    if (selected.length > maxInputs(params)) return null
+  }
+  return null
+}
+
+/**
+ * Depth-first search for coins whose value after input fees lands between
+ * the amount needed and that amount plus the cost of a change output.
+ */
+function branchAndBound(
+  params: CoinSelectionParams,
+  utxos: UtxoEntry[],
+): CoinSelection | null {
+  const inputFee = BigInt(Math.ceil(params.inputSize * params.feeRate))
+  const candidates = utxos
+    .map(utxo => ({ utxo, effective: BigInt(utxo.value) - inputFee }))
+    .filter(c => c.effective > 0n)
+    .sort((a, b) =>
+      a.effective === b.effective ? 0 : a.effective > b.effective ? -1 : 1,
+    )
+
+  const low =
+    params.target + BigInt(Math.ceil(params.baseSize * params.feeRate))
+  const high =
+    low +
+    BigInt(Math.ceil(params.changeSize * params.feeRate)) +
+    DUST_THRESHOLD
+
+  // Sum of the effective values not yet decided on, for pruning
+  const remainingAfter: bigint[] = new Array(candidates.length + 1).fill(0n)
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    remainingAfter[i] = remainingAfter[i + 1] + candidates[i].effective
+  }
+
+  const limit = maxInputs(params)
+  const chosen: number[] = []
+  const best = { indexes: null as number[] | null, total: 0n }
+  let tries = 0
+
+  function search(index: number, total: bigint) {
+    if (++tries > BNB_MAX_TRIES) return
+    if (total > high || total + remainingAfter[index] < low) return
+    if (total >= low) {
+      // Least excess over the amount needed wins
+      if (!best.indexes || total < best.total) {
+        best.indexes = [...chosen]
+        best.total = total
+      }
+      return
+    }
+    if (index >= candidates.length || chosen.length >= limit) return
+
+    chosen.push(index)
+    search(index + 1, total + candidates[index].effective)
+    chosen.pop()
+
+    // Skipping a coin equal to the one just skipped gives the same sums
+    let next = index + 1
+    while (
+      next < candidates.length &&
+      candidates[next].effective === candidates[index].effective
+    ) {
+      next++
+    }
+    search(next, total)
+  }
+
+  search(0, 0n)
+  if (!best.indexes) return null
+  return finish(
+    params,
+    best.indexes.map(i => candidates[i].utxo),
+  )
+}
+
+/**
+ * Group coins by address and account. Each address is spent whole, and an
+ * account that can pay alone is preferred, the one leaving least change.
+ */
+function privacy(
+  params: CoinSelectionParams,
+  utxos: UtxoEntry[],
+): CoinSelection | null {
+  const addresses = new Map<string, CoinGroup>()
+  for (const utxo of utxos) {
+    // Entries without a path cannot be told apart, so each stands alone
+    const key = utxo.path ?? utxo.outpoint
+    const group = addresses.get(key) ?? { utxos: [], value: 0n }
+    group.utxos.push(utxo)
+    group.value += BigInt(utxo.value)
+    addresses.set(key, group)
+  }
+
+  const accounts = new Map<number, CoinGroup[]>()
+  for (const group of addresses.values()) {
+    const path = group.utxos[0].path
+    const account = path ? (parseDerivationPath(path)?.accountIndex ?? -1) : -1
+    accounts.set(account, [...(accounts.get(account) ?? []), group])
+  }
+
+  let best: CoinSelection | null = null
+  for (const groups of accounts.values()) {
+    const result = smallestSufficient(params, groups)
+    if (result && (!best || result.change < best.change)) {
+      best = result
+    }
+  }
+  return best ?? smallestSufficient(params, [...addresses.values()])
+}
+
+// ============================================================================
+// Entry Point
+// ============================================================================
+
+/**
+ * Select coins to pay `params.target` plus fee.
+ *
+ * @returns The selected coins with their fee and change, or null if the
+ * coins cannot cover the amount within the maximum transaction size
+ */
+export function selectCoins(
+  strategy: CoinSelectionStrategy,
+  params: CoinSelectionParams,
+): CoinSelection | null {
+  if (params.utxos.length === 0) return null
+
+  switch (strategy) {
+    case 'branch-and-bound':
+      return (
+        branchAndBound(params, params.utxos) ??
+        smallestSufficient(params, toGroups(params.utxos))
+      )
+    case 'smallest-sufficient':
+      return smallestSufficient(params, toGroups(params.utxos))
+    case 'privacy':
+      return privacy(params, params.utxos)
+    case 'largest-first':
+      return largestFirst(params, toGroups(params.utxos))
+  }
+}
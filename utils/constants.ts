@@ -12,8 +12,9 @@
 /**
  * All network configurations
  */
-export const NETWORK_CONFIGS: Record<NetworkType, NetworkConfig> = {
+export const NETWORK_CONFIGS: Record<BuiltinNetworkType, NetworkConfig> = {
   livenet: {
+    id: 'livenet',
     name: 'livenet',
     displayName: 'Mainnet',
     networkChar: '_',
@@ -25,6 +26,7 @@ export const NETWORK_CONFIGS: Record<NetworkType, NetworkConfig> = {
     isProduction: true,
   },
   testnet: {
+    id: 'testnet',
     name: 'testnet',
     displayName: 'Testnet',
     networkChar: 'T',
@@ -35,17 +37,19 @@ export const NETWORK_CONFIGS: Record<NetworkType, NetworkConfig> = {
     color: 'warning',
     isProduction: false,
   },
-  /* regtest: {
-    name: 'regtest',
-    displayName: 'Regtest',
-    networkChar: 'R',
-    chronikUrl: 'http://localhost:8331',
-    explorerUrl: '',
-    explorerApiUrl: '',
-    rankApiUrl: '',
-    color: 'info',
-    isProduction: false,
-  }, */
+}
+
+/**
+ * Starting values for a new custom network profile: a local regtest node
+ */
+export const DEFAULT_NETWORK_PROFILE_INPUT: NetworkProfileInput = {
+  displayName: 'Regtest',
+  networkChar: 'R',
+  chronikUrl: 'http://localhost:8331',
+  fallbackChronikUrls: [],
+  explorerUrl: '',
+  explorerApiUrl: '',
+  rankApiUrl: '',
 }
 
 /** Default network */
@@ -103,6 +107,11 @@ export const ACCOUNT_DESCRIPTIONS: Record<AccountPurpose, string> = {
   [AccountPurpose.PRIVACY]: 'Enhanced privacy features',
 }
 
+/**
+ * BIP44 gap limit: consecutive unused addresses scanned before discovery stops
+ */
+export const DEFAULT_GAP_LIMIT = 20
+
 /**
  * Default account configurations
  */
@@ -111,7 +120,7 @@ export const DEFAULT_ACCOUNTS: AccountConfig[] = [
     purpose: AccountPurpose.PRIMARY,
     label: 'Primary Wallet',
     enabled: true,
-    gapLimit: 0,
+    gapLimit: DEFAULT_GAP_LIMIT,
   },
   {
     purpose: AccountPurpose.MUSIG2,
@@ -241,6 +250,12 @@ export const MAX_CONCURRENT_SESSIONS = 5
 /** Maximum transaction history items to display */
 export const MAX_HISTORY_DISPLAY = 100
 
+/** Transaction history items loaded from the local cache at a time */
+export const HISTORY_PAGE_SIZE = 25
+
+/** Transactions fetched per Chronik request when syncing history */
+export const HISTORY_SYNC_PAGE_SIZE = 200
+
 /** Consensus-enforced maximum output amount (2.1B XPI) */
 export const MAX_OUTPUT_AMOUNT = 2_100_000_000_1000_000n
 
@@ -260,9 +275,32 @@ export const TESTNET_CHAR = 'T'
 /** Regtest network character */
 export const REGTEST_CHAR = 'R'
 
+/** Network character of each network's addresses */
+export const NETWORK_CHARS: Record<NetworkType, string> = {
+  livenet: MAINNET_CHAR,
+  testnet: TESTNET_CHAR,
+  regtest: REGTEST_CHAR,
+}
+
 /** Payment URI scheme prefix (BIP21-style) */
 export const PAYMENT_URI_SCHEME = 'sendto'
 
+// ============================================================================
+// Offline Signing
+// ============================================================================
+
+/** Format identifier of offline transaction bundles */
+export const OFFLINE_BUNDLE_FORMAT = 'lotus-offline-tx'
+
+/** Current offline transaction bundle version */
+export const OFFLINE_BUNDLE_VERSION = 1
+
+/** Prefix of animated QR frames carrying an offline bundle */
+export const OFFLINE_QR_FRAME_PREFIX = 'LTX'
+
+/** Characters of bundle data per animated QR frame */
+export const OFFLINE_QR_FRAME_SIZE = 300
+
 // ============================================================================
 // Network Monitor
 // ============================================================================
@@ -0,0 +1,151 @@
+/**
+ * Fee Estimation
+ *
+ * Suggests fee rates from what transactions in recent blocks and in the
+ * mempool paid. The lowest rate each block accepted shows what it takes to
+ * get in; unconfirmed rates show what is competing for the next block.
+ * Rates are whole sat/byte, as transactions are built with.
+ */
+import { MAX_FEE_RATE, MIN_FEE_RATE } from './constants'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FeePreset = 'slow' | 'normal' | 'fast'
+
+/** Minimal transaction shape for working out its fee rate */
+export interface FeeRateTx {
+  isCoinbase?: boolean
+  /** Serialized size in bytes */
+  size: number
+  inputs: { value: string }[]
+  outputs: { value: string }[]
+}
+
+export interface FeePresetEstimate {
+  /** Fee rate in sat/byte */
+  feeRate: number
+  /** Blocks within which the transaction is expected to confirm */
+  blocks: number
+  /** Expected time to confirm, in minutes */
+  minutes: number
+}
+
+export interface FeeEstimates {
+  slow: FeePresetEstimate
+  normal: FeePresetEstimate
+  fast: FeePresetEstimate
+  /** Recent blocks sampled */
+  blockCount: number
+  /** Unconfirmed transactions sampled */
+  mempoolCount: number
+  /** When the samples were taken, in milliseconds */
+  updatedAt: number
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const FEE_PRESETS: { value: FeePreset; label: string }[] = [
+  { value: 'slow', label: 'Slow' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'fast', label: 'Fast' },
+]
+
+/** Blocks each preset aims to confirm within */
+export const FEE_PRESET_TARGET_BLOCKS: Record<FeePreset, number> = {
+  slow: 6,
+  normal: 3,
+  fast: 1,
+}
+
+/** Average Lotus block interval */
+const BLOCK_TIME_MINUTES = 2
+
+// ============================================================================
+// Rates
+// ============================================================================
+
+/**
+ * Fee rate a transaction paid in sat/byte, null for a coinbase or a
+ * transaction whose input values are unknown
+ */
+export function txFeeRate(tx: FeeRateTx): number | null {
+  if (tx.isCoinbase || tx.size <= 0) return null
+  const sum = (items: { value: string }[]) =>
+    items.reduce((total, item) => total + BigInt(item.value || '0'), 0n)
+  const fee = sum(tx.inputs) - sum(tx.outputs)
+  if (fee < 0n) return null
+  return Number(fee) / tx.size
+}
+
+/** Value at a fraction `p` of sorted values, 0 to 1 */
+function percentile(sorted: number[], p: number): number {
+  const index = Math.min(
+    sorted.length - 1,
+    Math.max(0, Math.ceil(p * sorted.length) - 1),
+  )
+  return sorted[index]
+}
+
+function toFeeRate(rate: number): number {
+  return Math.min(MAX_FEE_RATE, Math.max(MIN_FEE_RATE, Math.ceil(rate)))
+}
+
+/**
+ * A preset's fee rate with its expected confirmation time
+ */
+export function feePresetEstimate(
+  feeRate: number,
+  preset: FeePreset,
+): FeePresetEstimate {
+  const blocks = FEE_PRESET_TARGET_BLOCKS[preset]
+  return { feeRate, blocks, minutes: blocks * BLOCK_TIME_MINUTES }
+}
+
+/**
+ * Estimate a fee rate for each preset.
+ *
+ * - slow: the lowest rate recent blocks accepted
+ * - normal: the typical lowest accepted rate, or the median unconfirmed rate
+ * - fast: the highest lowest accepted rate, or what most of the mempool pays
+ *
+ * @param blocks - Fee rates of each recent block's transactions
+ * @param mempool - Fee rates of unconfirmed transactions
+ */
+export function estimateFeeRates(
+  blocks: number[][],
+  mempool: number[],
+): FeeEstimates {
+  // A block without transactions took anything paying the minimum
+  const floors = blocks
+    .map(rates => (rates.length ? Math.min(...rates) : MIN_FEE_RATE))
+    .sort((a, b) => a - b)
+  const pending = [...mempool].sort((a, b) => a - b)
+
+  const fromBlocks = (p: number) =>
+    floors.length ? percentile(floors, p) : MIN_FEE_RATE
+  const fromMempool = (p: number) =>
+    pending.length ? percentile(pending, p) : MIN_FEE_RATE
+
+  const slow = toFeeRate(fromBlocks(0.1))
+  const normal = Math.max(
+    slow,
+    toFeeRate(Math.max(fromBlocks(0.5), fromMempool(0.5))),
+  )
+  const fast = Math.max(
+    normal,
+    toFeeRate(Math.max(fromBlocks(1), fromMempool(0.75))),
+  )
+
+  return {
+    slow: feePresetEstimate(slow, 'slow'),
+    normal: feePresetEstimate(normal, 'normal'),
+    fast: feePresetEstimate(fast, 'fast'),
+    blockCount: blocks.length,
+    mempoolCount: mempool.length,
+    updatedAt: Date.now(),
+  }
+}
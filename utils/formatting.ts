@@ -147,9 +147,7 @@ export function truncateAddress(
 /**
  * Get the network from a Lotus address
  */
-export function getNetworkFromAddress(
-  address: string,
-): 'livenet' | 'testnet' | null {
+export function getNetworkFromAddress(address: string): NetworkType | null {
   if (!address || !address.startsWith(LOTUS_PREFIX)) {
     return null
   }
@@ -160,6 +158,8 @@ export function getNetworkFromAddress(
       return 'livenet'
     case TESTNET_CHAR:
       return 'testnet'
+    case REGTEST_CHAR:
+      return 'regtest'
     default:
       return null
   }
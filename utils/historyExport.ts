@@ -0,0 +1,324 @@
+/**
+ * History Export
+ *
+ * Turns the wallet's on-chain history into rows for bookkeeping and
+ * serialises them as CSV or JSON. CSV columns follow a preset: the wallet's
+ * own layout, or the import layout of Koinly or CoinTracking.
+ */
+import { LOTUS_DECIMALS } from './constants'
+import type {
+  TransactionHistoryItem,
+  TxClassificationKind,
+} from './types/wallet'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type HistoryExportFormat = 'csv' | 'json'
+
+export type HistoryExportPreset = 'standard' | 'koinly' | 'cointracking'
+
+/**
+ * One transaction as exported. Amounts are XPI decimal strings.
+ */
+export interface HistoryExportRow {
+  /** ISO 8601 date */
+  date: string
+  txid: string
+  type: TxClassificationKind
+  direction: 'incoming' | 'outgoing'
+  /** Net amount received or spent, including the fee for outgoing */
+  amount: string
+  amountSats: string
+  /** Fee paid by the wallet, empty when someone else paid it */
+  fee: string
+  feeSats: string
+  /** Counterparty addresses, space separated */
+  counterparty: string
+  /** Contact names of the counterparties, comma separated */
+  contact: string
+  label: string
+  /** `platform/profileId[/postId]` a RANK vote or RNKC comment is for */
+  burnTarget: string
+  /** RANK vote sentiment */
+  sentiment: string
+  /** Wallet accounts involved, comma separated */
+  account: string
+  /** Value of `amount` in fiat at the time, for cost basis */
+  fiatValue: string
+  fiatCurrency: string
+  blockHeight: number
+}
+
+/**
+ * Lookups that enrich rows beyond what the history entry holds
+ */
+export interface HistoryExportOptions {
+  /** Contact name for an address */
+  contactName?: (address: string) => string | undefined
+  /** Label or memo for a transaction */
+  label?: (item: TransactionHistoryItem) => string | undefined
+  /** Display name of a wallet account */
+  accountName?: (account: string | number) => string
+  /** Fiat value of a transaction's amount at the time it happened */
+  fiatValue?: (
+    item: TransactionHistoryItem,
+  ) => { value: string; currency: string } | undefined
+}
+
+const CURRENCY = 'XPI'
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Satoshis as an exact XPI decimal string, without grouping
+ */
+export function formatExportAmount(sats: string | bigint): string {
+  const value = BigInt(sats)
+  const negative = value < 0n
+  const abs = negative ? -value : value
+  const unit = 10n ** BigInt(LOTUS_DECIMALS)
+  const fraction = (abs % unit)
+    .toString()
+    .padStart(LOTUS_DECIMALS, '0')
+    .replace(/0+$/, '')
+  return `${negative ? '-' : ''}${abs / unit}${fraction ? `.${fraction}` : ''}`
+}
+
+/** `YYYY-MM-DD HH:mm:ss` in UTC, as accounting tools import it */
+function formatUTC(isoDate: string): string {
+  return isoDate.replace('T', ' ').replace(/\.\d+Z$/, '')
+}
+
+function escapeCSV(value: string | number): string {
+  let text = String(value)
+  // Keep spreadsheets from evaluating user-entered text as a formula
+  if (/^[=+\-@]/.test(text) && Number.isNaN(Number(text))) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCSV(headers: string[], rows: (string | number)[][]): string {
+  return [headers, ...rows]
+    .map(row => row.map(escapeCSV).join(','))
+    .join('\r\n')
+}
+
+// ============================================================================
+// Rows
+// ============================================================================
+
+function typeOf(item: TransactionHistoryItem): TxClassificationKind {
+  // Entries cached before classification only know their direction
+  return item.kind ?? (item.isSend ? 'send' : 'receive')
+}
+
+/**
+ * Build export rows for history entries, in the order given
+ */
+export function toHistoryExportRows(
+  items: TransactionHistoryItem[],
+  options: HistoryExportOptions = {},
+): HistoryExportRow[] {
+  return items.map(item => {
+    const counterparties =
+      item.counterparties ?? (item.address ? [item.address] : [])
+    const contacts = counterparties
+      .map(address => options.contactName?.(address))
+      .filter((name): name is string => !!name)
+    const target = item.burnTarget
+    const fiat = options.fiatValue?.(item)
+
+    return {
+      date: new Date(Number(item.timestamp) * 1000).toISOString(),
+      txid: item.txid,
+      type: typeOf(item),
+      direction: item.isSend ? 'outgoing' : 'incoming',
+      amount: formatExportAmount(item.amount),
+      amountSats: item.amount,
+      fee: item.fee ? formatExportAmount(item.fee) : '',
+      feeSats: item.fee ?? '',
+      counterparty: counterparties.join(' '),
+      contact: [...new Set(contacts)].join(', '),
+      label: options.label?.(item) ?? '',
+      burnTarget: target
+        ? [target.platform, target.profileId, target.postId]
+            .filter(Boolean)
+            .join('/')
+        : '',
+      sentiment: target?.sentiment ?? '',
+      account: (item.accounts ?? [])
+        .map(account => options.accountName?.(account) ?? String(account))
+        .join(', '),
+      fiatValue: fiat?.value ?? '',
+      fiatCurrency: fiat?.currency ?? '',
+      blockHeight: item.blockHeight,
+    }
+  })
+}
+
+/**
+ * Amount that left the wallet other than the fee, or the fee itself for a
+ * transaction that only moved coins between the wallet's own addresses
+ */
+function sentExcludingFee(row: HistoryExportRow): string {
+  if (row.type === 'self' || row.type === 'internal') {
+    return row.fee || row.amount
+  }
+  return formatExportAmount(BigInt(row.amountSats) - BigInt(row.feeSats || 0))
+}
+
+function describe(row: HistoryExportRow): string {
+  return [
+    row.label,
+    row.contact,
+    row.burnTarget && `Burned for ${row.burnTarget}`,
+  ]
+    .filter(Boolean)
+    .join(' - ')
+}
+
+// ============================================================================
+// Serialisation
+// ============================================================================
+
+const STANDARD_COLUMNS: [keyof HistoryExportRow, string][] = [
+  ['date', 'Date'],
+  ['txid', 'Transaction ID'],
+  ['type', 'Type'],
+  ['direction', 'Direction'],
+  ['amount', 'Amount (XPI)'],
+  ['fee', 'Fee (XPI)'],
+  ['counterparty', 'Counterparty'],
+  ['contact', 'Contact'],
+  ['label', 'Label'],
+  ['burnTarget', 'Burn Target'],
+  ['sentiment', 'Sentiment'],
+  ['account', 'Account'],
+  ['fiatValue', 'Fiat Value'],
+  ['fiatCurrency', 'Fiat Currency'],
+  ['blockHeight', 'Block Height'],
+]
+
+/** Koinly universal format */
+function toKoinlyCSV(rows: HistoryExportRow[]): string {
+  const headers = [
+    'Date',
+    'Sent Amount',
+    'Sent Currency',
+    'Received Amount',
+    'Received Currency',
+    'Fee Amount',
+    'Fee Currency',
+    'Net Worth Amount',
+    'Net Worth Currency',
+    'Label',
+    'Description',
+    'TxHash',
+  ]
+  const koinlyLabel: Partial<Record<TxClassificationKind, string>> = {
+    coinbase: 'mining',
+    burn: 'cost',
+    self: 'cost',
+    internal: 'cost',
+  }
+  return toCSV(
+    headers,
+    rows.map(row => {
+      const outgoing = row.direction === 'outgoing'
+      const feeOnly = row.type === 'self' || row.type === 'internal'
+      const fee = outgoing && !feeOnly ? row.fee : ''
+      return [
+        `${formatUTC(row.date)} UTC`,
+        outgoing ? sentExcludingFee(row) : '',
+        outgoing ? CURRENCY : '',
+        outgoing ? '' : row.amount,
+        outgoing ? '' : CURRENCY,
+        fee,
+        fee ? CURRENCY : '',
+        row.fiatValue,
+        row.fiatCurrency,
+        koinlyLabel[row.type] ?? '',
+        describe(row),
+        row.txid,
+      ]
+    }),
+  )
+}
+
+/** CoinTracking CSV import format */
+function toCoinTrackingCSV(rows: HistoryExportRow[]): string {
+  const headers = [
+    'Type',
+    'Buy Amount',
+    'Buy Currency',
+    'Sell Amount',
+    'Sell Currency',
+    'Fee',
+    'Fee Currency',
+    'Exchange',
+    'Trade-Group',
+    'Comment',
+    'Date',
+    'Tx-ID',
+  ]
+  const trackingType: Record<TxClassificationKind, string> = {
+    coinbase: 'Mining',
+    receive: 'Deposit',
+    send: 'Withdrawal',
+    burn: 'Spend',
+    self: 'Other Fee',
+    internal: 'Other Fee',
+    external: 'Deposit',
+  }
+  return toCSV(
+    headers,
+    rows.map(row => {
+      const outgoing = row.direction === 'outgoing'
+      const feeOnly = row.type === 'self' || row.type === 'internal'
+      const fee = outgoing && !feeOnly ? row.fee : ''
+      return [
+        trackingType[row.type],
+        outgoing ? '' : row.amount,
+        outgoing ? '' : CURRENCY,
+        outgoing ? sentExcludingFee(row) : '',
+        outgoing ? CURRENCY : '',
+        fee,
+        fee ? CURRENCY : '',
+        'Lotus Wallet',
+        row.account,
+        describe(row),
+        formatUTC(row.date),
+        row.txid,
+      ]
+    }),
+  )
+}
+
+/**
+ * Serialise rows in a file format, with CSV columns from a preset
+ */
+export function serializeHistoryExport(
+  rows: HistoryExportRow[],
+  format: HistoryExportFormat,
+  preset: HistoryExportPreset = 'standard',
+): string {
+  if (format === 'json') {
+    return JSON.stringify(rows, null, 2)
+  }
+  switch (preset) {
+    case 'koinly':
+      return toKoinlyCSV(rows)
+    case 'cointracking':
+      return toCoinTrackingCSV(rows)
+    case 'standard':
+      return toCSV(
+        STANDARD_COLUMNS.map(([, header]) => header),
+        rows.map(row => STANDARD_COLUMNS.map(([key]) => row[key])),
+      )
+  }
+}
@@ -5,6 +5,9 @@
  * These utilities work with the unified Identity model.
  */
 import { getBitcore, isBitcoreLoaded } from '~/plugins/bitcore.client'
+import { getNetworkFromAddress } from './formatting'
+import type { NetworkType } from './types/network'
+import type { AddressType } from './types/wallet'
 
 /**
  * Validate a compressed public key format.
@@ -29,11 +32,13 @@ export function isValidPublicKey(publicKeyHex: string): boolean {
  *
  * @param publicKeyHex - Compressed public key in hex format
  * @param network - Network type ('livenet' or 'testnet')
+ * @param addressType - Address type to derive, as wallets generate them
  * @returns Lotus address string, or null if derivation fails
  */
 export function deriveAddressFromPublicKey(
   publicKeyHex: string,
-  network: 'livenet' | 'testnet' = 'livenet',
+  network: NetworkType = 'livenet',
+  addressType: AddressType = 'p2pkh',
 ): string | null {
   if (!isBitcoreLoaded()) {
     console.warn('[Identity] Bitcore not loaded, cannot derive address')
@@ -56,7 +61,13 @@ export function deriveAddressFromPublicKey(
     }
 
     const pubKey = new Bitcore.PublicKey(publicKeyHex)
-    const address = Bitcore.Address.fromPublicKey(pubKey, network)
+    const address =
+      addressType === 'p2tr-commitment'
+        ? Bitcore.Address.fromTaprootCommitment(
+            Bitcore.tweakPublicKey(pubKey, Bitcore.BufferUtil.alloc(32)),
+            network,
+          )
+        : Bitcore.Address.fromPublicKey(pubKey, network)
     return address.toString()
   } catch (error) {
     console.error('[Identity] Failed to derive address:', error)
@@ -64,6 +75,27 @@ export function deriveAddressFromPublicKey(
   }
 }
 
+/**
+ * Check that a public key derives an address of either address type.
+ *
+ * @param publicKeyHex - Compressed public key in hex format
+ * @param address - Address claimed for the key
+ * @returns true if the key derives the address
+ */
+export function publicKeyDerivesAddress(
+  publicKeyHex: string,
+  address: string,
+): boolean {
+  const network = getNetworkFromAddress(address)
+  if (!network) return false
+  const addressTypes: AddressType[] = ['p2pkh', 'p2tr-commitment']
+  return addressTypes.some(
+    addressType =>
+      deriveAddressFromPublicKey(publicKeyHex, network, addressType) ===
+      address,
+  )
+}
+
 /**
  * Create an Identity from a public key.
  *
@@ -74,7 +106,7 @@ export function deriveAddressFromPublicKey(
  */
 export function createIdentity(
   publicKeyHex: string,
-  network: 'livenet' | 'testnet' = 'livenet',
+  network: NetworkType = 'livenet',
 ): Identity {
   if (!isValidPublicKey(publicKeyHex)) {
     throw new Error('Invalid public key format')
@@ -105,7 +137,7 @@ export function createIdentity(
  */
 export function createIdentityFromInput(
   input: IdentityInput,
-  network: 'livenet' | 'testnet' = 'livenet',
+  network: NetworkType = 'livenet',
 ): Identity {
   const identity = createIdentity(input.publicKeyHex, network)
 
@@ -12,9 +12,12 @@ export * from './types/activity'
 export * from './types/crypto-worker'
 export * from './types/explorer'
 export * from './types/identity'
+export * from './types/labels'
 export * from './types/musig2'
 export * from './types/network'
+export * from './types/offline'
 export * from './types/people'
 export * from './types/plugins'
+export * from './types/price'
 export * from './types/sw'
 export * from './types/wallet'
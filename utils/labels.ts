@@ -0,0 +1,100 @@
+/**
+ * Wallet Labels
+ *
+ * Reading and writing transaction and address labels in the BIP-329 wallet
+ * label format: JSON Lines, one `{ type, ref, label }` record per line.
+ */
+import type { Bip329Record, LabelType, WalletLabel } from './types/labels'
+
+/**
+ * Result of parsing a BIP-329 file. Valid records are returned even when
+ * other lines fail.
+ */
+export interface Bip329ParseResult {
+  labels: WalletLabel[]
+  /** Valid records of a type the wallet does not label */
+  skipped: number
+  errors: { line: number; message: string }[]
+}
+
+/** Longest label kept, in characters */
+export const MAX_LABEL_LENGTH = 255
+
+const LABEL_TYPES: LabelType[] = ['tx', 'addr']
+
+/**
+ * Key of a label in the labels store
+ */
+export function labelKey(type: LabelType, ref: string): string {
+  return `${type}:${ref}`
+}
+
+/**
+ * Trim a label and cut it to the maximum length
+ */
+export function normalizeLabel(label: string): string {
+  return label.trim().slice(0, MAX_LABEL_LENGTH)
+}
+
+/**
+ * Parse a BIP-329 export. Records of types the wallet does not label
+ * (`pubkey`, `input`, `output`, `xpub`) are counted as skipped. Records
+ * with an empty label are returned, so importing them clears the label.
+ */
+export function parseBip329(text: string): Bip329ParseResult {
+  const result: Bip329ParseResult = { labels: [], skipped: 0, errors: [] }
+  const now = Date.now()
+
+  text.split(/\r?\n/).forEach((rawLine, i) => {
+    const line = i + 1
+    const content = rawLine.trim()
+    if (!content) return
+
+    let record: Partial<Bip329Record>
+    try {
+      record = JSON.parse(content)
+    } catch {
+      result.errors.push({ line, message: 'Not valid JSON' })
+      return
+    }
+    if (
+      typeof record !== 'object' ||
+      record === null ||
+      typeof record.type !== 'string' ||
+      typeof record.ref !== 'string' ||
+      !record.ref
+    ) {
+      result.errors.push({ line, message: 'Missing type or ref' })
+      return
+    }
+    if (!LABEL_TYPES.includes(record.type as LabelType)) {
+      result.skipped++
+      return
+    }
+    if (record.label !== undefined && typeof record.label !== 'string') {
+      result.errors.push({ line, message: 'Label is not a string' })
+      return
+    }
+
+    result.labels.push({
+      type: record.type as LabelType,
+      ref: record.ref,
+      label: normalizeLabel(record.label ?? ''),
+      updatedAt: now,
+    })
+  })
+
+  return result
+}
+
+/**
+ * Serialise labels as BIP-329 JSON Lines
+ */
+export function serializeBip329(labels: WalletLabel[]): string {
+  return labels
+    .map(({ type, ref, label }) => {
+      const record: Bip329Record = { type, ref, label }
+      return JSON.stringify(record)
+    })
+    .join('\n')
+}
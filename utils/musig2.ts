@@ -0,0 +1,133 @@
+/**
+ * MuSig2 Utilities
+ *
+ * Deterministic key aggregation for shared wallets. Every participant
+ * derives the wallet from the same set of public keys, so the result must
+ * not depend on the order the keys were collected in.
+ *
+ * Also the texts participants sign with their MuSig2 key, and checking
+ * those signatures against a public key.
+ */
+import { getBitcore } from '~/plugins/bitcore.client'
+import { isValidPublicKey } from './identity'
+import type { NetworkType } from './types/network'
+
+/**
+ * Aggregated key and address of a shared wallet
+ */
+export interface SharedWalletKey {
+  /** Participant public keys, sorted */
+  publicKeys: string[]
+  /** MuSig2 aggregated (internal) public key in hex format */
+  aggregatedPublicKeyHex: string
+  /** Taproot address committing to the aggregated key */
+  address: string
+}
+
+/**
+ * Sort compressed public keys lexicographically, normalizing hex case.
+ *
+ * @param publicKeys - Compressed public keys in hex format
+ * @returns New sorted array
+ */
+export function sortPublicKeys(publicKeys: string[]): string[] {
+  return publicKeys.map(key => key.toLowerCase()).sort()
+}
+
+/**
+ * Aggregate participant public keys with MuSig2 and derive the key-path
+ * Taproot address for the current network.
+ *
+ * @param publicKeys - Compressed public keys of all participants, including ours
+ * @param network - Network to encode the address for
+ * @returns Sorted keys, aggregated public key and address
+ * @throws If fewer than two distinct valid keys are given
+ */
+export function deriveSharedWalletKey(
+  publicKeys: string[],
+  network: NetworkType,
+): SharedWalletKey {
+  const sorted = sortPublicKeys(publicKeys)
+
+  for (const key of sorted) {
+    if (!isValidPublicKey(key)) {
+      throw new Error(`Invalid public key: ${key.slice(0, 16)}...`)
+    }
+  }
+  if (new Set(sorted).size !== sorted.length) {
+    throw new Error('Duplicate participant public key')
+  }
+  if (sorted.length < 2) {
+    throw new Error('A shared wallet needs at least two participants')
+  }
+
+  const Bitcore = getBitcore()
+  const taproot = Bitcore.buildMuSig2TaprootKey(
+    sorted.map(hex => new Bitcore.PublicKey(hex)),
+  )
+  const address = Bitcore.Address.fromTaprootCommitment(
+    taproot.commitment,
+    network,
+  )
+
+  return {
+    publicKeys: sorted,
+    aggregatedPublicKeyHex: taproot.aggregatedPubKey.toString(),
+    address: address.toXAddress(network),
+  }
+}
+
+/**
+ * Text signed to join the MuSig2 relay under a key. The relay
+ * (server/api/musig2-relay.ts) builds the same text from its challenge.
+ *
+ * @param challenge - Random challenge sent by the relay
+ */
+export function relayJoinText(challenge: string): string {
+  return `MuSig2 relay join: ${challenge}`
+}
+
+/**
+ * Text signed by the sender of a MuSig2 protocol message
+ *
+ * @param message - Message without its signature
+ */
+export function protocolMessageText(message: object): string {
+  return `MuSig2 message: ${JSON.stringify(message)}`
+}
+
+/**
+ * Text a participant signs to confirm the address it derived for a shared
+ * wallet
+ *
+ * @param walletId - Shared wallet ID
+ * @param address - Address the participant derived
+ */
+export function walletAddressText(walletId: string, address: string): string {
+  return `MuSig2 wallet ${walletId} address: ${address}`
+}
+
+/**
+ * Check a message signature made with the key of `publicKeyHex`.
+ *
+ * @param text - Signed text
+ * @param publicKeyHex - Compressed public key of the claimed signer
+ * @param signature - Compact message signature (base64)
+ * @returns true if the signature verifies against the key
+ */
+export function verifyKeySignature(
+  text: string,
+  publicKeyHex: string,
+  signature: string,
+): boolean {
+  if (!isValidPublicKey(publicKeyHex)) return false
+  try {
+    const Bitcore = getBitcore()
+    const address = Bitcore.Address.fromPublicKey(
+      new Bitcore.PublicKey(publicKeyHex),
+    )
+    return new Bitcore.Message(text).verify(address, signature)
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Network Profiles
+ *
+ * Checks for user-defined network profiles, such as a local regtest node or a
+ * self-hosted Chronik instance. A profile is validated as entered, then
+ * probed so it is only saved once its node answers.
+ */
+import { ChronikClient } from 'chronik-client'
+import { NETWORK_CHARS } from './constants'
+import { withTimeout } from './helpers'
+import { isHttpUrl } from './validation'
+import type {
+  NetworkProbeCheck,
+  NetworkProbeResult,
+  NetworkProfileInput,
+  NetworkType,
+} from './types/network'
+
+/** Each service gets this long to answer a probe */
+const PROBE_TIMEOUT_MS = 8_000
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Network whose addresses use a network character, if any
+ */
+export function networkForChar(networkChar: string): NetworkType | null {
+  const network = (Object.keys(NETWORK_CHARS) as NetworkType[]).find(
+    name => NETWORK_CHARS[name] === networkChar,
+  )
+  return network ?? null
+}
+
+/**
+ * Check a profile's fields. Only the Chronik URL is required; the explorer
+ * and RANK API are optional.
+ *
+ * @returns An error message, or null if the profile is valid
+ */
+export function validateNetworkProfileInput(
+  input: NetworkProfileInput,
+): string | null {
+  if (!input.displayName.trim()) {
+    return 'Enter a name for the network'
+  }
+  if (!networkForChar(input.networkChar)) {
+    return 'Choose the address character of the network'
+  }
+  if (!isHttpUrl(input.chronikUrl)) {
+    return 'Chronik URL must be an http(s) URL'
+  }
+  if (!input.fallbackChronikUrls.every(isHttpUrl)) {
+    return 'Fallback Chronik URLs must be http(s) URLs'
+  }
+  const optional: [string, string][] = [
+    [input.explorerUrl, 'Explorer URL'],
+    [input.explorerApiUrl, 'Explorer API URL'],
+    [input.rankApiUrl, 'RANK API URL'],
+  ]
+  for (const [url, name] of optional) {
+    if (url && !isHttpUrl(url)) {
+      return `${name} must be an http(s) URL`
+    }
+  }
+  return null
+}
+
+/**
+ * Trim fields and drop trailing slashes from URLs
+ */
+export function normalizeNetworkProfileInput(
+  input: NetworkProfileInput,
+): NetworkProfileInput {
+  const url = (value: string) => value.trim().replace(/\/+$/, '')
+  const chronikUrl = url(input.chronikUrl)
+  return {
+    displayName: input.displayName.trim(),
+    networkChar: input.networkChar,
+    chronikUrl,
+    fallbackChronikUrls: [
+      ...new Set(input.fallbackChronikUrls.map(url).filter(Boolean)),
+    ].filter(fallback => fallback !== chronikUrl),
+    explorerUrl: url(input.explorerUrl),
+    explorerApiUrl: url(input.explorerApiUrl),
+    rankApiUrl: url(input.rankApiUrl),
+  }
+}
+
+// ============================================================================
+// Probe
+// ============================================================================
+
+function failed(error: unknown): NetworkProbeCheck {
+  return {
+    ok: false,
+    detail: error instanceof Error ? error.message : String(error),
+  }
+}
+
+async function probeChronik(url: string): Promise<NetworkProbeCheck> {
+  try {
+    const info = await withTimeout(
+      new ChronikClient(url).blockchainInfo(),
+      PROBE_TIMEOUT_MS,
+    )
+    return { ok: true, detail: `Tip height ${info.tipHeight}` }
+  } catch (error) {
+    return failed(error)
+  }
+}
+
+async function probeHttp(url: string): Promise<NetworkProbeCheck> {
+  try {
+    const response = await withTimeout(fetch(url), PROBE_TIMEOUT_MS)
+    return response.ok
+      ? { ok: true, detail: 'Reachable' }
+      : { ok: false, detail: `HTTP ${response.status}` }
+  } catch (error) {
+    return failed(error)
+  }
+}
+
+/**
+ * Contact each service of a profile. The profile is usable when Chronik
+ * answers; services without a URL are skipped.
+ */
+export async function probeNetworkProfile(
+  input: NetworkProfileInput,
+): Promise<NetworkProbeResult> {
+  const skipped: NetworkProbeCheck = {
+    ok: false,
+    skipped: true,
+    detail: 'Not configured',
+  }
+  const [chronik, explorerApi, rankApi] = await Promise.all([
+    probeChronik(input.chronikUrl),
+    input.explorerApiUrl
+      ? probeHttp(`${input.explorerApiUrl}/chain-info`)
+      : skipped,
+    input.rankApiUrl ? probeHttp(`${input.rankApiUrl}/profiles/1/1`) : skipped,
+  ])
+  return { chronik, explorerApi, rankApi, usable: chronik.ok }
+}
@@ -0,0 +1,315 @@
+/**
+ * Offline Signing Utilities
+ *
+ * Serialisation of offline transaction bundles, splitting them into
+ * animated QR frames and decoding them for review. Bundles are plain JSON
+ * so they can also be saved to and loaded from a file.
+ */
+import { getBitcore } from '~/plugins/bitcore.client'
+import {
+  NETWORK_CHARS,
+  OFFLINE_BUNDLE_FORMAT,
+  OFFLINE_BUNDLE_VERSION,
+  OFFLINE_QR_FRAME_PREFIX,
+  OFFLINE_QR_FRAME_SIZE,
+} from './constants'
+import { opReturnDataHex } from './script'
+import type { NetworkType } from './types/network'
+import type {
+  OfflineBundleInput,
+  OfflineBundleSummary,
+  OfflineTransactionBundle,
+} from './types/offline'
+
+// ============================================================================
+// Serialisation
+// ============================================================================
+
+/**
+ * Create a bundle for a transaction and the previous outputs it spends.
+ *
+ * @param txHex - Raw transaction (hex)
+ * @param inputs - Previous outputs, in transaction input order
+ * @param network - Network the transaction is for
+ * @param status - Whether `txHex` is signed
+ */
+export function createOfflineBundle(
+  txHex: string,
+  inputs: OfflineBundleInput[],
+  network: NetworkType,
+  status: OfflineTransactionBundle['status'] = 'unsigned',
+): OfflineTransactionBundle {
+  return {
+    format: OFFLINE_BUNDLE_FORMAT,
+    version: OFFLINE_BUNDLE_VERSION,
+    network,
+    status,
+    txHex,
+    inputs,
+    createdAt: Date.now(),
+  }
+}
+
+/**
+ * Serialise a bundle for export
+ */
+export function encodeOfflineBundle(bundle: OfflineTransactionBundle): string {
+  return JSON.stringify(bundle)
+}
+
+function isHex(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    value.length % 2 === 0 &&
+    /^[0-9a-fA-F]*$/.test(value)
+  )
+}
+
+/**
+ * Parse and validate an imported bundle.
+ *
+ * @param text - Bundle JSON from a file, the clipboard or reassembled QR frames
+ * @returns The bundle, with inputs checked against the transaction
+ * @throws If the text is not a valid bundle
+ */
+export function decodeOfflineBundle(text: string): OfflineTransactionBundle {
+  let data: Partial<OfflineTransactionBundle>
+  try {
+    data = JSON.parse(text.trim())
+  } catch {
+    throw new Error('Not an offline transaction file')
+  }
+
+  if (data?.format !== OFFLINE_BUNDLE_FORMAT) {
+    throw new Error('Not an offline transaction file')
+  }
+  if (data.version !== OFFLINE_BUNDLE_VERSION) {
+    throw new Error(`Unsupported offline transaction version: ${data.version}`)
+  }
+  if (
+    typeof data.network !== 'string' ||
+    !Object.hasOwn(NETWORK_CHARS, data.network)
+  ) {
+    throw new Error('Offline transaction has an unknown network')
+  }
+  if (data.status !== 'unsigned' && data.status !== 'signed') {
+    throw new Error('Offline transaction has an unknown status')
+  }
+  if (!isHex(data.txHex) || !data.txHex) {
+    throw new Error('Offline transaction is missing the transaction data')
+  }
+  if (!Array.isArray(data.inputs)) {
+    throw new Error('Offline transaction is missing its inputs')
+  }
+
+  for (const input of data.inputs) {
+    if (
+      typeof input?.outpoint !== 'string' ||
+      !Number.isSafeInteger(input.satoshis) ||
+      input.satoshis < 0 ||
+      !isHex(input.scriptHex) ||
+      (input.path !== undefined && typeof input.path !== 'string') ||
+      (input.internalPubKeyHex !== undefined &&
+        !isHex(input.internalPubKeyHex)) ||
+      (input.merkleRootHex !== undefined && !isHex(input.merkleRootHex))
+    ) {
+      throw new Error('Offline transaction has a malformed input')
+    }
+  }
+
+  const Bitcore = getBitcore()
+  let tx: InstanceType<typeof Bitcore.Transaction>
+  try {
+    tx = new Bitcore.Transaction(data.txHex)
+  } catch {
+    throw new Error('Offline transaction data cannot be decoded')
+  }
+
+  if (tx.inputs.length !== data.inputs.length) {
+    throw new Error('Offline transaction inputs do not match the transaction')
+  }
+  tx.inputs.forEach((input, i) => {
+    const outpoint = `${input.prevTxId.toString('hex')}_${input.outputIndex}`
+    if (data.inputs![i].outpoint !== outpoint) {
+      throw new Error('Offline transaction inputs do not match the transaction')
+    }
+  })
+
+  return {
+    format: OFFLINE_BUNDLE_FORMAT,
+    version: data.version,
+    network: data.network,
+    status: data.status,
+    txHex: data.txHex,
+    inputs: data.inputs,
+    createdAt: typeof data.createdAt === 'number' ? data.createdAt : Date.now(),
+  }
+}
+
+// ============================================================================
+// Animated QR
+// ============================================================================
+
+const FRAME_PATTERN = new RegExp(`^${OFFLINE_QR_FRAME_PREFIX}/(\\d+)/(\\d+)/`)
+
+/**
+ * Split serialised bundle text into QR frames of the form
+ * `LTX/<index>/<total>/<chunk>`, with 1-based indexes
+ */
+export function splitOfflineQRFrames(
+  text: string,
+  frameSize: number = OFFLINE_QR_FRAME_SIZE,
+): string[] {
+  const total = Math.max(1, Math.ceil(text.length / frameSize))
+  const frames: string[] = []
+  for (let i = 0; i < total; i++) {
+    const part = text.slice(i * frameSize, (i + 1) * frameSize)
+    frames.push(`${OFFLINE_QR_FRAME_PREFIX}/${i + 1}/${total}/${part}`)
+  }
+  return frames
+}
+
+/**
+ * Check if scanned text is an offline bundle QR frame
+ */
+export function isOfflineQRFrame(text: string): boolean {
+  return FRAME_PATTERN.test(text)
+}
+
+/**
+ * Reassembles bundle text from animated QR frames scanned in any order
+ */
+export function createOfflineQRCollector() {
+  const parts = new Map<number, string>()
+  let total = 0
+
+  /**
+   * Add a scanned frame.
+   * @returns The complete bundle text once every frame has been seen
+   */
+  function add(frame: string): string | null {
+    const match = FRAME_PATTERN.exec(frame)
+    if (!match) return null
+
+    const index = Number(match[1])
+    const frameTotal = Number(match[2])
+    if (frameTotal < 1 || index < 1 || index > frameTotal) return null
+
+    // Frames from a different bundle restart collection
+    if (frameTotal !== total) {
+      parts.clear()
+      total = frameTotal
+    }
+    parts.set(index, frame.slice(match[0].length))
+
+    if (parts.size < total) return null
+    let text = ''
+    for (let i = 1; i <= total; i++) {
+      text += parts.get(i)
+    }
+    return text
+  }
+
+  function reset() {
+    parts.clear()
+    total = 0
+  }
+
+  return {
+    add,
+    reset,
+    /** Number of distinct frames received */
+    get received() {
+      return parts.size
+    },
+    /** Number of frames in the bundle being collected, 0 before the first */
+    get total() {
+      return total
+    },
+  }
+}
+
+// ============================================================================
+// Review
+// ============================================================================
+
+/**
+ * Decode a bundle's inputs and outputs for review
+ */
+export function summarizeOfflineBundle(
+  bundle: OfflineTransactionBundle,
+): OfflineBundleSummary {
+  const Bitcore = getBitcore()
+  const tx = new Bitcore.Transaction(bundle.txHex)
+
+  const addressOf = (script: InstanceType<typeof Bitcore.Script>) => {
+    try {
+      return script.toAddress(bundle.network)?.toXAddress(bundle.network) ?? null
+    } catch {
+      return null
+    }
+  }
+
+  const inputs = bundle.inputs.map(input => ({
+    outpoint: input.outpoint,
+    address: addressOf(Bitcore.Script.fromHex(input.scriptHex)),
+    satoshis: BigInt(input.satoshis),
+    path: input.path,
+  }))
+
+  const outputs = tx.outputs.map(output => {
+    const script = output.script
+    const scriptHex = script.toHex()
+    const satoshis = BigInt(output.satoshis)
+    if (script.isDataOut()) {
+      return {
+        address: null,
+        scriptHex,
+        satoshis,
+        opReturnData: opReturnDataHex(script),
+      }
+    }
+    return { address: addressOf(script), scriptHex, satoshis }
+  })
+
+  const inputTotal = inputs.reduce((sum, input) => sum + input.satoshis, 0n)
+  const outputTotal = outputs.reduce((sum, output) => sum + output.satoshis, 0n)
+
+  return {
+    txid: tx.id,
+    status: bundle.status,
+    network: bundle.network,
+    inputs,
+    outputs,
+    inputTotal,
+    outputTotal,
+    fee: inputTotal - outputTotal,
+    locktime: tx.nLockTime,
+  }
+}
+
+/**
+ * Check that a signed bundle is fully and validly signed against the
+ * previous outputs it carries.
+ *
+ * @returns An error message, or null if the transaction verifies
+ */
+export function verifySignedOfflineBundle(
+  bundle: OfflineTransactionBundle,
+): string | null {
+  const Bitcore = getBitcore()
+  const tx = new Bitcore.Transaction(bundle.txHex)
+
+  if (!tx.isFullySigned()) {
+    return 'Transaction is not fully signed'
+  }
+  tx.inputs.forEach((input, i) => {
+    input.output = new Bitcore.Output({
+      script: Bitcore.Script.fromHex(bundle.inputs[i].scriptHex),
+      satoshis: bundle.inputs[i].satoshis,
+    })
+  })
+
+  const result = tx.verify()
+  return result === true ? null : String(result)
+}
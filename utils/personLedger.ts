@@ -0,0 +1,142 @@
+/**
+ * Person Ledger
+ *
+ * Rebuilds what the wallet has exchanged with each person from its on-chain
+ * history, so totals do not depend on the payments this device happened to
+ * see. A transaction is a person's when one of its counterparties is their
+ * address, or an address their public key derives.
+ */
+import { deriveAddressFromPublicKey } from './identity'
+import type { NetworkType } from './types/network'
+import type { Person, PersonLedger } from './types/people'
+import type { AddressType, TransactionHistoryItem } from './types/wallet'
+
+/** Address types a public key is matched under, as wallets generate them */
+const DERIVED_ADDRESS_TYPES: AddressType[] = ['p2pkh', 'p2tr-commitment']
+
+/**
+ * Addresses a person pays from or is paid at: their own, and those their
+ * public key derives on a network
+ */
+export function personAddresses(
+  person: Person,
+  network: NetworkType,
+): string[] {
+  const addresses = new Set([person.address])
+  if (person.publicKeyHex) {
+    for (const addressType of DERIVED_ADDRESS_TYPES) {
+      const derived = deriveAddressFromPublicKey(
+        person.publicKeyHex,
+        network,
+        addressType,
+      )
+      if (derived) addresses.add(derived)
+    }
+  }
+  return [...addresses]
+}
+
+/**
+ * Satoshis each person was paid or paid in a transaction, by person ID.
+ * Only sends and receives involve people.
+ */
+function attribute(
+  item: TransactionHistoryItem,
+  ownerOf: Map<string, string>,
+): Map<string, bigint> {
+  const amounts = new Map<string, bigint>()
+  // Entries cached before classification only know their direction
+  const kind = item.kind ?? (item.isSend ? 'send' : 'receive')
+  if (kind !== 'send' && kind !== 'receive') return amounts
+
+  const counterparties =
+    item.counterparties ?? (item.address ? [item.address] : [])
+
+  if (kind === 'send') {
+    for (const address of counterparties) {
+      const personId = ownerOf.get(address)
+      if (!personId) continue
+      const paid = item.counterpartyAmounts?.[address]
+      if (paid !== undefined) {
+        amounts.set(personId, (amounts.get(personId) ?? 0n) + BigInt(paid))
+      } else if (counterparties.length === 1) {
+        // Without a breakdown, a sole recipient got everything but the fee
+        amounts.set(personId, BigInt(item.amount) - BigInt(item.fee ?? 0))
+      }
+    }
+    return amounts
+  }
+
+  // The senders' inputs include their change, so the wallet's whole gain is
+  // credited to the known sender who put in the most
+  let sender: string | undefined
+  let largest = 0n
+  for (const address of counterparties) {
+    const personId = ownerOf.get(address)
+    if (!personId) continue
+    const paid = BigInt(item.counterpartyAmounts?.[address] ?? 0)
+    if (!sender || paid > largest) {
+      sender = personId
+      largest = paid
+    }
+  }
+  if (sender) amounts.set(sender, BigInt(item.amount))
+  return amounts
+}
+
+/**
+ * Build the ledger of every person the history involves, keyed by person
+ * ID. People with no transactions have no ledger.
+ *
+ * @param items - Wallet history, in any order
+ * @param people - People to attribute transactions to
+ * @param network - Network the history's addresses are encoded for
+ */
+export function buildPersonLedgers(
+  items: TransactionHistoryItem[],
+  people: Person[],
+  network: NetworkType,
+): Map<string, PersonLedger> {
+  const ownerOf = new Map<string, string>()
+  for (const person of people) {
+    for (const address of personAddresses(person, network)) {
+      // The first person saved with an address keeps it
+      if (!ownerOf.has(address)) ownerOf.set(address, person.id)
+    }
+  }
+
+  const ledgers = new Map<string, PersonLedger>()
+  // Running balances accumulate from the oldest transaction
+  const chronological = [...items].sort(
+    (a, b) => Number(a.timestamp) - Number(b.timestamp),
+  )
+  for (const item of chronological) {
+    const timestamp = Number(item.timestamp)
+    const direction = item.isSend ? 'sent' : 'received'
+
+    for (const [personId, amount] of attribute(item, ownerOf)) {
+      let ledger = ledgers.get(personId)
+      if (!ledger) {
+        ledger = { personId, entries: [], totalSent: 0n, totalReceived: 0n }
+        ledgers.set(personId, ledger)
+      }
+      if (item.isSend) {
+        ledger.totalSent += amount
+      } else {
+        ledger.totalReceived += amount
+      }
+      ledger.entries.push({
+        txid: item.txid,
+        timestamp,
+        blockHeight: item.blockHeight,
+        direction,
+        amount,
+        balance: ledger.totalReceived - ledger.totalSent,
+      })
+      ledger.lastActivityAt = timestamp * 1000
+    }
+  }
+
+  ledgers.forEach(ledger => ledger.entries.reverse())
+  return ledgers
+}
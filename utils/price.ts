@@ -0,0 +1,267 @@
+/**
+ * Price Utilities
+ *
+ * Price sources for valuing XPI in fiat, and conversion between satoshis
+ * and fiat amounts. The HTTP source is configured per price API; the mock
+ * source returns fixed prices for development and tests.
+ */
+import { SATS_PER_XPI } from './constants'
+import { isHttpUrl } from './validation'
+import type {
+  CustomPriceUrls,
+  FiatCurrency,
+  HttpPriceSourceConfig,
+  PriceSource,
+  PriceSourceId,
+} from './types/price'
+
+// ============================================================================
+// Currencies
+// ============================================================================
+
+export const FIAT_CURRENCIES: { value: FiatCurrency; label: string }[] = [
+  { value: 'USD', label: 'US Dollar' },
+  { value: 'EUR', label: 'Euro' },
+  { value: 'GBP', label: 'British Pound' },
+  { value: 'JPY', label: 'Japanese Yen' },
+  { value: 'CAD', label: 'Canadian Dollar' },
+  { value: 'AUD', label: 'Australian Dollar' },
+  { value: 'CHF', label: 'Swiss Franc' },
+  { value: 'CNY', label: 'Chinese Yuan' },
+]
+
+export const DEFAULT_FIAT_CURRENCY: FiatCurrency = 'USD'
+
+/** Spot prices older than this are refetched */
+export const SPOT_PRICE_TTL_MS = 5 * 60 * 1000
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+function fillUrl(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? encodeURIComponent(values[key]) : match,
+  )
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60
+
+/** Unix timestamp (seconds) at which a UTC day (`YYYY-MM-DD`) starts */
+function dayStart(day: string): number {
+  return Date.parse(`${day}T00:00:00Z`) / 1000
+}
+
+function readNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0
+    ? value
+    : undefined
+}
+
+/**
+ * Price source backed by an HTTP API
+ */
+export function createHttpPriceSource(
+  config: HttpPriceSourceConfig,
+): PriceSource {
+  async function getJson(url: string): Promise<unknown> {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`${config.name} returned ${response.status}`)
+    }
+    return await response.json()
+  }
+
+  return {
+    id: config.id,
+    name: config.name,
+
+    async fetchSpot(currencies) {
+      const json = await getJson(
+        fillUrl(config.spotUrl, {
+          currencies: currencies.join(',').toLowerCase(),
+        }),
+      )
+      const prices: Partial<Record<FiatCurrency, number>> = {}
+      for (const currency of currencies) {
+        const price = readNumber(config.readSpot(json, currency))
+        if (price !== undefined) prices[currency] = price
+      }
+      return prices
+    },
+
+    async fetchDailyRange(currency, fromDay, toDay) {
+      const json = await getJson(
+        fillUrl(config.rangeUrl, {
+          currency: currency.toLowerCase(),
+          from: String(dayStart(fromDay)),
+          to: String(dayStart(toDay) + SECONDS_PER_DAY - 1),
+        }),
+      )
+      const prices: Record<string, number> = {}
+      for (const point of config.readRange(json) ?? []) {
+        if (!Array.isArray(point) || typeof point[0] !== 'number') continue
+        const day = priceDay(point[0] / 1000)
+        const price = readNumber(point[1])
+        // Points run oldest first; a day's first is nearest its opening
+        if (price !== undefined && !(day in prices)) prices[day] = price
+      }
+      return prices
+    },
+  }
+}
+
+/** CoinGecko's id for Lotus */
+const COINGECKO_COIN_ID = 'lotus'
+
+export const COINGECKO_PRICE_SOURCE: HttpPriceSourceConfig = {
+  id: 'coingecko',
+  name: 'CoinGecko',
+  spotUrl: `https://api.coingecko.com/api/v3/simple/price?ids=${COINGECKO_COIN_ID}&vs_currencies={currencies}`,
+  rangeUrl: `https://api.coingecko.com/api/v3/coins/${COINGECKO_COIN_ID}/market_chart/range?vs_currency={currency}&from={from}&to={to}`,
+  readSpot: (json, currency) =>
+    (json as Record<string, Record<string, number>>)?.[COINGECKO_COIN_ID]?.[
+      currency.toLowerCase()
+    ],
+  readRange: json => {
+    const prices = (json as { prices?: unknown })?.prices
+    return Array.isArray(prices) ? prices : undefined
+  },
+}
+
+/**
+ * Price source with fixed prices, for development and tests. Daily prices
+ * equal the spot price.
+ */
+export function createMockPriceSource(
+  prices: Partial<Record<FiatCurrency, number>> = {
+    USD: 0.0015,
+    EUR: 0.0014,
+  },
+): PriceSource {
+  return {
+    id: 'mock',
+    name: 'Sample prices',
+    async fetchSpot(currencies) {
+      return Object.fromEntries(
+        currencies
+          .filter(currency => prices[currency] !== undefined)
+          .map(currency => [currency, prices[currency]]),
+      )
+    },
+    async fetchDailyRange(currency, fromDay, toDay) {
+      const price = prices[currency]
+      const daily: Record<string, number> = {}
+      if (price === undefined) return daily
+      const end = dayStart(toDay)
+      for (let time = dayStart(fromDay); time <= end; time += SECONDS_PER_DAY) {
+        daily[priceDay(time)] = price
+      }
+      return daily
+    },
+  }
+}
+
+export const PRICE_SOURCE_OPTIONS: { value: PriceSourceId; label: string }[] =
+  [
+    { value: 'coingecko', label: 'CoinGecko' },
+    { value: 'custom', label: 'Custom API' },
+    { value: 'mock', label: 'Sample prices (offline)' },
+  ]
+
+export const DEFAULT_PRICE_SOURCE: PriceSourceId = 'coingecko'
+
+/**
+ * Check custom price API URLs
+ *
+ * @returns An error message, or null if the URLs are valid
+ */
+export function validateCustomPriceUrls(urls: CustomPriceUrls): string | null {
+  if (!isHttpUrl(urls.spotUrl)) {
+    return 'Spot price URL must be an http(s) URL'
+  }
+  if (!urls.spotUrl.includes('{currencies}')) {
+    return 'Spot price URL must contain {currencies}'
+  }
+  if (!isHttpUrl(urls.rangeUrl)) {
+    return 'Price history URL must be an http(s) URL'
+  }
+  const missing = ['{currency}', '{from}', '{to}'].find(
+    placeholder => !urls.rangeUrl.includes(placeholder),
+  )
+  if (missing) {
+    return `Price history URL must contain ${missing}`
+  }
+  return null
+}
+
+/**
+ * Create the price source for an id. The custom source reads CoinGecko's
+ * format from the user's URLs, and is CoinGecko until they are entered.
+ */
+export function createPriceSource(
+  id: PriceSourceId,
+  customUrls?: CustomPriceUrls | null,
+): PriceSource {
+  switch (id) {
+    case 'coingecko':
+      return createHttpPriceSource(COINGECKO_PRICE_SOURCE)
+    case 'custom':
+      return createHttpPriceSource(
+        customUrls
+          ? {
+              ...COINGECKO_PRICE_SOURCE,
+              ...customUrls,
+              id: 'custom',
+              name: 'Custom price API',
+            }
+          : COINGECKO_PRICE_SOURCE,
+      )
+    case 'mock':
+      return createMockPriceSource()
+  }
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/**
+ * UTC day (`YYYY-MM-DD`) of a Unix timestamp in seconds
+ */
+export function priceDay(timestamp: number | string): string {
+  return new Date(Number(timestamp) * 1000).toISOString().slice(0, 10)
+}
+
+/**
+ * Fiat value of an amount in satoshis
+ */
+export function satsToFiat(
+  sats: string | number | bigint,
+  price: number,
+): number {
+  return (Number(sats) / SATS_PER_XPI) * price
+}
+
+/**
+ * Satoshis worth a fiat amount, rounded to the nearest satoshi
+ */
+export function fiatToSats(amount: number, price: number): bigint {
+  if (!(price > 0) || !Number.isFinite(amount)) return 0n
+  return BigInt(Math.round((amount / price) * SATS_PER_XPI))
+}
+
+/**
+ * Format a fiat amount in its currency. Amounts below one cent keep enough
+ * significant digits to be told apart from zero.
+ */
+export function formatFiat(value: number, currency: FiatCurrency): string {
+  const small = value !== 0 && Math.abs(value) < 0.01
+  return new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency,
+    ...(small
+      ? { maximumSignificantDigits: 2 }
+      : { maximumFractionDigits: 2 }),
+  }).format(value)
+}
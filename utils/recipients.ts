@@ -0,0 +1,94 @@
+/**
+ * Batch Recipient Utilities
+ *
+ * Parsing of `address,amount` lists for multi-recipient payments, pasted
+ * as text or imported from a CSV file.
+ */
+import { parseXPIInput } from './formatting'
+import { isValidAddress, validateAddress, validateAmount } from './validation'
+import type { NetworkType } from './types/network'
+
+/**
+ * A recipient line that parsed successfully
+ */
+export interface ParsedRecipientRow {
+  /** 1-based line number in the source text */
+  line: number
+  address: string
+  amountSats: bigint
+}
+
+/**
+ * Result of parsing a recipient list. Valid rows are returned even when
+ * other lines fail.
+ */
+export interface RecipientListParseResult {
+  rows: ParsedRecipientRow[]
+  errors: { line: number; message: string }[]
+}
+
+// Comma, semicolon or tab, ignoring commas inside double quotes
+const FIELD_SEPARATOR = /[;\t]|,(?=(?:[^"]*"[^"]*")*[^"]*$)/
+
+function unquote(field: string): string {
+  return field.trim().replace(/^"(.*)"$/, '$1').trim()
+}
+
+/**
+ * Parse `address,amount` lines, with amounts in XPI. Columns after the
+ * amount (such as a name or memo) are ignored, as are blank lines, `#`
+ * comments and a header row.
+ *
+ * @param text - Pasted text or CSV file contents
+ * @param network - Network every address must belong to
+ */
+export function parseRecipientList(
+  text: string,
+  network?: NetworkType,
+): RecipientListParseResult {
+  const result: RecipientListParseResult = { rows: [], errors: [] }
+  const lines = text.split(/\r?\n/)
+
+  lines.forEach((rawLine, i) => {
+    const line = i + 1
+    const content = rawLine.trim()
+    if (!content || content.startsWith('#')) return
+
+    const [addressField = '', amountField = ''] = content
+      .split(FIELD_SEPARATOR)
+      .map(unquote)
+
+    const amountSats = parseXPIInput(amountField)
+    // A header row has neither an address nor an amount
+    if (
+      result.rows.length === 0 &&
+      result.errors.length === 0 &&
+      amountSats === null &&
+      !isValidAddress(addressField)
+    ) {
+      return
+    }
+
+    const addressCheck = validateAddress(addressField, network)
+    if (!addressCheck.valid || !isValidAddress(addressField)) {
+      result.errors.push({
+        line,
+        message: addressCheck.error ?? `Invalid address: ${addressField}`,
+      })
+      return
+    }
+    if (amountSats === null) {
+      result.errors.push({ line, message: `Invalid amount: ${amountField}` })
+      return
+    }
+    const amountCheck = validateAmount(amountSats)
+    if (!amountCheck.valid) {
+      result.errors.push({ line, message: amountCheck.error! })
+      return
+    }
+
+    result.rows.push({ line, address: addressField, amountSats })
+  })
+
+  return result
+}
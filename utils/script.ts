@@ -0,0 +1,17 @@
+/**
+ * Script Utilities
+ *
+ * Helpers for reading output scripts.
+ */
+import type * as BitcoreTypes from 'xpi-ts/lib/bitcore'
+
+/**
+ * Data an OP_RETURN output carries, as hex. Script.getData() does not
+ * support OP_RETURN outputs, so the pushes after the opcode are joined.
+ */
+export function opReturnDataHex(script: BitcoreTypes.Script): string {
+  return script.chunks
+    .slice(1)
+    .map(chunk => chunk.buf?.toString('hex') ?? '')
+    .join('')
+}
@@ -8,6 +8,7 @@
  * - Use localStorage for small, frequently accessed data
  * - Use IndexedDB for large data (transaction history, etc.)
  */
+import type { StoredTransaction } from './types/wallet'
 
 // ============================================================================
 // Types
@@ -19,18 +20,30 @@
 export const STORAGE_KEYS = {
   // Wallet
   WALLET_STATE: 'lotus-wallet-state',
+  // Bumped when cached history entries gain fields, so they are refetched
+  HISTORY_SYNC: 'lotus-wallet-history-sync-v3',
   WALLET_SEED: 'lotus-wallet-seed',
   WALLET_ADDRESS_TYPE: 'lotus-wallet-address-type',
+  WATCH_ONLY_ACCOUNTS: 'lotus-wallet-watch-only',
+  LABELS: 'lotus-wallet-labels',
+  PENDING_TXS: 'lotus-wallet-pending-txs',
 
   // Network
   NETWORK: 'lotus-wallet-network',
+  NETWORK_PROFILES: 'lotus-wallet-network-profiles',
+  NETWORK_FALLBACKS: 'lotus-wallet-network-fallbacks',
 
-  // Contacts
+  // Prices
+  PRICE_SETTINGS: 'lotus-wallet-price-settings',
+  PRICE_CACHE: 'lotus-wallet-price-cache',
+
+  // Contacts (legacy, migrated into People)
   CONTACTS: 'lotus-wallet-contacts',
 
   // People
   PEOPLE: 'lotus:people',
   SHARED_WALLETS: 'lotus:shared-wallets',
+  PERSON_GROUPS: 'lotus:person-groups',
 
   // P2P
   P2P_PRIVATE_KEY: 'p2p-private-key',
@@ -162,7 +175,7 @@ export function setRawItem(key: StorageKey, value: string): boolean {
 // ============================================================================
 
 export const DB_NAME = 'lotus-wallet-db'
-export const DB_VERSION = 2
+export const DB_VERSION = 3
 
 /**
  * Store names in IndexedDB
@@ -200,13 +213,23 @@ async function openDatabase(): Promise<IDBDatabase> {
     request.onupgradeneeded = event => {
       const db = (event.target as IDBOpenDBRequest).result
 
+      // Version 3 keys transactions per wallet; earlier versions never wrote any
+      if (
+        event.oldVersion < 3 &&
+        db.objectStoreNames.contains(STORES.TRANSACTIONS)
+      ) {
+        db.deleteObjectStore(STORES.TRANSACTIONS)
+      }
+
       // Create object stores
       if (!db.objectStoreNames.contains(STORES.TRANSACTIONS)) {
         const txStore = db.createObjectStore(STORES.TRANSACTIONS, {
-          keyPath: 'txid',
+          keyPath: 'id',
         })
         txStore.createIndex('timestamp', 'timestamp', { unique: false })
         txStore.createIndex('blockHeight', 'blockHeight', { unique: false })
+        txStore.createIndex('scope', 'scope', { unique: false })
+        txStore.createIndex('scopeTime', ['scope', 'time'], { unique: false })
       }
 
       if (!db.objectStoreNames.contains(STORES.UTXOS)) {
@@ -329,6 +352,140 @@ export async function clearStore(storeName: StoreName): Promise<boolean> {
   }
 }
 
+// ============================================================================
+// Transaction History
+// ============================================================================
+
+/**
+ * Write history entries in a single IndexedDB transaction
+ */
+export async function putTransactionsInDB(
+  records: StoredTransaction[],
+): Promise<boolean> {
+  if (records.length === 0) return true
+
+  try {
+    const db = await openDatabase()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORES.TRANSACTIONS, 'readwrite')
+      const store = transaction.objectStore(STORES.TRANSACTIONS)
+      for (const record of records) {
+        store.put(record)
+      }
+
+      transaction.onerror = () => reject(transaction.error)
+      transaction.oncomplete = () => resolve(true)
+    })
+  } catch (error) {
+    console.error('[Storage] Failed to put transactions in DB:', error)
+    return false
+  }
+}
+
+/**
+ * Read a page of a wallet's history entries, newest first
+ *
+ * @param scope - Network and wallet the entries belong to
+ * @param offset - Number of newer entries to skip
+ * @param limit - Maximum number of entries to return
+ */
+export async function getTransactionPageFromDB(
+  scope: string,
+  offset: number,
+  limit: number,
+): Promise<StoredTransaction[]> {
+  try {
+    const db = await openDatabase()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORES.TRANSACTIONS, 'readonly')
+      const index = transaction
+        .objectStore(STORES.TRANSACTIONS)
+        .index('scopeTime')
+      const range = IDBKeyRange.bound([scope, -Infinity], [scope, Infinity])
+      const request = index.openCursor(range, 'prev')
+      const results: StoredTransaction[] = []
+      let skipped = offset === 0
+
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor || results.length >= limit) {
+          resolve(results)
+          return
+        }
+        if (!skipped) {
+          skipped = true
+          cursor.advance(offset)
+          return
+        }
+        results.push(cursor.value)
+        cursor.continue()
+      }
+    })
+  } catch (error) {
+    console.error('[Storage] Failed to get transactions from DB:', error)
+    return []
+  }
+}
+
+/**
+ * Read all of a wallet's history entries between two times, newest first
+ *
+ * @param scope - Network and wallet the entries belong to
+ * @param fromTime - Earliest block or first-seen time, in seconds
+ * @param toTime - Latest block or first-seen time, in seconds
+ */
+export async function getTransactionRangeFromDB(
+  scope: string,
+  fromTime: number = -Infinity,
+  toTime: number = Infinity,
+): Promise<StoredTransaction[]> {
+  try {
+    const db = await openDatabase()
+    return new Promise((resolve, reject) => {
+      const request = db
+        .transaction(STORES.TRANSACTIONS, 'readonly')
+        .objectStore(STORES.TRANSACTIONS)
+        .index('scopeTime')
+        .getAll(IDBKeyRange.bound([scope, fromTime], [scope, toTime]))
+
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve(request.result.reverse())
+    })
+  } catch (error) {
+    console.error('[Storage] Failed to get transactions from DB:', error)
+    return []
+  }
+}
+
+/**
+ * Delete all of a wallet's history entries
+ */
+export async function clearTransactionsFromDB(scope: string): Promise<boolean> {
+  try {
+    const db = await openDatabase()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORES.TRANSACTIONS, 'readwrite')
+      const request = transaction
+        .objectStore(STORES.TRANSACTIONS)
+        .index('scope')
+        .openKeyCursor(IDBKeyRange.only(scope))
+
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor) return
+        transaction.objectStore(STORES.TRANSACTIONS).delete(cursor.primaryKey)
+        cursor.continue()
+      }
+      transaction.onerror = () => reject(transaction.error)
+      transaction.oncomplete = () => resolve(true)
+    })
+  } catch (error) {
+    console.error('[Storage] Failed to clear transactions from DB:', error)
+    return false
+  }
+}
+
 // ============================================================================
 // Cache Operations
 // ============================================================================
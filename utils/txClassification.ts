@@ -0,0 +1,294 @@
+/**
+ * Transaction Classification
+ *
+ * Describes a transaction from the point of view of a whole wallet: every
+ * account and every derived address it owns, not a single address. Change
+ * paid back to the wallet is never mistaken for a payment, each recipient of
+ * a batch payment is listed, and value moved between accounts is reported as
+ * an internal transfer.
+ */
+import { ScriptProcessor } from 'xpi-ts/lib/rank'
+import { getBitcore } from '~/plugins/bitcore.client'
+import type { NetworkType } from './types/network'
+import type { TxClassificationKind } from './types/wallet'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Account that owns a script, e.g. an `AccountPurpose` or account id */
+export type TxAccount = string | number
+
+/** Finds the wallet account owning an output script, if any */
+export type TxOwnerLookup = (scriptHex: string) => TxAccount | undefined
+
+/** Minimal transaction shape shared by Chronik and Explorer transactions */
+export interface ClassifiableTx {
+  txid: string
+  isCoinbase?: boolean
+  inputs: { outputScript?: string; value: string }[]
+  outputs: { outputScript: string; value: string }[]
+}
+
+export interface TxCounterparty {
+  /** Address, or null for a non-standard script */
+  address: string | null
+  scriptHex: string
+  /** Total paid to (send) or by (receive) this script, in satoshis */
+  amount: bigint
+}
+
+export interface TxInternalTransfer {
+  from: TxAccount
+  to: TxAccount
+  amount: bigint
+}
+
+export interface TxBurn {
+  /** Protocol named by the LOKAD prefix, null for any other OP_RETURN */
+  protocol: 'RANK' | 'RNKC' | null
+  outputIndex: number
+  amount: bigint
+  /** Profile or post voted on or commented on, for RANK and RNKC */
+  target?: TxBurnTarget
+}
+
+export interface TxBurnTarget {
+  platform: string
+  profileId: string
+  postId?: string
+  /** Vote sentiment, RANK only */
+  sentiment?: string
+}
+
+export interface TxClassification {
+  txid: string
+  kind: TxClassificationKind
+  /** Value received minus value spent over all wallet scripts */
+  netFlow: bigint
+  /** Net flow of each account involved */
+  accountFlows: Map<TxAccount, bigint>
+  /** Inputs minus outputs, 0n for coinbase */
+  fee: bigint
+  /** True when every input is the wallet's, so the fee is the wallet's */
+  feePaidByWallet: boolean
+  /** Recipients of a send, senders of a receive */
+  counterparties: TxCounterparty[]
+  internalTransfers: TxInternalTransfer[]
+  /** OP_RETURN outputs carrying value */
+  burns: TxBurn[]
+}
+
+// OP_RETURN, push 4 bytes, LOKAD prefix
+const LOKAD_SCRIPT_PREFIXES: [string, TxBurn['protocol']][] = [
+  ['6a0452414e4b', 'RANK'],
+  ['6a04524e4b43', 'RNKC'],
+]
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isDataScript(scriptHex: string): boolean {
+  return scriptHex.startsWith('6a')
+}
+
+function burnProtocol(scriptHex: string): TxBurn['protocol'] {
+  const match = LOKAD_SCRIPT_PREFIXES.find(([prefix]) =>
+    scriptHex.startsWith(prefix),
+  )
+  return match ? match[1] : null
+}
+
+/**
+ * Read the platform, profile and post a RANK vote or RNKC comment is for
+ */
+function burnTarget(
+  scriptHex: string,
+  protocol: TxBurn['protocol'],
+): TxBurnTarget | undefined {
+  if (!protocol) return undefined
+  // An RNKC header is a RANK script without the sentiment byte, so insert a
+  // neutral sentiment (OP_16) to read it with the RANK parser
+  const rankHex =
+    protocol === 'RANK'
+      ? scriptHex
+      : LOKAD_SCRIPT_PREFIXES[0][0] + '60' + scriptHex.slice(12)
+  try {
+    const Bitcore = getBitcore()
+    const output = new ScriptProcessor(
+      Bitcore.BufferUtil.from(rankHex, 'hex'),
+    ).processScriptRANK()
+    if (!output) return undefined
+    return {
+      platform: output.platform,
+      profileId: output.profileId,
+      postId: output.postId,
+      sentiment: protocol === 'RANK' ? output.sentiment : undefined,
+    }
+  } catch {
+    return undefined
+  }
+}
+
+function addressOf(scriptHex: string, network?: NetworkType): string | null {
+  try {
+    const Bitcore = getBitcore()
+    return (
+      Bitcore.Script.fromHex(scriptHex)
+        .toAddress(network)
+        ?.toXAddress(network) ?? null
+    )
+  } catch {
+    return null
+  }
+}
+
+/** Sum values by script, keeping first-seen order */
+function sumByScript(
+  entries: { scriptHex: string; value: bigint }[],
+  network?: NetworkType,
+): TxCounterparty[] {
+  const totals = new Map<string, bigint>()
+  for (const { scriptHex, value } of entries) {
+    totals.set(scriptHex, (totals.get(scriptHex) ?? 0n) + value)
+  }
+  return [...totals].map(([scriptHex, amount]) => ({
+    address: addressOf(scriptHex, network),
+    scriptHex,
+    amount,
+  }))
+}
+
+/**
+ * Pair accounts that lost value with accounts that gained it. Without
+ * per-output attribution the pairing is in order of appearance.
+ */
+function pairTransfers(
+  accountFlows: Map<TxAccount, bigint>,
+): TxInternalTransfer[] {
+  const senders = [...accountFlows]
+    .filter(([, flow]) => flow < 0n)
+    .map(([account, flow]) => ({ account, left: -flow }))
+  const receivers = [...accountFlows]
+    .filter(([, flow]) => flow > 0n)
+    .map(([account, flow]) => ({ account, left: flow }))
+
+  const transfers: TxInternalTransfer[] = []
+  for (const receiver of receivers) {
+    for (const sender of senders) {
+      if (receiver.left === 0n) break
+      if (sender.left === 0n) continue
+      const amount = sender.left < receiver.left ? sender.left : receiver.left
+      transfers.push({ from: sender.account, to: receiver.account, amount })
+      sender.left -= amount
+      receiver.left -= amount
+    }
+  }
+  return transfers
+}
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+/**
+ * Classify a transaction against every script the wallet owns.
+ *
+ * @param tx - Chronik or Explorer transaction
+ * @param ownerOf - Account owning a script, for all wallet scripts
+ * @param network - Network used to encode counterparty addresses
+ */
+export function classifyTransaction(
+  tx: ClassifiableTx,
+  ownerOf: TxOwnerLookup,
+  network?: NetworkType,
+): TxClassification {
+  const accountFlows = new Map<TxAccount, bigint>()
+  const addFlow = (account: TxAccount, value: bigint) => {
+    accountFlows.set(account, (accountFlows.get(account) ?? 0n) + value)
+  }
+
+  let inputTotal = 0n
+  let ownedInputs = 0
+  const foreignInputs: { scriptHex: string; value: bigint }[] = []
+  for (const input of tx.inputs) {
+    const value = BigInt(input.value)
+    inputTotal += value
+    const account = input.outputScript
+      ? ownerOf(input.outputScript)
+      : undefined
+    if (account !== undefined) {
+      ownedInputs++
+      addFlow(account, -value)
+    } else if (input.outputScript) {
+      foreignInputs.push({ scriptHex: input.outputScript, value })
+    }
+  }
+
+  let outputTotal = 0n
+  const foreignOutputs: { scriptHex: string; value: bigint }[] = []
+  const burns: TxBurn[] = []
+  tx.outputs.forEach((output, outputIndex) => {
+    const value = BigInt(output.value)
+    outputTotal += value
+    const account = ownerOf(output.outputScript)
+    if (account !== undefined) {
+      addFlow(account, value)
+    } else if (isDataScript(output.outputScript)) {
+      if (value > 0n) {
+        const protocol = burnProtocol(output.outputScript)
+        burns.push({
+          protocol,
+          outputIndex,
+          amount: value,
+          target: burnTarget(output.outputScript, protocol),
+        })
+      }
+    } else {
+      foreignOutputs.push({ scriptHex: output.outputScript, value })
+    }
+  })
+
+  const netFlow = [...accountFlows.values()].reduce((a, b) => a + b, 0n)
+  const fee = tx.isCoinbase ? 0n : inputTotal - outputTotal
+  const feePaidByWallet =
+    !tx.isCoinbase && ownedInputs > 0 && ownedInputs === tx.inputs.length
+
+  let kind: TxClassificationKind
+  let counterparties: TxCounterparty[] = []
+  if (accountFlows.size === 0) {
+    kind = 'external'
+  } else if (tx.isCoinbase) {
+    kind = 'coinbase'
+  } else if (ownedInputs === 0 || (netFlow > 0n && foreignInputs.length)) {
+    kind = 'receive'
+    counterparties = sumByScript(foreignInputs, network)
+  } else if (foreignOutputs.length > 0) {
+    kind = 'send'
+    counterparties = sumByScript(foreignOutputs, network)
+  } else if (burns.length > 0) {
+    kind = 'burn'
+  } else {
+    kind = accountFlows.size > 1 ? 'internal' : 'self'
+  }
+
+  return {
+    txid: tx.txid,
+    kind,
+    netFlow,
+    accountFlows,
+    fee,
+    feePaidByWallet,
+    counterparties,
+    internalTransfers: accountFlows.size > 1 ? pairTransfers(accountFlows) : [],
+    burns,
+  }
+}
+
+/**
+ * Total burned in a classification's OP_RETURN outputs
+ */
+export function totalBurned(classification: TxClassification): bigint {
+  return classification.burns.reduce((sum, burn) => sum + burn.amount, 0n)
+}
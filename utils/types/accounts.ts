@@ -120,4 +120,92 @@ export interface AccountState {
    * -1 indicates no addresses have been used yet.
    */
   lastUsedIndex: number
+
+  /**
+   * The highest change (internal chain) index that has received transactions.
+   * Change outputs go to the next index after this one.
+   * -1 indicates no change addresses have been used yet.
+   */
+  lastUsedChangeIndex: number
+}
+
+/**
+ * Persisted address usage for an account, so discovery does not have to
+ * rescan the chain on every load.
+ */
+export interface AccountAddressIndexes {
+  /** Last used external (receiving) index, -1 if none */
+  external: number
+  /** Last used internal (change) index, -1 if none */
+  change: number
+}
+
+/**
+ * Where a watch-only account's addresses come from
+ * - 'xpub': derived from an account-level extended public key
+ * - 'addresses': a fixed list of addresses
+ */
+export type WatchOnlySource = 'xpub' | 'addresses'
+
+/**
+ * An address tracked by a watch-only account
+ */
+export interface WatchOnlyAddress {
+  /** The Lotus address string */
+  address: string
+
+  /** Script payload used for Chronik lookups and subscriptions */
+  scriptPayload: string
+
+  /**
+   * Chronik script type. Plain addresses keep their own type, which may
+   * differ from the wallet's address type.
+   */
+  scriptType: AddressType
+
+  /** Chain of an xpub-derived address (absent for plain addresses) */
+  isChange?: boolean
+
+  /** Index of an xpub-derived address within its chain */
+  index?: number
+}
+
+/**
+ * An account tracked without any private key, such as a cold wallet or a
+ * teammate's address. It gets balances, history and live updates like the
+ * wallet's own accounts, but can never sign.
+ */
+export interface WatchOnlyAccount {
+  /** Unique identifier */
+  id: string
+
+  /** Display name */
+  label: string
+
+  /** How the tracked addresses are obtained */
+  source: WatchOnlySource
+
+  /** Network the xpub or addresses belong to */
+  network: NetworkType
+
+  /** Account-level (depth 3) extended public key, for xpub sources */
+  xpub?: string
+
+  /** Address type derived from the xpub, for xpub sources */
+  addressType?: AddressType
+
+  /**
+   * Tracked addresses. For xpub sources this is the derived window and
+   * grows as addresses are used.
+   */
+  addresses: WatchOnlyAddress[]
+
+  /** Last used external index of an xpub source, -1 if none */
+  lastUsedIndex: number
+
+  /** Last used change index of an xpub source, -1 if none */
+  lastUsedChangeIndex: number
+
+  /** When the account was added (Unix ms) */
+  createdAt: number
 }
@@ -13,6 +13,18 @@ import type { NetworkName } from 'xpi-ts/lib/bitcore/networks'
 // Address Types
 // ============================================================================
 
+/**
+ * Opaque reference to a wallet key held by the worker.
+ * The worker resolves it against the seed it received in UNLOCK_WALLET;
+ * no key material crosses the worker boundary.
+ */
+export interface KeyHandle {
+  /** BIP44 account index (AccountPurpose) */
+  account: number
+  /** Full BIP44 derivation path, which must lie within `account` */
+  path: string
+}
+
 // ============================================================================
 // Request Messages (Main → Worker)
 // ============================================================================
@@ -43,10 +55,31 @@ export interface DeriveP2TRCommitmentRequest {
   requestId: string
 }
 
+export interface UnlockWalletRequest {
+  type: 'UNLOCK_WALLET'
+  payload: {
+    /** Seed phrase kept in worker memory until LOCK_WALLET */
+    mnemonic: string
+  }
+  requestId: string
+}
+
+export interface LockWalletRequest {
+  type: 'LOCK_WALLET'
+  payload: Record<string, never>
+  requestId: string
+}
+
+export interface ExportMnemonicRequest {
+  type: 'EXPORT_MNEMONIC'
+  payload: Record<string, never>
+  requestId: string
+}
+
+/** Derives from the seed given in UNLOCK_WALLET */
 export interface DeriveKeysRequest {
   type: 'DERIVE_KEYS'
   payload: {
-    mnemonic: string
     addressType: AddressType
     network: NetworkName
     /** BIP44 account index (0 = PRIMARY, 1 = MUSIG2, etc.) */
@@ -67,6 +100,8 @@ export interface UtxoForSigning {
   satoshis: number
   /** Output script (hex) */
   scriptHex: string
+  /** Key owning this output */
+  key: KeyHandle
 }
 
 export interface SignTransactionRequest {
@@ -76,14 +111,8 @@ export interface SignTransactionRequest {
     txHex: string
     /** UTXOs being spent - required to set input.output for signing */
     utxos: UtxoForSigning[]
-    /** Private key (hex or WIF) */
-    privateKey: string
     /** Address type determines signing method */
     addressType: AddressType
-    /** For Taproot: internal public key (hex) */
-    internalPubKeyHex?: string
-    /** For Taproot: merkle root (hex) */
-    merkleRootHex?: string
   }
   requestId: string
 }
@@ -92,8 +121,8 @@ export interface SignMessageRequest {
   type: 'SIGN_MESSAGE'
   payload: {
     message: string
-    /** Private key (hex or WIF) */
-    privateKey: string
+    /** Key held by the worker */
+    key: KeyHandle
   }
   requestId: string
 }
@@ -108,6 +137,46 @@ export interface VerifyMessageRequest {
   requestId: string
 }
 
+/** MuSig2 public nonce pair [R1, R2], compressed points (hex) */
+export type MuSig2PublicNonce = [string, string]
+
+export interface MuSig2NonceGenRequest {
+  type: 'MUSIG2_NONCE_GEN'
+  payload: {
+    /** Signing session the nonces belong to */
+    sessionId: string
+    /** Participant key held by the worker */
+    key: KeyHandle
+    /** Compressed public keys of all signers (hex) */
+    signers: string[]
+    /** Sighash of each input to be signed (hex) */
+    messages: string[]
+  }
+  requestId: string
+}
+
+export interface MuSig2PartialSignRequest {
+  type: 'MUSIG2_PARTIAL_SIGN'
+  payload: {
+    sessionId: string
+    key: KeyHandle
+    signers: string[]
+    /** Must match the messages the session's nonces were generated for */
+    messages: string[]
+    /** Per input: every signer's public nonce in key aggregation order */
+    publicNonces: MuSig2PublicNonce[][]
+  }
+  requestId: string
+}
+
+export interface MuSig2DiscardNoncesRequest {
+  type: 'MUSIG2_DISCARD_NONCES'
+  payload: {
+    sessionId: string
+  }
+  requestId: string
+}
+
 export interface HashDataRequest {
   type: 'HASH_DATA'
   payload: {
@@ -121,11 +190,17 @@ export interface HashDataRequest {
 export type CryptoWorkerRequest =
   | GenerateMnemonicRequest
   | ValidateMnemonicRequest
+  | UnlockWalletRequest
+  | LockWalletRequest
+  | ExportMnemonicRequest
   | DeriveP2TRCommitmentRequest
   | DeriveKeysRequest
   | SignTransactionRequest
   | SignMessageRequest
   | VerifyMessageRequest
+  | MuSig2NonceGenRequest
+  | MuSig2PartialSignRequest
+  | MuSig2DiscardNoncesRequest
   | HashDataRequest
 
 // ============================================================================
@@ -144,6 +219,12 @@ export interface MnemonicValidatedResponse {
   requestId: string
 }
 
+export interface MnemonicExportedResponse {
+  type: 'MNEMONIC_EXPORTED'
+  payload: { mnemonic: string }
+  requestId: string
+}
+
 export interface KeysDerivedResponse {
   type: 'KEYS_DERIVED'
   payload: {
@@ -153,8 +234,6 @@ export interface KeysDerivedResponse {
     scriptPayload: string
     /** Public key (hex) */
     publicKeyHex: string
-    /** Private key (hex) - returned for main thread storage */
-    privateKeyHex: string
     /** For Taproot: internal public key before tweaking (hex) */
     internalPubKeyHex?: string
     /** For Taproot: merkle root (hex) */
@@ -167,6 +246,17 @@ export interface KeysDerivedResponse {
     addressIndex: number
     /** Whether this is a change address */
     isChange: boolean
+    /** Account-level extended public key (m/44'/10605'/account') */
+    accountXpub: string
+  }
+  requestId: string
+}
+
+export interface WalletLockStateResponse {
+  type: 'WALLET_LOCK_STATE'
+  payload: {
+    /** Whether the worker currently holds the seed */
+    unlocked: boolean
   }
   requestId: string
 }
@@ -203,6 +293,30 @@ export interface MessageVerifiedResponse {
   requestId: string
 }
 
+export interface MuSig2NoncesGeneratedResponse {
+  type: 'MUSIG2_NONCES_GENERATED'
+  payload: {
+    /** Public nonce for each input, in message order */
+    publicNonces: MuSig2PublicNonce[]
+  }
+  requestId: string
+}
+
+export interface MuSig2PartialSignedResponse {
+  type: 'MUSIG2_PARTIAL_SIGNED'
+  payload: {
+    /** Partial signature scalar for each input (32-byte hex) */
+    partialSigs: string[]
+  }
+  requestId: string
+}
+
+export interface MuSig2NoncesDiscardedResponse {
+  type: 'MUSIG2_NONCES_DISCARDED'
+  payload: { discarded: boolean }
+  requestId: string
+}
+
 export interface DataHashedResponse {
   type: 'DATA_HASHED'
   payload: { hash: string }
@@ -226,11 +340,16 @@ export interface WorkerReadyResponse {
 export type CryptoWorkerResponse =
   | MnemonicGeneratedResponse
   | MnemonicValidatedResponse
+  | MnemonicExportedResponse
   | KeysDerivedResponse
+  | WalletLockStateResponse
   | P2TRCommitmentDerivedResponse
   | TransactionSignedResponse
   | MessageSignedResponse
   | MessageVerifiedResponse
+  | MuSig2NoncesGeneratedResponse
+  | MuSig2PartialSignedResponse
+  | MuSig2NoncesDiscardedResponse
   | DataHashedResponse
   | ErrorResponse
   | WorkerReadyResponse
@@ -252,10 +371,16 @@ export interface CryptoWorkerStatus {
 export type ResponseTypeMap = {
   GENERATE_MNEMONIC: MnemonicGeneratedResponse['payload']
   VALIDATE_MNEMONIC: MnemonicValidatedResponse['payload']
+  UNLOCK_WALLET: WalletLockStateResponse['payload']
+  LOCK_WALLET: WalletLockStateResponse['payload']
+  EXPORT_MNEMONIC: MnemonicExportedResponse['payload']
   DERIVE_P2TR_COMMITMENT: P2TRCommitmentDerivedResponse['payload']
   DERIVE_KEYS: KeysDerivedResponse['payload']
   SIGN_TRANSACTION: TransactionSignedResponse['payload']
   SIGN_MESSAGE: MessageSignedResponse['payload']
   VERIFY_MESSAGE: MessageVerifiedResponse['payload']
+  MUSIG2_NONCE_GEN: MuSig2NoncesGeneratedResponse['payload']
+  MUSIG2_PARTIAL_SIGN: MuSig2PartialSignedResponse['payload']
+  MUSIG2_DISCARD_NONCES: MuSig2NoncesDiscardedResponse['payload']
   HASH_DATA: DataHashedResponse['payload']
 }
@@ -63,6 +63,7 @@ export type ExplorerTxType =
   | 'burn'
   | 'coinbase'
   | 'self'
+  | 'internal'
   | 'unknown'
 
 /**
@@ -82,6 +83,16 @@ export interface ParsedTransaction {
   amount?: string
   /** Address of the counterparty (sender for receive, recipient for give) */
   counterpartyAddress?: string
+  /** Every counterparty address, e.g. each recipient of a batch payment */
+  counterparties?: string[]
+  /** Fee in satoshis, when every input belongs to the wallet */
+  fee?: string
+  /** Value moved between the wallet's accounts (for internal transactions) */
+  internalTransfers?: {
+    from: string | number
+    to: string | number
+    amount: string
+  }[]
   /** RANK protocol data (for rank transactions) */
   rankData?: TransactionOutputRANK & { burnedAmount: string }
   /** Amount burned in OP_RETURN outputs (for burn transactions) */
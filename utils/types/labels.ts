@@ -0,0 +1,40 @@
+/**
+ * Label Types
+ *
+ * Type definitions for the wallet's local labels on transactions and
+ * addresses, as exchanged in the BIP-329 wallet label format.
+ */
+
+/**
+ * Kind of reference a label is attached to. BIP-329 also defines `pubkey`,
+ * `input`, `output` and `xpub`, which the wallet does not label.
+ */
+export type LabelType = 'tx' | 'addr'
+
+export interface WalletLabel {
+  type: LabelType
+  /** Transaction id or address */
+  ref: string
+  label: string
+  /** Unix timestamp (ms) of the last edit */
+  updatedAt: number
+}
+
+/**
+ * One line of a BIP-329 JSON Lines file
+ */
+export interface Bip329Record {
+  type: string
+  ref: string
+  label?: string
+  origin?: string
+  spendable?: boolean
+}
+
+export interface LabelImportResult {
+  /** Labels added or changed */
+  imported: number
+  /** Valid lines of a type the wallet does not label */
+  skipped: number
+  errors: { line: number; message: string }[]
+}
@@ -100,10 +100,12 @@ export interface MuSig2Participant {
   peerId: string
   /** Public key (hex) */
   publicKey: string
-  /** Wallet address */
-  walletAddress: string
+  /** Wallet address, when known */
+  walletAddress?: string
   /** Optional nickname */
   nickname?: string
+  /** Whether this participant has committed to their nonce */
+  hasNonceCommitment: boolean
   /** Whether this participant has provided their nonce */
   hasNonce: boolean
   /** Whether this participant has provided their partial signature */
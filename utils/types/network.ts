@@ -5,14 +5,21 @@
  */
 
 /**
- * Supported network types
+ * Supported network types, as named by Bitcore
  */
-export type NetworkType = 'livenet' | 'testnet'
+export type NetworkType = 'livenet' | 'testnet' | 'regtest'
+
+/**
+ * Networks with a built-in configuration
+ */
+export type BuiltinNetworkType = 'livenet' | 'testnet'
 
 /**
  * Network configuration
  */
 export interface NetworkConfig {
+  /** Profile identifier: the network name, or `custom_...` for a user profile */
+  id: string
   /** Internal network name used by Bitcore */
   name: NetworkType
   /** Human-readable display name */
@@ -21,6 +28,8 @@ export interface NetworkConfig {
   networkChar: string
   /** Chronik server URL */
   chronikUrl: string
+  /** Further Chronik servers to fail over to, in order of preference */
+  fallbackChronikUrls?: string[]
   /** Block explorer URL */
   explorerUrl: string
   /** Explorer API URL */
@@ -31,6 +40,63 @@ export interface NetworkConfig {
   color: 'primary' | 'warning' | 'info'
   /** Whether this is a production network */
   isProduction: boolean
+  /** Whether this is a user-defined profile */
+  isCustom?: boolean
+}
+
+/**
+ * Fields a user enters for a custom network profile, e.g. a local regtest
+ * node. The network follows from the address character.
+ */
+export interface NetworkProfileInput {
+  displayName: string
+  networkChar: string
+  chronikUrl: string
+  fallbackChronikUrls: string[]
+  explorerUrl: string
+  explorerApiUrl: string
+  rankApiUrl: string
+}
+
+/**
+ * Outcome of probing one service of a network profile
+ */
+export interface NetworkProbeCheck {
+  ok: boolean
+  /** Skipped because no URL was given */
+  skipped?: boolean
+  /** Tip height, or the error */
+  detail: string
+}
+
+/**
+ * Outcome of probing every service of a network profile
+ */
+export interface NetworkProbeResult {
+  chronik: NetworkProbeCheck
+  explorerApi: NetworkProbeCheck
+  rankApi: NetworkProbeCheck
+  /** Chronik is reachable, which the profile needs to be used */
+  usable: boolean
+}
+
+/**
+ * Health of one Chronik endpoint, from its latest check
+ */
+export interface ChronikEndpointHealth {
+  url: string
+  /** Answered the latest check; null before the first check */
+  reachable: boolean | null
+  /** Round trip of the latest check, in milliseconds */
+  latencyMs: number | null
+  tipHeight: number | null
+  /** Tip is behind the best tip known from any endpoint */
+  lagging: boolean
+  /** Checks failed in a row */
+  failures: number
+  /** Time of the latest check, in milliseconds */
+  checkedAt: number
+  error?: string
 }
 
 /**
@@ -39,6 +105,8 @@ export interface NetworkConfig {
 export interface NetworkState {
   /** Currently selected network */
   currentNetwork: NetworkType
+  /** Selected profile, a built-in network or a custom profile id */
+  profileId: string
   /** Whether the store has been initialized */
   initialized: boolean
 }
@@ -0,0 +1,71 @@
+/**
+ * Offline Signing Types
+ *
+ * Type definitions for transaction bundles passed between an online wallet
+ * that builds and broadcasts transactions and an offline (air-gapped)
+ * wallet that signs them.
+ */
+import type { NetworkType } from './network'
+
+/**
+ * Previous output spent by a bundled transaction.
+ * Carries everything the signer needs without network access.
+ */
+export interface OfflineBundleInput {
+  /** Transaction outpoint in format "txid_vout" */
+  outpoint: string
+  /** Value of the previous output in satoshis */
+  satoshis: number
+  /** Previous output script (hex) */
+  scriptHex: string
+  /** BIP44 derivation path of the owning address */
+  path?: string
+  /** Taproot internal public key (hex), for p2tr-commitment outputs */
+  internalPubKeyHex?: string
+  /** Taproot merkle root (hex), for p2tr-commitment outputs */
+  merkleRootHex?: string
+}
+
+/**
+ * Serialised transaction exchanged for offline signing.
+ * An 'unsigned' bundle goes to the signer, which returns it 'signed'.
+ */
+export interface OfflineTransactionBundle {
+  format: 'lotus-offline-tx'
+  version: number
+  network: NetworkType
+  status: 'unsigned' | 'signed'
+  /** Raw transaction (hex), signed or not depending on `status` */
+  txHex: string
+  /** Previous outputs, in transaction input order */
+  inputs: OfflineBundleInput[]
+  /** Unix timestamp (ms) when the bundle was created */
+  createdAt: number
+}
+
+/**
+ * Decoded bundle for review before signing or broadcasting
+ */
+export interface OfflineBundleSummary {
+  txid: string
+  status: OfflineTransactionBundle['status']
+  network: NetworkType
+  inputs: {
+    outpoint: string
+    address: string | null
+    satoshis: bigint
+    path?: string
+  }[]
+  outputs: {
+    /** Null for OP_RETURN and non-standard outputs */
+    address: string | null
+    scriptHex: string
+    satoshis: bigint
+    /** Hex data of an OP_RETURN output */
+    opReturnData?: string
+  }[]
+  inputTotal: bigint
+  outputTotal: bigint
+  fee: bigint
+  locktime: number
+}
@@ -29,6 +29,8 @@ export interface Person {
 
   // Cryptographic identity
   publicKeyHex?: string
+  /** When a signed contact card from the key's owner verified address and key */
+  verifiedAt?: number
 
   // P2P presence
   peerId?: string
@@ -43,6 +45,8 @@ export interface Person {
   level: RelationshipLevel
   isFavorite: boolean
   tags: string[]
+  /** Group the person is filed under, see PersonGroup */
+  groupId?: string
   notes?: string
 
   // Activity summary
@@ -71,7 +75,8 @@ export interface Person {
 export interface SharedWalletParticipant {
   /**
    * Person ID reference.
-   * Use 'self' to indicate the current user/wallet owner.
+   * Use 'self' to indicate the current user/wallet owner, empty when the
+   * key does not belong to a known contact.
    */
   personId: string
 
@@ -86,6 +91,12 @@ export interface SharedWalletParticipant {
    * Used to distinguish self from other participants in the wallet.
    */
   isMe: boolean
+
+  /**
+   * Whether this participant reported the same Taproot address as ours.
+   * A pending wallet becomes active once every participant has confirmed.
+   */
+  addressConfirmed?: boolean
 }
 
 // ============================================================================
@@ -128,15 +139,39 @@ export interface SharedWallet {
   updatedAt: number
 }
 
+// ============================================================================
+// Person Group Interface
+// ============================================================================
+
+/**
+ * User-defined group for organizing people
+ */
+export interface PersonGroup {
+  id: string
+  name: string
+  icon: string
+  color: string
+  createdAt: number
+}
+
 // ============================================================================
 // People Store State
 // ============================================================================
 
+/**
+ * People list order. Favorites come first except when sorting by group or
+ * tag, which keeps each group or tag together.
+ */
+export type PeopleSortBy = 'recent' | 'name' | 'favorite' | 'group' | 'tag'
+
 export interface PeopleState {
   people: Map<string, Person>
   sharedWallets: Map<string, SharedWallet>
+  groups: Map<string, PersonGroup>
   searchQuery: string
-  sortBy: 'recent' | 'name' | 'favorite'
+  sortBy: PeopleSortBy
+  tagFilter: string | null
+  groupFilter: string | null
   initialized: boolean
 }
 
@@ -152,3 +187,102 @@ export type SharedWalletInput = Omit<
   'id' | 'createdAt' | 'updatedAt'
 >
 export type SharedWalletUpdate = Partial<Omit<SharedWallet, 'id' | 'createdAt'>>
+
+// ============================================================================
+// Address Book Import/Export Types
+// ============================================================================
+
+export type AddressBookFormat = 'json' | 'vcard'
+
+/**
+ * One person as read from an address book file
+ */
+export interface AddressBookEntry {
+  name: string
+  address: string
+  publicKeyHex?: string
+  notes?: string
+  tags: string[]
+  isFavorite?: boolean
+  /** Name of the group the person was filed under */
+  groupName?: string
+}
+
+/**
+ * Fields that can differ between an imported entry and the person it
+ * matches
+ */
+export type AddressBookField = 'name' | 'address' | 'publicKeyHex' | 'notes'
+
+/**
+ * How an imported entry relates to the address book:
+ * - new: matches no one, so it is added
+ * - duplicate: matches a person (or an earlier entry) without contradicting
+ *   it; anything the person is missing is filled in
+ * - conflict: matches a person by address or public key but some field has
+ *   a different value
+ */
+export type AddressBookEntryStatus = 'new' | 'duplicate' | 'conflict'
+
+/**
+ * What to do with a conflicting entry:
+ * - keep: leave the existing person as is
+ * - replace: overwrite the differing fields with the imported ones
+ * - merge: fill in only what the existing person is missing
+ */
+export type AddressBookConflictChoice = 'keep' | 'replace' | 'merge'
+
+export interface AddressBookPreviewEntry {
+  entry: AddressBookEntry
+  status: AddressBookEntryStatus
+  /** Person the entry matches */
+  personId?: string
+  /** Fields that differ from the matched person, for conflicts */
+  conflicts: AddressBookField[]
+}
+
+export interface AddressBookImportPreview {
+  format: AddressBookFormat
+  entries: AddressBookPreviewEntry[]
+  /** Records that could not be read, numbered from 1 in file order */
+  errors: { record: number; message: string }[]
+}
+
+export interface AddressBookImportResult {
+  added: number
+  updated: number
+  skipped: number
+}
+
+// ============================================================================
+// Ledger Types
+// ============================================================================
+
+/**
+ * One transaction with a person, as found in the wallet's history
+ */
+export interface PersonLedgerEntry {
+  txid: string
+  /** Block or first-seen time, in seconds */
+  timestamp: number
+  /** Block height, -1 while unconfirmed */
+  blockHeight: number
+  direction: 'sent' | 'received'
+  /** Satoshis paid to or received from the person, excluding fees */
+  amount: bigint
+  /** Received minus sent, over this entry and every earlier one */
+  balance: bigint
+}
+
+/**
+ * Everything the wallet has exchanged with a person on-chain
+ */
+export interface PersonLedger {
+  personId: string
+  /** Newest first */
+  entries: PersonLedgerEntry[]
+  totalSent: bigint
+  totalReceived: bigint
+  /** Time of the newest entry, in milliseconds */
+  lastActivityAt?: number
+}
@@ -0,0 +1,73 @@
+/**
+ * Price Types
+ *
+ * Type definitions for valuing XPI in a fiat currency, and for the price
+ * sources that supply spot and daily prices.
+ */
+
+export type FiatCurrency =
+  | 'USD'
+  | 'EUR'
+  | 'GBP'
+  | 'JPY'
+  | 'CAD'
+  | 'AUD'
+  | 'CHF'
+  | 'CNY'
+
+/** Price sources the wallet can use */
+export type PriceSourceId = 'coingecko' | 'custom' | 'mock'
+
+/**
+ * URLs of a price API the user entered, such as a CoinGecko mirror. The
+ * API must answer in CoinGecko's format.
+ */
+export interface CustomPriceUrls {
+  /** Spot price URL, with `{currencies}` */
+  spotUrl: string
+  /** Price history URL, with `{currency}`, `{from}` and `{to}` */
+  rangeUrl: string
+}
+
+/**
+ * Supplier of XPI prices. Prices are in fiat per whole XPI.
+ */
+export interface PriceSource {
+  id: PriceSourceId
+  name: string
+  /** Current price in each requested currency it knows */
+  fetchSpot(
+    currencies: FiatCurrency[],
+  ): Promise<Partial<Record<FiatCurrency, number>>>
+  /**
+   * Price on each UTC day (`YYYY-MM-DD`) from `fromDay` to `toDay`, both
+   * included. Days the source has no price for are left out.
+   */
+  fetchDailyRange(
+    currency: FiatCurrency,
+    fromDay: string,
+    toDay: string,
+  ): Promise<Record<string, number>>
+}
+
+/**
+ * HTTP price API. URLs may contain `{currencies}` (comma separated, lower
+ * case), `{currency}` (lower case), and `{from}` and `{to}` (Unix seconds).
+ */
+export interface HttpPriceSourceConfig {
+  id: PriceSourceId
+  name: string
+  spotUrl: string
+  rangeUrl: string
+  /** Read one currency's price from a spot response */
+  readSpot: (json: unknown, currency: FiatCurrency) => number | undefined
+  /** Read `[timestamp (ms), price]` points from a range response */
+  readRange: (json: unknown) => unknown[] | undefined
+}
+
+export interface SpotPrice {
+  currency: FiatCurrency
+  price: number
+  /** Unix timestamp (ms) when fetched */
+  fetchedAt: number
+}
@@ -1,6 +1,7 @@
 import type { Utxo } from 'chronik-client'
 import type * as Bitcore from 'xpi-ts/lib/bitcore'
 import type { Buffer } from 'buffer/'
+import type { NetworkType } from './network'
 
 /**
  * Wallet Types
@@ -8,7 +9,12 @@ import type { Buffer } from 'buffer/'
  * Core type definitions for wallet state and operations.
  * These types are used across stores, services, and components.
  */
-export type UtxoData = Pick<Utxo, 'blockHeight' | 'isCoinbase' | 'value'>
+export type UtxoData = Pick<Utxo, 'blockHeight' | 'isCoinbase' | 'value'> & {
+  /** BIP44 derivation path of the owning address (absent for legacy entries) */
+  path?: string
+  /** Watch-only account owning the output; only signed offline, by path */
+  watchOnlyId?: string
+}
 
 /**
  * UTXO entry with outpoint identifier
@@ -74,6 +80,89 @@ export interface TransactionHistoryItem {
   address: string
   /** Number of confirmations */
   confirmations: number
+  /** Classification across all wallet accounts */
+  kind?: TxClassificationKind
+  /** Fee in satoshis as string, when paid by the wallet */
+  fee?: string
+  /** Every counterparty address, recipients of a send or senders of a receive */
+  counterparties?: string[]
+  /** Satoshis paid to (send) or by (receive) each counterparty address */
+  counterpartyAmounts?: Record<string, string>
+  /** Satoshis burned in OP_RETURN outputs, as string */
+  burned?: string
+  /** Protocol of the burn, for RANK votes and RNKC comments */
+  burnProtocol?: 'RANK' | 'RNKC'
+  /** Profile or post a RANK vote or RNKC comment is for */
+  burnTarget?: {
+    platform: string
+    profileId: string
+    postId?: string
+    sentiment?: string
+  }
+  /** Wallet accounts whose addresses the transaction spends or pays */
+  accounts?: (string | number)[]
+}
+
+/**
+ * How a transaction affects the wallet as a whole:
+ * - coinbase: block reward paid to the wallet
+ * - receive: paid to the wallet by others
+ * - send: paid by the wallet to others
+ * - burn: the wallet burned value in OP_RETURN outputs and paid no one else
+ * - internal: moved between the wallet's accounts
+ * - self: stayed within one account, such as a consolidation
+ * - external: does not touch the wallet
+ */
+export type TxClassificationKind =
+  | 'coinbase'
+  | 'receive'
+  | 'send'
+  | 'burn'
+  | 'internal'
+  | 'self'
+  | 'external'
+
+/**
+ * Transaction history entry as cached in IndexedDB
+ */
+export interface StoredTransaction extends TransactionHistoryItem {
+  /** Cache key: `<scope>_<txid>` */
+  id: string
+  /** Network and wallet the entry belongs to */
+  scope: string
+  /** Block or first-seen time in seconds, for ordering */
+  time: number
+  [key: string]: unknown // Index signature for IndexedDB compatibility
+}
+
+/**
+ * State of an outgoing transaction the wallet is watching until it confirms:
+ * - pending: in the mempool, or rebroadcast after being dropped
+ * - dropped: left the mempool and could not be rebroadcast
+ * - conflicted: another transaction spent one of its inputs
+ */
+export type PendingTxStatus = 'pending' | 'dropped' | 'conflicted'
+
+/**
+ * Outgoing transaction kept locally until it confirms, so it can be
+ * rebroadcast and checked for double spends
+ */
+export interface PendingTransaction {
+  txid: string
+  /** Signed transaction hex */
+  rawTx: string
+  /** Outpoints spent, as `txid_outIdx` */
+  inputs: string[]
+  network: NetworkType
+  status: PendingTxStatus
+  /** Unix timestamp (ms) of the first broadcast */
+  broadcastAt: number
+  /** Automatic rebroadcasts so far */
+  rebroadcasts: number
+  /** Transaction that spent an input instead, when conflicted */
+  conflictTxid?: string
+  /** Why the last rebroadcast failed */
+  error?: string
 }
 
 export interface WalletState {
@@ -115,6 +204,32 @@ export interface WalletState {
   utxos: Map<string, UtxoData>
 }
 
+/**
+ * Password-encrypted seed vault as persisted in storage
+ */
+export interface EncryptedVault {
+  /** Vault format version */
+  version: number
+  /** Key derivation function identifier */
+  kdf: 'pbkdf2-sha256'
+  /** PBKDF2 iteration count */
+  iterations: number
+  /** Base64 KDF salt */
+  salt: string
+  /** Base64 AES-GCM initialization vector */
+  iv: string
+  /** Base64 AES-GCM ciphertext (includes auth tag) */
+  ciphertext: string
+}
+
+/**
+ * Vault lifecycle status
+ * - 'setup': no password has been set yet (new or legacy plaintext wallet)
+ * - 'locked': an encrypted vault exists and must be unlocked with a password
+ * - 'unlocked': the seed is decrypted and keys are available in memory
+ */
+export type VaultStatus = 'setup' | 'locked' | 'unlocked'
+
 /**
  * Wallet configuration options
  */
@@ -8,12 +8,12 @@
 import { Address } from 'xpi-ts/lib/bitcore'
 import {
   LOTUS_PREFIX,
-  MAINNET_CHAR,
-  TESTNET_CHAR,
+  NETWORK_CHARS,
   DUST_THRESHOLD,
   MAX_RECIPIENTS,
   LOTUS_DECIMALS,
 } from './constants'
+import type { NetworkType } from './types/network'
 
 // ============================================================================
 // Types
@@ -38,11 +38,7 @@ export function isValidAddressString(address: string): boolean {
   if (address.length < 40 || address.length > 60) return false
 
   const networkChar = address.charAt(5)
-  if (networkChar !== MAINNET_CHAR && networkChar !== TESTNET_CHAR) {
-    return false
-  }
-
-  return true
+  return Object.values(NETWORK_CHARS).includes(networkChar)
 }
 
 /**
@@ -58,7 +54,7 @@ export function isValidAddress(address: string): boolean {
  */
 export function validateAddress(
   address: string,
-  expectedNetwork?: 'livenet' | 'testnet',
+  expectedNetwork?: NetworkType,
 ): ValidationResult {
   if (!address || typeof address !== 'string') {
     return { valid: false, error: 'Address is required' }
@@ -73,20 +69,19 @@ export function validateAddress(
   }
 
   const networkChar = address.charAt(5)
-  if (networkChar !== MAINNET_CHAR && networkChar !== TESTNET_CHAR) {
+  const network = (Object.keys(NETWORK_CHARS) as NetworkType[]).find(
+    name => NETWORK_CHARS[name] === networkChar,
+  )
+  if (!network) {
     return { valid: false, error: 'Invalid network character in address' }
   }
 
-  if (expectedNetwork) {
-    const expectedChar =
-      expectedNetwork === 'livenet' ? MAINNET_CHAR : TESTNET_CHAR
-    if (networkChar !== expectedChar) {
-      return {
-        valid: false,
-        error: `Address is for ${
-          networkChar === MAINNET_CHAR ? 'mainnet' : 'testnet'
-        }, expected ${expectedNetwork}`,
-      }
+  if (expectedNetwork && network !== expectedNetwork) {
+    return {
+      valid: false,
+      error: `Address is for ${
+        network === 'livenet' ? 'mainnet' : network
+      }, expected ${expectedNetwork}`,
     }
   }
 
@@ -98,7 +93,7 @@ export function validateAddress(
  */
 export function isAddressForNetwork(
   address: string,
-  network: 'livenet' | 'testnet',
+  network: NetworkType,
 ): boolean {
   if (!isValidAddressString(address)) return false
   if (Address.fromString(address).network.name !== network) return false
@@ -359,3 +354,19 @@ export function validatePublicKey(pubkey: string): ValidationResult {
 
   return { valid: true }
 }
+
+// ============================================================================
+// URL Validation
+// ============================================================================
+
+/**
+ * Check if a string is an http(s) URL
+ */
+export function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
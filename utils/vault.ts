@@ -0,0 +1,181 @@
+/**
+ * Seed Vault
+ *
+ * Password-based encryption for the wallet seed phrase using WebCrypto.
+ * A key is derived from the password with PBKDF2-SHA256 and the seed is
+ * sealed with AES-GCM. Only the sealed blob is ever written to storage.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Current vault format version */
+export const VAULT_VERSION = 1
+
+/** PBKDF2 iteration count (OWASP 2023 recommendation for SHA-256) */
+export const VAULT_KDF_ITERATIONS = 600_000
+
+/** Minimum accepted password length */
+export const MIN_PASSWORD_LENGTH = 8
+
+const SALT_BYTES = 16
+const IV_BYTES = 12
+
+// ============================================================================
+// Encoding helpers
+// ============================================================================
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary)
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+// ============================================================================
+// Key derivation
+// ============================================================================
+
+/**
+ * Derive a non-extractable AES-GCM key from a password and salt
+ */
+export async function deriveVaultKey(
+  password: string,
+  salt: BufferSource,
+  iterations: number = VAULT_KDF_ITERATIONS,
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  )
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+/**
+ * Generate a fresh random salt for key derivation
+ */
+export function generateVaultSalt(): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+}
+
+// ============================================================================
+// Seal / open
+// ============================================================================
+
+/**
+ * Encrypt a secret with an already-derived vault key.
+ * A fresh IV is generated for every call.
+ */
+export async function sealWithKey(
+  secret: string,
+  key: CryptoKey,
+  salt: Uint8Array,
+  iterations: number = VAULT_KDF_ITERATIONS,
+): Promise<EncryptedVault> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(secret),
+  )
+
+  return {
+    version: VAULT_VERSION,
+    kdf: 'pbkdf2-sha256',
+    iterations,
+    salt: bytesToBase64(salt),
+    iv: bytesToBase64(iv),
+    ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+  }
+}
+
+/**
+ * Decrypt a vault with an already-derived vault key.
+ * Throws if the key is wrong or the vault has been tampered with.
+ */
+export async function openWithKey(
+  vault: EncryptedVault,
+  key: CryptoKey,
+): Promise<string> {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(vault.iv) },
+      key,
+      base64ToBytes(vault.ciphertext),
+    )
+    return new TextDecoder().decode(plaintext)
+  } catch {
+    throw new Error('Incorrect password')
+  }
+}
+
+/**
+ * Derive the key for an existing vault from a password.
+ * Returns the key together with the decrypted secret so callers can
+ * keep the key in memory for subsequent re-encryption.
+ */
+export async function unlockVault(
+  vault: EncryptedVault,
+  password: string,
+): Promise<{
+  key: CryptoKey
+  salt: Uint8Array<ArrayBuffer>
+  secret: string
+}> {
+  if (vault.version !== VAULT_VERSION || vault.kdf !== 'pbkdf2-sha256') {
+    throw new Error(`Unsupported vault format (v${vault.version})`)
+  }
+
+  const salt = base64ToBytes(vault.salt)
+  const key = await deriveVaultKey(password, salt, vault.iterations)
+  const secret = await openWithKey(vault, key)
+  return { key, salt, secret }
+}
+
+/**
+ * Type guard for a persisted vault blob
+ */
+export function isEncryptedVault(value: unknown): value is EncryptedVault {
+  if (!value || typeof value !== 'object') return false
+  const v = value as Record<string, unknown>
+  return (
+    typeof v.version === 'number' &&
+    typeof v.salt === 'string' &&
+    typeof v.iv === 'string' &&
+    typeof v.ciphertext === 'string'
+  )
+}
+
+/**
+ * Validate a new vault password
+ */
+export function validatePassword(password: string): ValidationResult {
+  if (!password || password.length < MIN_PASSWORD_LENGTH) {
+    return {
+      valid: false,
+      error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+    }
+  }
+  return { valid: true }
+}
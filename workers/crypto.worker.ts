@@ -7,6 +7,13 @@
  * - HD key derivation
  * - Transaction signing (ECDSA and Schnorr)
  * - Message signing and verification
+ * - MuSig2 nonce generation and partial signing
+ *
+ * After UNLOCK_WALLET the worker holds the HD seed, derives addresses from
+ * it and signs with keys referenced by KeyHandle, so private keys never
+ * reach the main thread. The phrase only leaves again through
+ * EXPORT_MNEMONIC, for backups. MuSig2 secret nonces are likewise generated
+ * and consumed here.
  *
  * Access Pattern:
  * - Uses STATIC IMPORTS only (workers cannot access Nuxt plugins)
@@ -34,6 +41,13 @@ import {
   Message,
   Hash,
   BufferUtil,
+  Point,
+  Random,
+  buildMuSig2TaprootKey,
+  muSig2NonceGen,
+  muSig2NonceAgg,
+  signTaprootKeyPathWithMuSig2,
+  type MuSig2Nonce,
 } from 'xpi-ts/lib/bitcore'
 import type { NetworkName } from 'xpi-ts/lib/bitcore/networks'
 import type { AddressType } from '~/utils/types/wallet'
@@ -45,11 +59,27 @@ import type {
   TransactionSignedResponse,
   MessageSignedResponse,
   CryptoWorkerStatus,
+  UtxoForSigning,
+  KeyHandle,
+  MuSig2PublicNonce,
 } from '~/utils/types/crypto-worker'
 
 // This should be incremented when the worker's behavior or supported
 // operations change
-const WORKER_VERSION = '2.0.0'
+const WORKER_VERSION = '4.0.0'
+
+// Seed phrase and HD root key held between UNLOCK_WALLET and LOCK_WALLET
+let unlockedMnemonic: string | null = null
+let unlockedRoot: InstanceType<typeof HDPrivateKey> | null = null
+
+/**
+ * Secret nonces by MuSig2 session. Each entry is consumed by exactly one
+ * MUSIG2_PARTIAL_SIGN and is bound to the key and messages it was made for.
+ */
+const musig2Nonces = new Map<
+  string,
+  { keyPath: string; messages: string[]; nonces: MuSig2Nonce[] }
+>()
 
 // ============================================================================
 // Worker Initialization
@@ -64,11 +94,17 @@ const WORKER_VERSION = '2.0.0'
       supportedOperations: [
         'GENERATE_MNEMONIC',
         'VALIDATE_MNEMONIC',
+        'UNLOCK_WALLET',
+        'LOCK_WALLET',
+        'EXPORT_MNEMONIC',
         'DERIVE_KEYS',
         'DERIVE_P2TR_COMMITMENT',
         'SIGN_TRANSACTION',
         'SIGN_MESSAGE',
         'VERIFY_MESSAGE',
+        'MUSIG2_NONCE_GEN',
+        'MUSIG2_PARTIAL_SIGN',
+        'MUSIG2_DISCARD_NONCES',
         'HASH_DATA',
       ],
     }
@@ -108,6 +144,18 @@ self.onmessage = async (event: MessageEvent<CryptoWorkerRequest>) => {
         await handleValidateMnemonic(requestId, request.payload.mnemonic)
         break
 
+      case 'UNLOCK_WALLET':
+        await handleUnlockWallet(requestId, request.payload.mnemonic)
+        break
+
+      case 'LOCK_WALLET':
+        await handleLockWallet(requestId)
+        break
+
+      case 'EXPORT_MNEMONIC':
+        await handleExportMnemonic(requestId)
+        break
+
       case 'DERIVE_P2TR_COMMITMENT':
         await handleGenerateP2TRCommitment(
           requestId,
@@ -118,7 +166,6 @@ self.onmessage = async (event: MessageEvent<CryptoWorkerRequest>) => {
       case 'DERIVE_KEYS':
         await handleDeriveKeys(
           requestId,
-          request.payload.mnemonic,
           request.payload.addressType,
           request.payload.network,
           request.payload.accountIndex ?? 0,
@@ -132,10 +179,7 @@ self.onmessage = async (event: MessageEvent<CryptoWorkerRequest>) => {
           requestId,
           request.payload.txHex,
           request.payload.utxos,
-          request.payload.privateKey,
           request.payload.addressType,
-          request.payload.internalPubKeyHex,
-          request.payload.merkleRootHex,
         )
         break
 
@@ -143,7 +187,7 @@ self.onmessage = async (event: MessageEvent<CryptoWorkerRequest>) => {
         await handleSignMessage(
           requestId,
           request.payload.message,
-          request.payload.privateKey,
+          request.payload.key,
         )
         break
 
@@ -156,6 +200,31 @@ self.onmessage = async (event: MessageEvent<CryptoWorkerRequest>) => {
         )
         break
 
+      case 'MUSIG2_NONCE_GEN':
+        await handleMuSig2NonceGen(
+          requestId,
+          request.payload.sessionId,
+          request.payload.key,
+          request.payload.signers,
+          request.payload.messages,
+        )
+        break
+
+      case 'MUSIG2_PARTIAL_SIGN':
+        await handleMuSig2PartialSign(
+          requestId,
+          request.payload.sessionId,
+          request.payload.key,
+          request.payload.signers,
+          request.payload.messages,
+          request.payload.publicNonces,
+        )
+        break
+
+      case 'MUSIG2_DISCARD_NONCES':
+        await handleMuSig2DiscardNonces(requestId, request.payload.sessionId)
+        break
+
       case 'HASH_DATA':
         await handleHashData(
           requestId,
@@ -237,9 +306,11 @@ async function handleValidateMnemonic(
   self.postMessage(response)
 }
 
+/**
+ * Derive an address of the unlocked wallet and its account xpub.
+ */
 async function handleDeriveKeys(
   requestId: string,
-  mnemonicPhrase: string,
   addressType: AddressType,
   networkName: NetworkName,
   accountIndex: number = 0,
@@ -250,20 +321,21 @@ async function handleDeriveKeys(
   if (!network) {
     throw new Error(`Unknown network: ${networkName}`)
   }
-  const mnemonic = new Mnemonic(mnemonicPhrase)
-  const hdPrivkey = HDPrivateKey.fromSeed(mnemonic.toSeed())
+  if (!unlockedRoot) {
+    throw new Error('Wallet is locked')
+  }
 
   // Build BIP44 derivation path: m/44'/10605'/account'/change/addressIndex
   const change = isChange ? 1 : 0
   const derivationPath = `m/${BIP44_PURPOSE}'/${BIP44_COINTYPE}'/${accountIndex}'/${change}/${addressIndex}`
 
   // Derive signing key using full BIP44 path with parameters
-  const signingKey = hdPrivkey
+  const accountKey = unlockedRoot
     .deriveChild(BIP44_PURPOSE, true)
     .deriveChild(BIP44_COINTYPE, true)
     .deriveChild(accountIndex, true)
-    .deriveChild(change)
-    .deriveChild(addressIndex).privateKey
+  const signingKey = accountKey.deriveChild(change).deriveChild(addressIndex)
+    .privateKey
 
   let address: InstanceType<typeof Address>
   let script: InstanceType<typeof Script>
@@ -289,13 +361,13 @@ async function handleDeriveKeys(
     address: address.toXAddress(network),
     scriptPayload: script.getData().toString('hex'),
     publicKeyHex: signingKey.publicKey.toString(),
-    privateKeyHex: signingKey.toString(),
     internalPubKeyHex,
     merkleRootHex,
     derivationPath,
     accountIndex,
     addressIndex,
     isChange,
+    accountXpub: accountKey.hdPublicKey.toString(),
   }
 
   const response: CryptoWorkerResponse = {
@@ -307,12 +379,109 @@ async function handleDeriveKeys(
 }
 
 /**
- * Sign a transaction with the provided private key.
+ * Keep the HD root derived from a mnemonic for later key-handle signing.
+ *
+ * @param requestId - Unique identifier for correlating request/response
+ * @param mnemonicPhrase - The wallet's seed phrase
+ */
+async function handleUnlockWallet(
+  requestId: string,
+  mnemonicPhrase: string,
+): Promise<void> {
+  unlockedRoot = HDPrivateKey.fromSeed(new Mnemonic(mnemonicPhrase).toSeed())
+  unlockedMnemonic = mnemonicPhrase
+
+  const response: CryptoWorkerResponse = {
+    type: 'WALLET_LOCK_STATE',
+    payload: { unlocked: true },
+    requestId,
+  }
+  self.postMessage(response)
+}
+
+/**
+ * Drop the HD root and any MuSig2 secret nonces. Key handles cannot be
+ * used until the next unlock.
+ *
+ * @param requestId - Unique identifier for correlating request/response
+ */
+async function handleLockWallet(requestId: string): Promise<void> {
+  unlockedRoot = null
+  unlockedMnemonic = null
+  musig2Nonces.clear()
+
+  const response: CryptoWorkerResponse = {
+    type: 'WALLET_LOCK_STATE',
+    payload: { unlocked: false },
+    requestId,
+  }
+  self.postMessage(response)
+}
+
+/**
+ * Return the unlocked seed phrase, for backing it up or sealing it in the
+ * vault.
+ *
+ * @param requestId - Unique identifier for correlating request/response
+ */
+async function handleExportMnemonic(requestId: string): Promise<void> {
+  if (!unlockedMnemonic) {
+    throw new Error('Wallet is locked')
+  }
+
+  const response: CryptoWorkerResponse = {
+    type: 'MNEMONIC_EXPORTED',
+    payload: { mnemonic: unlockedMnemonic },
+    requestId,
+  }
+  self.postMessage(response)
+}
+
+/**
+ * Resolve a key handle to a private key using the unlocked HD root.
+ * The path must belong to the handle's account in this wallet's BIP44 tree.
+ */
+function resolveKeyHandle(handle: KeyHandle): InstanceType<typeof PrivateKey> {
+  if (!unlockedRoot) {
+    throw new Error('Wallet is locked')
+  }
+  const accountRoot = `m/${BIP44_PURPOSE}'/${BIP44_COINTYPE}'/${handle.account}'/`
+  if (!handle.path.startsWith(accountRoot)) {
+    throw new Error(
+      `Key path ${handle.path} is outside account ${handle.account}`,
+    )
+  }
+  return unlockedRoot.deriveChild(handle.path).privateKey
+}
+
+/**
+ * Resolve the signing key for each input from the key handle attached to
+ * its UTXO, so a transaction can spend from many wallet addresses.
+ */
+function resolveInputKeys(
+  utxos: UtxoForSigning[],
+): InstanceType<typeof PrivateKey>[] {
+  const keysByPath = new Map<string, InstanceType<typeof PrivateKey>>()
+  return utxos.map(utxo => {
+    if (!utxo.key) {
+      throw new Error(`No signing key for input ${utxo.outpoint}`)
+    }
+    let key = keysByPath.get(utxo.key.path)
+    if (!key) {
+      key = resolveKeyHandle(utxo.key)
+      keysByPath.set(utxo.key.path, key)
+    }
+    return key
+  })
+}
+
+/**
+ * Sign a transaction with per-input keys resolved from key handles.
  * Supports both legacy (P2PKH) and Taproot (P2TR) address types.
  *
  * For P2PKH inputs, standard ECDSA signatures are generated.
- * For Taproot inputs, Schnorr signatures are used with key-path spending,
- * requiring the internal public key and merkle root for proper tweak computation.
+ * For Taproot inputs, Schnorr signatures are used with key-path spending;
+ * each derived key commits to its own key-path-only output.
  *
  * The transaction is rebuilt from the hex representation to ensure proper
  * input types are created via tx.from(), which is necessary for the signing
@@ -324,19 +493,14 @@ async function handleDeriveKeys(
  *   - outpoint: Transaction ID and output index as "txid_vout"
  *   - satoshis: Value of the UTXO in satoshis
  *   - scriptHex: Locking script of the UTXO as hex
- * @param privateKeyStr - Private key as hex string for signing
+ *   - key: Handle of the owning key
  * @param addressType - Type of address ('p2pkh' or 'p2tr-commitment')
- * @param internalPubKeyHex - Internal public key hex for Taproot signing (required for p2tr-commitment)
- * @param merkleRootHex - Merkle root hex for Taproot script tree (required for p2tr-commitment, typically all zeros for key-path-only)
  */
 async function handleSignTransaction(
   requestId: string,
   txHex: string,
-  utxos: Array<{ outpoint: string; satoshis: number; scriptHex: string }>,
-  privateKeyStr: string,
+  utxos: UtxoForSigning[],
   addressType: AddressType,
-  internalPubKeyHex?: string,
-  merkleRootHex?: string,
 ): Promise<void> {
   // Deserialize the transaction to get outputs and locktime
   const deserializedTx = new Transaction(txHex)
@@ -346,16 +510,11 @@ async function handleSignTransaction(
   tx.version = deserializedTx.version
   tx.nLockTime = deserializedTx.nLockTime
 
-  // Reconstruct Taproot metadata if provided
-  const internalPubKey = internalPubKeyHex
-    ? new PublicKey(internalPubKeyHex)
-    : undefined
-  const merkleRoot = merkleRootHex
-    ? BufferUtil.from(merkleRootHex, 'hex')
-    : undefined
+  const inputKeys = resolveInputKeys(utxos)
+  const isTaproot = addressType === 'p2tr-commitment'
 
   // Add inputs using tx.from() which creates the correct input type (TaprootInput, etc.)
-  for (const utxo of utxos) {
+  utxos.forEach((utxo, i) => {
     const [txid, voutStr] = utxo.outpoint.split('_')
     const vout = parseInt(voutStr, 10)
 
@@ -364,22 +523,24 @@ async function handleSignTransaction(
       outputIndex: vout,
       script: Script.fromBuffer(BufferUtil.from(utxo.scriptHex, 'hex')),
       satoshis: utxo.satoshis,
-      internalPubKey,
-      merkleRoot,
+      // Derived keys each commit to their own key-path-only Taproot output
+      internalPubKey: isTaproot ? inputKeys[i].publicKey : undefined,
+      merkleRoot: isTaproot ? BufferUtil.alloc(32) : undefined,
     })
-  }
+  })
 
   // Copy outputs from deserialized transaction
   for (const output of deserializedTx.outputs) {
     tx.addOutput(output)
   }
 
-  const privateKey = new PrivateKey(privateKeyStr)
+  // Each key signs the inputs whose output it controls
+  const signingKeys = [...new Set(inputKeys)]
 
-  if (addressType === 'p2tr-commitment') {
-    tx.signSchnorr(privateKey)
+  if (isTaproot) {
+    tx.signSchnorr(signingKeys)
   } else {
-    tx.sign(privateKey)
+    tx.sign(signingKeys)
   }
 
   const payload: TransactionSignedResponse['payload'] = {
@@ -396,21 +557,20 @@ async function handleSignTransaction(
 }
 
 /**
- * Sign a message using a private key.
+ * Sign a message with a key handle.
  * Uses the Bitcoin message signing standard (BIP-137 compatible).
  *
  * @param requestId - Unique identifier for correlating request/response
  * @param messageText - The message to sign
- * @param privateKeyStr - Private key as hex string or WIF format
+ * @param keyHandle - Key held by the worker
  */
 async function handleSignMessage(
   requestId: string,
   messageText: string,
-  privateKeyStr: string,
+  keyHandle: KeyHandle,
 ): Promise<void> {
   const message = new Message(messageText)
-  const privateKey = new PrivateKey(privateKeyStr)
-  const signature = message.sign(privateKey)
+  const signature = message.sign(resolveKeyHandle(keyHandle))
 
   const payload: MessageSignedResponse['payload'] = { signature }
 
@@ -422,6 +582,166 @@ async function handleSignMessage(
   self.postMessage(response)
 }
 
+/**
+ * Generate fresh MuSig2 nonces for every input of a signing session.
+ * The secret halves stay in the worker; only the public nonces are returned.
+ *
+ * @param requestId - Unique identifier for correlating request/response
+ * @param sessionId - Signing session the nonces belong to
+ * @param keyHandle - This participant's key
+ * @param signers - Compressed public keys of all signers (hex)
+ * @param messages - Sighash of each input (hex)
+ */
+async function handleMuSig2NonceGen(
+  requestId: string,
+  sessionId: string,
+  keyHandle: KeyHandle,
+  signers: string[],
+  messages: string[],
+): Promise<void> {
+  if (musig2Nonces.has(sessionId)) {
+    throw new Error(`Nonces already generated for session ${sessionId}`)
+  }
+
+  const privateKey = resolveKeyHandle(keyHandle)
+  const { keyAggContext } = buildMuSig2TaprootKey(
+    signers.map(hex => new PublicKey(hex)),
+  )
+
+  const nonces = messages.map(messageHex =>
+    muSig2NonceGen(
+      privateKey,
+      keyAggContext.aggregatedPubKey,
+      BufferUtil.from(messageHex, 'hex'),
+      Random.getRandomBuffer(32),
+    ),
+  )
+  musig2Nonces.set(sessionId, {
+    keyPath: keyHandle.path,
+    messages: [...messages],
+    nonces,
+  })
+
+  const publicNonces = nonces.map(
+    nonce =>
+      nonce.publicNonces.map(point =>
+        Point.pointToCompressed(point).toString('hex'),
+      ) as MuSig2PublicNonce,
+  )
+
+  const response: CryptoWorkerResponse = {
+    type: 'MUSIG2_NONCES_GENERATED',
+    payload: { publicNonces },
+    requestId,
+  }
+  self.postMessage(response)
+}
+
+/**
+ * Produce this participant's Taproot key-path partial signature for every
+ * input, consuming the session's secret nonces so they can never be reused.
+ *
+ * @param requestId - Unique identifier for correlating request/response
+ * @param sessionId - Signing session whose nonces are used
+ * @param keyHandle - This participant's key (must match nonce generation)
+ * @param signers - Compressed public keys of all signers (hex)
+ * @param messages - Sighash of each input (must match nonce generation)
+ * @param publicNonces - Per input, all signers' nonces in key aggregation order
+ */
+async function handleMuSig2PartialSign(
+  requestId: string,
+  sessionId: string,
+  keyHandle: KeyHandle,
+  signers: string[],
+  messages: string[],
+  publicNonces: MuSig2PublicNonce[][],
+): Promise<void> {
+  const entry = musig2Nonces.get(sessionId)
+  if (!entry) {
+    throw new Error(`No nonces for session ${sessionId}`)
+  }
+  // One attempt per nonce set, whatever the outcome
+  musig2Nonces.delete(sessionId)
+
+  if (entry.keyPath !== keyHandle.path) {
+    throw new Error('Signing key does not match the session nonces')
+  }
+  if (
+    messages.length !== entry.messages.length ||
+    messages.some((message, i) => message !== entry.messages[i])
+  ) {
+    throw new Error('Messages do not match the session nonces')
+  }
+  if (publicNonces.length !== messages.length) {
+    throw new Error('Expected one nonce set per input')
+  }
+
+  const privateKey = resolveKeyHandle(keyHandle)
+  const { keyAggContext, tweak } = buildMuSig2TaprootKey(
+    signers.map(hex => new PublicKey(hex)),
+  )
+  const myPublicKey = privateKey.publicKey.toString()
+  const signerIndex = keyAggContext.pubkeys.findIndex(
+    pubkey => pubkey.toString() === myPublicKey,
+  )
+  if (signerIndex === -1) {
+    throw new Error('Key is not a signer in this session')
+  }
+
+  const partialSigs = messages.map((messageHex, i) => {
+    const inputNonces = publicNonces[i].map(
+      pair =>
+        pair.map(hex => new PublicKey(hex).point) as [
+          InstanceType<typeof Point>,
+          InstanceType<typeof Point>,
+        ],
+    )
+    const own = entry.nonces[i].publicNonces
+    const shared = inputNonces[signerIndex]
+    if (!shared || !own[0].eq(shared[0]) || !own[1].eq(shared[1])) {
+      throw new Error(`Own nonce missing or altered for input ${i}`)
+    }
+
+    const partialSig = signTaprootKeyPathWithMuSig2(
+      entry.nonces[i],
+      privateKey,
+      keyAggContext,
+      signerIndex,
+      muSig2NonceAgg(inputNonces),
+      BufferUtil.from(messageHex, 'hex'),
+      tweak,
+    )
+    return partialSig.toBuffer({ size: 32 }).toString('hex')
+  })
+
+  const response: CryptoWorkerResponse = {
+    type: 'MUSIG2_PARTIAL_SIGNED',
+    payload: { partialSigs },
+    requestId,
+  }
+  self.postMessage(response)
+}
+
+/**
+ * Forget the secret nonces of an aborted or cancelled session.
+ *
+ * @param requestId - Unique identifier for correlating request/response
+ * @param sessionId - Signing session to discard
+ */
+async function handleMuSig2DiscardNonces(
+  requestId: string,
+  sessionId: string,
+): Promise<void> {
+  const discarded = musig2Nonces.delete(sessionId)
+
+  const response: CryptoWorkerResponse = {
+    type: 'MUSIG2_NONCES_DISCARDED',
+    payload: { discarded },
+    requestId,
+  }
+  self.postMessage(response)
+}
+
 /**
  * Verify a signed message against an address.
  * Uses the Bitcoin message signing standard (BIP-137 compatible).